@@ -32,6 +32,7 @@ import NetworkBadge from "./components/NetBadge";
 import PositionGallery, { Position } from "./components/PositionGallery";
 import AgentStream from "./components/AgentStream";
 import BlockchainState from "./components/BlockchainState";
+import ApprovalsPanel from "./components/ApprovalsPanel";
 
 // Custom sultry dark theme for Clawmasutra
 const theme = extendTheme({
@@ -293,6 +294,7 @@ function App() {
                 )}
               </Tab>
               <Tab>Blockchain</Tab>
+              <Tab>Approvals</Tab>
               <Tab>Philosophy</Tab>
             </TabList>
 
@@ -312,6 +314,11 @@ function App() {
                 <BlockchainState sessionId={activeSession || undefined} />
               </TabPanel>
 
+              {/* Approvals Tab */}
+              <TabPanel>
+                <ApprovalsPanel sessionId={activeSession || undefined} />
+              </TabPanel>
+
               {/* Philosophy Tab */}
               <TabPanel>
                 <VStack
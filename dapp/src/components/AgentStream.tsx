@@ -16,17 +16,10 @@ import {
 } from "@chakra-ui/react";
 import { ChevronDownIcon, ChevronUpIcon } from "@chakra-ui/icons";
 import React, { useState, useEffect, useRef, useCallback } from "react";
+import type { ClientMessage, GalleryEvent, GalleryEventType, ServerMessage } from "@clawmasutra/gallery-core";
+import { withGalleryToken } from "../utils/galleryAuth";
 
-interface GalleryEvent {
-  id: string;
-  timestamp: string;
-  type: "agent_message" | "agent_action" | "blockchain_tx" | "position_update" | "system";
-  sessionId: string;
-  agentId?: string;
-  data: Record<string, unknown>;
-}
-
-const eventTypeConfig: Record<string, { color: string; emoji: string; label: string }> = {
+const eventTypeConfig: Record<GalleryEventType, { color: string; emoji: string; label: string }> = {
   agent_message: { color: "blue", emoji: "💬", label: "Message" },
   agent_action: { color: "purple", emoji: "⚡", label: "Action" },
   blockchain_tx: { color: "green", emoji: "🔗", label: "Transaction" },
@@ -129,6 +122,7 @@ interface AgentStreamProps {
 const DEMO_EVENTS: GalleryEvent[] = [
   {
     id: "demo-001",
+    seq: 3,
     timestamp: new Date().toISOString(),
     type: "system",
     sessionId: "demo",
@@ -136,6 +130,7 @@ const DEMO_EVENTS: GalleryEvent[] = [
   },
   {
     id: "demo-002",
+    seq: 2,
     timestamp: new Date(Date.now() - 5000).toISOString(),
     type: "position_update",
     sessionId: "demo",
@@ -143,6 +138,7 @@ const DEMO_EVENTS: GalleryEvent[] = [
   },
   {
     id: "demo-003",
+    seq: 1,
     timestamp: new Date(Date.now() - 10000).toISOString(),
     type: "agent_message",
     sessionId: "demo",
@@ -156,6 +152,11 @@ type ConnectionState = "disconnected" | "connecting" | "connected" | "error" | "
 // Use environment variable for production WebSocket URL, fallback to localhost
 const DEFAULT_WS_URL = import.meta.env.VITE_GALLERY_WS_URL || "ws://localhost:3001";
 
+// Mobile connections often die without a close event: ping the server and
+// drop the socket once it has been silent for too long
+const PING_INTERVAL_MS = 20000;
+const SILENCE_TIMEOUT_MS = 45000;
+
 export function AgentStream({
   sessionId,
   maxEvents = 100,
@@ -168,37 +169,104 @@ export function AgentStream({
   const wsRef = useRef<WebSocket | null>(null);
   const streamRef = useRef<HTMLDivElement>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const heartbeatRef = useRef<NodeJS.Timeout | null>(null);
+  // Newest event seen, so a reconnect resumes where the stream left off
+  const lastSeqRef = useRef<number | null>(null);
+  // Bumped by every connect and disconnect, so a connect still fetching its
+  // viewer token knows when it has been superseded
+  const generationRef = useRef(0);
+
+  const stopHeartbeat = () => {
+    if (heartbeatRef.current) {
+      clearInterval(heartbeatRef.current);
+      heartbeatRef.current = null;
+    }
+  };
 
-  const connect = useCallback(() => {
+  const connect = useCallback(async () => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       return;
     }
+    const generation = ++generationRef.current;
 
     setConnectionState("connecting");
     setErrorMessage(null);
 
     try {
-      const url = sessionId ? `${wsUrl}?session=${sessionId}` : wsUrl;
+      const params = new URLSearchParams();
+      if (sessionId) params.set("session", sessionId);
+      if (lastSeqRef.current !== null) params.set("resumeFrom", String(lastSeqRef.current));
+      const url = await withGalleryToken(wsUrl, params);
+      if (generation !== generationRef.current) {
+        return; // Disconnected or connecting again meanwhile
+      }
       const ws = new WebSocket(url);
+      let lastHeardAt = Date.now();
+
+      const scheduleReconnect = () => {
+        if (generation !== generationRef.current) {
+          return; // Closed by disconnect
+        }
+        stopHeartbeat();
+        setConnectionState("disconnected");
+        wsRef.current = null;
+
+        // Auto-reconnect after 5 seconds
+        if (reconnectTimeoutRef.current) {
+          clearTimeout(reconnectTimeoutRef.current);
+        }
+        reconnectTimeoutRef.current = setTimeout(() => {
+          console.log("Attempting to reconnect...");
+          connect();
+        }, 5000);
+      };
 
       ws.onopen = () => {
         setConnectionState("connected");
         setErrorMessage(null);
+
+        stopHeartbeat();
+        heartbeatRef.current = setInterval(() => {
+          if (Date.now() - lastHeardAt > SILENCE_TIMEOUT_MS) {
+            // A dead connection may never fire onclose, so don't wait for it
+            console.log("Gallery stream went silent, reconnecting");
+            ws.onclose = null;
+            ws.close();
+            scheduleReconnect();
+            return;
+          }
+          const ping: ClientMessage = { type: "ping" };
+          ws.send(JSON.stringify(ping));
+        }, PING_INTERVAL_MS);
       };
 
       ws.onmessage = (event) => {
+        lastHeardAt = Date.now();
         try {
-          const msg = JSON.parse(event.data);
+          const msg: ServerMessage = JSON.parse(event.data);
 
           if (msg.type === "connected") {
             console.log("Connected to gallery stream:", msg.subscriptionId);
+            if (lastSeqRef.current === null || msg.lastSeq < lastSeqRef.current) {
+              // First connection, or the server restarted without its log
+              lastSeqRef.current = msg.lastSeq;
+            }
+            if (msg.resumed && !msg.resumed.complete) {
+              console.warn(`Resumed after #${msg.resumed.from}, but some earlier events are no longer available`);
+            }
           } else if (msg.type === "event") {
+            if (lastSeqRef.current !== null && msg.event.seq <= lastSeqRef.current) {
+              return; // Already shown
+            }
+            lastSeqRef.current = msg.event.seq;
             setEvents((prev) => {
               const newEvents = [msg.event, ...prev].slice(0, maxEvents);
               return newEvents;
             });
           } else if (msg.type === "filterUpdated") {
             console.log("Filter updated:", msg.sessionFilter);
+          } else if (msg.type === "error") {
+            setErrorMessage(msg.error);
           }
         } catch (e) {
           console.error("Failed to parse WebSocket message:", e);
@@ -210,28 +278,21 @@ export function AgentStream({
         setErrorMessage("WebSocket connection error");
       };
 
-      ws.onclose = () => {
-        setConnectionState("disconnected");
-        wsRef.current = null;
-
-        // Auto-reconnect after 5 seconds
-        if (reconnectTimeoutRef.current) {
-          clearTimeout(reconnectTimeoutRef.current);
-        }
-        reconnectTimeoutRef.current = setTimeout(() => {
-          console.log("Attempting to reconnect...");
-          connect();
-        }, 5000);
-      };
+      ws.onclose = scheduleReconnect;
 
       wsRef.current = ws;
     } catch (e) {
+      if (generation !== generationRef.current) {
+        return;
+      }
       setConnectionState("error");
       setErrorMessage(e instanceof Error ? e.message : "Connection failed");
     }
   }, [wsUrl, sessionId, maxEvents]);
 
   const disconnect = useCallback(() => {
+    generationRef.current++;
+    stopHeartbeat();
     if (reconnectTimeoutRef.current) {
       clearTimeout(reconnectTimeoutRef.current);
       reconnectTimeoutRef.current = null;
@@ -263,10 +324,8 @@ export function AgentStream({
   // Update session filter if connected
   useEffect(() => {
     if (wsRef.current?.readyState === WebSocket.OPEN && sessionId !== undefined) {
-      wsRef.current.send(JSON.stringify({
-        type: "setFilter",
-        sessionId,
-      }));
+      const message: ClientMessage = { type: "setFilter", sessionId };
+      wsRef.current.send(JSON.stringify(message));
     }
   }, [sessionId]);
 
@@ -0,0 +1,263 @@
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Badge,
+  Button,
+  Input,
+  Code,
+  Alert,
+  AlertIcon,
+  AlertDescription,
+  useToast,
+} from "@chakra-ui/react";
+import React, { useState, useEffect, useRef, useCallback } from "react";
+import type { ClientMessage, ServerMessage } from "@clawmasutra/gallery-core";
+import { withGalleryToken } from "../utils/galleryAuth";
+
+// Gated agent call as mirrored by the MCP server's blockchain_tx events
+interface ApprovalItem {
+  approvalId: string;
+  sessionId: string;
+  agentId?: string;
+  status: string;
+  tool: string;
+  role?: string;
+  to?: string;
+  amount?: string;
+  jetton?: string; // master address of a jetton transfer
+  decimals?: number;
+  amountUnits?: string; // jetton base units, exactly what would move
+  comment?: string;
+  reason?: string;
+  resolvedBy?: string;
+  updatedAt: string;
+}
+
+const statusColors: Record<string, string> = {
+  pending_approval: "yellow",
+  approved: "blue",
+  executed: "green",
+  rejected: "red",
+  expired: "gray",
+  failed: "red",
+};
+
+interface ApprovalsPanelProps {
+  sessionId?: string;
+  wsUrl?: string;
+}
+
+const DEFAULT_WS_URL = import.meta.env.VITE_GALLERY_WS_URL || "ws://localhost:3001";
+
+export function ApprovalsPanel({ sessionId, wsUrl = DEFAULT_WS_URL }: ApprovalsPanelProps) {
+  const [approvals, setApprovals] = useState<Map<string, ApprovalItem>>(new Map());
+  const [connected, setConnected] = useState(false);
+  const [token, setToken] = useState("");
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const wsRef = useRef<WebSocket | null>(null);
+  // Bumped by every connect and on unmount, so a connect still fetching its
+  // viewer token knows when it has been superseded
+  const generationRef = useRef(0);
+  const toast = useToast();
+
+  const connect = useCallback(async () => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      return;
+    }
+    const generation = ++generationRef.current;
+
+    // Approvals only arrive as blockchain_tx events; skip the agent chatter
+    const params = new URLSearchParams({ type: "blockchain_tx" });
+    if (sessionId) params.set("session", sessionId);
+    let ws: WebSocket;
+    try {
+      const url = await withGalleryToken(wsUrl, params);
+      if (generation !== generationRef.current) {
+        return; // Unmounted or connecting again meanwhile
+      }
+      ws = new WebSocket(url);
+    } catch (e) {
+      if (generation === generationRef.current) {
+        toast({ status: "error", title: "Could not connect", description: e instanceof Error ? e.message : String(e) });
+      }
+      return;
+    }
+
+    ws.onopen = () => setConnected(true);
+    ws.onclose = () => {
+      setConnected(false);
+      wsRef.current = null;
+    };
+    ws.onerror = () => setConnected(false);
+
+    ws.onmessage = (event) => {
+      try {
+        const msg: ServerMessage = JSON.parse(event.data);
+
+        if (msg.type === "event" && msg.event.type === "blockchain_tx" && msg.event.data.approvalId) {
+          const data = msg.event.data as Record<string, unknown>;
+          setApprovals((prev) => {
+            const next = new Map(prev);
+            next.set(String(data.approvalId), {
+              approvalId: String(data.approvalId),
+              sessionId: msg.event.sessionId,
+              agentId: msg.event.agentId,
+              status: String(data.status),
+              tool: String(data.tool),
+              role: data.role as string | undefined,
+              to: data.to as string | undefined,
+              amount: data.amount as string | undefined,
+              jetton: data.jetton as string | undefined,
+              decimals: data.decimals as number | undefined,
+              amountUnits: data.amountUnits as string | undefined,
+              comment: data.comment as string | undefined,
+              reason: data.reason as string | undefined,
+              resolvedBy: data.resolvedBy as string | undefined,
+              updatedAt: msg.event.timestamp,
+            });
+            return next;
+          });
+        } else if (msg.type === "approvalResult" && !msg.success) {
+          toast({ status: "error", title: "Approval failed", description: msg.error });
+        }
+      } catch (e) {
+        console.error("Failed to parse WebSocket message:", e);
+      }
+    };
+
+    wsRef.current = ws;
+  }, [wsUrl, sessionId, toast]);
+
+  useEffect(() => {
+    return () => {
+      generationRef.current++;
+      wsRef.current?.close();
+    };
+  }, []);
+
+  const decide = (approvalId: string, action: "approve" | "reject") => {
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
+      toast({ status: "warning", title: "Not connected to the MCP server" });
+      return;
+    }
+    const message: ClientMessage = {
+      type: "approval",
+      action,
+      approvalId,
+      token,
+      reason: action === "reject" ? reasons[approvalId] || undefined : undefined,
+      approver: "dapp",
+    };
+    wsRef.current.send(JSON.stringify(message));
+  };
+
+  const items = Array.from(approvals.values()).sort((a, b) => {
+    if (a.status === "pending_approval" && b.status !== "pending_approval") return -1;
+    if (b.status === "pending_approval" && a.status !== "pending_approval") return 1;
+    return b.updatedAt.localeCompare(a.updatedAt);
+  });
+  const pendingCount = items.filter((item) => item.status === "pending_approval").length;
+
+  return (
+    <Box>
+      <HStack justify="space-between" mb={4}>
+        <HStack>
+          <Text fontWeight="bold" color="pink.200">Approvals</Text>
+          {pendingCount > 0 && (
+            <Badge colorScheme="yellow" variant="subtle">{pendingCount} pending</Badge>
+          )}
+        </HStack>
+        <HStack>
+          <Input
+            size="xs"
+            type="password"
+            placeholder="Approval token"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            maxW="180px"
+          />
+          {connected ? (
+            <Badge colorScheme="green" variant="subtle">Live</Badge>
+          ) : (
+            <Button size="xs" onClick={connect}>Connect</Button>
+          )}
+        </HStack>
+      </HStack>
+
+      <Alert status="info" mb={4} borderRadius="md" bg="rgba(72, 153, 236, 0.1)">
+        <AlertIcon />
+        <AlertDescription fontSize="sm">
+          Every agent-initiated transfer waits here for a human decision. The token must match the
+          server's GALLERY_APPROVAL_TOKEN.
+        </AlertDescription>
+      </Alert>
+
+      {items.length === 0 ? (
+        <Text fontSize="sm" color="gray.500">No gated calls yet.</Text>
+      ) : (
+        <VStack spacing={3} align="stretch">
+          {items.map((item) => (
+            <Box
+              key={item.approvalId}
+              bg="rgba(30, 15, 25, 0.7)"
+              borderWidth="1px"
+              borderColor="rgba(236, 72, 153, 0.2)"
+              borderRadius="md"
+              p={3}
+            >
+              <HStack justify="space-between" mb={2}>
+                <HStack>
+                  <Badge colorScheme={statusColors[item.status] || "gray"}>{item.status}</Badge>
+                  <Code fontSize="xs">{item.tool}</Code>
+                  {item.role && <Badge variant="outline" colorScheme="cyan">{item.role}</Badge>}
+                </HStack>
+                <Text fontSize="xs" color="gray.500">{item.sessionId}</Text>
+              </HStack>
+
+              {item.jetton ? (
+                <>
+                  <Text fontSize="sm" color="gray.300">
+                    {item.amount ?? "?"} of <Code fontSize="xs">{item.jetton}</Code> → <Code fontSize="xs">{item.to ?? "unknown"}</Code>
+                  </Text>
+                  <Text fontSize="xs" color={item.amountUnits ? "gray.400" : "orange.300"}>
+                    {item.amountUnits
+                      ? `${item.amountUnits} base units (${item.decimals} decimals)`
+                      : "Decimals unknown: check the amount before approving"}
+                  </Text>
+                </>
+              ) : (
+                <Text fontSize="sm" color="gray.300">
+                  {item.amount ?? "?"} TON → <Code fontSize="xs">{item.to ?? "unknown"}</Code>
+                </Text>
+              )}
+              {item.comment && <Text fontSize="xs" color="gray.400">"{item.comment}"</Text>}
+              {item.reason && <Text fontSize="xs" color="red.300">{item.reason}</Text>}
+              {item.resolvedBy && <Text fontSize="xs" color="gray.500">by {item.resolvedBy}</Text>}
+
+              {item.status === "pending_approval" && (
+                <HStack mt={3}>
+                  <Button size="xs" colorScheme="green" onClick={() => decide(item.approvalId, "approve")}>
+                    Approve
+                  </Button>
+                  <Input
+                    size="xs"
+                    placeholder="Reason (optional)"
+                    value={reasons[item.approvalId] || ""}
+                    onChange={(e) => setReasons((prev) => ({ ...prev, [item.approvalId]: e.target.value }))}
+                  />
+                  <Button size="xs" colorScheme="red" variant="outline" onClick={() => decide(item.approvalId, "reject")}>
+                    Reject
+                  </Button>
+                </HStack>
+              )}
+            </Box>
+          ))}
+        </VStack>
+      )}
+    </Box>
+  );
+}
+
+export default ApprovalsPanel;
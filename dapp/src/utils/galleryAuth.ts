@@ -0,0 +1,66 @@
+// Gallery Viewer Tokens
+
+import { getTelegramWebApp } from './telegram';
+
+interface CachedToken {
+  token: string;
+  expiresAt: number; // ms
+}
+
+// Refresh a little before the server would reject the token
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+const cache = new Map<string, CachedToken>();
+
+/**
+ * Viewer token for a gallery server: a configured token, or one minted by
+ * the server from the Telegram initData when running as a Mini App.
+ * Undefined when neither is available (servers without auth accept that).
+ */
+export const getGalleryToken = async (wsUrl: string): Promise<string | undefined> => {
+  const configured = import.meta.env.VITE_GALLERY_VIEWER_TOKEN;
+  if (configured) {
+    return configured;
+  }
+
+  const initData = getTelegramWebApp()?.initData;
+  if (!initData) {
+    return undefined;
+  }
+
+  const cached = cache.get(wsUrl);
+  if (cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+    return cached.token;
+  }
+
+  try {
+    const httpUrl = wsUrl.replace(/^ws(s?):\/\//, 'http$1://').replace(/\/+$/, '');
+    const response = await fetch(`${httpUrl}/auth/telegram`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ initData }),
+    });
+    if (!response.ok) {
+      console.warn('Gallery rejected Telegram sign-in:', response.status);
+      return undefined;
+    }
+    const { token, expiresAt } = await response.json();
+    cache.set(wsUrl, { token, expiresAt: Date.parse(expiresAt) });
+    return token;
+  } catch (error) {
+    console.warn('Gallery Telegram sign-in failed:', error);
+    return undefined;
+  }
+};
+
+/**
+ * Add the viewer token to a gallery WebSocket URL's query parameters
+ */
+export const withGalleryToken = async (wsUrl: string, params: URLSearchParams): Promise<string> => {
+  const token = await getGalleryToken(wsUrl);
+  if (token) {
+    params.set('token', token);
+  }
+  const query = params.toString();
+  return query ? `${wsUrl}?${query}` : wsUrl;
+};
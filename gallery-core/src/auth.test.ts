@@ -0,0 +1,126 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { createHmac } from "node:crypto";
+
+import { GalleryAuth, signViewerToken, validateTelegramInitData, verifyViewerToken } from "./auth.js";
+import { GalleryHub } from "./hub.js";
+import type { ServerMessage } from "./protocol.js";
+
+const SECRET = "viewer-secret";
+const BOT_TOKEN = "123456:bot-token";
+
+// initData as Telegram signs it
+function telegramInitData(fields: Record<string, string>, botToken: string = BOT_TOKEN): string {
+  const params = new URLSearchParams(fields);
+  const dataCheckString = [...params.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("\n");
+  const secretKey = createHmac("sha256", "WebAppData").update(botToken).digest();
+  params.set("hash", createHmac("sha256", secretKey).update(dataCheckString).digest("hex"));
+  return params.toString();
+}
+
+function auth(): GalleryAuth {
+  return new GalleryAuth({
+    apiKeys: ["emitter-key"],
+    viewerSecret: SECRET,
+    allowedOrigins: ["https://gallery.example"],
+    telegram: { botToken: BOT_TOKEN, sessions: "*" },
+  });
+}
+
+describe("Viewer Tokens", () => {
+  it("should verify its own tokens and reject tampered or expired ones", () => {
+    const { token } = signViewerToken("alice", ["s1"], SECRET, 60, 1_000_000);
+    assert.deepStrictEqual(verifyViewerToken(token, SECRET, 1_000_000), { sub: "alice", sessions: ["s1"], iat: 1000, exp: 1060 });
+
+    const [header, , signature] = token.split(".");
+    const widened = Buffer.from(JSON.stringify({ sub: "alice", sessions: "*", iat: 1000, exp: 1060 })).toString("base64url");
+    assert.throws(() => verifyViewerToken(`${header}.${widened}.${signature}`, SECRET, 1_000_000), /Invalid token signature/);
+    assert.throws(() => verifyViewerToken(token, "other-secret", 1_000_000), /Invalid token signature/);
+    assert.throws(() => verifyViewerToken(token, SECRET, 1_060_000), /Token expired/);
+    assert.throws(() => verifyViewerToken("not-a-token", SECRET), /Malformed token/);
+  });
+});
+
+describe("Telegram initData", () => {
+  it("should accept signed initData and reject forged or stale data", () => {
+    const now = Date.now();
+    const authDate = String(Math.floor(now / 1000) - 60);
+    const user = JSON.stringify({ id: 42, username: "watcher" });
+    const initData = telegramInitData({ auth_date: authDate, user, start_param: "s1" });
+
+    assert.deepStrictEqual(validateTelegramInitData(initData, BOT_TOKEN, 3600, now), {
+      userId: 42,
+      username: "watcher",
+      authDate: Number(authDate),
+      startParam: "s1",
+    });
+    assert.throws(() => validateTelegramInitData(initData.replace("watcher", "admin"), BOT_TOKEN, 3600, now), /Invalid initData signature/);
+    assert.throws(() => validateTelegramInitData(telegramInitData({ auth_date: authDate }, "999:other"), BOT_TOKEN, 3600, now), /Invalid initData signature/);
+    assert.throws(() => validateTelegramInitData(initData, BOT_TOKEN, 30, now), /expired/);
+  });
+});
+
+describe("Gallery Auth", () => {
+  it("should let everyone in until API keys are configured", () => {
+    const open = new GalleryAuth({ apiKeys: [] });
+    assert.strictEqual(open.enabled, false);
+    assert.deepStrictEqual(open.authenticate(undefined), { emit: true, sessions: "*" });
+  });
+
+  it("should tell emitters, viewers and strangers apart", () => {
+    const gallery = auth();
+    assert.strictEqual(gallery.authenticate(undefined), null);
+    assert.deepStrictEqual(gallery.authenticate("emitter-key"), { emit: true, sessions: "*", subject: "api-key" });
+    assert.throws(() => gallery.authenticate("guessed-key"), /Invalid API key/);
+
+    const emitter = gallery.authenticate("emitter-key")!;
+    const { token } = gallery.mintViewerToken(emitter, "dashboard", ["s1", "s2"]);
+    assert.deepStrictEqual(gallery.authenticate(token), { emit: false, sessions: ["s1", "s2"], subject: "dashboard" });
+
+    const viewer = gallery.authenticate(token)!;
+    assert.throws(() => gallery.mintViewerToken(viewer, "friend", ["s3"]), /outside your own access/);
+    assert.throws(() => gallery.mintViewerToken(viewer, "friend", "*"), /outside your own access/);
+
+    assert.ok(gallery.originAllowed("https://gallery.example"));
+    assert.ok(gallery.originAllowed(undefined), "Non-browser clients send no Origin");
+    assert.ok(!gallery.originAllowed("https://evil.example"));
+  });
+
+  it("should mint Telegram viewer tokens narrowed to the start_param session", () => {
+    const gallery = auth();
+    const initData = telegramInitData({ auth_date: String(Math.floor(Date.now() / 1000)), user: JSON.stringify({ id: 7 }), start_param: "s1" });
+    const { token, user } = gallery.telegramViewerToken(initData);
+    assert.strictEqual(user.userId, 7);
+    assert.deepStrictEqual(gallery.authenticate(token), { emit: false, sessions: ["s1"], subject: "telegram:7" });
+
+    const restricted = new GalleryAuth({ apiKeys: ["k"], viewerSecret: SECRET, telegram: { botToken: BOT_TOKEN, sessions: ["s2"] } });
+    assert.throws(() => restricted.telegramViewerToken(initData), /outside your own access/);
+  });
+});
+
+describe("Gallery Hub Access", () => {
+  it("should keep viewers to their sessions and stop them from emitting", () => {
+    const hub = new GalleryHub();
+    const received: ServerMessage[] = [];
+    const socket = { readyState: 1, send: (data: string) => received.push(JSON.parse(data)) };
+    const access = { emit: false, sessions: ["s1"] };
+
+    assert.throws(() => hub.connect(socket, { filter: { sessionIds: ["s2"] } }, access), /Not allowed to watch session "s2"/);
+    const client = hub.connect(socket, {}, access);
+
+    hub.emit({ sessionId: "s1", type: "system", data: {} });
+    hub.emit({ sessionId: "s2", type: "system", data: {} });
+    hub.receive(client.subscriptionId, JSON.stringify({ type: "emit", event: { sessionId: "s1", data: { fake: true } } }));
+    hub.receive(client.subscriptionId, JSON.stringify({ type: "subscribe", name: "peek", filter: { sessionIds: ["s2"] } }));
+    hub.receive(client.subscriptionId, JSON.stringify({ type: "replay", sessionId: "s2" }));
+
+    assert.deepStrictEqual(
+      received.map((message) => (message.type === "event" ? message.event.sessionId : message.type)),
+      ["connected", "s1", "error", "error", "error"]
+    );
+    assert.strictEqual(hub.store.size, 2, "The viewer's emit was refused");
+  });
+});
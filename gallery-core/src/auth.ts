@@ -0,0 +1,264 @@
+/**
+ * Gallery Auth - Who May Emit and Who May Watch
+ *
+ * Emitters (agents, an MCP server forwarding its events) present an API
+ * key and may emit and watch everything. Viewers present a signed viewer
+ * token listing the sessions they may watch and cannot emit. Servers mint
+ * viewer tokens for API key holders, or for Telegram Mini App users once
+ * the WebApp initData signature checks out. Viewer tokens are HS256 JWTs,
+ * so other services holding the secret can mint them too.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Access {
+  emit: boolean;
+  sessions: string[] | "*"; // sessions that may be watched
+  subject?: string; // who holds it, for logs
+}
+
+// Everything allowed; used when auth is off and for API keys
+export const FULL_ACCESS: Access = { emit: true, sessions: "*" };
+
+export interface ViewerClaims {
+  sub: string;
+  sessions: string[] | "*";
+  iat: number; // seconds
+  exp: number; // seconds
+}
+
+export interface TelegramInitData {
+  userId?: number;
+  username?: string;
+  authDate: number; // seconds
+  startParam?: string;
+}
+
+export interface GalleryAuthConfig {
+  apiKeys: string[]; // auth is off while empty
+  viewerSecret?: string; // signs viewer tokens; without it only API keys work
+  allowedOrigins?: string[]; // browser origins allowed to connect (any when empty)
+  viewerTokenTtlSeconds?: number;
+  telegram?: {
+    botToken: string;
+    sessions: string[] | "*"; // what Telegram viewers may watch
+    maxAgeSeconds?: number; // oldest initData accepted
+  };
+}
+
+export const VIEWER_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+const TELEGRAM_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+export function canRead(access: Access, sessionId: string): boolean {
+  return access.sessions === "*" || access.sessions.includes(sessionId);
+}
+
+// ============================================================================
+// Viewer Tokens
+// ============================================================================
+
+/**
+ * Sign a viewer token for some sessions
+ */
+export function signViewerToken(
+  subject: string,
+  sessions: string[] | "*",
+  secret: string,
+  ttlSeconds: number = VIEWER_TOKEN_TTL_SECONDS,
+  now: number = Date.now()
+): { token: string; expiresAt: string } {
+  const iat = Math.floor(now / 1000);
+  const claims: ViewerClaims = { sub: subject, sessions, iat, exp: iat + Math.max(1, Math.floor(ttlSeconds)) };
+  const unsigned = `${base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }))}.${base64url(JSON.stringify(claims))}`;
+  return {
+    token: `${unsigned}.${hmac(secret, unsigned).toString("base64url")}`,
+    expiresAt: new Date(claims.exp * 1000).toISOString(),
+  };
+}
+
+/**
+ * Check a viewer token's signature and expiry; throws when it is not valid
+ */
+export function verifyViewerToken(token: string, secret: string, now: number = Date.now()): ViewerClaims {
+  const [header, payload, signature, ...rest] = token.split(".");
+  if (!header || !payload || !signature || rest.length > 0) {
+    throw new Error("Malformed token");
+  }
+  if (!safeEqual(Buffer.from(signature, "base64url"), hmac(secret, `${header}.${payload}`))) {
+    throw new Error("Invalid token signature");
+  }
+
+  let claims: Partial<ViewerClaims>;
+  try {
+    if (JSON.parse(Buffer.from(header, "base64url").toString("utf-8")).alg !== "HS256") {
+      throw new Error("alg");
+    }
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+  } catch {
+    throw new Error("Malformed token");
+  }
+  const sessions = claims.sessions;
+  const validSessions = sessions === "*" || (Array.isArray(sessions) && sessions.every((sessionId) => typeof sessionId === "string"));
+  if (typeof claims.sub !== "string" || typeof claims.exp !== "number" || !validSessions) {
+    throw new Error("Malformed token");
+  }
+  if (claims.exp * 1000 <= now) {
+    throw new Error("Token expired");
+  }
+  return claims as ViewerClaims;
+}
+
+// ============================================================================
+// Telegram
+// ============================================================================
+
+/**
+ * Check Telegram WebApp initData against the bot token, as described in
+ * the Mini Apps docs: the hash is an HMAC of the sorted fields under a key
+ * derived from the bot token. Throws when it is forged or too old.
+ */
+export function validateTelegramInitData(
+  initData: string,
+  botToken: string,
+  maxAgeSeconds: number = TELEGRAM_MAX_AGE_SECONDS,
+  now: number = Date.now()
+): TelegramInitData {
+  const params = new URLSearchParams(initData);
+  const hash = params.get("hash");
+  if (!hash) {
+    throw new Error("initData has no hash");
+  }
+  params.delete("hash");
+
+  const dataCheckString = [...params.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("\n");
+  const secretKey = hmac("WebAppData", botToken);
+  if (!safeEqual(Buffer.from(hash, "hex"), hmac(secretKey, dataCheckString))) {
+    throw new Error("Invalid initData signature");
+  }
+
+  const authDate = parseInt(params.get("auth_date") || "", 10);
+  if (!Number.isFinite(authDate) || now / 1000 - authDate > maxAgeSeconds) {
+    throw new Error("initData has expired");
+  }
+
+  let user: { id?: number; username?: string } = {};
+  try {
+    user = JSON.parse(params.get("user") || "{}");
+  } catch {
+    // Signed but unreadable user field; the viewer stays anonymous
+  }
+  return {
+    userId: typeof user.id === "number" ? user.id : undefined,
+    username: typeof user.username === "string" ? user.username : undefined,
+    authDate,
+    startParam: params.get("start_param") || undefined,
+  };
+}
+
+// ============================================================================
+// Auth
+// ============================================================================
+
+export class GalleryAuth {
+  private apiKeyHashes: Buffer[];
+
+  constructor(readonly config: GalleryAuthConfig) {
+    this.apiKeyHashes = config.apiKeys.map((key) => sha256(key));
+  }
+
+  /**
+   * Auth is on once API keys are configured; until then anyone may emit
+   * and watch
+   */
+  get enabled(): boolean {
+    return this.apiKeyHashes.length > 0;
+  }
+
+  /**
+   * Access for a presented token: everything when auth is off, null when
+   * a token is required but missing. Throws on a token that is not valid.
+   */
+  authenticate(token: string | undefined): Access | null {
+    if (!this.enabled) {
+      return FULL_ACCESS;
+    }
+    if (!token) {
+      return null;
+    }
+    const hash = sha256(token);
+    if (this.apiKeyHashes.some((keyHash) => timingSafeEqual(keyHash, hash))) {
+      return { ...FULL_ACCESS, subject: "api-key" };
+    }
+    if (!this.config.viewerSecret || token.split(".").length !== 3) {
+      throw new Error("Invalid API key");
+    }
+    const claims = verifyViewerToken(token, this.config.viewerSecret);
+    return { emit: false, sessions: claims.sessions, subject: claims.sub };
+  }
+
+  /**
+   * Browsers send an Origin; other clients do not and are let through
+   */
+  originAllowed(origin: string | undefined): boolean {
+    const allowed = this.config.allowedOrigins ?? [];
+    return !origin || allowed.length === 0 || allowed.includes(origin);
+  }
+
+  /**
+   * Mint a viewer token; only for sessions the minting access may watch
+   */
+  mintViewerToken(access: Access, subject: string, sessions: string[] | "*", ttlSeconds?: number): { token: string; expiresAt: string } {
+    if (!this.config.viewerSecret) {
+      throw new Error("Viewer tokens are disabled (no viewer secret configured)");
+    }
+    const outside = sessions === "*" ? access.sessions !== "*" : sessions.some((sessionId) => !canRead(access, sessionId));
+    if (outside) {
+      throw new Error("Cannot grant sessions outside your own access");
+    }
+    const ttl = Math.min(ttlSeconds ?? Infinity, this.config.viewerTokenTtlSeconds ?? VIEWER_TOKEN_TTL_SECONDS);
+    return signViewerToken(subject, sessions, this.config.viewerSecret, ttl);
+  }
+
+  /**
+   * Mint a viewer token for a Telegram Mini App user. A start_param
+   * narrows it to that session when Telegram viewers may watch it.
+   */
+  telegramViewerToken(initData: string): { token: string; expiresAt: string; sessions: string[] | "*"; user: TelegramInitData } {
+    const { telegram } = this.config;
+    if (!telegram) {
+      throw new Error("Telegram sign-in is disabled (no bot token configured)");
+    }
+    const user = validateTelegramInitData(initData, telegram.botToken, telegram.maxAgeSeconds);
+    const access: Access = { emit: false, sessions: telegram.sessions };
+    const sessions = user.startParam ? [user.startParam] : telegram.sessions;
+    const subject = user.userId !== undefined ? `telegram:${user.userId}` : "telegram";
+    return { ...this.mintViewerToken(access, subject, sessions), sessions, user };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function base64url(text: string): string {
+  return Buffer.from(text, "utf-8").toString("base64url");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+function sha256(text: string): Buffer {
+  return createHash("sha256").update(text).digest();
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
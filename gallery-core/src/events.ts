@@ -0,0 +1,78 @@
+/**
+ * Gallery Events - The Shared Event Schema
+ *
+ * One event shape for everything the gallery shows. The MCP server, the
+ * standalone gallery server and the dapp all read and write it, so events
+ * carry ISO timestamps: what is stored is exactly what goes over the wire.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const GALLERY_EVENT_TYPES = ["agent_message", "agent_action", "blockchain_tx", "position_update", "system"] as const;
+
+export type GalleryEventType = (typeof GALLERY_EVENT_TYPES)[number];
+
+export interface GalleryEvent {
+  id: string;
+  seq: number; // position in the server's stream; increases by one per event
+  timestamp: string; // ISO
+  type: GalleryEventType;
+  sessionId: string;
+  agentId?: string;
+  data: Record<string, unknown>;
+}
+
+// An event as emitters submit it, before the hub stamps it
+export type NewGalleryEvent = Omit<GalleryEvent, "id" | "seq" | "timestamp">;
+
+// ============================================================================
+// Construction
+// ============================================================================
+
+export function isGalleryEventType(value: unknown): value is GalleryEventType {
+  return typeof value === "string" && (GALLERY_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Stamp a submitted event with an id, sequence number and timestamp
+ */
+export function createEvent(event: NewGalleryEvent, seq: number, now: Date = new Date()): GalleryEvent {
+  return {
+    id: `evt-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    seq,
+    timestamp: now.toISOString(),
+    type: event.type,
+    sessionId: event.sessionId,
+    agentId: event.agentId,
+    data: event.data,
+  };
+}
+
+/**
+ * Validate an event submitted by a client (gallery_emit, POST /emit, a
+ * WebSocket emit). Fields the input leaves out are taken from defaults.
+ */
+export function parseNewEvent(input: unknown, defaults: Partial<NewGalleryEvent> = {}): NewGalleryEvent {
+  const raw = (typeof input === "object" && input !== null ? input : {}) as Record<string, unknown>;
+  const sessionId = raw.sessionId ?? defaults.sessionId;
+  const agentId = raw.agentId ?? defaults.agentId;
+  const type = raw.type ?? defaults.type;
+  const data = raw.data ?? defaults.data;
+
+  if (typeof sessionId !== "string" || !sessionId) {
+    throw new Error("sessionId is required and must be a string");
+  }
+  if (agentId !== undefined && typeof agentId !== "string") {
+    throw new Error("agentId must be a string");
+  }
+  if (!isGalleryEventType(type)) {
+    throw new Error(`type is required and must be one of: ${GALLERY_EVENT_TYPES.join(", ")}`);
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error("data is required and must be an object");
+  }
+
+  return { sessionId, agentId, type, data: data as Record<string, unknown> };
+}
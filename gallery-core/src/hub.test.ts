@@ -0,0 +1,208 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+
+import { EventStore } from "./store.js";
+import { GalleryHub, GallerySocket } from "./hub.js";
+import { createEvent, parseNewEvent } from "./events.js";
+import type { ServerMessage } from "./protocol.js";
+
+function fakeSocket() {
+  const received: ServerMessage[] = [];
+  const socket: GallerySocket & { readyState: number } = {
+    readyState: 1,
+    send: (data: string) => received.push(JSON.parse(data)),
+  };
+  return { socket, received };
+}
+
+describe("Event Store", () => {
+  it("should keep the newest events up to its capacity", () => {
+    const store = new EventStore(3);
+    for (let i = 0; i < 5; i++) {
+      store.add(createEvent({ sessionId: "s", type: "system", data: { i } }, i + 1));
+    }
+    assert.strictEqual(store.size, 3);
+    assert.deepStrictEqual(
+      store.query().map((event) => event.data.i),
+      [4, 3, 2]
+    );
+  });
+
+  it("should filter and clear by session", () => {
+    const store = new EventStore();
+    store.add(createEvent({ sessionId: "a", type: "agent_message", data: {} }, 1));
+    store.add(createEvent({ sessionId: "b", type: "system", data: {} }, 2));
+    store.add(createEvent({ sessionId: "a", type: "system", data: {} }, 3, new Date(Date.now() + 1000)));
+
+    assert.strictEqual(store.query({ sessionId: "a" }).length, 2);
+    assert.strictEqual(store.query({ sessionId: "a", type: "system" }).length, 1);
+    assert.strictEqual(store.query({ since: new Date(Date.now() + 500).toISOString() }).length, 1);
+    assert.strictEqual(store.query({ limit: 1 }).length, 1);
+    assert.deepStrictEqual(
+      store.query({ afterSeq: 1 }).map((event) => event.seq),
+      [3, 2]
+    );
+    assert.strictEqual(store.clear("a"), 2);
+    assert.strictEqual(store.size, 1);
+  });
+});
+
+describe("Gallery Hub", () => {
+  it("should store emitted events and push them to matching viewers", () => {
+    const hub = new GalleryHub();
+    const all = fakeSocket();
+    const filtered = fakeSocket();
+    hub.connect(all.socket);
+    hub.connect(filtered.socket, { filter: { sessionIds: ["other"] } });
+
+    const event = hub.emit({ sessionId: "s1", type: "agent_action", data: { action: "run" } });
+    assert.strictEqual(hub.store.size, 1);
+    assert.deepStrictEqual(all.received.map((message) => message.type), ["connected", "event"]);
+    assert.deepStrictEqual(all.received[1], { type: "event", event: JSON.parse(JSON.stringify(event)), subscriptions: ["default"] });
+    assert.deepStrictEqual(filtered.received.map((message) => message.type), ["connected"]);
+  });
+
+  it("should handle filter changes and emits from viewers", () => {
+    const hub = new GalleryHub();
+    const { socket, received } = fakeSocket();
+    const client = hub.connect(socket);
+
+    hub.receive(client.subscriptionId, JSON.stringify({ type: "setFilter", sessionId: "s2" }));
+    assert.deepStrictEqual(received[1], { type: "filterUpdated", sessionFilter: "s2" });
+
+    hub.receive(client.subscriptionId, JSON.stringify({ type: "emit", event: { sessionId: "s2", data: { n: 1 } } }));
+    assert.strictEqual(received[2].type, "event");
+    assert.strictEqual(received[3].type, "emitted");
+    assert.strictEqual(hub.store.query()[0].type, "system", "Type defaults to system");
+
+    hub.receive(client.subscriptionId, JSON.stringify({ type: "emit", event: { type: "bogus" } }));
+    hub.receive(client.subscriptionId, "not json");
+    assert.deepStrictEqual(
+      received.slice(4).map((message) => message.type),
+      ["error", "error"]
+    );
+  });
+
+  it("should route registered commands and skip closed sockets", () => {
+    const hub = new GalleryHub({
+      commands: { approve: (message) => ({ type: "approvalResult", approvalId: String(message.id), success: true }) },
+    });
+    const { socket, received } = fakeSocket();
+    const client = hub.connect(socket);
+
+    hub.receive(client.subscriptionId, JSON.stringify({ type: "approve", id: "a1" }));
+    assert.deepStrictEqual(received[1], { type: "approvalResult", approvalId: "a1", success: true });
+
+    socket.readyState = 3;
+    assert.strictEqual(hub.broadcast(createEvent({ sessionId: "s", type: "system", data: {} }, 1)), 0);
+    assert.deepStrictEqual(hub.clientDetails()[0].connected, false);
+  });
+});
+
+describe("Gallery Hub Resume", () => {
+  it("should number events and send a reconnecting viewer what it missed", () => {
+    const hub = new GalleryHub();
+    hub.emit({ sessionId: "s1", type: "system", data: { n: 1 } });
+    hub.emit({ sessionId: "s2", type: "system", data: { n: 2 } });
+    hub.emit({ sessionId: "s1", type: "system", data: { n: 3 } });
+    assert.strictEqual(hub.lastSeq, 3);
+
+    const { socket, received } = fakeSocket();
+    hub.connect(socket, { filter: { sessionIds: ["s1"] }, resumeFrom: 1 });
+    const connected = received[0] as Extract<ServerMessage, { type: "connected" }>;
+    assert.strictEqual(connected.lastSeq, 3);
+    assert.deepStrictEqual(connected.resumed, { from: 1, events: 1, complete: true });
+    assert.deepStrictEqual(
+      received.slice(1).map((message) => message.type === "event" && message.event.seq),
+      [3]
+    );
+  });
+
+  it("should report a gap once missed events have left the store", () => {
+    const hub = new GalleryHub({ store: new EventStore(2) });
+    for (let n = 1; n <= 5; n++) {
+      hub.emit({ sessionId: "s", type: "system", data: { n } });
+    }
+    const { socket, received } = fakeSocket();
+    hub.connect(socket, { resumeFrom: 1 });
+    const connected = received[0] as Extract<ServerMessage, { type: "connected" }>;
+    assert.deepStrictEqual(connected.resumed, { from: 1, events: 2, complete: false });
+  });
+
+  it("should answer pings and drop viewers that stop answering the heartbeat", () => {
+    const hub = new GalleryHub();
+    const { socket, received } = fakeSocket();
+    let pings = 0;
+    let terminated = false;
+    const client = hub.connect(
+      Object.assign(socket, { ping: () => pings++, terminate: () => (terminated = true) })
+    );
+
+    hub.receive(client.subscriptionId, JSON.stringify({ type: "ping" }));
+    assert.deepStrictEqual(received[1], { type: "pong", lastSeq: 0 });
+
+    assert.deepStrictEqual(hub.heartbeat(), []);
+    hub.markAlive(client.subscriptionId);
+    assert.deepStrictEqual(hub.heartbeat(), []);
+    assert.strictEqual(pings, 2);
+
+    // No pong since the last ping
+    assert.deepStrictEqual(hub.heartbeat(), [client.subscriptionId]);
+    assert.ok(terminated);
+    assert.strictEqual(hub.clientCount, 0);
+  });
+});
+
+describe("Gallery Hub Replay", () => {
+  it("should replay a recorded session to the asking viewer", async () => {
+    const hub = new GalleryHub();
+    hub.emit({ sessionId: "rec", type: "agent_message", data: { n: 1 } });
+    hub.emit({ sessionId: "other", type: "agent_message", data: {} });
+    hub.emit({ sessionId: "rec", type: "agent_action", data: { n: 2 } });
+    const { socket, received } = fakeSocket();
+    const client = hub.connect(socket);
+
+    hub.receive(client.subscriptionId, JSON.stringify({ type: "replay", sessionId: "rec", speed: 0 }));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    assert.deepStrictEqual(
+      received.slice(1).map((message) => message.type),
+      ["replayStarted", "replayEvent", "replayEvent", "replayEnded"]
+    );
+    const started = received[1] as Extract<ServerMessage, { type: "replayStarted" }>;
+    assert.strictEqual(started.events, 2);
+    const replayed = received.filter((message): message is Extract<ServerMessage, { type: "replayEvent" }> => message.type === "replayEvent");
+    assert.deepStrictEqual(
+      replayed.map((message) => message.event.data.n),
+      [1, 2]
+    );
+    assert.deepStrictEqual(received[4], { type: "replayEnded", replayId: started.replayId, sent: 2, cancelled: false });
+  });
+
+  it("should reject bad replay requests", () => {
+    const hub = new GalleryHub();
+    const { socket, received } = fakeSocket();
+    const client = hub.connect(socket);
+
+    hub.receive(client.subscriptionId, JSON.stringify({ type: "replay" }));
+    hub.receive(client.subscriptionId, JSON.stringify({ type: "replay", sessionId: "s", speed: -1 }));
+    assert.deepStrictEqual(
+      received.slice(1).map((message) => (message.type === "error" ? message.error : message.type)),
+      ["replay requires sessionId", "speed must be a number >= 0 (0 = no waiting)"]
+    );
+  });
+});
+
+describe("Event Validation", () => {
+  it("should reject events missing required fields", () => {
+    assert.throws(() => parseNewEvent({ type: "system", data: {} }), /sessionId is required/);
+    assert.throws(() => parseNewEvent({ sessionId: "s", data: {} }), /type is required/);
+    assert.throws(() => parseNewEvent({ sessionId: "s", type: "system", data: null }), /data is required/);
+    assert.deepStrictEqual(parseNewEvent({ sessionId: "s", type: "system", data: { a: 1 } }), {
+      sessionId: "s",
+      agentId: undefined,
+      type: "system",
+      data: { a: 1 },
+    });
+  });
+});
@@ -0,0 +1,442 @@
+/**
+ * Gallery Hub - One Store, One Broadcaster
+ *
+ * The hub numbers, stores and optionally logs every emitted event, then
+ * pushes it to each viewer whose subscription it matches; viewers only see
+ * the sessions their access grant allows, and only emit if it says so.
+ * It speaks the viewer side of the protocol (subscriptions, resumes,
+ * replays and any commands a server registers) and drops viewers whose
+ * connection died without closing. Sockets are anything with `readyState`
+ * and `send` (plus `ping` and `terminate`), so it works with `ws` without
+ * depending on it.
+ */
+
+import { GalleryEvent, NewGalleryEvent, createEvent, parseNewEvent } from "./events.js";
+import { EventStore } from "./store.js";
+import { EventLog } from "./log.js";
+import { Access, FULL_ACCESS, canRead } from "./auth.js";
+import { ClientMessage, ConnectRequest, ResumeSummary, ServerMessage } from "./protocol.js";
+import {
+  DEFAULT_SUBSCRIPTION,
+  MAX_SUBSCRIPTIONS,
+  Subscription,
+  SubscriptionFilter,
+  matchesFilter,
+  parseSubscriptionFilter,
+} from "./subscription.js";
+import { parseReplayOptions, replayEvents } from "./replay.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GallerySocket {
+  readonly readyState: number;
+  send(data: string): void;
+  ping?(): void; // answered with a pong the server passes to markAlive
+  terminate?(): void;
+}
+
+// WebSocket.OPEN
+const OPEN = 1;
+
+export const HEARTBEAT_MS = 30_000;
+
+export interface GalleryClient {
+  subscriptionId: string;
+  socket: GallerySocket;
+  subscriptions: Map<string, Subscription>; // by name
+  access: Access;
+  replays: Map<string, AbortController>;
+  alive: boolean; // heard from since the last heartbeat
+}
+
+/**
+ * Handles a command message from a viewer; the returned message, if any,
+ * is sent back to that viewer
+ */
+export type CommandHandler = (message: Record<string, unknown>, client: GalleryClient) => ServerMessage | void;
+
+export interface GalleryHubOptions {
+  store?: EventStore;
+  log?: EventLog | null;
+  commands?: Record<string, CommandHandler>;
+}
+
+// ============================================================================
+// Hub
+// ============================================================================
+
+export class GalleryHub {
+  readonly store: EventStore;
+  private log: EventLog | null = null;
+  private clients: Map<string, GalleryClient> = new Map();
+  private commands: Map<string, CommandHandler>;
+  private replayCounter = 0;
+  private seq = 0;
+
+  constructor(options: GalleryHubOptions = {}) {
+    this.store = options.store ?? new EventStore();
+    this.commands = new Map(Object.entries(options.commands ?? {}));
+    if (options.log) {
+      this.setLog(options.log);
+    }
+  }
+
+  /**
+   * Record events to a durable log; the store starts with its newest
+   * events and numbering continues after them
+   */
+  setLog(log: EventLog): void {
+    const recent = log.tail(this.store.capacity);
+    this.log = log;
+    for (const event of recent) {
+      this.store.add(event);
+      this.seq = Math.max(this.seq, event.seq ?? 0);
+    }
+  }
+
+  /**
+   * Sequence number of the newest event
+   */
+  get lastSeq(): number {
+    return this.seq;
+  }
+
+  get eventLog(): EventLog | null {
+    return this.log;
+  }
+
+  /**
+   * Stamp, record, store and broadcast an event. A failed append is
+   * reported but the event still reaches viewers.
+   */
+  emit(event: NewGalleryEvent): GalleryEvent {
+    const stored = createEvent(event, ++this.seq);
+    try {
+      this.log?.append(stored);
+    } catch (error) {
+      console.error(`Failed to append event ${stored.id} to the event log:`, error instanceof Error ? error.message : String(error));
+    }
+    this.store.add(stored);
+    this.broadcast(stored);
+    return stored;
+  }
+
+  /**
+   * A session's events, oldest first: from the log when there is one,
+   * else whatever the store still holds
+   */
+  history(sessionId: string, range: { since?: string; until?: string } = {}): GalleryEvent[] {
+    if (this.log) {
+      return this.log.read(sessionId, range);
+    }
+    const until = range.until ? Date.parse(range.until) : Infinity;
+    return this.store
+      .query({ sessionId, since: range.since })
+      .filter((event) => Date.parse(event.timestamp) <= until)
+      .reverse();
+  }
+
+  /**
+   * Push an event to every viewer with a subscription that takes it, once
+   * per viewer with the names of those subscriptions; returns how many
+   * received it
+   */
+  broadcast(event: GalleryEvent): number {
+    let sent = 0;
+    for (const client of this.clients.values()) {
+      if (!canRead(client.access, event.sessionId)) continue;
+      const subscriptions = [...client.subscriptions.values()]
+        .filter((subscription) => subscription.accept(event))
+        .map((subscription) => subscription.name);
+      if (subscriptions.length > 0 && this.send(client, { type: "event", event, subscriptions })) {
+        sent++;
+      }
+    }
+    return sent;
+  }
+
+  // --------------------------------------------------------------------------
+  // Viewers
+  // --------------------------------------------------------------------------
+
+  /**
+   * Register a viewer with the default subscription on the requested
+   * filter. With resumeFrom, the events it missed since that sequence
+   * number follow the connected message, oldest first. Throws when the
+   * filter names sessions the access does not cover.
+   */
+  connect(socket: GallerySocket, request: ConnectRequest = {}, access: Access = FULL_ACCESS): GalleryClient {
+    const filter = request.filter ?? {};
+    checkSessions(access, filter);
+    const client: GalleryClient = {
+      subscriptionId: `ws-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      socket,
+      subscriptions: new Map([[DEFAULT_SUBSCRIPTION, new Subscription(DEFAULT_SUBSCRIPTION, filter)]]),
+      replays: new Map(),
+      alive: true,
+      access,
+    };
+    this.clients.set(client.subscriptionId, client);
+
+    const missed = request.resumeFrom === undefined ? undefined : this.missed(client, filter, request.resumeFrom);
+    this.send(client, {
+      type: "connected",
+      subscriptionId: client.subscriptionId,
+      sessionFilter: sessionLabel(filter),
+      message: "Connected to Clawmasutra Gallery Stream",
+      lastSeq: this.seq,
+      resumed: missed?.summary,
+    });
+    for (const event of missed?.events ?? []) {
+      this.send(client, { type: "event", event });
+    }
+    return client;
+  }
+
+  disconnect(subscriptionId: string): void {
+    this.clients.get(subscriptionId)?.replays.forEach((controller) => controller.abort());
+    this.clients.delete(subscriptionId);
+  }
+
+  /**
+   * Handle a raw message from a viewer
+   */
+  receive(subscriptionId: string, raw: string): void {
+    const client = this.clients.get(subscriptionId);
+    if (!client) return;
+    client.alive = true;
+
+    let message: Record<string, unknown>;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.send(client, { type: "error", error: "Invalid JSON" });
+      return;
+    }
+
+    try {
+      const reply = this.handle(client, message);
+      if (reply) this.send(client, reply);
+    } catch (error) {
+      this.send(client, { type: "error", error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /**
+   * Handle an extra message type, such as approvals
+   */
+  setCommand(type: string, handler: CommandHandler): void {
+    this.commands.set(type, handler);
+  }
+
+  // --------------------------------------------------------------------------
+  // Heartbeat
+  // --------------------------------------------------------------------------
+
+  /**
+   * The viewer answered a ping
+   */
+  markAlive(subscriptionId: string): void {
+    const client = this.clients.get(subscriptionId);
+    if (client) client.alive = true;
+  }
+
+  /**
+   * Drop viewers that stayed silent since the last heartbeat and ping the
+   * rest. Sockets that cannot be pinged are left alone.
+   */
+  heartbeat(): string[] {
+    const dropped: string[] = [];
+    for (const client of [...this.clients.values()]) {
+      if (!client.socket.ping) continue;
+      if (!client.alive) {
+        client.socket.terminate?.();
+        this.disconnect(client.subscriptionId);
+        dropped.push(client.subscriptionId);
+        continue;
+      }
+      client.alive = false;
+      try {
+        client.socket.ping();
+      } catch {
+        // A failed ping leaves the viewer silent; the next heartbeat drops it
+      }
+    }
+    return dropped;
+  }
+
+  /**
+   * Run the heartbeat on an interval; returns a function that stops it
+   */
+  startHeartbeat(intervalMs: number = HEARTBEAT_MS): () => void {
+    const timer = setInterval(() => this.heartbeat(), intervalMs);
+    timer.unref?.();
+    return () => clearInterval(timer);
+  }
+
+  get clientCount(): number {
+    return this.clients.size;
+  }
+
+  clientDetails(): Array<{ subscriptionId: string; sessionFilter: string; subscriptions: Record<string, string>; connected: boolean }> {
+    return [...this.clients.values()].map((client) => ({
+      subscriptionId: client.subscriptionId,
+      sessionFilter: sessionLabel(client.subscriptions.get(DEFAULT_SUBSCRIPTION)?.filter ?? {}),
+      subscriptions: Object.fromEntries([...client.subscriptions].map(([name, subscription]) => [name, subscription.describe()])),
+      connected: client.socket.readyState === OPEN,
+    }));
+  }
+
+  // --------------------------------------------------------------------------
+  // Internal
+  // --------------------------------------------------------------------------
+
+  private handle(client: GalleryClient, message: Record<string, unknown>): ServerMessage | void {
+    const type = message.type;
+    if (type === "setFilter") {
+      const { sessionId } = message as Extract<ClientMessage, { type: "setFilter" }>;
+      const current = client.subscriptions.get(DEFAULT_SUBSCRIPTION)?.filter ?? {};
+      const filter = { ...current, sessionIds: sessionId ? [sessionId] : undefined };
+      checkSessions(client.access, filter);
+      client.subscriptions.set(DEFAULT_SUBSCRIPTION, new Subscription(DEFAULT_SUBSCRIPTION, filter));
+      return { type: "filterUpdated", sessionFilter: sessionLabel(filter) };
+    }
+    if (type === "subscribe") {
+      return this.subscribe(client, message);
+    }
+    if (type === "unsubscribe") {
+      const { name } = message as Extract<ClientMessage, { type: "unsubscribe" }>;
+      if (typeof name !== "string" || !client.subscriptions.delete(name)) {
+        throw new Error(`No subscription named "${String(name)}"`);
+      }
+      return { type: "unsubscribed", name };
+    }
+    if (type === "emit") {
+      if (!client.access.emit) {
+        throw new Error("This connection may not emit events");
+      }
+      const event = this.emit(parseNewEvent(message.event, { sessionId: client.subscriptionId, type: "system", data: {} }));
+      return { type: "emitted", eventId: event.id };
+    }
+    if (type === "ping") {
+      return { type: "pong", lastSeq: this.seq };
+    }
+    if (type === "replay") {
+      return this.startReplay(client, message);
+    }
+    if (type === "stopReplay") {
+      const { replayId } = message as Extract<ClientMessage, { type: "stopReplay" }>;
+      client.replays.forEach((controller, id) => {
+        if (!replayId || id === replayId) controller.abort();
+      });
+      return;
+    }
+
+    const command = typeof type === "string" ? this.commands.get(type) : undefined;
+    if (!command) {
+      throw new Error(`Unknown message type: ${String(type)}`);
+    }
+    return command(message, client);
+  }
+
+  /**
+   * Add or replace a named subscription
+   */
+  private subscribe(client: GalleryClient, message: Record<string, unknown>): ServerMessage {
+    const { name } = message as Extract<ClientMessage, { type: "subscribe" }>;
+    if (typeof name !== "string" || !name || name.length > 64) {
+      throw new Error("subscribe requires a name of up to 64 characters");
+    }
+    if (!client.subscriptions.has(name) && client.subscriptions.size >= MAX_SUBSCRIPTIONS) {
+      throw new Error(`At most ${MAX_SUBSCRIPTIONS} subscriptions per connection`);
+    }
+    const filter = parseSubscriptionFilter(message.filter);
+    checkSessions(client.access, filter);
+    client.subscriptions.set(name, new Subscription(name, filter));
+    return { type: "subscribed", name, filter };
+  }
+
+  /**
+   * Events a viewer missed after a sequence number, unsampled. Events of
+   * listed sessions can come from the log; otherwise the store must still
+   * reach back that far.
+   */
+  private missed(client: GalleryClient, filter: SubscriptionFilter, resumeFrom: number): { events: GalleryEvent[]; summary: ResumeSummary } {
+    let events: GalleryEvent[];
+    let complete: boolean;
+    if (this.log && filter.sessionIds) {
+      events = filter.sessionIds
+        .flatMap((sessionId) => this.log!.read(sessionId, { afterSeq: resumeFrom }))
+        .filter((event) => matchesFilter(event, filter))
+        .sort((a, b) => a.seq - b.seq);
+      complete = true;
+    } else {
+      events = this.store
+        .query({ afterSeq: resumeFrom })
+        .filter((event) => canRead(client.access, event.sessionId) && matchesFilter(event, filter))
+        .reverse();
+      const oldest = this.store.oldestSeq;
+      complete = resumeFrom >= this.seq || (oldest !== undefined && oldest <= resumeFrom + 1);
+    }
+    return { events, summary: { from: resumeFrom, events: events.length, complete } };
+  }
+
+  /**
+   * Stream a recorded session to one viewer; replies with replayStarted
+   * right away and ends with replayEnded
+   */
+  private startReplay(client: GalleryClient, message: Record<string, unknown>): ServerMessage {
+    const { sessionId, since, until } = message as Extract<ClientMessage, { type: "replay" }>;
+    if (typeof sessionId !== "string" || !sessionId) {
+      throw new Error("replay requires sessionId");
+    }
+    if (!canRead(client.access, sessionId)) {
+      throw new Error(`Not allowed to watch session "${sessionId}"`);
+    }
+    const options = parseReplayOptions(message);
+    const events = this.history(sessionId, { since, until });
+    const replayId = `replay-${Date.now()}-${++this.replayCounter}`;
+    const controller = new AbortController();
+    client.replays.set(replayId, controller);
+
+    // Starts after the replayStarted reply has gone out
+    queueMicrotask(() => {
+      replayEvents(events, (event) => this.send(client, { type: "replayEvent", replayId, event }), {
+        ...options,
+        signal: controller.signal,
+      }).then((result) => {
+        client.replays.delete(replayId);
+        this.send(client, { type: "replayEnded", replayId, ...result });
+      });
+    });
+
+    return { type: "replayStarted", replayId, sessionId, events: events.length, speed: options.speed ?? 1 };
+  }
+
+  /**
+   * Send to a viewer; a failed send is dropped, the socket's close event
+   * removes the viewer
+   */
+  private send(client: GalleryClient, message: ServerMessage): boolean {
+    if (client.socket.readyState !== OPEN) return false;
+    try {
+      client.socket.send(JSON.stringify(message));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+function sessionLabel(filter: SubscriptionFilter): string {
+  return filter.sessionIds?.join(",") || "all";
+}
+
+function checkSessions(access: Access, filter: SubscriptionFilter): void {
+  const denied = filter.sessionIds?.find((sessionId) => !canRead(access, sessionId));
+  if (denied !== undefined) {
+    throw new Error(`Not allowed to watch session "${denied}"`);
+  }
+}
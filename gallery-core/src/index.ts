@@ -0,0 +1,16 @@
+/**
+ * Gallery Core - Shared Gallery Event Pipeline
+ *
+ * The event schema, store, durable log, replay, subscriptions, auth,
+ * protocol and broadcaster used by the MCP server's built-in gallery, the
+ * standalone gallery server and the dapp.
+ */
+
+export * from "./events.js";
+export * from "./store.js";
+export * from "./log.js";
+export * from "./replay.js";
+export * from "./subscription.js";
+export * from "./auth.js";
+export * from "./protocol.js";
+export * from "./hub.js";
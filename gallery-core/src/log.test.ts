@@ -0,0 +1,157 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { EventLog, openEventLog } from "./log.js";
+import { replayEvents } from "./replay.js";
+import { GalleryHub } from "./hub.js";
+import { EventStore } from "./store.js";
+import { GalleryEvent, createEvent } from "./events.js";
+
+const START = Date.parse("2025-01-01T00:00:00Z");
+let seq = 0;
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "gallery-log-"));
+}
+
+function eventAt(sessionId: string, offsetMs: number, data: Record<string, unknown> = {}): GalleryEvent {
+  return createEvent({ sessionId, type: "agent_message", data }, ++seq, new Date(START + offsetMs));
+}
+
+describe("Event Log", () => {
+  it("should read a session's events back after reopening", () => {
+    const dir = tempDir();
+    const log = new EventLog(dir);
+    log.append(eventAt("a", 0, { n: 1 }));
+    log.append(eventAt("b", 10, { n: 2 }));
+    log.append(eventAt("a", 20, { n: 3 }));
+    log.close();
+
+    const reopened = new EventLog(dir);
+    assert.deepStrictEqual(
+      reopened.read("a").map((event) => event.data.n),
+      [1, 3]
+    );
+    assert.deepStrictEqual(
+      reopened.read("a", { since: new Date(START).toISOString() }).map((event) => event.data.n),
+      [3]
+    );
+    assert.deepStrictEqual(
+      reopened.tail(2).map((event) => event.data.n),
+      [2, 3]
+    );
+    assert.deepStrictEqual(reopened.sessions()[0], {
+      sessionId: "a",
+      events: 2,
+      firstAt: new Date(START).toISOString(),
+      lastAt: new Date(START + 20).toISOString(),
+    });
+
+    reopened.append(eventAt("a", 30, { n: 4 }));
+    assert.strictEqual(reopened.read("a").length, 3);
+    reopened.close();
+  });
+
+  it("should cut off a torn last line and keep appending", () => {
+    const dir = tempDir();
+    const log = new EventLog(dir);
+    log.append(eventAt("a", 0, { n: 1 }));
+    log.close();
+    fs.appendFileSync(path.join(dir, "segment-000001.jsonl"), '{"id":"evt-torn","times');
+
+    const reopened = new EventLog(dir);
+    reopened.append(eventAt("a", 10, { n: 2 }));
+    reopened.close();
+    assert.deepStrictEqual(
+      new EventLog(dir).read("a").map((event) => event.data.n),
+      [1, 2]
+    );
+  });
+
+  it("should skip unreadable lines when loading the newest events", () => {
+    const dir = tempDir();
+    const log = new EventLog(dir);
+    log.append(eventAt("a", 0, { n: 1 }));
+    log.close();
+    fs.appendFileSync(path.join(dir, "segment-000001.jsonl"), "not json\n");
+    const reopened = new EventLog(dir);
+    reopened.append(eventAt("a", 10, { n: 2 }));
+
+    assert.deepStrictEqual(reopened.tail(2).map((event) => event.data.n), [1, 2]);
+    assert.strictEqual(new GalleryHub({ log: reopened }).store.size, 2, "A bad line does not stop the hub from loading");
+    reopened.close();
+  });
+
+  it("should seal segments with an index and drop them under retention", () => {
+    const dir = tempDir();
+    const log = new EventLog(dir, { segmentBytes: 400, retention: { maxAgeDays: 0, maxSizeMb: 0 } });
+    for (let n = 0; n < 12; n++) {
+      log.append(eventAt(n % 2 ? "odd" : "even", n * 1000, { n }));
+    }
+    const stats = log.stats();
+    assert.ok(stats.segments > 2, "Sealed into several segments");
+    assert.strictEqual(stats.events, 12);
+    assert.ok(fs.existsSync(path.join(dir, "segment-000001.index.json")));
+    assert.deepStrictEqual(
+      log.read("odd").map((event) => event.data.n),
+      [1, 3, 5, 7, 9, 11]
+    );
+
+    // Everything but the active segment is older than a day
+    log.close();
+    const aged = new EventLog(dir, { segmentBytes: 400, retention: { maxAgeDays: 1, maxSizeMb: 0 } });
+    aged.enforceRetention(START + 2 * 24 * 60 * 60 * 1000);
+    assert.strictEqual(aged.stats().segments, 1);
+    assert.ok(!fs.existsSync(path.join(dir, "segment-000001.index.json")));
+    assert.ok(aged.read("odd").length < 6);
+    aged.close();
+  });
+
+  it("should continue numbering after a restart and resume a session from the log", () => {
+    const dir = tempDir();
+    const first = new GalleryHub({ log: new EventLog(dir) });
+    for (let n = 1; n <= 4; n++) {
+      first.emit({ sessionId: n % 2 ? "odd" : "even", type: "system", data: { n } });
+    }
+    first.eventLog?.close();
+
+    const hub = new GalleryHub({ store: new EventStore(1), log: new EventLog(dir) });
+    assert.strictEqual(hub.lastSeq, 4);
+    assert.strictEqual(hub.emit({ sessionId: "odd", type: "system", data: { n: 5 } }).seq, 5);
+
+    const received: Array<{ type: string; event?: GalleryEvent }> = [];
+    hub.connect({ readyState: 1, send: (data) => received.push(JSON.parse(data)) }, { filter: { sessionIds: ["odd"] }, resumeFrom: 0 });
+    assert.deepStrictEqual(
+      received.slice(1).map((message) => message.event?.data.n),
+      [1, 3, 5]
+    );
+    hub.eventLog?.close();
+  });
+
+  it("should keep events in memory only without a directory", () => {
+    assert.strictEqual(openEventLog(""), null);
+  });
+});
+
+describe("Replay", () => {
+  it("should keep the original spacing, sped up and capped", async () => {
+    const events = [eventAt("a", 0), eventAt("a", 200), eventAt("a", 10_200)];
+    const sentAt: number[] = [];
+    const started = Date.now();
+
+    const result = await replayEvents(events, () => sentAt.push(Date.now() - started), { speed: 4, maxGapMs: 100 });
+    assert.deepStrictEqual(result, { sent: 3, cancelled: false });
+    assert.ok(sentAt[1] >= 45 && sentAt[1] < 90, `second event after ~50ms, got ${sentAt[1]}`);
+    assert.ok(sentAt[2] - sentAt[1] >= 95 && sentAt[2] - sentAt[1] < 150, "long gap capped at 100ms");
+  });
+
+  it("should stop when aborted", async () => {
+    const controller = new AbortController();
+    const events = [eventAt("a", 0), eventAt("a", 60_000)];
+    const replay = replayEvents(events, () => controller.abort(), { signal: controller.signal });
+    assert.deepStrictEqual(await replay, { sent: 1, cancelled: true });
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * Event Log - Durable Gallery History
+ *
+ * Every event is appended as one JSON line to the active segment file in
+ * the log directory. Segments are sealed once they grow past a size or
+ * age, and each sealed segment gets an index of where every session's
+ * events sit in it, so replaying a session reads only its own lines.
+ * Retention drops whole sealed segments that are too old, or the oldest
+ * ones while the log is over its size budget.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { GalleryEvent } from "./events.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RetentionPolicy {
+  maxAgeDays: number; // sealed segments whose newest event is older are dropped (0 = forever)
+  maxSizeMb: number; // oldest sealed segments are dropped while the log is larger (0 = unlimited)
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  maxAgeDays: 30,
+  maxSizeMb: 1024,
+};
+
+export interface EventLogOptions {
+  retention?: Partial<RetentionPolicy>;
+  segmentBytes?: number; // seal the active segment past this size
+  segmentAgeMs?: number; // seal the active segment once its first event is this old
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  events: number;
+  firstAt: string; // ISO
+  lastAt: string; // ISO
+}
+
+export interface EventLogStats {
+  dir: string;
+  segments: number;
+  bytes: number;
+  events: number;
+  sessions: number;
+}
+
+// Where one event sits in a segment: byte offset, byte length, time (ms), sequence number
+type IndexEntry = [number, number, number, number];
+
+interface Segment {
+  id: number;
+  file: string;
+  bytes: number;
+  events: number;
+  firstAt: number | null;
+  lastAt: number | null;
+  sessions: Map<string, IndexEntry[]>;
+}
+
+// Serialized index of a sealed segment
+interface SegmentIndex {
+  events: number;
+  firstAt: number | null;
+  lastAt: number | null;
+  sessions: Record<string, IndexEntry[]>;
+}
+
+const SEGMENT_BYTES = 16 * 1024 * 1024;
+const SEGMENT_AGE_MS = 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SEGMENT_FILE = /^segment-(\d+)\.jsonl$/;
+
+// ============================================================================
+// Log
+// ============================================================================
+
+export class EventLog {
+  private segments: Segment[] = [];
+  private fd: number;
+  private retention: RetentionPolicy;
+  private segmentBytes: number;
+  private segmentAgeMs: number;
+
+  constructor(readonly dir: string, options: EventLogOptions = {}) {
+    this.retention = { ...DEFAULT_RETENTION, ...options.retention };
+    this.segmentBytes = options.segmentBytes ?? SEGMENT_BYTES;
+    this.segmentAgeMs = options.segmentAgeMs ?? SEGMENT_AGE_MS;
+
+    fs.mkdirSync(dir, { recursive: true });
+    this.load();
+    this.fd = fs.openSync(this.active.file, "a");
+    this.enforceRetention();
+  }
+
+  /**
+   * Append an event to the active segment
+   */
+  append(event: GalleryEvent): void {
+    const at = Date.parse(event.timestamp);
+    if (this.shouldSeal(at)) {
+      this.seal();
+    }
+
+    const segment = this.active;
+    const line = Buffer.from(`${JSON.stringify(event)}\n`);
+    fs.writeSync(this.fd, line);
+    this.record(segment, event.sessionId, [segment.bytes, line.length - 1, at, event.seq]);
+    segment.bytes += line.length;
+  }
+
+  /**
+   * A session's events, oldest first; `since` and `until` are ISO bounds
+   * (exclusive and inclusive), `afterSeq` skips events up to a sequence
+   * number
+   */
+  read(sessionId: string, range: { since?: string; until?: string; afterSeq?: number } = {}): GalleryEvent[] {
+    const since = range.since ? Date.parse(range.since) : -Infinity;
+    const until = range.until ? Date.parse(range.until) : Infinity;
+    const events: GalleryEvent[] = [];
+
+    for (const segment of this.segments) {
+      const entries = (segment.sessions.get(sessionId) ?? []).filter(
+        ([, , at, seq]) => at > since && at <= until && (range.afterSeq === undefined || seq > range.afterSeq)
+      );
+      if (entries.length === 0) continue;
+      const fd = fs.openSync(segment.file, "r");
+      try {
+        for (const [offset, length] of entries) {
+          const buffer = Buffer.alloc(length);
+          fs.readSync(fd, buffer, 0, length, offset);
+          events.push(JSON.parse(buffer.toString("utf-8")));
+        }
+      } finally {
+        fs.closeSync(fd);
+      }
+    }
+    return events;
+  }
+
+  /**
+   * The newest events across all sessions, oldest first. Unreadable lines
+   * are skipped, as when indexing.
+   */
+  tail(limit: number): GalleryEvent[] {
+    const events: GalleryEvent[] = [];
+    for (const segment of [...this.segments].reverse()) {
+      const lines = fs.readFileSync(segment.file, "utf-8").split("\n");
+      for (let i = lines.length - 1; i >= 0 && events.length < limit; i--) {
+        if (!lines[i]) continue;
+        try {
+          events.unshift(JSON.parse(lines[i]) as GalleryEvent);
+        } catch {
+          // Unreadable line
+        }
+      }
+      if (events.length >= limit) break;
+    }
+    return events;
+  }
+
+  /**
+   * Recorded sessions, most recently active first
+   */
+  sessions(): SessionSummary[] {
+    const summaries = new Map<string, { events: number; firstAt: number; lastAt: number }>();
+    for (const segment of this.segments) {
+      for (const [sessionId, entries] of segment.sessions) {
+        const summary = summaries.get(sessionId) ?? { events: 0, firstAt: entries[0][2], lastAt: 0 };
+        summary.events += entries.length;
+        summary.lastAt = entries[entries.length - 1][2];
+        summaries.set(sessionId, summary);
+      }
+    }
+    return [...summaries]
+      .map(([sessionId, summary]) => ({
+        sessionId,
+        events: summary.events,
+        firstAt: new Date(summary.firstAt).toISOString(),
+        lastAt: new Date(summary.lastAt).toISOString(),
+      }))
+      .sort((a, b) => b.lastAt.localeCompare(a.lastAt));
+  }
+
+  stats(): EventLogStats {
+    const sessions = new Set(this.segments.flatMap((segment) => [...segment.sessions.keys()]));
+    return {
+      dir: this.dir,
+      segments: this.segments.length,
+      bytes: this.segments.reduce((sum, segment) => sum + segment.bytes, 0),
+      events: this.segments.reduce((sum, segment) => sum + segment.events, 0),
+      sessions: sessions.size,
+    };
+  }
+
+  /**
+   * Drop sealed segments outside the retention policy
+   */
+  enforceRetention(now: number = Date.now()): void {
+    const maxAgeMs = this.retention.maxAgeDays * DAY_MS;
+    const maxBytes = this.retention.maxSizeMb * 1024 * 1024;
+    const total = () => this.segments.reduce((sum, segment) => sum + segment.bytes, 0);
+
+    while (this.segments.length > 1) {
+      const oldest = this.segments[0];
+      const expired = maxAgeMs > 0 && oldest.lastAt !== null && now - oldest.lastAt > maxAgeMs;
+      const oversized = maxBytes > 0 && total() > maxBytes;
+      if (!expired && !oversized) break;
+      fs.rmSync(oldest.file, { force: true });
+      fs.rmSync(indexFile(oldest.file), { force: true });
+      this.segments.shift();
+    }
+  }
+
+  close(): void {
+    fs.closeSync(this.fd);
+  }
+
+  // --------------------------------------------------------------------------
+  // Segments
+  // --------------------------------------------------------------------------
+
+  private get active(): Segment {
+    return this.segments[this.segments.length - 1];
+  }
+
+  private shouldSeal(at: number): boolean {
+    const segment = this.active;
+    if (segment.events === 0) return false;
+    return segment.bytes >= this.segmentBytes || (segment.firstAt !== null && at - segment.firstAt >= this.segmentAgeMs);
+  }
+
+  /**
+   * Write the active segment's index and start a new segment
+   */
+  private seal(): void {
+    const sealed = this.active;
+    fs.closeSync(this.fd);
+    writeIndex(sealed);
+
+    const next = emptySegment(this.dir, sealed.id + 1);
+    this.segments.push(next);
+    this.fd = fs.openSync(next.file, "a");
+    this.enforceRetention();
+  }
+
+  /**
+   * Open the existing segments: sealed ones from their index, the active
+   * one by scanning it
+   */
+  private load(): void {
+    const ids = fs
+      .readdirSync(this.dir)
+      .map((entry) => SEGMENT_FILE.exec(entry))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => parseInt(match[1], 10))
+      .sort((a, b) => a - b);
+
+    ids.forEach((id, position) => {
+      const segment = emptySegment(this.dir, id);
+      const isActive = position === ids.length - 1;
+      if (isActive || !readIndex(segment)) {
+        this.scan(segment, isActive);
+        if (!isActive) writeIndex(segment);
+      }
+      this.segments.push(segment);
+    });
+
+    if (this.segments.length === 0) {
+      this.segments.push(emptySegment(this.dir, 1));
+    }
+  }
+
+  /**
+   * Index a segment from its lines. A torn last line of the active
+   * segment (a crash mid-append) is cut off so appends continue cleanly.
+   */
+  private scan(segment: Segment, isActive: boolean): void {
+    const content = fs.readFileSync(segment.file);
+    const complete = content.lastIndexOf(0x0a) + 1;
+    if (isActive && complete < content.length) {
+      fs.truncateSync(segment.file, complete);
+    }
+
+    let offset = 0;
+    while (offset < complete) {
+      const end = content.indexOf(0x0a, offset);
+      try {
+        const event = JSON.parse(content.subarray(offset, end).toString("utf-8")) as GalleryEvent;
+        this.record(segment, event.sessionId, [offset, end - offset, Date.parse(event.timestamp), event.seq]);
+      } catch {
+        // Unreadable line, left out of the index
+      }
+      offset = end + 1;
+    }
+    segment.bytes = complete;
+  }
+
+  private record(segment: Segment, sessionId: string, entry: IndexEntry): void {
+    const entries = segment.sessions.get(sessionId) ?? [];
+    entries.push(entry);
+    segment.sessions.set(sessionId, entries);
+    segment.events++;
+    segment.firstAt ??= entry[2];
+    segment.lastAt = entry[2];
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function emptySegment(dir: string, id: number): Segment {
+  return {
+    id,
+    file: path.join(dir, `segment-${String(id).padStart(6, "0")}.jsonl`),
+    bytes: 0,
+    events: 0,
+    firstAt: null,
+    lastAt: null,
+    sessions: new Map(),
+  };
+}
+
+function indexFile(segmentFile: string): string {
+  return segmentFile.replace(/\.jsonl$/, ".index.json");
+}
+
+/**
+ * Write-then-rename so a crash never leaves a truncated index
+ */
+function writeIndex(segment: Segment): void {
+  const index: SegmentIndex = {
+    events: segment.events,
+    firstAt: segment.firstAt,
+    lastAt: segment.lastAt,
+    sessions: Object.fromEntries(segment.sessions),
+  };
+  const file = indexFile(segment.file);
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(index));
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+function readIndex(segment: Segment): boolean {
+  try {
+    const index = JSON.parse(fs.readFileSync(indexFile(segment.file), "utf-8")) as SegmentIndex;
+    segment.bytes = fs.statSync(segment.file).size;
+    segment.events = index.events;
+    segment.firstAt = index.firstAt;
+    segment.lastAt = index.lastAt;
+    segment.sessions = new Map(Object.entries(index.sessions));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The event log in a directory, or null to keep events in memory only
+ */
+export function openEventLog(dir: string, options: EventLogOptions = {}): EventLog | null {
+  if (!dir) {
+    return null;
+  }
+  return new EventLog(path.resolve(dir), options);
+}
@@ -0,0 +1,91 @@
+/**
+ * Gallery Protocol - Messages Between Viewers and Servers
+ *
+ * The JSON messages exchanged over a gallery WebSocket. Viewers connect
+ * with an optional filter in the URL (`?session=`, `?agent=`, `?type=`),
+ * may add more named subscriptions or emit events, and receive every
+ * event that matches one of their subscriptions as it happens, tagged
+ * with the names it matched. Events carry increasing sequence numbers: a
+ * viewer that reconnects with `?resumeFrom=<last seq seen>` first gets
+ * the events it missed. Replays of recorded sessions arrive as
+ * replayEvent messages, apart from the live stream.
+ */
+
+import type { GalleryEvent, NewGalleryEvent } from "./events.js";
+import { SubscriptionFilter, parseSubscriptionFilter } from "./subscription.js";
+
+// ============================================================================
+// Connection
+// ============================================================================
+
+export interface ConnectRequest {
+  filter?: SubscriptionFilter;
+  resumeFrom?: number; // last sequence number the viewer saw
+}
+
+/**
+ * What a viewer asked for in its connection URL. `session`, `agent` and
+ * `type` take comma-separated lists; throws on an unknown event type.
+ */
+export function parseConnectUrl(url: string): ConnectRequest {
+  const params = new URL(url, "http://localhost").searchParams;
+  const list = (name: string) => {
+    const values = (params.get(name) ?? "").split(",").filter(Boolean);
+    return values.length > 0 ? values : undefined;
+  };
+  const resumeFrom = parseInt(params.get("resumeFrom") ?? "", 10);
+  return {
+    filter: parseSubscriptionFilter({ sessionIds: list("session"), agentIds: list("agent"), types: list("type") }),
+    resumeFrom: Number.isInteger(resumeFrom) && resumeFrom >= 0 ? resumeFrom : undefined,
+  };
+}
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+// Sent by viewers
+export type ClientMessage =
+  | { type: "setFilter"; sessionId: string | null } // the default subscription's session
+  | { type: "subscribe"; name: string; filter: SubscriptionFilter } // replaces a subscription of that name
+  | { type: "unsubscribe"; name: string }
+  | { type: "emit"; event: Partial<NewGalleryEvent> }
+  | { type: "replay"; sessionId: string; speed?: number; maxGapMs?: number; since?: string; until?: string }
+  | { type: "stopReplay"; replayId?: string } // all of the viewer's replays when unset
+  | { type: "ping" }
+  | {
+      type: "approval";
+      token: string;
+      action: "approve" | "reject";
+      approvalId: string;
+      reason?: string;
+      approver?: string;
+    };
+
+// Sent by servers
+export type ServerMessage =
+  | {
+      type: "connected";
+      subscriptionId: string;
+      sessionFilter: string;
+      message: string;
+      lastSeq: number; // newest event on the server
+      resumed?: ResumeSummary; // with resumeFrom; the missed events follow as event messages
+    }
+  | { type: "event"; event: GalleryEvent; subscriptions?: string[] } // names it matched; unset for resumed events
+  | { type: "filterUpdated"; sessionFilter: string }
+  | { type: "subscribed"; name: string; filter: SubscriptionFilter }
+  | { type: "unsubscribed"; name: string }
+  | { type: "emitted"; eventId: string }
+  | { type: "replayStarted"; replayId: string; sessionId: string; events: number; speed: number }
+  | { type: "replayEvent"; replayId: string; event: GalleryEvent }
+  | { type: "replayEnded"; replayId: string; sent: number; cancelled: boolean }
+  | { type: "approvalResult"; approvalId?: string; success: boolean; error?: string }
+  | { type: "pong"; lastSeq: number }
+  | { type: "error"; error: string };
+
+export interface ResumeSummary {
+  from: number;
+  events: number;
+  complete: boolean; // false when older events had already left the store
+}
@@ -0,0 +1,94 @@
+/**
+ * Replay - Recorded Sessions with Their Original Timing
+ *
+ * Plays a list of stored events back through a send callback, waiting
+ * between events as long as the original gap divided by the speed.
+ * Speed 0 sends everything at once; long idle stretches can be capped.
+ */
+
+import type { GalleryEvent } from "./events.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReplayOptions {
+  speed?: number; // 1 = original timing, 2 = twice as fast, 0 = no waiting
+  maxGapMs?: number; // longest wait between two events, after speed-up
+  signal?: AbortSignal; // stops the replay
+}
+
+export interface ReplayResult {
+  sent: number;
+  cancelled: boolean;
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+/**
+ * Check replay options from a request; throws on bad values
+ */
+export function parseReplayOptions(input: { speed?: unknown; maxGapMs?: unknown }): Pick<ReplayOptions, "speed" | "maxGapMs"> {
+  const speed = input.speed === undefined || input.speed === null || input.speed === "" ? 1 : Number(input.speed);
+  if (!Number.isFinite(speed) || speed < 0) {
+    throw new Error("speed must be a number >= 0 (0 = no waiting)");
+  }
+  const maxGapMs = input.maxGapMs === undefined || input.maxGapMs === null || input.maxGapMs === "" ? undefined : Number(input.maxGapMs);
+  if (maxGapMs !== undefined && (!Number.isFinite(maxGapMs) || maxGapMs < 0)) {
+    throw new Error("maxGapMs must be a number >= 0");
+  }
+  return { speed, maxGapMs };
+}
+
+/**
+ * Send events in order with their original spacing
+ */
+export async function replayEvents(
+  events: GalleryEvent[],
+  send: (event: GalleryEvent) => void,
+  options: ReplayOptions = {}
+): Promise<ReplayResult> {
+  const speed = options.speed ?? 1;
+  let previous: number | null = null;
+  let sent = 0;
+
+  for (const event of events) {
+    if (options.signal?.aborted) {
+      return { sent, cancelled: true };
+    }
+    const at = Date.parse(event.timestamp);
+    if (previous !== null && speed > 0) {
+      const gap = Math.min(Math.max(at - previous, 0) / speed, options.maxGapMs ?? Infinity);
+      if (gap > 0 && !(await wait(gap, options.signal))) {
+        return { sent, cancelled: true };
+      }
+    }
+    previous = at;
+    send(event);
+    sent++;
+  }
+  return { sent, cancelled: false };
+}
+
+/**
+ * Resolves true after ms, or false as soon as the signal aborts
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,75 @@
+/**
+ * Event Store - The Gallery's Recent History
+ *
+ * A bounded in-memory buffer of the latest events. New viewers and the
+ * polling endpoints read from it; once full, the oldest events drop off.
+ */
+
+import type { GalleryEvent, GalleryEventType } from "./events.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EventQuery {
+  sessionId?: string;
+  agentId?: string;
+  type?: GalleryEventType;
+  since?: string; // ISO, events strictly after
+  afterSeq?: number; // events with a higher sequence number
+  limit?: number;
+}
+
+export const MAX_EVENTS = 1000;
+
+// ============================================================================
+// Store
+// ============================================================================
+
+export class EventStore {
+  private events: GalleryEvent[] = [];
+
+  constructor(readonly capacity: number = MAX_EVENTS) {}
+
+  add(event: GalleryEvent): void {
+    this.events.push(event);
+    if (this.events.length > this.capacity) {
+      this.events.splice(0, this.events.length - this.capacity);
+    }
+  }
+
+  /**
+   * Matching events, newest first
+   */
+  query(query: EventQuery = {}): GalleryEvent[] {
+    const since = query.since ? Date.parse(query.since) : undefined;
+    const events = this.events
+      .filter((event) => !query.sessionId || event.sessionId === query.sessionId)
+      .filter((event) => !query.agentId || event.agentId === query.agentId)
+      .filter((event) => !query.type || event.type === query.type)
+      .filter((event) => since === undefined || Date.parse(event.timestamp) > since)
+      .filter((event) => query.afterSeq === undefined || event.seq > query.afterSeq)
+      .reverse();
+    return query.limit === undefined ? events : events.slice(0, query.limit);
+  }
+
+  /**
+   * Drop a session's events, or all of them; returns how many were dropped
+   */
+  clear(sessionId?: string): number {
+    const before = this.events.length;
+    this.events = sessionId ? this.events.filter((event) => event.sessionId !== sessionId) : [];
+    return before - this.events.length;
+  }
+
+  get size(): number {
+    return this.events.length;
+  }
+
+  /**
+   * Sequence number of the oldest event still held
+   */
+  get oldestSeq(): number | undefined {
+    return this.events[0]?.seq;
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+
+import { Subscription, matchesFilter, parseSubscriptionFilter } from "./subscription.js";
+import { parseConnectUrl } from "./protocol.js";
+import { GalleryHub, GallerySocket } from "./hub.js";
+import { GalleryEvent, NewGalleryEvent, createEvent } from "./events.js";
+import type { ServerMessage } from "./protocol.js";
+
+let seq = 0;
+
+function event(fields: Partial<NewGalleryEvent> = {}): GalleryEvent {
+  return createEvent({ sessionId: "s", type: "system", data: {}, ...fields }, ++seq);
+}
+
+describe("Subscription Filters", () => {
+  it("should match sessions, agents, types and data predicates together", () => {
+    const filter = parseSubscriptionFilter({
+      types: ["blockchain_tx"],
+      where: [
+        { path: "amount", op: "gt", value: 10 },
+        { path: "result.status", op: "in", value: ["confirmed", "pending"] },
+      ],
+    });
+    const tx = (amount: unknown, status = "confirmed") => event({ type: "blockchain_tx", data: { amount, result: { status } } });
+
+    assert.ok(matchesFilter(tx("12.5"), filter), "Decimal strings compare as numbers");
+    assert.ok(!matchesFilter(tx(10), filter));
+    assert.ok(!matchesFilter(tx("not a number"), filter));
+    assert.ok(!matchesFilter(tx(50, "failed"), filter));
+    assert.ok(!matchesFilter(event({ data: { amount: 50, result: { status: "confirmed" } } }), filter));
+
+    const agents = parseSubscriptionFilter({ sessionId: "a", agentIds: ["x", "y"] });
+    assert.deepStrictEqual(agents.sessionIds, ["a"]);
+    assert.ok(matchesFilter(event({ sessionId: "a", agentId: "y" }), agents));
+    assert.ok(!matchesFilter(event({ sessionId: "a" }), agents));
+    assert.ok(!matchesFilter(event({ sessionId: "b", agentId: "x" }), agents));
+  });
+
+  it("should reject malformed filters", () => {
+    assert.throws(() => parseSubscriptionFilter({ types: ["chatter"] }), /Unknown event type "chatter"/);
+    assert.throws(() => parseSubscriptionFilter({ sessionIds: [] }), /sessionIds must be a non-empty list/);
+    assert.throws(() => parseSubscriptionFilter({ where: [{ path: "amount", op: "gt", value: "lots" }] }), /numeric value/);
+    assert.throws(() => parseSubscriptionFilter({ where: [{ path: "amount", op: "like", value: 1 }] }), /op must be one of/);
+    assert.throws(() => parseSubscriptionFilter({ sample: { every: 0 } }), /sample.every/);
+    assert.throws(() => parseConnectUrl("/?type=agent_message,chatter"), /Unknown event type/);
+    assert.deepStrictEqual(parseConnectUrl("/?session=a,b&type=blockchain_tx&resumeFrom=7"), {
+      filter: { sessionIds: ["a", "b"], types: ["blockchain_tx"] },
+      resumeFrom: 7,
+    });
+    assert.deepStrictEqual(parseConnectUrl("/?session="), { filter: {}, resumeFrom: undefined });
+  });
+
+  it("should sample busy sessions separately", () => {
+    const everyThird = new Subscription("busy", { sample: { every: 3 } });
+    const kept = [1, 2, 3, 4, 5, 6, 7].filter(() => everyThird.accept(event({ sessionId: "chatty" })));
+    assert.strictEqual(kept.length, 3);
+    assert.ok(everyThird.accept(event({ sessionId: "quiet" })), "Other sessions are counted on their own");
+
+    const capped = new Subscription("capped", { sample: { maxPerSecond: 2 } });
+    const at = (ms: number) => capped.accept(event(), ms);
+    assert.deepStrictEqual([at(0), at(100), at(200), at(1000)], [true, true, false, true]);
+  });
+});
+
+describe("Gallery Hub Subscriptions", () => {
+  it("should send each event once with the names of the subscriptions it matched", () => {
+    const hub = new GalleryHub();
+    const received: ServerMessage[] = [];
+    const socket: GallerySocket = { readyState: 1, send: (data) => received.push(JSON.parse(data)) };
+    const client = hub.connect(socket, { filter: { types: ["blockchain_tx"] } });
+
+    hub.receive(client.subscriptionId, JSON.stringify({
+      type: "subscribe",
+      name: "big",
+      filter: { types: ["blockchain_tx"], where: [{ path: "amount", op: "gte", value: 100 }] },
+    }));
+    assert.strictEqual(received[1].type, "subscribed");
+
+    hub.emit({ sessionId: "s1", type: "agent_message", data: { message: "chatter" } });
+    hub.emit({ sessionId: "s1", type: "blockchain_tx", data: { amount: "5" } });
+    hub.emit({ sessionId: "s2", type: "blockchain_tx", data: { amount: "250" } });
+    const events = received.filter((message): message is Extract<ServerMessage, { type: "event" }> => message.type === "event");
+    assert.deepStrictEqual(
+      events.map((message) => [message.event.data.amount, message.subscriptions]),
+      [["5", ["default"]], ["250", ["default", "big"]]]
+    );
+
+    hub.receive(client.subscriptionId, JSON.stringify({ type: "unsubscribe", name: "default" }));
+    assert.deepStrictEqual(received[received.length - 1], { type: "unsubscribed", name: "default" });
+    assert.deepStrictEqual(hub.clientDetails()[0].subscriptions, { big: "types=blockchain_tx where=amount gte 100" });
+    const before = received.length;
+    hub.emit({ sessionId: "s1", type: "blockchain_tx", data: { amount: "5" } });
+    assert.strictEqual(received.length, before, "Small transfers no longer match");
+
+    hub.receive(client.subscriptionId, JSON.stringify({ type: "unsubscribe", name: "default" }));
+    hub.receive(client.subscriptionId, JSON.stringify({ type: "subscribe", name: "bad", filter: { types: ["nope"] } }));
+    assert.deepStrictEqual(
+      received.slice(-2).map((message) => message.type),
+      ["error", "error"]
+    );
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Subscriptions - What a Viewer Wants to See
+ *
+ * A subscription filter narrows the live stream by sessions, agents, event
+ * types and predicates on event data ("blockchain_tx with amount above
+ * 10"). Lists match any of their entries; everything set must match. A
+ * subscription can also sample high-volume sessions on the server, so a
+ * dashboard watching many sessions is not flooded by chatty ones.
+ */
+
+import { GALLERY_EVENT_TYPES, GalleryEvent, GalleryEventType, isGalleryEventType } from "./events.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const PREDICATE_OPS = ["eq", "ne", "gt", "gte", "lt", "lte", "in", "contains", "exists"] as const;
+
+export type PredicateOp = (typeof PREDICATE_OPS)[number];
+
+export interface DataPredicate {
+  path: string; // dotted path into event.data, e.g. "amount" or "result.status"
+  op: PredicateOp;
+  value?: unknown; // a list for "in"; unused for "exists"
+}
+
+export interface SampleOptions {
+  every?: number; // keep one of every N matching events per session
+  maxPerSecond?: number; // at most this many matching events per session per second
+}
+
+export interface SubscriptionFilter {
+  sessionIds?: string[]; // all sessions when unset
+  agentIds?: string[];
+  types?: GalleryEventType[];
+  where?: DataPredicate[];
+  sample?: SampleOptions;
+}
+
+export const MAX_SUBSCRIPTIONS = 16;
+export const MAX_PREDICATES = 16;
+
+// The subscription created from the connection URL and changed by setFilter
+export const DEFAULT_SUBSCRIPTION = "default";
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a filter sent by a viewer. `sessionId` is accepted as a
+ * single-session shorthand.
+ */
+export function parseSubscriptionFilter(input: unknown): SubscriptionFilter {
+  if (input === undefined || input === null) {
+    return {};
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("filter must be an object");
+  }
+  const raw = input as Record<string, unknown>;
+  const filter: SubscriptionFilter = {};
+
+  const sessionIds = raw.sessionIds ?? (raw.sessionId ? [raw.sessionId] : undefined);
+  if (sessionIds !== undefined) filter.sessionIds = stringList(sessionIds, "sessionIds");
+  if (raw.agentIds !== undefined) filter.agentIds = stringList(raw.agentIds, "agentIds");
+  if (raw.types !== undefined) {
+    const types = stringList(raw.types, "types");
+    const unknown = types.find((type) => !isGalleryEventType(type));
+    if (unknown !== undefined) {
+      throw new Error(`Unknown event type "${unknown}"; types must be among: ${GALLERY_EVENT_TYPES.join(", ")}`);
+    }
+    filter.types = types as GalleryEventType[];
+  }
+  if (raw.where !== undefined) {
+    if (!Array.isArray(raw.where) || raw.where.length > MAX_PREDICATES) {
+      throw new Error(`where must be a list of at most ${MAX_PREDICATES} predicates`);
+    }
+    filter.where = raw.where.map(parsePredicate);
+  }
+  if (raw.sample !== undefined) {
+    filter.sample = parseSample(raw.sample);
+  }
+  return filter;
+}
+
+function stringList(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || value.length === 0 || !value.every((item) => typeof item === "string" && item)) {
+    throw new Error(`${field} must be a non-empty list of strings`);
+  }
+  return value;
+}
+
+function parsePredicate(input: unknown): DataPredicate {
+  const raw = (typeof input === "object" && input !== null ? input : {}) as Record<string, unknown>;
+  if (typeof raw.path !== "string" || !raw.path) {
+    throw new Error("Each where predicate needs a path");
+  }
+  if (!(PREDICATE_OPS as readonly unknown[]).includes(raw.op)) {
+    throw new Error(`Predicate op must be one of: ${PREDICATE_OPS.join(", ")}`);
+  }
+  const op = raw.op as PredicateOp;
+  if (op === "in" && !Array.isArray(raw.value)) {
+    throw new Error(`Predicate "${raw.path} in" needs a list value`);
+  }
+  if (op !== "exists" && raw.value === undefined) {
+    throw new Error(`Predicate "${raw.path} ${op}" needs a value`);
+  }
+  if ((op === "gt" || op === "gte" || op === "lt" || op === "lte") && toNumber(raw.value) === null) {
+    throw new Error(`Predicate "${raw.path} ${op}" needs a numeric value`);
+  }
+  return { path: raw.path, op, value: raw.value };
+}
+
+function parseSample(input: unknown): SampleOptions {
+  const raw = (typeof input === "object" && input !== null ? input : {}) as Record<string, unknown>;
+  const sample: SampleOptions = {};
+  if (raw.every !== undefined) {
+    if (!Number.isInteger(raw.every) || (raw.every as number) < 1) {
+      throw new Error("sample.every must be an integer >= 1");
+    }
+    sample.every = raw.every as number;
+  }
+  if (raw.maxPerSecond !== undefined) {
+    if (typeof raw.maxPerSecond !== "number" || !(raw.maxPerSecond > 0)) {
+      throw new Error("sample.maxPerSecond must be a number > 0");
+    }
+    sample.maxPerSecond = raw.maxPerSecond;
+  }
+  return sample;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+export function matchesFilter(event: GalleryEvent, filter: SubscriptionFilter): boolean {
+  if (filter.sessionIds && !filter.sessionIds.includes(event.sessionId)) return false;
+  if (filter.agentIds && (!event.agentId || !filter.agentIds.includes(event.agentId))) return false;
+  if (filter.types && !filter.types.includes(event.type)) return false;
+  return (filter.where ?? []).every((predicate) => matchesPredicate(event.data, predicate));
+}
+
+function matchesPredicate(data: Record<string, unknown>, predicate: DataPredicate): boolean {
+  const actual = predicate.path
+    .split(".")
+    .reduce<unknown>((value, key) => (typeof value === "object" && value !== null ? (value as Record<string, unknown>)[key] : undefined), data);
+
+  switch (predicate.op) {
+    case "exists":
+      return actual !== undefined && actual !== null;
+    case "eq":
+      return sameValue(actual, predicate.value);
+    case "ne":
+      return !sameValue(actual, predicate.value);
+    case "in":
+      return (predicate.value as unknown[]).some((value) => sameValue(actual, value));
+    case "contains":
+      if (typeof actual === "string") return actual.includes(String(predicate.value));
+      return Array.isArray(actual) && actual.some((value) => sameValue(value, predicate.value));
+    default: {
+      // Amounts are often decimal strings ("1.5"), so compare as numbers
+      const left = toNumber(actual);
+      const right = toNumber(predicate.value);
+      if (left === null || right === null) return false;
+      if (predicate.op === "gt") return left > right;
+      if (predicate.op === "gte") return left >= right;
+      if (predicate.op === "lt") return left < right;
+      return left <= right;
+    }
+  }
+}
+
+function sameValue(actual: unknown, expected: unknown): boolean {
+  if (actual === expected) return true;
+  const left = toNumber(actual);
+  const right = toNumber(expected);
+  return left !== null && right !== null && left === right;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+  }
+  return null;
+}
+
+// ============================================================================
+// Subscription
+// ============================================================================
+
+/**
+ * A named filter on one viewer's socket, with its sampling state
+ */
+export class Subscription {
+  private seen: Map<string, number> = new Map(); // matching events per session
+  private windows: Map<string, { startedAt: number; sent: number }> = new Map();
+
+  constructor(readonly name: string, readonly filter: SubscriptionFilter) {}
+
+  /**
+   * Whether a live event goes out on this subscription. Sampling only
+   * counts events that match the filter.
+   */
+  accept(event: GalleryEvent, now: number = Date.now()): boolean {
+    if (!matchesFilter(event, this.filter)) return false;
+    const { every, maxPerSecond } = this.filter.sample ?? {};
+
+    if (every && every > 1) {
+      const seen = this.seen.get(event.sessionId) ?? 0;
+      this.seen.set(event.sessionId, seen + 1);
+      if (seen % every !== 0) return false;
+    }
+    if (maxPerSecond) {
+      let window = this.windows.get(event.sessionId);
+      if (!window || now - window.startedAt >= 1000) {
+        window = { startedAt: now, sent: 0 };
+        this.windows.set(event.sessionId, window);
+      }
+      if (window.sent >= maxPerSecond) return false;
+      window.sent++;
+    }
+    return true;
+  }
+
+  /**
+   * Short description for logs and status output
+   */
+  describe(): string {
+    const { sessionIds, agentIds, types, where, sample } = this.filter;
+    const parts = [
+      sessionIds && `sessions=${sessionIds.join(",")}`,
+      agentIds && `agents=${agentIds.join(",")}`,
+      types && `types=${types.join(",")}`,
+      where && `where=${where.map((predicate) => `${predicate.path} ${predicate.op}${predicate.op === "exists" ? "" : ` ${JSON.stringify(predicate.value)}`}`).join(" and ")}`,
+      sample?.every && `every=${sample.every}`,
+      sample?.maxPerSecond && `maxPerSecond=${sample.maxPerSecond}`,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(" ") : "all";
+  }
+}
@@ -1,246 +1,364 @@
 import { createServer, IncomingMessage, ServerResponse } from "http";
-import { WebSocketServer, WebSocket } from "ws";
+import { WebSocketServer } from "ws";
+import {
+  Access,
+  ConnectRequest,
+  DEFAULT_SUBSCRIPTION,
+  GalleryAuth,
+  GalleryClient,
+  GalleryHub,
+  ServerMessage,
+  canRead,
+  openEventLog,
+  parseConnectUrl,
+  parseNewEvent,
+  parseReplayOptions,
+  replayEvents,
+} from "@clawmasutra/gallery-core";
 
 const PORT = parseInt(process.env.PORT || "3001");
 
-// Event types for the gallery stream
-interface GalleryEvent {
-  id: string;
-  timestamp: Date;
-  type: "agent_message" | "agent_action" | "blockchain_tx" | "position_update" | "system";
-  sessionId: string;
-  agentId?: string;
-  data: Record<string, unknown>;
+// Stores events, records them to the event log and pushes them to connected viewers
+const hub = new GalleryHub({
+  log: openEventLog(process.env.GALLERY_LOG_DIR ?? ".clawmasutra/gallery", {
+    retention: {
+      maxAgeDays: parseFloat(process.env.GALLERY_LOG_RETENTION_DAYS || "30"),
+      maxSizeMb: parseFloat(process.env.GALLERY_LOG_MAX_MB || "1024"),
+    },
+  }),
+});
+
+function envList(value: string | undefined): string[] {
+  return (value || "").split(",").map((item) => item.trim()).filter(Boolean);
 }
 
-// In-memory event store
-const eventStore: GalleryEvent[] = [];
-const MAX_EVENTS = 1000;
+// API keys for emitters, signed tokens for viewers; open until GALLERY_API_KEYS is set
+const auth = new GalleryAuth({
+  apiKeys: envList(process.env.GALLERY_API_KEYS),
+  viewerSecret: process.env.GALLERY_VIEWER_SECRET || undefined,
+  allowedOrigins: envList(process.env.GALLERY_ALLOWED_ORIGINS),
+  viewerTokenTtlSeconds: parseInt(process.env.GALLERY_VIEWER_TOKEN_TTL || "86400"),
+  telegram: process.env.GALLERY_TELEGRAM_BOT_TOKEN
+    ? {
+        botToken: process.env.GALLERY_TELEGRAM_BOT_TOKEN,
+        sessions: (process.env.GALLERY_TELEGRAM_SESSIONS || "*") === "*" ? "*" : envList(process.env.GALLERY_TELEGRAM_SESSIONS),
+      }
+    : undefined,
+});
 
-// Connected clients with their session filters
-interface ClientConnection {
-  ws: WebSocket;
-  sessionFilter?: string;
-  subscriptionId: string;
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
 }
-const clients: Map<string, ClientConnection> = new Map();
 
 /**
- * Broadcast an event to all connected WebSocket clients
+ * CORS for the allowed origins, or for any origin without an allowlist
  */
-function broadcastEvent(event: GalleryEvent): number {
-  let sentCount = 0;
+function setCorsHeaders(req: IncomingMessage, res: ServerResponse): void {
+  if ((auth.config.allowedOrigins ?? []).length === 0) {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    return;
+  }
+  res.setHeader("Vary", "Origin");
+  if (req.headers.origin && auth.originAllowed(req.headers.origin)) {
+    res.setHeader("Access-Control-Allow-Origin", req.headers.origin);
+  }
+}
 
-  clients.forEach((client) => {
-    if (client.sessionFilter && event.sessionId !== client.sessionFilter) {
-      return;
-    }
+/**
+ * The bearer token of a request; browsers cannot set headers on a
+ * WebSocket, so `?token=` works too
+ */
+function requestToken(req: IncomingMessage): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim();
+  }
+  return new URL(req.url || "/", "http://localhost").searchParams.get("token") || undefined;
+}
 
-    if (client.ws.readyState === WebSocket.OPEN) {
-      try {
-        client.ws.send(JSON.stringify({
-          type: "event",
-          event: {
-            id: event.id,
-            timestamp: event.timestamp.toISOString(),
-            type: event.type,
-            sessionId: event.sessionId,
-            agentId: event.agentId,
-            data: event.data,
-          },
-        }));
-        sentCount++;
-      } catch (error) {
-        console.warn(`Failed to send to client ${client.subscriptionId}:`, error instanceof Error ? error.message : String(error));
-      }
+/**
+ * The caller's access; answers 401 and returns null without a valid token
+ */
+function authorize(req: IncomingMessage, res: ServerResponse): Access | null {
+  try {
+    const access = auth.authenticate(requestToken(req));
+    if (!access) {
+      sendJson(res, 401, { error: "Authentication required: send Authorization: Bearer <API key or viewer token>" });
     }
-  });
-
-  return sentCount;
+    return access;
+  } catch (error) {
+    sendJson(res, 401, { error: errorMessage(error) });
+    return null;
+  }
 }
 
-function addEvent(event: Omit<GalleryEvent, "id" | "timestamp">): GalleryEvent {
-  const fullEvent: GalleryEvent = {
-    ...event,
-    id: `evt-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-    timestamp: new Date(),
-  };
-
-  eventStore.push(fullEvent);
-
-  if (eventStore.length > MAX_EVENTS) {
-    eventStore.splice(0, eventStore.length - MAX_EVENTS);
-  }
+// Largest request body read; bigger ones get 413
+const MAX_BODY_BYTES = 1024 * 1024;
 
-  broadcastEvent(fullEvent);
-  return fullEvent;
+function readJson(req: IncomingMessage, res: ServerResponse, handle: (input: unknown) => void): void {
+  let body = "";
+  let size = 0;
+  req.on("data", (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      if (!res.headersSent) {
+        res.setHeader("Connection", "close");
+        sendJson(res, 413, { error: `Request body over ${MAX_BODY_BYTES} bytes` });
+        res.on("finish", () => req.destroy());
+      }
+      return;
+    }
+    body += chunk;
+  });
+  req.on("end", () => {
+    if (size > MAX_BODY_BYTES) return;
+    let input: unknown;
+    try {
+      input = JSON.parse(body);
+    } catch {
+      sendJson(res, 400, { error: "Invalid JSON" });
+      return;
+    }
+    try {
+      handle(input);
+    } catch (error) {
+      sendJson(res, 400, { error: errorMessage(error) });
+    }
+  });
 }
 
 // Create HTTP server for health checks and WebSocket upgrade
 const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+  setCorsHeaders(req, res);
+  if (!auth.originAllowed(req.headers.origin)) {
+    sendJson(res, 403, { error: "Origin not allowed" });
+    return;
+  }
+  const path = (req.url || "/").split("?")[0];
+
   // Health check endpoint
-  if (req.url === "/health" || req.url === "/") {
-    res.writeHead(200, {
-      "Content-Type": "application/json",
-      "Access-Control-Allow-Origin": "*",
-    });
-    res.end(JSON.stringify({
+  if (path === "/health" || path === "/") {
+    sendJson(res, 200, {
       status: "ok",
       service: "clawmasutra-gallery",
-      clients: clients.size,
-      events: eventStore.length,
+      clients: hub.clientCount,
+      events: hub.store.size,
+      log: hub.eventLog?.stats() ?? null,
+      auth: auth.enabled,
       uptime: process.uptime(),
-    }));
+    });
     return;
   }
 
-  // API endpoint to emit events (POST /emit)
-  if (req.url === "/emit" && req.method === "POST") {
-    let body = "";
-    req.on("data", chunk => body += chunk);
-    req.on("end", () => {
+  // CORS preflight
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, {
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    });
+    res.end();
+    return;
+  }
+
+  // Viewer token for a Telegram Mini App user (POST /auth/telegram)
+  if (path === "/auth/telegram" && req.method === "POST") {
+    readJson(req, res, (input) => {
+      const initData = (input as { initData?: unknown })?.initData;
+      if (typeof initData !== "string" || !initData) {
+        sendJson(res, 400, { error: "initData is required" });
+        return;
+      }
       try {
-        const data = JSON.parse(body);
-        const event = addEvent({
-          sessionId: data.sessionId || "api",
-          agentId: data.agentId,
-          type: data.type || "system",
-          data: data.data || data,
-        });
-        res.writeHead(200, {
-          "Content-Type": "application/json",
-          "Access-Control-Allow-Origin": "*",
-        });
-        res.end(JSON.stringify({ success: true, eventId: event.id }));
+        const { token, expiresAt, sessions, user } = auth.telegramViewerToken(initData);
+        sendJson(res, 200, { token, expiresAt, sessions, userId: user.userId });
       } catch (error) {
-        res.writeHead(400, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: "Invalid JSON" }));
+        sendJson(res, 401, { error: errorMessage(error) });
       }
     });
     return;
   }
 
-  // API endpoint to get recent events (GET /events)
-  if (req.url?.startsWith("/events")) {
-    const url = new URL(req.url, `http://localhost:${PORT}`);
-    const limit = parseInt(url.searchParams.get("limit") || "50");
-    const sessionId = url.searchParams.get("session");
-
-    let events = [...eventStore];
-    if (sessionId) {
-      events = events.filter(e => e.sessionId === sessionId);
-    }
-    events = events.slice(-limit).reverse();
+  const access = authorize(req, res);
+  if (!access) return;
 
-    res.writeHead(200, {
-      "Content-Type": "application/json",
-      "Access-Control-Allow-Origin": "*",
+  // Mint a viewer token for some sessions (POST /auth/token, API keys only)
+  if (path === "/auth/token" && req.method === "POST") {
+    if (!access.emit) {
+      sendJson(res, 403, { error: "Viewer tokens cannot mint tokens" });
+      return;
+    }
+    readJson(req, res, (input) => {
+      const { sessions, subject, ttlSeconds } = (input ?? {}) as { sessions?: unknown; subject?: unknown; ttlSeconds?: unknown };
+      const validSessions = sessions === "*" || (Array.isArray(sessions) && sessions.length > 0 && sessions.every((sessionId) => typeof sessionId === "string" && sessionId));
+      if (!validSessions) {
+        sendJson(res, 400, { error: 'sessions must be "*" or a non-empty list of session IDs' });
+        return;
+      }
+      const minted = auth.mintViewerToken(
+        access,
+        typeof subject === "string" && subject ? subject : "viewer",
+        sessions as string[] | "*",
+        typeof ttlSeconds === "number" ? ttlSeconds : undefined
+      );
+      sendJson(res, 200, minted);
     });
-    res.end(JSON.stringify({
-      count: events.length,
-      events: events.map(e => ({
-        id: e.id,
-        timestamp: e.timestamp.toISOString(),
-        type: e.type,
-        sessionId: e.sessionId,
-        agentId: e.agentId,
-        data: e.data,
-      })),
-    }));
     return;
   }
 
-  // CORS preflight
-  if (req.method === "OPTIONS") {
-    res.writeHead(204, {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type",
+  // API endpoint to emit events (POST /emit)
+  if (path === "/emit" && req.method === "POST") {
+    if (!access.emit) {
+      sendJson(res, 403, { error: "Viewer tokens cannot emit events" });
+      return;
+    }
+    readJson(req, res, (input) => {
+      const event = hub.emit(parseNewEvent(input, { sessionId: "api", type: "system", data: {} }));
+      sendJson(res, 200, { success: true, eventId: event.id });
     });
-    res.end();
     return;
   }
 
-  res.writeHead(404, { "Content-Type": "application/json" });
-  res.end(JSON.stringify({ error: "Not found" }));
-});
-
-// Create WebSocket server
-const wss = new WebSocketServer({ server });
+  // API endpoint to get recent events (GET /events)
+  if (path === "/events") {
+    const url = new URL(req.url!, `http://localhost:${PORT}`);
+    const sessionId = url.searchParams.get("session") || undefined;
+    if (sessionId && !canRead(access, sessionId)) {
+      sendJson(res, 403, { error: `Not allowed to watch session "${sessionId}"` });
+      return;
+    }
+    const limit = url.searchParams.get("limit") ?? "50";
+    if (!/^\d+$/.test(limit) || parseInt(limit, 10) < 1) {
+      sendJson(res, 400, { error: `Invalid limit: ${limit} (expected a positive integer)` });
+      return;
+    }
+    const events = hub.store
+      .query({ sessionId })
+      .filter((event) => canRead(access, event.sessionId))
+      .slice(0, parseInt(limit, 10));
+    sendJson(res, 200, { count: events.length, events });
+    return;
+  }
 
-wss.on("connection", (ws, req) => {
-  const subscriptionId = `ws-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  // Recorded sessions (GET /sessions)
+  if (path === "/sessions" && req.method === "GET") {
+    const sessions = (hub.eventLog?.sessions() ?? []).filter((session) => canRead(access, session.sessionId));
+    sendJson(res, 200, { count: sessions.length, sessions });
+    return;
+  }
 
-  const url = new URL(req.url || "/", `http://localhost:${PORT}`);
-  const sessionFilter = url.searchParams.get("session") || undefined;
+  // Replay a recorded session with its original timing (GET /sessions/:id/replay?speed=2)
+  const replay = req.method === "GET" ? /^\/sessions\/([^/]+)\/replay$/.exec(path) : null;
+  if (replay) {
+    let sessionId: string;
+    try {
+      sessionId = decodeURIComponent(replay[1]);
+    } catch {
+      sendJson(res, 400, { error: "Malformed session ID" });
+      return;
+    }
+    if (!canRead(access, sessionId)) {
+      sendJson(res, 403, { error: `Not allowed to watch session "${sessionId}"` });
+      return;
+    }
+    const url = new URL(req.url!, `http://localhost:${PORT}`);
+    let options;
+    try {
+      options = parseReplayOptions({ speed: url.searchParams.get("speed"), maxGapMs: url.searchParams.get("maxGapMs") });
+    } catch (error) {
+      sendJson(res, 400, { error: errorMessage(error) });
+      return;
+    }
+    const events = hub.history(sessionId, {
+      since: url.searchParams.get("since") || undefined,
+      until: url.searchParams.get("until") || undefined,
+    });
 
-  clients.set(subscriptionId, { ws, sessionFilter, subscriptionId });
-  console.log(`Client connected: ${subscriptionId} (filter: ${sessionFilter || "all"})`);
+    // One event per line as it comes due; stops when the client goes away
+    const controller = new AbortController();
+    res.on("close", () => controller.abort());
+    res.writeHead(200, {
+      "Content-Type": "application/x-ndjson",
+      "X-Replay-Events": String(events.length),
+    });
+    replayEvents(events, (event) => res.write(`${JSON.stringify(event)}\n`), { ...options, signal: controller.signal })
+      .then(() => res.end());
+    return;
+  }
 
-  ws.send(JSON.stringify({
-    type: "connected",
-    subscriptionId,
-    sessionFilter: sessionFilter || "all",
-    message: "Connected to Clawmasutra Gallery Stream",
-  }));
+  sendJson(res, 404, { error: "Not found" });
+});
 
-  ws.on("message", (data) => {
-    try {
-      const msg = JSON.parse(data.toString());
-
-      // Handle filter updates
-      if (msg.type === "setFilter" && msg.sessionId !== undefined) {
-        const client = clients.get(subscriptionId);
-        if (client) {
-          client.sessionFilter = msg.sessionId || undefined;
-          ws.send(JSON.stringify({
-            type: "filterUpdated",
-            sessionFilter: msg.sessionId || "all",
-          }));
-        }
-      }
+// Create WebSocket server; browsers from other origins are refused at the upgrade
+const wss = new WebSocketServer({ server, verifyClient: (info: { origin: string }) => auth.originAllowed(info.origin) });
 
-      // Handle event emission from WebSocket
-      if (msg.type === "emit" && msg.event) {
-        const event = addEvent({
-          sessionId: msg.event.sessionId || subscriptionId,
-          agentId: msg.event.agentId,
-          type: msg.event.type || "system",
-          data: msg.event.data || {},
-        });
-        ws.send(JSON.stringify({
-          type: "emitted",
-          eventId: event.id,
-        }));
-      }
-    } catch (error) {
-      console.warn(`Invalid WebSocket message from ${subscriptionId}:`, error instanceof Error ? error.message : String(error));
+wss.on("connection", (ws, req) => {
+  let request: ConnectRequest;
+  let access: Access | null;
+  let client: GalleryClient;
+  try {
+    access = auth.authenticate(requestToken(req));
+    if (!access) {
+      throw new Error("Authentication required: connect with ?token=<viewer token or API key>");
     }
-  });
+    request = parseConnectUrl(req.url || "/");
+    client = hub.connect(ws, request, access);
+  } catch (error) {
+    const message: ServerMessage = { type: "error", error: errorMessage(error) };
+    ws.send(JSON.stringify(message));
+    ws.close(1008, "Connection refused");
+    return;
+  }
+  const { subscriptionId } = client;
+  const resumed = request.resumeFrom === undefined ? "" : `, resuming after #${request.resumeFrom}`;
+  const viewer = access.subject ? `, ${access.subject}` : "";
+  console.log(`Client connected: ${subscriptionId} (filter: ${client.subscriptions.get(DEFAULT_SUBSCRIPTION)?.describe()}${resumed}${viewer})`);
+
+  // Heartbeat answers
+  ws.on("pong", () => hub.markAlive(subscriptionId));
+
+  // Subscription changes and emits
+  ws.on("message", (data) => hub.receive(subscriptionId, data.toString()));
 
   ws.on("close", () => {
     console.log(`Client disconnected: ${subscriptionId}`);
-    clients.delete(subscriptionId);
+    hub.disconnect(subscriptionId);
   });
 
   ws.on("error", (error) => {
     console.warn(`WebSocket client error (${subscriptionId}):`, error.message);
-    clients.delete(subscriptionId);
+    hub.disconnect(subscriptionId);
   });
 });
 
+// Drop viewers whose connection died without closing (common on mobile)
+const stopHeartbeat = hub.startHeartbeat(parseInt(process.env.GALLERY_HEARTBEAT_MS || "30000"));
+
 // Start server
 server.listen(PORT, () => {
   console.log(`Clawmasutra Gallery Server running on port ${PORT}`);
   console.log(`  Health: http://localhost:${PORT}/health`);
   console.log(`  Events: http://localhost:${PORT}/events`);
+  console.log(`  Replay: http://localhost:${PORT}/sessions/:id/replay?speed=1`);
+  console.log(`  Event log: ${hub.eventLog ? hub.eventLog.dir : "disabled (in-memory only)"}`);
   console.log(`  WebSocket: ws://localhost:${PORT}`);
+  if (auth.enabled) {
+    console.log(`  Auth: API keys${auth.config.viewerSecret ? ", viewer tokens" : ""}${auth.config.telegram ? ", Telegram sign-in" : ""}`);
+  } else {
+    console.warn("  Auth: disabled - anyone can emit events (set GALLERY_API_KEYS)");
+  }
 });
 
 // Graceful shutdown
 process.on("SIGTERM", () => {
   console.log("Shutting down...");
+  stopHeartbeat();
   wss.close();
   server.close();
+  hub.eventLog?.close();
   process.exit(0);
 });
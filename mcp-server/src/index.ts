@@ -7,11 +7,25 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 
 import { tonWalletTools, handleTonWalletTool } from "./tools/ton-wallet.js";
+import { tonKeystoreTools, handleTonKeystoreTool } from "./tools/ton-keystore.js";
+import { tonJettonTools, handleTonJettonTool } from "./tools/ton-jetton.js";
 import { tonContractTools, handleTonContractTool } from "./tools/ton-contract.js";
+import { tonSandboxTools, handleTonSandboxTool } from "./tools/ton-sandbox.js";
 import { positionTools, handlePositionTool } from "./tools/position-invoke.js";
-import { galleryTools, handleGalleryTool, initWebSocketServer, broadcastEvent, GalleryEvent } from "./tools/gallery-stream.js";
+import {
+  galleryTools,
+  handleGalleryTool,
+  initWebSocketServer,
+  recordEvents,
+  forwardEvents,
+  addEvent,
+  setApprovalHandler,
+} from "./tools/gallery-stream.js";
 import { sessionsTools, handleSessionsTool } from "./tools/sessions.js";
+import { approvalsTools, handleApprovalsTool } from "./tools/approvals.js";
 import { initOrchestrator, hasOrchestrator } from "./orchestrator/index.js";
+import { getMetadataResolver, loadMetadataFixtures } from "./ton/metadata.js";
+import { getTransactionTracker } from "./ton/tracker.js";
 
 type ToolHandler = (name: string, args: Record<string, unknown> | undefined) => Promise<{
   content: Array<{ type: string; text: string }>;
@@ -21,14 +35,21 @@ type ToolHandler = (name: string, args: Record<string, unknown> | undefined) =>
 // Tool registry with prefix-based routing
 const toolRegistry: Array<{ prefix: string; tools: Tool[]; handler: ToolHandler }> = [
   { prefix: "ton_wallet_", tools: tonWalletTools, handler: handleTonWalletTool },
+  { prefix: "ton_keystore_", tools: tonKeystoreTools, handler: handleTonKeystoreTool },
+  { prefix: "ton_jetton_", tools: tonJettonTools, handler: handleTonJettonTool },
   { prefix: "ton_contract_", tools: tonContractTools, handler: handleTonContractTool },
+  { prefix: "ton_sandbox_", tools: tonSandboxTools, handler: handleTonSandboxTool },
   { prefix: "position_", tools: positionTools, handler: handlePositionTool },
   { prefix: "gallery_", tools: galleryTools, handler: handleGalleryTool },
   { prefix: "sessions_", tools: sessionsTools, handler: handleSessionsTool },
+  { prefix: "approvals_", tools: approvalsTools, handler: handleApprovalsTool },
 ];
 
 const allTools = toolRegistry.flatMap(r => r.tools);
 
+// Remote gallery server to forward events to (unset = serve the gallery here)
+const GALLERY_SERVER_URL = process.env.GALLERY_WS_URL || "";
+
 const server = new Server(
   { name: "clawmasutra", version: "0.1.0" },
   { capabilities: { tools: {} } }
@@ -53,62 +74,94 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
 /**
  * Initialize the orchestrator if ANTHROPIC_API_KEY is available
+ * (or AGENT_PROVIDER=scripted for offline runs from fixtures)
  */
-function initializeOrchestrator(): void {
+async function initializeOrchestrator(): Promise<void> {
   const apiKey = process.env.ANTHROPIC_API_KEY;
+  const provider = process.env.AGENT_PROVIDER === "scripted" ? "scripted" : "anthropic";
 
-  if (!apiKey) {
+  if (provider === "anthropic" && !apiKey) {
     console.error("ANTHROPIC_API_KEY not set - orchestrator disabled (demo mode only)");
     return;
   }
 
   const orchestrator = initOrchestrator({
-    anthropicApiKey: apiKey,
+    anthropicApiKey: apiKey || "",
+    llmProvider: provider,
+    llmScriptPath: process.env.AGENT_SCRIPT_PATH || "",
     model: process.env.AGENT_MODEL || "claude-sonnet-4-20250514",
     maxTokensPerTurn: parseInt(process.env.AGENT_MAX_TOKENS || "4096"),
     agentTimeoutMs: parseInt(process.env.AGENT_TIMEOUT_MS || "300000"),
     sessionMaxAgents: parseInt(process.env.SESSION_MAX_AGENTS || "10"),
     sessionMaxMessages: parseInt(process.env.SESSION_MAX_MESSAGES || "1000"),
-    galleryServerUrl: process.env.GALLERY_WS_URL || "http://localhost:3001",
+    galleryServerUrl: GALLERY_SERVER_URL,
     skillsPath: process.env.CLAWMASUTRA_SKILLS_PATH || "../skills",
+    sessionStorePath: process.env.CLAWMASUTRA_SESSION_STORE ?? ".clawmasutra/sessions",
+    approvalTimeoutMs: parseInt(process.env.APPROVAL_TIMEOUT_MS || "900000"),
   });
 
-  // Connect gallery emitter to broadcast events
-  orchestrator.setGalleryEmitter((event) => {
-    // Create full event with ID and timestamp
-    const fullEvent: GalleryEvent = {
-      ...event,
-      id: `evt-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-      timestamp: new Date(),
-    };
-
-    // Broadcast to WebSocket clients
-    broadcastEvent(fullEvent);
+  // Store, broadcast and forward orchestrator events like any other
+  orchestrator.setGalleryEmitter(addEvent);
+
+  // Let the dapp approvals panel resolve gated calls over WebSocket
+  setApprovalHandler(({ action, approvalId, reason, approver }) => {
+    try {
+      if (action === "approve") {
+        orchestrator.approveRequest(approvalId, approver);
+      } else {
+        orchestrator.rejectRequest(approvalId, reason, approver);
+      }
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
   });
 
   // Register MCP tool handlers for agent tool calls
   orchestrator.registerToolHandler("ton_wallet_", handleTonWalletTool);
   orchestrator.registerToolHandler("ton_contract_", handleTonContractTool);
+  orchestrator.registerToolHandler("ton_jetton_", handleTonJettonTool);
 
   console.error("Orchestrator initialized - real agent execution enabled");
+  console.error(`  Provider: ${provider}${provider === "scripted" ? ` (${process.env.AGENT_SCRIPT_PATH})` : ""}`);
   console.error(`  Model: ${process.env.AGENT_MODEL || "claude-sonnet-4-20250514"}`);
   console.error(`  Max tokens/turn: ${process.env.AGENT_MAX_TOKENS || "4096"}`);
   console.error(`  Agent timeout: ${process.env.AGENT_TIMEOUT_MS || "300000"}ms`);
+
+  // Resume sessions interrupted by the previous shutdown
+  const resumed = await orchestrator.resumeSessions();
+  if (resumed.length > 0) {
+    console.error(`  Resumed sessions: ${resumed.join(", ")}`);
+  }
 }
 
 async function main() {
-  // Auto-start gallery WebSocket server for real-time streaming
-  initWebSocketServer();
+  // Forward events to a remote gallery server, or record and serve them here
+  if (GALLERY_SERVER_URL) {
+    forwardEvents(GALLERY_SERVER_URL);
+  } else {
+    recordEvents(process.env.GALLERY_LOG_DIR ?? ".clawmasutra/gallery");
+    initWebSocketServer();
+  }
+
+  // Stream status changes of sent transfers to the gallery
+  getTransactionTracker().setGalleryEmitter(addEvent);
+
+  // Serve off-chain token metadata from fixtures instead of the network
+  if (process.env.TON_METADATA_FIXTURES) {
+    getMetadataResolver().setFetcher(loadMetadataFixtures(process.env.TON_METADATA_FIXTURES));
+    console.error(`  Token metadata: fixtures (${process.env.TON_METADATA_FIXTURES})`);
+  }
 
   // Initialize orchestrator if API key is available
-  initializeOrchestrator();
+  await initializeOrchestrator();
 
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
   console.error("Clawmasutra MCP server running on stdio");
   console.error(`  Tools registered: ${allTools.length}`);
-  console.error(`  Orchestrator: ${hasOrchestrator() ? "enabled" : "disabled (set ANTHROPIC_API_KEY)"}`);
+  console.error(`  Orchestrator: ${hasOrchestrator() ? "enabled" : "disabled (set ANTHROPIC_API_KEY or AGENT_PROVIDER=scripted)"}`);
 }
 
 main().catch((error) => {
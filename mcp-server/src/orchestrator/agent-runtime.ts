@@ -1,10 +1,17 @@
 /**
- * Agent Runtime - Anthropic API Integration
+ * Agent Runtime - LLM Integration
  *
  * Spawns and executes Claude agents with tool access.
  */
 
-import Anthropic from "@anthropic-ai/sdk";
+import {
+  LlmProvider,
+  LlmMessage,
+  LlmContentBlock,
+  LlmToolDefinition,
+  LlmToolResultBlock,
+} from "./llm-provider.js";
+import { estimateCost } from "./pricing.js";
 import {
   Agent,
   AgentRole,
@@ -18,8 +25,15 @@ import {
   OrchestratorConfig,
   AGENT_AVAILABLE_TOOLS,
   GATED_TOOLS,
+  CompletionPolicy,
 } from "./types.js";
 
+const COMPLETION_POLICY_TEXT: Record<CompletionPolicy, string> = {
+  any: "The session ends as soon as any agent submits a final report.",
+  all: "The session ends once every agent has submitted a final report.",
+  synthesizer: "Only the synthesizing role's final report ends the session.",
+};
+
 // Tool handler function type - will be injected by orchestrator
 export type ToolHandler = (
   agentId: string,
@@ -28,24 +42,43 @@ export type ToolHandler = (
   toolInput: Record<string, unknown>
 ) => Promise<{ result: string; isError: boolean }>;
 
+// Usage handler - told about every model call once its usage is added to
+// the agent; returns false when a budget is spent and the turn must stop
+export type UsageHandler = (agent: Agent, tokens: number, costUsd: number) => boolean;
+
 interface AgentRuntimeConfig {
-  anthropicApiKey: string;
+  provider: LlmProvider;
   model: string;
   maxTokensPerTurn: number;
+  maxToolRounds: number;
   timeoutMs: number;
 }
 
 export class AgentRuntime {
-  private client: Anthropic;
+  private provider: LlmProvider;
   private config: AgentRuntimeConfig;
   private toolHandler: ToolHandler | null = null;
+  private usageHandler: UsageHandler | null = null;
+  private sessionResolver: ((sessionId: string) => Session | undefined) | null = null;
   private activeAgents: Map<string, Agent> = new Map();
 
   constructor(config: AgentRuntimeConfig) {
     this.config = config;
-    this.client = new Anthropic({
-      apiKey: config.anthropicApiKey,
-    });
+    this.provider = config.provider;
+  }
+
+  /**
+   * Swap the LLM provider (e.g. for scripted runs)
+   */
+  setProvider(provider: LlmProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Name of the active LLM provider
+   */
+  getProviderName(): string {
+    return this.provider.name;
   }
 
   /**
@@ -55,6 +88,20 @@ export class AgentRuntime {
     this.toolHandler = handler;
   }
 
+  /**
+   * Set the usage handler that checks budgets between model calls
+   */
+  setUsageHandler(handler: UsageHandler): void {
+    this.usageHandler = handler;
+  }
+
+  /**
+   * Set the session lookup used to decide which tools an agent is offered
+   */
+  setSessionResolver(resolver: (sessionId: string) => Session | undefined): void {
+    this.sessionResolver = resolver;
+  }
+
   /**
    * Create a new agent for a session
    */
@@ -76,6 +123,7 @@ export class AgentRuntime {
       conversationHistory: [],
       pendingMessages: [],
       tokensUsed: 0,
+      costUsd: 0,
       turnsCompleted: 0,
       createdAt: new Date(),
       lastActivityAt: new Date(),
@@ -87,6 +135,21 @@ export class AgentRuntime {
     return agent;
   }
 
+  /**
+   * Re-register an agent restored from a session snapshot
+   */
+  restore(agent: Agent): void {
+    // A turn interrupted mid-flight is retried from scratch, and the retry
+    // sends its prompt again
+    if (agent.conversationHistory[agent.conversationHistory.length - 1]?.role === "user") {
+      agent.conversationHistory.pop();
+    }
+    if (agent.status === "thinking" || agent.status === "executing_tool" || agent.status === "awaiting_approval") {
+      agent.status = "idle";
+    }
+    this.activeAgents.set(agent.id, agent);
+  }
+
   /**
    * Execute an agent turn - send input, get response with potential tool calls
    */
@@ -98,6 +161,7 @@ export class AgentRuntime {
     toolCalls: ToolCall[];
     toolResults: ToolResult[];
     tokensUsed: number;
+    costUsd: number;
   }> {
     if (!this.toolHandler) {
       throw new Error("Tool handler not set. Call setToolHandler first.");
@@ -123,20 +187,35 @@ export class AgentRuntime {
     let toolCalls: ToolCall[] = [];
     let toolResults: ToolResult[] = [];
     let totalTokens = 0;
+    let totalCost = 0;
 
-    // Execute turn with potential tool use loop
+    // Execute turn with potential tool use loop, one model call per round.
+    // Usage counts as it happens, so a spent budget stops the turn early.
     let continueLoop = true;
+    let rounds = 0;
 
     while (continueLoop) {
-      const apiResponse = await this.client.messages.create({
+      rounds++;
+      const apiResponse = await this.provider.createMessage({
         model: this.config.model,
-        max_tokens: this.config.maxTokensPerTurn,
+        maxTokens: this.config.maxTokensPerTurn,
         system: agent.systemPrompt,
         messages,
         tools,
+        agent: {
+          id: agent.id,
+          sessionId: agent.sessionId,
+          role: agent.role.name,
+        },
       });
 
-      totalTokens += (apiResponse.usage?.input_tokens || 0) + (apiResponse.usage?.output_tokens || 0);
+      const tokens = apiResponse.usage.inputTokens + apiResponse.usage.outputTokens;
+      const cost = estimateCost(this.config.model, apiResponse.usage.inputTokens, apiResponse.usage.outputTokens);
+      totalTokens += tokens;
+      totalCost += cost;
+      agent.tokensUsed += tokens;
+      agent.costUsd += cost;
+      const withinBudget = this.usageHandler?.(agent, tokens, cost) ?? true;
 
       // Process response content blocks
       const textBlocks: string[] = [];
@@ -149,7 +228,7 @@ export class AgentRuntime {
           newToolCalls.push({
             id: block.id,
             name: block.name,
-            input: block.input as Record<string, unknown>,
+            input: block.input,
           });
         }
       }
@@ -168,12 +247,7 @@ export class AgentRuntime {
         });
 
         // Execute each tool call
-        const toolResultBlocks: Array<{
-          type: "tool_result";
-          tool_use_id: string;
-          content: string;
-          is_error?: boolean;
-        }> = [];
+        const toolResultBlocks: LlmToolResultBlock[] = [];
 
         for (const call of newToolCalls) {
           const result = await this.toolHandler(
@@ -210,7 +284,12 @@ export class AgentRuntime {
       }
 
       // Check stop reason
-      if (apiResponse.stop_reason === "end_turn" || apiResponse.stop_reason === "stop_sequence") {
+      if (apiResponse.stopReason === "end_turn" || apiResponse.stopReason === "stop_sequence") {
+        continueLoop = false;
+      }
+
+      // Tools already requested still run, but no further model call is made
+      if (!withinBudget || rounds >= this.config.maxToolRounds) {
         continueLoop = false;
       }
     }
@@ -224,7 +303,6 @@ export class AgentRuntime {
       timestamp: new Date(),
     });
 
-    agent.tokensUsed += totalTokens;
     agent.turnsCompleted += 1;
     agent.status = "idle";
     agent.lastActivityAt = new Date();
@@ -234,6 +312,7 @@ export class AgentRuntime {
       toolCalls,
       toolResults,
       tokensUsed: totalTokens,
+      costUsd: totalCost,
     };
   }
 
@@ -356,16 +435,25 @@ ${protocols}
 ### Observation
 - \`gallery_emit\` - Report activity to the visual UI (use for important actions and progress updates)
 
+### Completion
+- \`session_complete\` - Submit your final report (summary, findings, confidence, discrepancies)
+
 ### Blockchain (Read)
 - \`ton_wallet_balance\` - Check wallet balance
-- \`ton_wallet_transactions\` - Get transaction history
+- \`ton_wallet_transactions\` - Get transaction history (cursor pages, time/direction/value filters, summary mode)
+- \`ton_wallet_tx_status\` - Check whether a transfer you sent was confirmed, bounced, failed or expired
 - \`ton_contract_get_info\` - Get contract information
 - \`ton_contract_call_getter\` - Call contract getter methods
-- \`ton_contract_jetton_info\` - Get Jetton token info
+- \`ton_contract_jetton_info\` - Get Jetton token info and metadata (name, symbol, decimals)
 - \`ton_contract_nft_info\` - Get NFT info
+- \`ton_jetton_wallet_address\` - Find a holder's jetton wallet
+- \`ton_jetton_balance\` - Get a holder's jetton balance
 
 ${config.allowTransactions ? `### Blockchain (Write) - ENABLED
-- \`ton_wallet_send\` - Send TON (USE WITH CAUTION)` : ""}
+- \`ton_wallet_send\` - Send TON (USE WITH CAUTION). Every send waits for human approval and may be rejected.
+- \`ton_wallet_send_batch\` - Pay several recipients in one transaction (USE WITH CAUTION). One approval and one fee for the whole batch; each message is checked against the spending policy.
+- \`ton_jetton_transfer\` - Send jettons (USE WITH CAUTION). Also waits for human approval; the TON it attaches for gas counts against the spending policy.
+- A send returns a txId. Do not report a transfer as done until \`ton_wallet_tx_status\` says confirmed.${this.describeSpendingPolicy(config)}` : ""}
 
 ## Guidelines
 
@@ -375,7 +463,7 @@ ${config.allowTransactions ? `### Blockchain (Write) - ENABLED
 4. **Report progress** using \`gallery_emit\` so the UI shows your activity
 5. **Be autonomous** - make decisions and take actions within your role
 6. **Coordinate** with other agents - wait for their responses when needed
-7. **Complete your responsibilities** before signaling completion
+7. **Complete your responsibilities** before calling \`session_complete\`. ${COMPLETION_POLICY_TEXT[skill.orchestration.completion]}
 
 ## Philosophy
 "${skill.philosophy}"
@@ -383,8 +471,24 @@ ${config.allowTransactions ? `### Blockchain (Write) - ENABLED
 Begin your work. If this is your first turn, acknowledge your role and prepare for your responsibilities.`;
   }
 
-  private buildMessages(agent: Agent): Anthropic.MessageParam[] {
-    const messages: Anthropic.MessageParam[] = [];
+  private describeSpendingPolicy(config: SessionConfig): string {
+    const policy = config.spendingPolicy;
+    if (!policy) return "";
+
+    const limits: string[] = [];
+    if (policy.maxPerTransaction) limits.push(`- Max ${policy.maxPerTransaction} TON per transaction`);
+    if (policy.maxPerSession) limits.push(`- Max ${policy.maxPerSession} TON in total this session`);
+    if (policy.allowRecipients) limits.push(`- Recipients limited to: ${policy.allowRecipients.join(", ")}`);
+    if (policy.denyRecipients) limits.push(`- Never send to: ${policy.denyRecipients.join(", ")}`);
+    if (policy.rateLimit) {
+      limits.push(`- At most ${policy.rateLimit.maxTransactions} transactions per ${policy.rateLimit.windowSeconds}s`);
+    }
+
+    return limits.length > 0 ? `\n\nSpending policy (violations are refused):\n${limits.join("\n")}` : "";
+  }
+
+  private buildMessages(agent: Agent): LlmMessage[] {
+    const messages: LlmMessage[] = [];
 
     for (const msg of agent.conversationHistory) {
       if (msg.role === "user") {
@@ -395,7 +499,7 @@ Begin your work. If this is your first turn, acknowledge your role and prepare f
       } else if (msg.role === "assistant") {
         // Reconstruct assistant message with tool calls if present
         if (msg.toolCalls && msg.toolCalls.length > 0) {
-          const content: Anthropic.ContentBlockParam[] = [];
+          const content: LlmContentBlock[] = [];
 
           if (msg.content) {
             content.push({ type: "text", text: msg.content });
@@ -414,12 +518,7 @@ Begin your work. If this is your first turn, acknowledge your role and prepare f
 
           // Add tool results
           if (msg.toolResults && msg.toolResults.length > 0) {
-            const results: Array<{
-              type: "tool_result";
-              tool_use_id: string;
-              content: string;
-              is_error?: boolean;
-            }> = msg.toolResults.map((r) => ({
+            const results: LlmToolResultBlock[] = msg.toolResults.map((r) => ({
               type: "tool_result" as const,
               tool_use_id: r.toolCallId,
               content: r.content,
@@ -440,12 +539,12 @@ Begin your work. If this is your first turn, acknowledge your role and prepare f
     return messages;
   }
 
-  private buildToolDefinitions(sessionId: string): Anthropic.Tool[] {
+  private buildToolDefinitions(sessionId: string): LlmToolDefinition[] {
     // Get session to check config
     const session = this.getSessionForAgent(sessionId);
     const allowTransactions = session?.config.allowTransactions || false;
 
-    const tools: Anthropic.Tool[] = [];
+    const tools: LlmToolDefinition[] = [];
 
     // Sessions tools
     tools.push({
@@ -530,6 +629,36 @@ Begin your work. If this is your first turn, acknowledge your role and prepare f
       },
     });
 
+    // Completion tool
+    tools.push({
+      name: "session_complete",
+      description: "Submit your final report once your part of the workflow is done. The session ends when the position's completion policy is satisfied.",
+      input_schema: {
+        type: "object" as const,
+        properties: {
+          summary: {
+            type: "string",
+            description: "Concise summary of the outcome",
+          },
+          findings: {
+            type: "array",
+            items: { type: "string" },
+            description: "Key findings, one string per item",
+          },
+          confidence: {
+            type: "number",
+            description: "Confidence in the findings, from 0 to 1",
+          },
+          discrepancies: {
+            type: "array",
+            items: { type: "string" },
+            description: "Unresolved disagreements or inconsistencies, if any",
+          },
+        },
+        required: ["summary"],
+      },
+    });
+
     // TON read tools
     tools.push({
       name: "ton_wallet_balance",
@@ -548,7 +677,7 @@ Begin your work. If this is your first turn, acknowledge your role and prepare f
 
     tools.push({
       name: "ton_wallet_transactions",
-      description: "Get recent transactions for a wallet address",
+      description: "Get decoded transactions for a wallet address, paging back with nextCursor; summary mode returns totals and top counterparties",
       input_schema: {
         type: "object" as const,
         properties: {
@@ -558,13 +687,56 @@ Begin your work. If this is your first turn, acknowledge your role and prepare f
           },
           limit: {
             type: "number",
-            description: "Maximum number of transactions to return (default: 20)",
+            description: "Maximum number of transactions to return (default: 10, max: 100)",
+          },
+          cursor: {
+            type: "string",
+            description: "nextCursor from a previous call, to continue with older transactions",
+          },
+          since: {
+            type: "string",
+            description: "Oldest time to include (ISO date or unix seconds)",
+          },
+          until: {
+            type: "string",
+            description: "Newest time to include (ISO date or unix seconds)",
+          },
+          direction: {
+            type: "string",
+            enum: ["in", "out", "all"],
+            description: "Only incoming or outgoing transfers (default: all)",
+          },
+          minValue: {
+            type: "string",
+            description: "Minimum TON moved in the chosen direction",
+          },
+          summary: {
+            type: "boolean",
+            description: "Aggregate totals in/out and counterparties ranked by volume instead of listing transactions",
           },
         },
         required: ["address"],
       },
     });
 
+    tools.push({
+      name: "ton_wallet_tx_status",
+      description: "Whether a transfer you sent landed: pending, sent (not yet delivered), confirmed, bounced, failed or expired (never executed, safe to resend)",
+      input_schema: {
+        type: "object" as const,
+        properties: {
+          txId: {
+            type: "string",
+            description: "txId returned by ton_wallet_send, ton_wallet_send_batch or ton_jetton_transfer (omit to list your session's transfers)",
+          },
+          wait: {
+            type: "number",
+            description: "Seconds to wait for the transfer to settle (default: 0, max: 60)",
+          },
+        },
+      },
+    });
+
     tools.push({
       name: "ton_contract_get_info",
       description: "Get information about a TON smart contract",
@@ -596,7 +768,15 @@ Begin your work. If this is your first turn, acknowledge your role and prepare f
           },
           args: {
             type: "array",
-            description: "Arguments to pass to the getter",
+            description: "Arguments in order: { type: int|address|cell|slice|builder, value } (cells as base64 BoC), or a bare integer or address",
+          },
+          hints: {
+            type: "object",
+            description: "How to decode result positions, e.g. { \"0\": \"bool\", \"3\": \"content\", \"4.*\": \"address\" }. Hints: bool, address, string, content (TEP-64), list",
+          },
+          includeBoc: {
+            type: "boolean",
+            description: "Include cells and slices as base64 BoC",
           },
         },
         required: ["address", "method"],
@@ -633,11 +813,53 @@ Begin your work. If this is your first turn, acknowledge your role and prepare f
       },
     });
 
+    tools.push({
+      name: "ton_jetton_wallet_address",
+      description: "Find the jetton wallet address of a holder for a given jetton master",
+      input_schema: {
+        type: "object" as const,
+        properties: {
+          masterAddress: {
+            type: "string",
+            description: "Jetton master contract address",
+          },
+          ownerAddress: {
+            type: "string",
+            description: "Holder address (default: your session's wallet)",
+          },
+        },
+        required: ["masterAddress"],
+      },
+    });
+
+    tools.push({
+      name: "ton_jetton_balance",
+      description: "Get a holder's balance of a jetton",
+      input_schema: {
+        type: "object" as const,
+        properties: {
+          masterAddress: {
+            type: "string",
+            description: "Jetton master contract address",
+          },
+          ownerAddress: {
+            type: "string",
+            description: "Holder address (default: your session's wallet)",
+          },
+          decimals: {
+            type: "number",
+            description: "Jetton decimals (default: from the jetton's metadata)",
+          },
+        },
+        required: ["masterAddress"],
+      },
+    });
+
     // Gated tools (only if allowed)
     if (allowTransactions) {
       tools.push({
         name: "ton_wallet_send",
-        description: "Send TON to an address. WARNING: This executes a real blockchain transaction!",
+        description: "Send TON to an address. The transfer is held until a human approves it; the result tells you whether it was approved and executed. WARNING: This executes a real blockchain transaction!",
         input_schema: {
           type: "object" as const,
           properties: {
@@ -657,16 +879,79 @@ Begin your work. If this is your first turn, acknowledge your role and prepare f
           required: ["to", "amount"],
         },
       });
+
+      tools.push({
+        name: "ton_wallet_send_batch",
+        description: "Send TON to several recipients in one wallet transaction, paying one fee (up to 4 messages on v3r2/v4 wallets, 255 on v5r1). The batch is held until a human approves it; every message counts against the spending policy. WARNING: This executes a real blockchain transaction!",
+        input_schema: {
+          type: "object" as const,
+          properties: {
+            messages: {
+              type: "array",
+              description: "Messages to send",
+              items: {
+                type: "object",
+                properties: {
+                  to: { type: "string", description: "Recipient address" },
+                  amount: { type: "string", description: "Amount in TON (e.g., '1.5')" },
+                  comment: { type: "string", description: "Optional comment" },
+                  body: { type: "string", description: "Optional message body as a base64 BoC (instead of comment)" },
+                  stateInit: { type: "string", description: "Optional StateInit as a base64 BoC, to deploy the recipient" },
+                  bounce: { type: "boolean", description: "Bounce the value back if the recipient rejects it (default: false)" },
+                },
+                required: ["to", "amount"],
+              },
+            },
+          },
+          required: ["messages"],
+        },
+      });
+
+      tools.push({
+        name: "ton_jetton_transfer",
+        description: "Transfer jettons to an address (TEP-74). The transfer is held until a human approves it; the result tells you whether it was approved and executed. WARNING: This executes a real blockchain transaction!",
+        input_schema: {
+          type: "object" as const,
+          properties: {
+            masterAddress: {
+              type: "string",
+              description: "Jetton master contract address",
+            },
+            to: {
+              type: "string",
+              description: "Recipient owner address (not their jetton wallet)",
+            },
+            amount: {
+              type: "string",
+              description: "Amount in jetton units (e.g., '12.5')",
+            },
+            decimals: {
+              type: "number",
+              description: "Jetton decimals (USDT uses 6, most jettons 9; see ton_contract_jetton_info)",
+            },
+            comment: {
+              type: "string",
+              description: "Optional comment forwarded to the recipient",
+            },
+            forwardPayload: {
+              type: "string",
+              description: "Optional forward payload as a base64 BoC, e.g. for a DEX swap",
+            },
+            forwardTonAmount: {
+              type: "string",
+              description: "TON forwarded with the transfer notification (default: 0.01)",
+            },
+          },
+          required: ["masterAddress", "to", "amount", "decimals"],
+        },
+      });
     }
 
     return tools;
   }
 
   private getSessionForAgent(sessionId: string): Session | undefined {
-    // This is a bit of a circular dependency workaround
-    // The orchestrator should inject session info or we need a different approach
-    // For now, return undefined and handle in buildToolDefinitions
-    return undefined;
+    return this.sessionResolver?.(sessionId);
   }
 }
 
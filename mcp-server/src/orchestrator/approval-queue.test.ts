@@ -0,0 +1,64 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+
+import { ApprovalQueue } from "./approval-queue.js";
+
+const SEND = {
+  sessionId: "relay-1",
+  agentId: "agent-relay-1-agent-b-1",
+  role: "Agent B",
+  toolName: "ton_wallet_send",
+  input: { to: "EQTest", amount: "1.5" },
+};
+
+describe("ApprovalQueue", () => {
+  it("should resolve the waiting call when approved", async () => {
+    const queue = new ApprovalQueue(0);
+    const { request, decision } = queue.request(SEND);
+
+    assert.strictEqual(queue.list({ status: "pending" }).length, 1);
+    queue.approve(request.id, "alice");
+
+    assert.deepStrictEqual(await decision, { approved: true, resolvedBy: "alice" });
+    assert.strictEqual(request.status, "approved");
+    assert.strictEqual(queue.list({ status: "pending" }).length, 0);
+  });
+
+  it("should pass the rejection reason to the waiting call", async () => {
+    const queue = new ApprovalQueue(0);
+    const { request, decision } = queue.request(SEND);
+    queue.reject(request.id, "Amount too large");
+
+    const outcome = await decision;
+    assert.strictEqual(outcome.approved, false);
+    assert.strictEqual(outcome.reason, "Amount too large");
+  });
+
+  it("should not resolve a request twice", () => {
+    const queue = new ApprovalQueue(0);
+    const { request } = queue.request(SEND);
+    queue.approve(request.id);
+
+    assert.throws(() => queue.reject(request.id), /already approved/);
+    assert.throws(() => queue.approve("approval-missing"), /not found/);
+  });
+
+  it("should expire requests without a decision", async () => {
+    const queue = new ApprovalQueue(20);
+    const { request, decision } = queue.request(SEND);
+
+    const outcome = await decision;
+    assert.strictEqual(outcome.approved, false);
+    assert.strictEqual(request.status, "expired");
+  });
+
+  it("should reject pending requests of a stopped session", async () => {
+    const queue = new ApprovalQueue(0);
+    const { decision } = queue.request(SEND);
+    queue.request({ ...SEND, sessionId: "other" });
+
+    assert.strictEqual(queue.rejectSession("relay-1", "Session stopped"), 1);
+    assert.strictEqual((await decision).reason, "Session stopped");
+    assert.strictEqual(queue.list({ status: "pending" }).length, 1);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Approval Queue - Human-in-the-loop for Gated Tools
+ *
+ * Agent calls to gated tools (e.g. ton_wallet_send) are parked here
+ * until a human approves or rejects them. The calling agent's turn
+ * waits on the decision and resumes with the outcome.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ApprovalStatus =
+  | "pending"
+  | "approved"
+  | "rejected"
+  | "expired"
+  | "executed"
+  | "failed";
+
+export interface ApprovalRequest {
+  id: string;
+  sessionId: string;
+  agentId: string;
+  role: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  status: ApprovalStatus;
+  requestedAt: Date;
+  resolvedAt?: Date;
+  resolvedBy?: string;
+  reason?: string;
+  result?: string; // tool output once executed
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  reason?: string;
+  resolvedBy?: string;
+}
+
+// ============================================================================
+// Queue
+// ============================================================================
+
+export class ApprovalQueue {
+  private requests: Map<string, ApprovalRequest> = new Map();
+  private waiters: Map<string, (decision: ApprovalDecision) => void> = new Map();
+  private timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private timeoutMs: number;
+
+  constructor(timeoutMs: number = 15 * 60 * 1000) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Park a gated call. Resolves once a human decides or the request expires.
+   */
+  request(
+    params: Pick<ApprovalRequest, "sessionId" | "agentId" | "role" | "toolName" | "input">
+  ): { request: ApprovalRequest; decision: Promise<ApprovalDecision> } {
+    const request: ApprovalRequest = {
+      ...params,
+      id: `approval-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      status: "pending",
+      requestedAt: new Date(),
+    };
+    this.requests.set(request.id, request);
+
+    const decision = new Promise<ApprovalDecision>((resolve) => {
+      this.waiters.set(request.id, resolve);
+    });
+
+    if (this.timeoutMs > 0) {
+      const timer = setTimeout(() => {
+        this.resolve(request.id, "expired", {
+          approved: false,
+          reason: `No decision within ${Math.round(this.timeoutMs / 1000)}s`,
+          resolvedBy: "timeout",
+        });
+      }, this.timeoutMs);
+      this.timers.set(request.id, timer);
+    }
+
+    return { request, decision };
+  }
+
+  /**
+   * Approve a pending request
+   */
+  approve(id: string, resolvedBy: string = "operator"): ApprovalRequest {
+    return this.resolve(id, "approved", { approved: true, resolvedBy });
+  }
+
+  /**
+   * Reject a pending request
+   */
+  reject(id: string, reason: string = "Rejected by operator", resolvedBy: string = "operator"): ApprovalRequest {
+    return this.resolve(id, "rejected", { approved: false, reason, resolvedBy });
+  }
+
+  /**
+   * Reject every pending request of a session (e.g. when it is stopped)
+   */
+  rejectSession(sessionId: string, reason: string): number {
+    let count = 0;
+    for (const request of this.requests.values()) {
+      if (request.sessionId === sessionId && request.status === "pending") {
+        this.resolve(request.id, "rejected", { approved: false, reason, resolvedBy: "system" });
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Record the outcome of an approved call
+   */
+  recordExecution(id: string, result: string, isError: boolean): void {
+    const request = this.requests.get(id);
+    if (!request) return;
+    request.status = isError ? "failed" : "executed";
+    request.result = result;
+  }
+
+  get(id: string): ApprovalRequest | undefined {
+    return this.requests.get(id);
+  }
+
+  /**
+   * List requests, newest first
+   */
+  list(filter: { status?: ApprovalStatus; sessionId?: string } = {}): ApprovalRequest[] {
+    return Array.from(this.requests.values())
+      .filter((r) => !filter.status || r.status === filter.status)
+      .filter((r) => !filter.sessionId || r.sessionId === filter.sessionId)
+      .sort((a, b) => b.requestedAt.getTime() - a.requestedAt.getTime());
+  }
+
+  private resolve(id: string, status: ApprovalStatus, decision: ApprovalDecision): ApprovalRequest {
+    const request = this.requests.get(id);
+    if (!request) {
+      throw new Error(`Approval request not found: ${id}`);
+    }
+    if (request.status !== "pending") {
+      throw new Error(`Approval request ${id} is already ${request.status}`);
+    }
+
+    request.status = status;
+    request.resolvedAt = new Date();
+    request.resolvedBy = decision.resolvedBy;
+    request.reason = decision.reason;
+
+    const timer = this.timers.get(id);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(id);
+
+    const waiter = this.waiters.get(id);
+    this.waiters.delete(id);
+    waiter?.(decision);
+
+    return request;
+  }
+}
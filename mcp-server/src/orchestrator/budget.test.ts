@@ -0,0 +1,93 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+
+import {
+  DailyUsageTracker,
+  measureBudgets,
+  findExceeded,
+  findWindDown,
+  crossedThreshold,
+  validateBudget,
+  BudgetUsage,
+} from "./budget.js";
+import { estimateCost, getModelPricing } from "./pricing.js";
+import { Agent, Session } from "./types.js";
+
+const NO_DEFAULTS = { maxTokensPerAgent: 0, dailyTokenLimit: 0, dailyCostLimitUsd: 0 };
+const QUIET_DAY = { day: "2025-01-01", tokens: 0, costUsd: 0 };
+
+function buildSession(config: Session["config"], usage: Array<[number, number]>): Session {
+  const agents = new Map<string, Agent>();
+  usage.forEach(([tokensUsed, costUsd], i) => {
+    agents.set(`agent-${i}`, { id: `agent-${i}`, tokensUsed, costUsd } as Agent);
+  });
+  return { id: "budget-test", config, agents } as Session;
+}
+
+function usage(ratio: number): BudgetUsage {
+  return { scope: "session", unit: "tokens", used: ratio * 100, limit: 100, ratio };
+}
+
+describe("Model Pricing", () => {
+  it("should resolve dated model IDs to their family", () => {
+    assert.deepStrictEqual(getModelPricing("claude-sonnet-4-20250514"), getModelPricing("claude-sonnet-4"));
+    assert.strictEqual(getModelPricing("claude-3-5-haiku-20241022").inputPerMTok, 0.8);
+  });
+
+  it("should price input and output tokens separately", () => {
+    assert.strictEqual(estimateCost("claude-sonnet-4", 1_000_000, 0), 3);
+    assert.strictEqual(estimateCost("claude-sonnet-4", 0, 1_000_000), 15);
+  });
+
+  it("should price unknown models at the highest rate", () => {
+    assert.strictEqual(estimateCost("mystery-model", 1_000_000, 0), 15);
+  });
+});
+
+describe("Budget Checks", () => {
+  it("should measure only the limits that are set", () => {
+    const session = buildSession({ maxTokensPerSession: 1000 }, [[300, 0.1], [200, 0.1]]);
+    const agent = session.agents.get("agent-0")!;
+
+    const measured = measureBudgets(session, agent, NO_DEFAULTS, QUIET_DAY);
+    assert.deepStrictEqual(measured, [{ scope: "session", unit: "tokens", used: 500, limit: 1000, ratio: 0.5 }]);
+  });
+
+  it("should fall back to the default per-agent limit", () => {
+    const session = buildSession({}, [[450, 0]]);
+    const agent = session.agents.get("agent-0")!;
+
+    const [measured] = measureBudgets(session, agent, { ...NO_DEFAULTS, maxTokensPerAgent: 500 }, QUIET_DAY);
+    assert.strictEqual(measured.scope, "agent");
+    assert.strictEqual(measured.ratio, 0.9);
+
+    // A session may lift the default with 0
+    session.config.maxTokensPerAgent = 0;
+    assert.deepStrictEqual(measureBudgets(session, agent, { ...NO_DEFAULTS, maxTokensPerAgent: 500 }, QUIET_DAY), []);
+  });
+
+  it("should classify usage against thresholds", () => {
+    assert.strictEqual(crossedThreshold(usage(0.4)), undefined);
+    assert.strictEqual(crossedThreshold(usage(0.85)), 0.8);
+    assert.strictEqual(findWindDown([usage(0.5), usage(0.95)])?.ratio, 0.95);
+    assert.strictEqual(findWindDown([usage(0.5)]), undefined);
+    assert.strictEqual(findExceeded([usage(0.95), usage(1)])?.ratio, 1);
+  });
+
+  it("should reset daily usage at UTC midnight", () => {
+    let now = new Date("2025-01-01T23:59:00Z");
+    const tracker = new DailyUsageTracker(() => now);
+
+    tracker.record(100, 0.5);
+    assert.deepStrictEqual(tracker.get(), { day: "2025-01-01", tokens: 100, costUsd: 0.5 });
+
+    now = new Date("2025-01-02T00:01:00Z");
+    assert.deepStrictEqual(tracker.get(), { day: "2025-01-02", tokens: 0, costUsd: 0 });
+  });
+
+  it("should validate session limits up front", () => {
+    assert.throws(() => validateBudget({ maxTokensPerSession: -5 }), /maxTokensPerSession/);
+    assert.throws(() => validateBudget({ maxCostPerSession: "1" as unknown as number }), /maxCostPerSession/);
+    assert.doesNotThrow(() => validateBudget({ maxTokensPerAgent: 0, maxCostPerSession: 2.5 }));
+  });
+});
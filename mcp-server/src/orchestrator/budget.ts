@@ -0,0 +1,176 @@
+/**
+ * Budgets - Token and Cost Limits for Agent Sessions
+ *
+ * Checked by the orchestrator around every agent turn. Usage is measured
+ * per agent, per session and across all sessions for the current UTC day;
+ * crossing a warning threshold is reported to the gallery, agents close to
+ * a limit are asked to wind down, and reaching a limit halts the session.
+ */
+
+import { Session, Agent, SessionConfig } from "./types.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BudgetScope = "agent" | "session" | "daily";
+
+export interface BudgetUsage {
+  scope: BudgetScope;
+  unit: "tokens" | "usd";
+  used: number;
+  limit: number;
+  ratio: number; // used / limit
+}
+
+// Orchestrator-wide limits (0 = unlimited)
+export interface BudgetDefaults {
+  maxTokensPerAgent: number;
+  dailyTokenLimit: number;
+  dailyCostLimitUsd: number;
+}
+
+export interface DailyUsage {
+  day: string; // YYYY-MM-DD (UTC)
+  tokens: number;
+  costUsd: number;
+}
+
+// Fractions of a limit at which the gallery is warned (once each)
+export const BUDGET_WARNING_THRESHOLDS = [0.5, 0.8, 0.9];
+
+// From this fraction on, agents are told to wrap up
+export const WIND_DOWN_THRESHOLD = 0.9;
+
+// ============================================================================
+// Daily Usage
+// ============================================================================
+
+/**
+ * Usage across all sessions for the current UTC day. Resets at midnight.
+ */
+export class DailyUsageTracker {
+  private usage: DailyUsage;
+  private now: () => Date;
+
+  constructor(now: () => Date = () => new Date()) {
+    this.now = now;
+    this.usage = { day: utcDay(now()), tokens: 0, costUsd: 0 };
+  }
+
+  record(tokens: number, costUsd: number): void {
+    this.rollOver();
+    this.usage.tokens += tokens;
+    this.usage.costUsd += costUsd;
+  }
+
+  get(): DailyUsage {
+    this.rollOver();
+    return { ...this.usage };
+  }
+
+  private rollOver(): void {
+    const day = utcDay(this.now());
+    if (day !== this.usage.day) {
+      this.usage = { day, tokens: 0, costUsd: 0 };
+    }
+  }
+}
+
+export function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Reject malformed session limits up front (throws)
+ */
+export function validateBudget(config: SessionConfig): void {
+  for (const key of ["maxTokensPerAgent", "maxTokensPerSession", "maxCostPerSession"] as const) {
+    const value = config[key];
+    if (value !== undefined && !(typeof value === "number" && value >= 0)) {
+      throw new Error(`Invalid budget: ${key} must be a non-negative number, got "${value}"`);
+    }
+  }
+}
+
+/**
+ * Usage against every limit that applies to an agent's next turn
+ */
+export function measureBudgets(
+  session: Session,
+  agent: Agent,
+  defaults: BudgetDefaults,
+  daily: DailyUsage
+): BudgetUsage[] {
+  const agents = Array.from(session.agents.values());
+  const sessionTokens = agents.reduce((sum, a) => sum + a.tokensUsed, 0);
+  const sessionCost = agents.reduce((sum, a) => sum + a.costUsd, 0);
+
+  const usage: BudgetUsage[] = [];
+  const add = (scope: BudgetScope, unit: BudgetUsage["unit"], used: number, limit: number | undefined) => {
+    if (limit) usage.push({ scope, unit, used, limit, ratio: used / limit });
+  };
+
+  add("agent", "tokens", agent.tokensUsed, session.config.maxTokensPerAgent ?? defaults.maxTokensPerAgent);
+  add("session", "tokens", sessionTokens, session.config.maxTokensPerSession);
+  add("session", "usd", sessionCost, session.config.maxCostPerSession);
+  add("daily", "tokens", daily.tokens, defaults.dailyTokenLimit);
+  add("daily", "usd", daily.costUsd, defaults.dailyCostLimitUsd);
+
+  return usage;
+}
+
+/**
+ * The first exhausted budget, if any
+ */
+export function findExceeded(usage: BudgetUsage[]): BudgetUsage | undefined {
+  return usage.find((u) => u.ratio >= 1);
+}
+
+/**
+ * The budget closest to its limit, if it is within wind-down range
+ */
+export function findWindDown(usage: BudgetUsage[]): BudgetUsage | undefined {
+  const closest = [...usage].sort((a, b) => b.ratio - a.ratio)[0];
+  return closest && closest.ratio >= WIND_DOWN_THRESHOLD ? closest : undefined;
+}
+
+/**
+ * Highest warning threshold a budget has crossed
+ */
+export function crossedThreshold(usage: BudgetUsage): number | undefined {
+  return BUDGET_WARNING_THRESHOLDS.filter((threshold) => usage.ratio >= threshold).pop();
+}
+
+/**
+ * Stable key for a budget (used to warn once per threshold)
+ */
+export function budgetKey(usage: BudgetUsage, session: Session, agent: Agent, daily: DailyUsage): string {
+  switch (usage.scope) {
+    case "agent":
+      return `${session.id}:${agent.id}:${usage.unit}`;
+    case "session":
+      return `${session.id}:${usage.unit}`;
+    case "daily":
+      return `daily:${daily.day}:${usage.unit}`;
+  }
+}
+
+export function describeBudget(usage: BudgetUsage): string {
+  const format = (n: number) => (usage.unit === "usd" ? `$${n.toFixed(2)}` : `${Math.round(n)} tokens`);
+  return `${usage.scope} budget: ${format(usage.used)} of ${format(usage.limit)} (${Math.round(usage.ratio * 100)}%)`;
+}
+
+/**
+ * Appended to an agent's turn input when a budget is nearly spent
+ */
+export function buildWindDownNotice(usage: BudgetUsage): string {
+  return (
+    `**Budget notice**: ${describeBudget(usage)} used. ` +
+    "Wrap up now: finish only essential work and call `session_complete` with your final report this turn."
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * Structured Completion
+ *
+ * Agents finish by calling `session_complete` with a final report. The
+ * position's completion policy decides whose reports end the session,
+ * and the collected reports become the SessionResult.
+ */
+
+import { Session, Agent, CompletionReport, SessionResult } from "./types.js";
+import { findSynthesizer } from "./strategies.js";
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+/**
+ * Validate session_complete input into a report (throws on bad input)
+ */
+export function parseCompletionReport(agent: Agent, input: Record<string, unknown>): CompletionReport {
+  const summary = typeof input.summary === "string" ? input.summary.trim() : "";
+  if (!summary) {
+    throw new Error("session_complete requires a non-empty summary");
+  }
+
+  const confidence = input.confidence;
+  if (confidence !== undefined && (typeof confidence !== "number" || confidence < 0 || confidence > 1)) {
+    throw new Error("confidence must be a number between 0 and 1");
+  }
+
+  return {
+    agentId: agent.id,
+    role: agent.role.name,
+    summary,
+    findings: toStringList(input.findings),
+    confidence: confidence as number | undefined,
+    discrepancies: toStringList(input.discrepancies),
+    submittedAt: new Date().toISOString(),
+  };
+}
+
+function toStringList(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  const items = Array.isArray(value) ? value : [value];
+  return items.map((item) => (typeof item === "string" ? item : JSON.stringify(item)));
+}
+
+// ============================================================================
+// Policy
+// ============================================================================
+
+/**
+ * Agents whose report is required by the session's completion policy.
+ * For "any", every agent is listed but one report suffices.
+ */
+export function requiredReporters(session: Session): Agent[] {
+  const agents = Array.from(session.agents.values());
+  const spec = session.skill.orchestration;
+
+  if (spec.completion === "synthesizer") {
+    const synthesizer = findSynthesizer(agents, spec.synthesizer);
+    return synthesizer ? [synthesizer] : [];
+  }
+  return agents;
+}
+
+export function isCompletionSatisfied(session: Session): boolean {
+  const reporters = requiredReporters(session);
+  if (reporters.length === 0) return false;
+
+  if (session.skill.orchestration.completion === "any") {
+    return reporters.some((agent) => session.completionReports.has(agent.id));
+  }
+  return reporters.every((agent) => session.completionReports.has(agent.id));
+}
+
+// ============================================================================
+// Result
+// ============================================================================
+
+export function buildSessionResult(session: Session): SessionResult {
+  const reports = Array.from(session.completionReports.values());
+  const success = isCompletionSatisfied(session);
+
+  if (reports.length === 0) {
+    return {
+      success: false,
+      summary: "Session ended without a completion report",
+      agentOutputs: new Map(),
+    };
+  }
+
+  // A synthesizer speaks for the session; otherwise combine every report
+  const synthesizerReport = session.skill.orchestration.completion === "synthesizer"
+    ? requiredReporters(session).map((agent) => session.completionReports.get(agent.id)).find(Boolean)
+    : undefined;
+
+  const summary = synthesizerReport
+    ? synthesizerReport.summary
+    : reports.length === 1
+      ? reports[0].summary
+      : reports.map((report) => `${report.role}: ${report.summary}`).join("\n");
+
+  const confidences = reports
+    .map((report) => report.confidence)
+    .filter((confidence): confidence is number => confidence !== undefined);
+
+  const discrepancies = Array.from(new Set(reports.flatMap((report) => report.discrepancies)));
+
+  return {
+    success,
+    summary,
+    agentOutputs: new Map(reports.map((report) => [report.agentId, report])),
+    findings: reports.flatMap((report) => report.findings),
+    confidence: confidences.length > 0
+      ? confidences.reduce((sum, confidence) => sum + confidence, 0) / confidences.length
+      : undefined,
+    consensusReached: session.agents.size > 1
+      ? reports.length === session.agents.size && discrepancies.length === 0
+      : undefined,
+    discrepancies,
+  };
+}
@@ -14,19 +14,65 @@ import {
   Agent,
   AgentMessage,
   GalleryEvent,
+  NewGalleryEvent,
   OrchestratorConfig,
   DEFAULT_CONFIG,
   AGENT_AVAILABLE_TOOLS,
   GATED_TOOLS,
+  OrchestrationSpec,
+  CompletionReport,
+  SpendRecord,
+  ToolCallContext,
 } from "./types.js";
 import { SkillLoader, getSkillLoader } from "./skill-loader.js";
 import { MessageBus, getMessageBus, validateMessage } from "./message-bus.js";
 import { AgentRuntime, initAgentRuntime, ToolHandler } from "./agent-runtime.js";
+import { LlmProvider, createLlmProvider } from "./llm-provider.js";
+import {
+  SessionStore,
+  createSessionStore,
+  toSnapshot,
+  fromSnapshot,
+} from "./session-store.js";
+import { BUILTIN_STRATEGIES, OrchestrationStrategy, StrategyContext, TurnOutcome } from "./strategies.js";
+import { ApprovalQueue, ApprovalRequest, ApprovalStatus } from "./approval-queue.js";
+import {
+  extractTransfers,
+  checkSpendingPolicy,
+  summarizeTransfers,
+  validateSpendingPolicy,
+  jettonTransferUnits,
+} from "./spending-policy.js";
+import {
+  DailyUsageTracker,
+  DailyUsage,
+  BudgetUsage,
+  validateBudget,
+  measureBudgets,
+  findExceeded,
+  findWindDown,
+  crossedThreshold,
+  budgetKey,
+  describeBudget,
+  buildWindDownNotice,
+  utcDay,
+} from "./budget.js";
+import {
+  parseCompletionReport,
+  requiredReporters,
+  isCompletionSatisfied,
+  buildSessionResult,
+} from "./completion.js";
+import { resolveNetwork } from "../ton/client.js";
+
+// Statuses of sessions that were still executing when the process stopped
+const RESUMABLE_STATUSES: SessionStatus[] = ["initializing", "spawning_agents", "running", "completing"];
 
 // Tool handlers from existing MCP tools
 type MCPToolHandler = (
   name: string,
-  args: Record<string, unknown> | undefined
+  args: Record<string, unknown> | undefined,
+  context?: ToolCallContext
 ) => Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }>;
 
 export class Orchestrator {
@@ -35,11 +81,19 @@ export class Orchestrator {
   private messageBus: MessageBus;
   private agentRuntime: AgentRuntime;
   private sessions: Map<string, Session> = new Map();
+  private sessionStore: SessionStore;
+  private runningSessions: Set<string> = new Set();
+  private approvals: ApprovalQueue;
+  private dailyUsage: DailyUsageTracker = new DailyUsageTracker();
+  private budgetWarnings: Set<string> = new Set(); // budget key + threshold already reported
   private mcpToolHandlers: Map<string, MCPToolHandler> = new Map();
-  private galleryEmitter: ((event: Omit<GalleryEvent, "id" | "timestamp">) => void) | null = null;
+  private strategies: Map<string, OrchestrationStrategy> = new Map(Object.entries(BUILTIN_STRATEGIES));
+  private galleryEmitter: ((event: NewGalleryEvent) => void) | null = null;
+  private resumeNotes: Map<string, string> = new Map(); // agent ID -> note for its retried turn
 
-  constructor(config: Partial<OrchestratorConfig> & { anthropicApiKey: string }) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+  constructor(config: Partial<OrchestratorConfig> & { provider?: LlmProvider } = {}) {
+    const { provider, ...rest } = config;
+    this.config = { ...DEFAULT_CONFIG, anthropicApiKey: "", ...rest };
 
     // Initialize skill loader
     const skillsPath = path.resolve(process.cwd(), this.config.skillsPath);
@@ -48,16 +102,44 @@ export class Orchestrator {
     // Initialize message bus
     this.messageBus = getMessageBus(this.config.sessionMaxMessages);
 
+    // Initialize session persistence
+    this.sessionStore = createSessionStore(
+      this.config.sessionStorePath
+        ? path.resolve(process.cwd(), this.config.sessionStorePath)
+        : ""
+    );
+
     // Initialize agent runtime
     this.agentRuntime = initAgentRuntime({
-      anthropicApiKey: this.config.anthropicApiKey,
+      provider: provider ?? createLlmProvider({
+        provider: this.config.llmProvider,
+        anthropicApiKey: this.config.anthropicApiKey,
+        scriptPath: this.config.llmScriptPath
+          ? path.resolve(process.cwd(), this.config.llmScriptPath)
+          : undefined,
+      }),
       model: this.config.model,
       maxTokensPerTurn: this.config.maxTokensPerTurn,
+      maxToolRounds: this.config.maxToolRoundsPerTurn,
       timeoutMs: this.config.agentTimeoutMs,
     });
 
     // Set up tool handler for agents
     this.agentRuntime.setToolHandler(this.handleAgentToolCall.bind(this));
+    this.agentRuntime.setUsageHandler(this.recordUsage.bind(this));
+    this.agentRuntime.setSessionResolver((sessionId) => this.sessions.get(sessionId));
+
+    // Human approval for gated tools
+    this.approvals = new ApprovalQueue(this.config.approvalTimeoutMs);
+
+    // Usage of sessions started earlier today still counts against the daily limits
+    const today = utcDay(new Date());
+    for (const snapshot of this.sessionStore.list()) {
+      if (utcDay(new Date(snapshot.startedAt)) !== today) continue;
+      for (const agent of snapshot.agents) {
+        this.dailyUsage.record(agent.tokensUsed, agent.costUsd);
+      }
+    }
 
     // Subscribe to message bus for gallery emission
     this.messageBus.subscribe((message) => {
@@ -81,13 +163,74 @@ export class Orchestrator {
     this.mcpToolHandlers.set(toolPrefix, handler);
   }
 
+  /**
+   * Register a turn-taking strategy (referenced by name from SKILL.md)
+   */
+  registerStrategy(name: string, strategy: OrchestrationStrategy): void {
+    this.strategies.set(name.toLowerCase(), strategy);
+  }
+
   /**
    * Set gallery event emitter
    */
-  setGalleryEmitter(emitter: (event: Omit<GalleryEvent, "id" | "timestamp">) => void): void {
+  setGalleryEmitter(emitter: (event: NewGalleryEvent) => void): void {
     this.galleryEmitter = emitter;
   }
 
+  /**
+   * Replace the LLM provider used by agents
+   */
+  setLlmProvider(provider: LlmProvider): void {
+    this.agentRuntime.setProvider(provider);
+  }
+
+  /**
+   * Replace the session store (e.g. with a custom backend)
+   */
+  setSessionStore(store: SessionStore): void {
+    this.sessionStore = store;
+  }
+
+  /**
+   * Rehydrate sessions that were interrupted by a restart and resume them.
+   * Returns the IDs of resumed sessions.
+   */
+  async resumeSessions(): Promise<string[]> {
+    const resumed: string[] = [];
+
+    for (const snapshot of this.sessionStore.list()) {
+      if (!RESUMABLE_STATUSES.includes(snapshot.status)) continue;
+      if (this.runningSessions.has(snapshot.id)) continue;
+
+      const session = this.sessions.get(snapshot.id) ?? this.hydrateSession(snapshot.id);
+      if (!session) continue;
+
+      if (session.agents.size === 0) {
+        session.status = "spawning_agents";
+        await this.spawnAgents(session);
+      }
+
+      session.status = "running";
+      this.persistSession(session);
+
+      this.emitGalleryEvent({
+        type: "position_update",
+        sessionId: session.id,
+        data: {
+          status: "running",
+          position: session.position.name,
+          resumed: true,
+          turn: session.turn,
+        },
+      });
+
+      this.startSession(session);
+      resumed.push(session.id);
+    }
+
+    return resumed;
+  }
+
   /**
    * Create and start a new collaboration session
    */
@@ -97,6 +240,14 @@ export class Orchestrator {
   ): Promise<Session> {
     const sessionId = `${position.name}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
 
+    if (config.spendingPolicy) {
+      validateSpendingPolicy(config.spendingPolicy);
+    }
+    validateBudget(config);
+    if (config.network !== undefined) {
+      resolveNetwork(config.network);
+    }
+
     // Load skill definition
     const skill = this.skillLoader.load(position);
 
@@ -106,11 +257,15 @@ export class Orchestrator {
       skill,
       config,
       status: "initializing",
+      turn: 0,
       agents: new Map(),
+      completionReports: new Map(),
+      spendingLedger: [],
       startedAt: new Date(),
     };
 
     this.sessions.set(sessionId, session);
+    this.persistSession(session);
 
     // Emit session start event
     this.emitGalleryEvent({
@@ -130,6 +285,7 @@ export class Orchestrator {
 
     // Start orchestration
     session.status = "running";
+    this.persistSession(session);
     this.emitGalleryEvent({
       type: "position_update",
       sessionId,
@@ -145,33 +301,27 @@ export class Orchestrator {
     });
 
     // Begin agent execution (non-blocking)
-    this.runSession(session).catch((error) => {
-      session.status = "error";
-      session.error = error instanceof Error ? error.message : String(error);
-      this.emitGalleryEvent({
-        type: "system",
-        sessionId,
-        data: {
-          error: session.error,
-          status: "error",
-        },
-      });
-    });
+    this.startSession(session);
 
     return session;
   }
 
   /**
-   * Get a session by ID
+   * Get a session by ID (rehydrated from the session store if needed)
    */
   getSession(sessionId: string): Session | undefined {
-    return this.sessions.get(sessionId);
+    return this.sessions.get(sessionId) ?? this.hydrateSession(sessionId);
   }
 
   /**
-   * List all active sessions
+   * List all known sessions, including persisted ones from earlier runs
    */
   listSessions(): Session[] {
+    for (const snapshot of this.sessionStore.list()) {
+      if (!this.sessions.has(snapshot.id)) {
+        this.hydrateSession(snapshot.id);
+      }
+    }
     return Array.from(this.sessions.values());
   }
 
@@ -179,11 +329,15 @@ export class Orchestrator {
    * Stop a session
    */
   async stopSession(sessionId: string): Promise<void> {
-    const session = this.sessions.get(sessionId);
+    const session = this.getSession(sessionId);
     if (!session) return;
 
     session.status = "stopped";
     session.completedAt = new Date();
+    this.persistSession(session);
+
+    // Release agents waiting on a human decision
+    this.approvals.rejectSession(sessionId, "Session stopped");
 
     // Destroy all agents
     this.agentRuntime.destroySession(sessionId);
@@ -230,7 +384,14 @@ export class Orchestrator {
   getStats(): {
     activeSessions: number;
     totalAgents: number;
+    llmProvider: string;
     messageStats: ReturnType<MessageBus["getStats"]>;
+    budget: {
+      today: DailyUsage;
+      dailyTokenLimit: number;
+      dailyCostLimitUsd: number;
+      maxTokensPerAgent: number;
+    };
   } {
     let totalAgents = 0;
     for (const session of this.sessions.values()) {
@@ -240,7 +401,14 @@ export class Orchestrator {
     return {
       activeSessions: this.sessions.size,
       totalAgents,
+      llmProvider: this.agentRuntime.getProviderName(),
       messageStats: this.messageBus.getStats(),
+      budget: {
+        today: this.dailyUsage.get(),
+        dailyTokenLimit: this.config.dailyTokenLimit,
+        dailyCostLimitUsd: this.config.dailyCostLimitUsd,
+        maxTokensPerAgent: this.config.maxTokensPerAgent,
+      },
     };
   }
 
@@ -248,6 +416,27 @@ export class Orchestrator {
   // Session Tools (called by agents)
   // -------------------------------------------------------------------------
 
+  /**
+   * List gated tool calls (pending ones await a human decision)
+   */
+  listApprovals(filter: { status?: ApprovalStatus; sessionId?: string } = {}): ApprovalRequest[] {
+    return this.approvals.list(filter);
+  }
+
+  /**
+   * Approve a pending gated call; the agent's turn resumes and executes it
+   */
+  approveRequest(approvalId: string, resolvedBy?: string): ApprovalRequest {
+    return this.approvals.approve(approvalId, resolvedBy);
+  }
+
+  /**
+   * Reject a pending gated call; the agent is told why
+   */
+  rejectRequest(approvalId: string, reason?: string, resolvedBy?: string): ApprovalRequest {
+    return this.approvals.reject(approvalId, reason, resolvedBy);
+  }
+
   /**
    * Handle sessions_send from an agent
    */
@@ -367,282 +556,223 @@ export class Orchestrator {
     }
   }
 
-  private async runSession(session: Session): Promise<void> {
-    const category = session.position.category;
-
-    // Route to category-specific orchestration
-    switch (category) {
-      case "solo":
-        await this.runSoloSession(session);
-        break;
-      case "duet":
-        await this.runDuetSession(session);
-        break;
-      case "group":
-        await this.runGroupSession(session);
-        break;
-      case "crypto":
-        await this.runCryptoSession(session);
-        break;
-      case "healing":
-        await this.runHealingSession(session);
-        break;
-      default:
-        await this.runGenericSession(session);
-    }
-  }
-
-  private async runSoloSession(session: Session): Promise<void> {
-    const agent = Array.from(session.agents.values())[0];
-    if (!agent) return;
-
-    const initialPrompt = this.buildInitialPrompt(session, agent);
-
-    // Execute agent turns until completion
-    let turnCount = 0;
-    const maxTurns = 20;
-
-    while (session.status === "running" && turnCount < maxTurns) {
-      const input = turnCount === 0
-        ? initialPrompt
-        : this.buildContinuationPrompt(agent);
-
-      const result = await this.agentRuntime.executeTurn(agent, input);
-
+  private startSession(session: Session): void {
+    this.runningSessions.add(session.id);
+    this.runSession(session).catch((error) => {
+      session.status = "error";
+      session.error = error instanceof Error ? error.message : String(error);
+      this.persistSession(session);
       this.emitGalleryEvent({
-        type: "agent_message",
+        type: "system",
         sessionId: session.id,
-        agentId: agent.id,
         data: {
-          turn: turnCount + 1,
-          response: result.response.slice(0, 500),
-          toolsUsed: result.toolCalls.map((t) => t.name),
-          tokensUsed: result.tokensUsed,
+          error: session.error,
+          status: "error",
         },
       });
-
-      // Check for completion signals
-      if (this.isSessionComplete(session, result.response)) {
-        break;
-      }
-
-      turnCount++;
-    }
-
-    this.completeSession(session);
+    }).finally(() => {
+      this.runningSessions.delete(session.id);
+    });
   }
 
-  private async runDuetSession(session: Session): Promise<void> {
-    const agents = Array.from(session.agents.values());
-    if (agents.length < 2) return;
-
-    const [agentA, agentB] = agents;
-
-    // Initialize both agents
-    const initPromptA = this.buildInitialPrompt(session, agentA);
-    const initPromptB = this.buildInitialPrompt(session, agentB);
-
-    // Phase 1: Initialization - both agents acknowledge
-    await Promise.all([
-      this.agentRuntime.executeTurn(agentA, initPromptA),
-      this.agentRuntime.executeTurn(agentB, initPromptB),
-    ]);
+  private async runSession(session: Session): Promise<void> {
+    // Snapshots taken before orchestration was declarative lack a spec
+    if (!session.skill.orchestration) {
+      session.skill.orchestration = this.skillLoader.load(session.position).orchestration;
+    }
 
-    // Phase 2: Parallel work - both agents execute independently
-    let turnCount = 0;
-    const maxTurns = 15;
+    const spec = session.skill.orchestration;
+    const strategy = this.strategies.get(spec.strategy);
+    if (!strategy) {
+      throw new Error(
+        `Unknown orchestration strategy "${spec.strategy}" for ${session.position.name}. ` +
+          `Available: ${Array.from(this.strategies.keys()).join(", ")}`
+      );
+    }
 
-    while (session.status === "running" && turnCount < maxTurns) {
-      // Check for pending messages and continue
-      const promptA = this.buildTurnPrompt(agentA);
-      const promptB = this.buildTurnPrompt(agentB);
+    await strategy(this.createStrategyContext(session, spec));
 
-      const [resultA, resultB] = await Promise.all([
-        this.agentRuntime.executeTurn(agentA, promptA),
-        this.agentRuntime.executeTurn(agentB, promptB),
-      ]);
+    // Stopped or halted sessions already have their terminal status
+    if (session.status === "running") {
+      this.completeSession(session);
+    }
+  }
 
-      // Emit progress
-      for (const [agent, result] of [[agentA, resultA], [agentB, resultB]] as const) {
+  /**
+   * Bind orchestrator internals to a session for a strategy to drive
+   */
+  private createStrategyContext(session: Session, spec: OrchestrationSpec): StrategyContext {
+    return {
+      session,
+      spec,
+      executeTurn: (agent, input) => this.executeTurn(session, agent, input),
+      initializeAgents: (agents) => this.initializeAgents(session, agents),
+      buildInitialPrompt: (agent) => this.buildInitialPrompt(session, agent),
+      buildContinuationPrompt: (agent) => this.buildContinuationPrompt(agent),
+      buildTurnPrompt: (agent) => this.buildTurnPrompt(agent),
+      hasPendingMessages: (agent) => this.messageBus.hasPending(agent.id),
+      isSessionComplete: () => isCompletionSatisfied(session),
+      emitTurn: (agent, result, data = {}) => {
+        if (result.skipped) return;
         this.emitGalleryEvent({
           type: "agent_message",
           sessionId: session.id,
           agentId: agent.id,
           data: {
-            turn: turnCount + 1,
+            turn: session.turn + 1,
+            ...data,
             response: result.response.slice(0, 500),
             toolsUsed: result.toolCalls.map((t) => t.name),
+            tokensUsed: result.tokensUsed,
           },
         });
-      }
-
-      // Check for completion
-      if (
-        this.isSessionComplete(session, resultA.response) &&
-        this.isSessionComplete(session, resultB.response)
-      ) {
-        break;
-      }
-
-      turnCount++;
-    }
-
-    this.completeSession(session);
+      },
+      advanceTurn: () => this.advanceTurn(session),
+    };
   }
 
-  private async runGroupSession(session: Session): Promise<void> {
-    const agents = Array.from(session.agents.values());
-    if (agents.length === 0) return;
-
-    // Check if pyramid structure (has Oracle)
-    const oracle = agents.find((a) => a.role.name === "Oracle");
-    if (oracle) {
-      await this.runPyramidSession(session, oracle, agents.filter((a) => a !== oracle));
-      return;
-    }
+  /**
+   * Execute one agent turn within the session's budgets and snapshot the
+   * session afterwards
+   */
+  private async executeTurn(session: Session, agent: Agent, input: string): Promise<TurnOutcome> {
+    const skipped: TurnOutcome = { response: "", toolCalls: [], tokensUsed: 0, skipped: true };
 
-    // Generic group: round-robin turns
-    // Initialize all agents
-    await Promise.all(
-      agents.map((agent) =>
-        this.agentRuntime.executeTurn(agent, this.buildInitialPrompt(session, agent))
-      )
-    );
+    // Turns still queued when a session halts (e.g. the rest of a round) do not run
+    if (session.status !== "running") return skipped;
 
-    // Round-robin execution
-    let turnCount = 0;
-    const maxTurns = 20;
+    const before = this.measureBudgets(session, agent);
+    const exhausted = findExceeded(before);
+    if (exhausted) {
+      this.haltForBudget(session, agent, exhausted);
+      return skipped;
+    }
 
-    while (session.status === "running" && turnCount < maxTurns) {
-      for (const agent of agents) {
-        if (session.status !== "running") break;
+    const resumeNote = this.resumeNotes.get(agent.id);
+    if (resumeNote) {
+      this.resumeNotes.delete(agent.id);
+      input = `${resumeNote}\n\n${input}`;
+    }
 
-        const prompt = this.buildTurnPrompt(agent);
-        const result = await this.agentRuntime.executeTurn(agent, prompt);
+    const windDown = findWindDown(before);
+    if (windDown) {
+      input += `\n\n${buildWindDownNotice(windDown)}`;
+    }
 
-        this.emitGalleryEvent({
-          type: "agent_message",
-          sessionId: session.id,
-          agentId: agent.id,
-          data: {
-            turn: turnCount + 1,
-            response: result.response.slice(0, 500),
-          },
-        });
+    const result = await this.agentRuntime.executeTurn(agent, input);
 
-        if (this.isSessionComplete(session, result.response)) {
-          break;
-        }
-      }
+    const after = this.measureBudgets(session, agent);
+    this.emitBudgetWarnings(session, agent, after);
 
-      turnCount++;
+    // An agent that finished the job on its last affordable turn still completes
+    const overrun = findExceeded(after);
+    if (overrun && session.status === "running" && !isCompletionSatisfied(session)) {
+      this.haltForBudget(session, agent, overrun);
     }
 
-    this.completeSession(session);
+    this.persistSession(session);
+    return result;
   }
 
-  private async runPyramidSession(
-    session: Session,
-    oracle: Agent,
-    workers: Agent[]
-  ): Promise<void> {
-    // Oracle decomposes the task
-    const oracleInit = await this.agentRuntime.executeTurn(
-      oracle,
-      this.buildInitialPrompt(session, oracle)
-    );
+  /**
+   * Count one model call against the daily usage; the turn goes on only
+   * while every budget has some room left
+   */
+  private recordUsage(agent: Agent, tokens: number, costUsd: number): boolean {
+    this.dailyUsage.record(tokens, costUsd);
+    const session = this.sessions.get(agent.sessionId);
+    return !session || !findExceeded(this.measureBudgets(session, agent));
+  }
 
-    this.emitGalleryEvent({
-      type: "agent_message",
-      sessionId: session.id,
-      agentId: oracle.id,
-      data: {
-        phase: "decomposition",
-        response: oracleInit.response.slice(0, 500),
-      },
-    });
+  private measureBudgets(session: Session, agent: Agent): BudgetUsage[] {
+    return measureBudgets(session, agent, this.config, this.dailyUsage.get());
+  }
 
-    // Initialize workers
-    await Promise.all(
-      workers.map((worker) =>
-        this.agentRuntime.executeTurn(worker, this.buildInitialPrompt(session, worker))
-      )
-    );
+  /**
+   * Report each warning threshold once per budget
+   */
+  private emitBudgetWarnings(session: Session, agent: Agent, usage: BudgetUsage[]): void {
+    const daily = this.dailyUsage.get();
 
-    // Execution loop
-    let turnCount = 0;
-    const maxTurns = 25;
+    for (const budget of usage) {
+      const threshold = crossedThreshold(budget);
+      if (threshold === undefined || budget.ratio >= 1) continue;
 
-    while (session.status === "running" && turnCount < maxTurns) {
-      // Workers execute their tasks
-      const workerResults = await Promise.all(
-        workers.map((worker) =>
-          this.agentRuntime.executeTurn(worker, this.buildTurnPrompt(worker))
-        )
-      );
-
-      for (let i = 0; i < workers.length; i++) {
-        this.emitGalleryEvent({
-          type: "agent_message",
-          sessionId: session.id,
-          agentId: workers[i].id,
-          data: {
-            turn: turnCount + 1,
-            response: workerResults[i].response.slice(0, 300),
-          },
-        });
-      }
-
-      // Oracle processes and synthesizes
-      const oracleResult = await this.agentRuntime.executeTurn(
-        oracle,
-        this.buildTurnPrompt(oracle)
-      );
+      const key = `${budgetKey(budget, session, agent, daily)}@${threshold}`;
+      if (this.budgetWarnings.has(key)) continue;
+      this.budgetWarnings.add(key);
 
       this.emitGalleryEvent({
-        type: "agent_message",
+        type: "system",
         sessionId: session.id,
-        agentId: oracle.id,
+        agentId: budget.scope === "agent" ? agent.id : undefined,
         data: {
-          turn: turnCount + 1,
-          phase: "synthesis",
-          response: oracleResult.response.slice(0, 500),
+          event: "budget_warning",
+          scope: budget.scope,
+          unit: budget.unit,
+          used: budget.used,
+          limit: budget.limit,
+          threshold,
+          message: describeBudget(budget),
         },
       });
+    }
+  }
 
-      if (this.isSessionComplete(session, oracleResult.response)) {
-        break;
-      }
+  /**
+   * End a session whose budget is exhausted
+   */
+  private haltForBudget(session: Session, agent: Agent, budget: BudgetUsage): void {
+    session.status = "budget_exceeded";
+    session.completedAt = new Date();
+    session.error = `Budget exceeded: ${describeBudget(budget)}`;
+    session.result = { ...buildSessionResult(session), success: false };
+    this.persistSession(session);
 
-      turnCount++;
-    }
+    // Release agents waiting on a human decision
+    this.approvals.rejectSession(session.id, "Session budget exceeded");
 
-    this.completeSession(session);
-  }
+    this.emitGalleryEvent({
+      type: "system",
+      sessionId: session.id,
+      agentId: budget.scope === "agent" ? agent.id : undefined,
+      data: {
+        event: "budget_exceeded",
+        scope: budget.scope,
+        unit: budget.unit,
+        used: budget.used,
+        limit: budget.limit,
+        message: session.error,
+      },
+    });
 
-  private async runCryptoSession(session: Session): Promise<void> {
-    // Crypto positions follow duet/group patterns with blockchain focus
-    if (session.position.agents <= 2) {
-      await this.runDuetSession(session);
-    } else {
-      await this.runGroupSession(session);
-    }
+    this.emitGalleryEvent({
+      type: "position_update",
+      sessionId: session.id,
+      data: {
+        status: "budget_exceeded",
+        position: session.position.name,
+        reason: session.error,
+        summary: session.result.summary,
+        agentStats: this.agentStats(session),
+      },
+    });
   }
 
-  private async runHealingSession(session: Session): Promise<void> {
-    // Healing positions are typically solo
-    await this.runSoloSession(session);
+  /**
+   * Give every agent that has not acted yet its initial prompt (in parallel)
+   */
+  private async initializeAgents(session: Session, agents: Agent[]): Promise<void> {
+    await Promise.all(
+      agents
+        .filter((agent) => agent.turnsCompleted === 0)
+        .map((agent) => this.executeTurn(session, agent, this.buildInitialPrompt(session, agent)))
+    );
   }
 
-  private async runGenericSession(session: Session): Promise<void> {
-    const agentCount = session.agents.size;
-    if (agentCount === 1) {
-      await this.runSoloSession(session);
-    } else if (agentCount === 2) {
-      await this.runDuetSession(session);
-    } else {
-      await this.runGroupSession(session);
-    }
+  private advanceTurn(session: Session): void {
+    session.turn += 1;
+    this.persistSession(session);
   }
 
   private buildInitialPrompt(session: Session, agent: Agent): string {
@@ -688,7 +818,7 @@ export class Orchestrator {
       return prompt;
     }
 
-    return "Continue with the next phase of your work. If you have completed all phases, send a COMPLETE message and summarize your findings.";
+    return "Continue with the next phase of your work. If you have completed all phases, call `session_complete` with your final report.";
   }
 
   private buildTurnPrompt(agent: Agent): string {
@@ -706,38 +836,11 @@ export class Orchestrator {
     return "Continue your work. Check if you need to wait for other agents, or proceed to the next step.";
   }
 
-  private isSessionComplete(session: Session, response: string): boolean {
-    const lowerResponse = response.toLowerCase();
-
-    // Check for completion signals
-    const completionSignals = [
-      "workflow complete",
-      "session complete",
-      "collaboration complete",
-      "all phases complete",
-      "mission accomplished",
-      "final report",
-    ];
-
-    for (const signal of completionSignals) {
-      if (lowerResponse.includes(signal)) {
-        return true;
-      }
-    }
-
-    // Check if all agents have sent COMPLETE messages
-    const history = this.messageBus.getSessionHistory(session.id);
-    const completeMessages = history.filter((m) => m.type === "COMPLETE");
-    if (completeMessages.length >= session.agents.size) {
-      return true;
-    }
-
-    return false;
-  }
-
   private completeSession(session: Session): void {
     session.status = "completed";
     session.completedAt = new Date();
+    session.result = buildSessionResult(session);
+    this.persistSession(session);
 
     this.emitGalleryEvent({
       type: "position_update",
@@ -745,23 +848,39 @@ export class Orchestrator {
       data: {
         status: "completed",
         position: session.position.name,
+        success: session.result.success,
+        summary: session.result.summary,
         duration: `${Math.floor((session.completedAt.getTime() - session.startedAt.getTime()) / 1000)}s`,
-        agentStats: Array.from(session.agents.values()).map((a) => ({
-          id: a.id,
-          role: a.role.name,
-          turns: a.turnsCompleted,
-          tokens: a.tokensUsed,
-        })),
+        agentStats: this.agentStats(session),
       },
     });
   }
 
+  private agentStats(session: Session): Array<Record<string, unknown>> {
+    return Array.from(session.agents.values()).map((a) => ({
+      id: a.id,
+      role: a.role.name,
+      turns: a.turnsCompleted,
+      tokens: a.tokensUsed,
+      costUsd: a.costUsd,
+    }));
+  }
+
   private async handleAgentToolCall(
     agentId: string,
     sessionId: string,
     toolName: string,
     toolInput: Record<string, unknown>
   ): Promise<{ result: string; isError: boolean }> {
+    // Only the tools the agent was offered; wallet connect/bind/disconnect
+    // and friends are for the operator
+    if (!this.agentMayCall(sessionId, toolName)) {
+      return {
+        result: `Tool not available to agents: ${toolName}`,
+        isError: true,
+      };
+    }
+
     // Handle sessions_* tools internally
     if (toolName === "sessions_send") {
       const result = this.sessionsSend(
@@ -793,6 +912,10 @@ export class Orchestrator {
       };
     }
 
+    if (toolName === "session_complete") {
+      return this.handleSessionComplete(agentId, sessionId, toolInput);
+    }
+
     // Handle gallery_emit specially - inject sessionId and agentId
     if (toolName === "gallery_emit") {
       const eventType = toolInput.type as GalleryEvent["type"];
@@ -811,12 +934,15 @@ export class Orchestrator {
       };
     }
 
+    if (GATED_TOOLS.includes(toolName)) {
+      return this.handleGatedToolCall(agentId, sessionId, toolName, toolInput);
+    }
+
     // Route to MCP tool handlers
-    const toolPrefix = toolName.split("_").slice(0, -1).join("_") + "_";
-    const handler = this.mcpToolHandlers.get(toolPrefix);
+    const handler = this.findToolHandler(toolName);
 
     if (handler) {
-      const mcpResult = await handler(toolName, toolInput);
+      const mcpResult = await handler(toolName, toolInput, this.toolCallContext(sessionId, agentId));
       const text = mcpResult.content[0]?.text || "";
       return {
         result: text,
@@ -830,7 +956,343 @@ export class Orchestrator {
     };
   }
 
-  private emitGalleryEvent(event: Omit<GalleryEvent, "id" | "timestamp">): void {
+  /**
+   * Read tools always; write tools only in sessions that allow transactions
+   */
+  private agentMayCall(sessionId: string, toolName: string): boolean {
+    if (AGENT_AVAILABLE_TOOLS.includes(toolName)) {
+      return true;
+    }
+    return GATED_TOOLS.includes(toolName) && this.sessions.get(sessionId)?.config.allowTransactions === true;
+  }
+
+  /**
+   * Handler registered for the longest prefix of a tool name (tool names
+   * like ton_jetton_wallet_address have several underscores)
+   */
+  private findToolHandler(toolName: string): MCPToolHandler | undefined {
+    let match: string | undefined;
+    for (const prefix of this.mcpToolHandlers.keys()) {
+      if (toolName.startsWith(prefix) && (!match || prefix.length > match.length)) {
+        match = prefix;
+      }
+    }
+    return match ? this.mcpToolHandlers.get(match) : undefined;
+  }
+
+  /**
+   * Identify an agent's call to MCP handlers that keep per-session state
+   * (e.g. which wallet signs)
+   */
+  private toolCallContext(sessionId: string, agentId: string): ToolCallContext {
+    const session = this.sessions.get(sessionId);
+    const role = session?.agents.get(agentId)?.role.name ?? "";
+    const wallets = session?.config.wallets;
+    return {
+      sessionId,
+      agentId,
+      role,
+      walletId: wallets?.agents?.[role] ?? wallets?.session,
+      network: session?.config.network,
+    };
+  }
+
+  /**
+   * Hold a gated call for human approval, then execute it if approved
+   */
+  private async handleGatedToolCall(
+    agentId: string,
+    sessionId: string,
+    toolName: string,
+    toolInput: Record<string, unknown>
+  ): Promise<{ result: string; isError: boolean }> {
+    const session = this.sessions.get(sessionId);
+    const agent = session?.agents.get(agentId);
+    if (!session || !agent) {
+      return { result: `Session not found: ${sessionId}`, isError: true };
+    }
+    if (!session.config.allowTransactions) {
+      return { result: `${toolName} is not permitted: session does not allow transactions`, isError: true };
+    }
+
+    // A human approves exact jetton amounts, which depend on the decimals
+    if (toolName === "ton_jetton_transfer") {
+      try {
+        jettonTransferUnits(toolInput);
+      } catch (error) {
+        return { result: error instanceof Error ? error.message : String(error), isError: true };
+      }
+    }
+
+    // Enforce the session's spending policy before bothering a human
+    const transfers = extractTransfers(toolName, toolInput);
+    const dryRun = toolInput.dryRun === true;
+    if (transfers) {
+      const violation = checkSpendingPolicy(
+        session.config.spendingPolicy,
+        dryRun ? [] : session.spendingLedger,
+        transfers
+      );
+      if (violation) {
+        this.emitGalleryEvent({
+          type: "system",
+          sessionId,
+          agentId,
+          data: {
+            event: "policy_violation",
+            tool: toolName,
+            rule: violation.rule,
+            message: violation.message,
+            ...summarizeTransfers(transfers),
+          },
+        });
+        return { result: JSON.stringify(violation, null, 2), isError: true };
+      }
+    }
+
+    const { request, decision } = this.approvals.request({
+      sessionId,
+      agentId,
+      role: agent.role.name,
+      toolName,
+      input: toolInput,
+    });
+    this.emitApprovalEvent(request);
+
+    // Reserve the amount so concurrent sends count against the limits
+    const spends: SpendRecord[] = transfers && !dryRun
+      ? transfers.map((transfer) => ({ approvalId: request.id, agentId, ...transfer, at: new Date().toISOString(), status: "reserved" }))
+      : [];
+    if (spends.length > 0) {
+      session.spendingLedger.push(...spends);
+      this.persistSession(session);
+    }
+
+    agent.status = "awaiting_approval";
+    const outcome = await decision;
+    this.emitApprovalEvent(request);
+
+    if (!outcome.approved) {
+      this.releaseSpend(session, request.id);
+      agent.status = "thinking";
+      return {
+        result: JSON.stringify({
+          approved: false,
+          approvalId: request.id,
+          status: request.status,
+          reason: outcome.reason,
+        }, null, 2),
+        isError: true,
+      };
+    }
+
+    // Saved before and right after the send, so a restart in between is
+    // known to have possibly sent it and one after never repeats it
+    agent.status = "executing_tool";
+    if (spends.length > 0) {
+      spends.forEach((spend) => (spend.status = "executing"));
+      this.persistSession(session);
+    }
+    const handler = this.findToolHandler(toolName);
+    const mcpResult = handler
+      ? await handler(toolName, toolInput, this.toolCallContext(sessionId, agentId))
+      : { content: [{ type: "text", text: `Unknown tool: ${toolName}` }], isError: true };
+    const text = mcpResult.content[0]?.text || "";
+
+    if (spends.length > 0) {
+      if (mcpResult.isError) {
+        this.releaseSpend(session, request.id);
+      } else {
+        spends.forEach((spend) => (spend.status = "spent"));
+        this.persistSession(session);
+      }
+    }
+
+    this.approvals.recordExecution(request.id, text, mcpResult.isError || false);
+    this.emitApprovalEvent(request);
+
+    return {
+      result: JSON.stringify({
+        approved: true,
+        approvalId: request.id,
+        status: request.status,
+        result: text,
+      }, null, 2),
+      isError: mcpResult.isError || false,
+    };
+  }
+
+  /**
+   * Drop a reservation for a transfer that did not go through
+   */
+  private releaseSpend(session: Session, approvalId: string): void {
+    const before = session.spendingLedger.length;
+    session.spendingLedger = session.spendingLedger.filter((record) => record.approvalId !== approvalId);
+    if (session.spendingLedger.length !== before) {
+      this.persistSession(session);
+    }
+  }
+
+  /**
+   * Mirror an approval request's state to the gallery
+   */
+  private emitApprovalEvent(request: ApprovalRequest): void {
+    // Batches show as their recipients and total
+    const transfers = Array.isArray(request.input.messages) && extractTransfers(request.toolName, request.input);
+    const batch = transfers ? summarizeTransfers(transfers) : undefined;
+    const jetton = request.toolName === "ton_jetton_transfer" ? this.jettonUnits(request.input) : undefined;
+    this.emitGalleryEvent({
+      type: "blockchain_tx",
+      sessionId: request.sessionId,
+      agentId: request.agentId,
+      data: {
+        approvalId: request.id,
+        status: request.status === "pending" ? "pending_approval" : request.status,
+        tool: request.toolName,
+        role: request.role,
+        to: batch?.to ?? request.input.to,
+        amount: batch?.amount ?? request.input.amount,
+        messages: batch && request.input.messages,
+        jetton: request.input.masterAddress,
+        decimals: jetton?.decimals,
+        amountUnits: jetton?.amountUnits,
+        comment: request.input.message ?? request.input.comment,
+        reason: request.reason,
+        resolvedBy: request.resolvedBy,
+      },
+    });
+  }
+
+  /**
+   * Units of a queued jetton transfer (checked when it was queued, but
+   * approvals restored from older sessions may predate that)
+   */
+  private jettonUnits(input: Record<string, unknown>): { decimals: number; amountUnits: string } | undefined {
+    try {
+      return jettonTransferUnits(input);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Record an agent's final report (the session ends once the policy is met)
+   */
+  private handleSessionComplete(
+    agentId: string,
+    sessionId: string,
+    toolInput: Record<string, unknown>
+  ): { result: string; isError: boolean } {
+    const session = this.sessions.get(sessionId);
+    const agent = session?.agents.get(agentId);
+    if (!session || !agent) {
+      return { result: `Session not found: ${sessionId}`, isError: true };
+    }
+
+    let report: CompletionReport;
+    try {
+      report = parseCompletionReport(agent, toolInput);
+    } catch (error) {
+      return { result: error instanceof Error ? error.message : String(error), isError: true };
+    }
+
+    session.completionReports.set(agentId, report);
+    this.persistSession(session);
+
+    this.emitGalleryEvent({
+      type: "agent_action",
+      sessionId,
+      agentId,
+      data: {
+        action: "session_complete",
+        summary: report.summary,
+        findings: report.findings.length,
+        confidence: report.confidence,
+        discrepancies: report.discrepancies,
+      },
+    });
+
+    const awaiting = requiredReporters(session)
+      .filter((a) => !session.completionReports.has(a.id))
+      .map((a) => a.role.name);
+
+    return {
+      result: JSON.stringify({
+        accepted: true,
+        policy: session.skill.orchestration.completion,
+        sessionComplete: isCompletionSatisfied(session),
+        awaiting: session.skill.orchestration.completion === "any" ? [] : awaiting,
+      }, null, 2),
+      isError: false,
+    };
+  }
+
+  private persistSession(session: Session): void {
+    try {
+      this.sessionStore.save(toSnapshot(session, this.messageBus.exportSession(session.id)));
+    } catch (error) {
+      // Persistence failures must never take down a running session
+      console.error(`Failed to persist session ${session.id}:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private hydrateSession(sessionId: string): Session | undefined {
+    const snapshot = this.sessionStore.load(sessionId);
+    if (!snapshot) return undefined;
+
+    const { session, messages } = fromSnapshot(snapshot);
+    this.messageBus.importSession(session.id, messages);
+    if (RESUMABLE_STATUSES.includes(session.status)) {
+      for (const agent of session.agents.values()) {
+        this.agentRuntime.restore(agent);
+      }
+      this.settleInterruptedSpends(session);
+    }
+
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Settle the transfers of turns a restart interrupted. Approvals lived in
+   * memory, so reservations still awaiting a decision are released (the
+   * retried turn asks again). Transfers already sent, or handed to the
+   * wallet, stay on the ledger and the agent is told not to repeat them.
+   */
+  private settleInterruptedSpends(session: Session): void {
+    const expired = new Map<string, string>(); // approval ID -> agent ID
+    for (const record of session.spendingLedger) {
+      if (record.status === "reserved") expired.set(record.approvalId, record.agentId);
+    }
+    session.spendingLedger = session.spendingLedger.filter((record) => record.status !== "reserved");
+    for (const [approvalId, agentId] of expired) {
+      this.emitGalleryEvent({
+        type: "blockchain_tx",
+        sessionId: session.id,
+        agentId,
+        data: { approvalId, status: "expired", reason: "Interrupted by a restart before a decision" },
+      });
+    }
+
+    for (const agent of session.agents.values()) {
+      // Anything after the agent's last finished turn belongs to the interrupted one
+      const lastTurn = agent.conversationHistory[agent.conversationHistory.length - 1];
+      const since = (lastTurn?.timestamp ?? agent.createdAt).toISOString();
+      const made = session.spendingLedger.filter((record) => record.agentId === agent.id && record.at >= since);
+      if (made.length === 0) continue;
+
+      const lines = made.map((record) => record.status === "spent"
+        ? `- ${record.amount} TON to ${record.to} (approval ${record.approvalId}): sent`
+        : `- ${record.amount} TON to ${record.to} (approval ${record.approvalId}): may have been sent; check ton_wallet_transactions before retrying`);
+      this.resumeNotes.set(
+        agent.id,
+        "Your previous turn was interrupted by a restart and starts over now. " +
+          `Do not repeat these transfers you already made in it:\n${lines.join("\n")}`
+      );
+    }
+  }
+
+  private emitGalleryEvent(event: NewGalleryEvent): void {
     if (this.galleryEmitter) {
       this.galleryEmitter(event);
     }
@@ -844,7 +1306,7 @@ export class Orchestrator {
 let orchestratorInstance: Orchestrator | null = null;
 
 export function initOrchestrator(
-  config: Partial<OrchestratorConfig> & { anthropicApiKey: string }
+  config: Partial<OrchestratorConfig> & { provider?: LlmProvider } = {}
 ): Orchestrator {
   orchestratorInstance = new Orchestrator(config);
   return orchestratorInstance;
@@ -865,4 +1327,18 @@ export function hasOrchestrator(): boolean {
 export * from "./types.js";
 export { SkillLoader, getSkillLoader } from "./skill-loader.js";
 export { MessageBus, getMessageBus } from "./message-bus.js";
+export type { SessionStore, SessionSnapshot } from "./session-store.js";
+export {
+  MemorySessionStore,
+  FileSessionStore,
+  createSessionStore,
+} from "./session-store.js";
 export { AgentRuntime, getAgentRuntime } from "./agent-runtime.js";
+export type { ApprovalRequest, ApprovalStatus, ApprovalDecision } from "./approval-queue.js";
+export { ApprovalQueue } from "./approval-queue.js";
+export type { LlmProvider, LlmRequest, LlmResponse, ScriptFixture } from "./llm-provider.js";
+export { AnthropicProvider, ScriptedProvider, createLlmProvider } from "./llm-provider.js";
+export type { OrchestrationStrategy, StrategyContext, TurnOutcome } from "./strategies.js";
+export { BUILTIN_STRATEGIES } from "./strategies.js";
+export type { BudgetScope, BudgetUsage, DailyUsage } from "./budget.js";
+export { MODEL_PRICING, getModelPricing, estimateCost } from "./pricing.js";
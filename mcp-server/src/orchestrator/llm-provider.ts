@@ -0,0 +1,247 @@
+/**
+ * LLM Providers
+ *
+ * Abstraction between the agent runtime and the model backend, so
+ * orchestration can run against the Anthropic API or offline from
+ * scripted fixtures.
+ */
+
+import * as fs from "fs";
+import Anthropic from "@anthropic-ai/sdk";
+
+// ============================================================================
+// Provider-neutral message types
+// ============================================================================
+
+export interface LlmTextBlock {
+  type: "text";
+  text: string;
+}
+
+export interface LlmToolUseBlock {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface LlmToolResultBlock {
+  type: "tool_result";
+  tool_use_id: string;
+  content: string;
+  is_error?: boolean;
+}
+
+export type LlmContentBlock = LlmTextBlock | LlmToolUseBlock | LlmToolResultBlock;
+
+export interface LlmMessage {
+  role: "user" | "assistant";
+  content: string | LlmContentBlock[];
+}
+
+export interface LlmToolDefinition {
+  name: string;
+  description: string;
+  input_schema: {
+    type: "object";
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+export interface LlmRequest {
+  model: string;
+  maxTokens: number;
+  system: string;
+  messages: LlmMessage[];
+  tools: LlmToolDefinition[];
+  // Who is asking - lets providers (e.g. scripted) route per agent
+  agent: {
+    id: string;
+    sessionId: string;
+    role: string;
+  };
+}
+
+export interface LlmResponse {
+  content: Array<LlmTextBlock | LlmToolUseBlock>;
+  stopReason: "end_turn" | "max_tokens" | "stop_sequence" | "tool_use" | null;
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  createMessage(request: LlmRequest): Promise<LlmResponse>;
+}
+
+export type LlmProviderName = "anthropic" | "scripted";
+
+// ============================================================================
+// Anthropic
+// ============================================================================
+
+export class AnthropicProvider implements LlmProvider {
+  readonly name = "anthropic";
+  private client: Anthropic;
+
+  constructor(apiKey: string) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async createMessage(request: LlmRequest): Promise<LlmResponse> {
+    const response = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      system: request.system,
+      messages: request.messages as Anthropic.MessageParam[],
+      tools: request.tools as Anthropic.Tool[],
+    });
+
+    const content: LlmResponse["content"] = [];
+    for (const block of response.content) {
+      if (block.type === "text") {
+        content.push({ type: "text", text: block.text });
+      } else if (block.type === "tool_use") {
+        content.push({
+          type: "tool_use",
+          id: block.id,
+          name: block.name,
+          input: block.input as Record<string, unknown>,
+        });
+      }
+    }
+
+    return {
+      content,
+      stopReason: response.stop_reason,
+      usage: {
+        inputTokens: response.usage?.input_tokens || 0,
+        outputTokens: response.usage?.output_tokens || 0,
+      },
+    };
+  }
+}
+
+// ============================================================================
+// Scripted (offline replay)
+// ============================================================================
+
+/**
+ * One canned model response. `toolCalls` become tool_use blocks; when
+ * present the runtime executes them and asks for the next response.
+ */
+export interface ScriptedResponse {
+  text?: string;
+  toolCalls?: Array<{
+    id?: string;
+    name: string;
+    input?: Record<string, unknown>;
+  }>;
+  usage?: {
+    inputTokens?: number;
+    outputTokens?: number;
+  };
+}
+
+/**
+ * Fixture format: responses keyed by agent role name, consumed in order.
+ * The "*" key applies to any role without its own script.
+ */
+export interface ScriptFixture {
+  roles: Record<string, ScriptedResponse[]>;
+  // Returned once a role's script is exhausted
+  fallback?: ScriptedResponse;
+}
+
+const DEFAULT_FALLBACK: ScriptedResponse = {
+  text: "Script exhausted. Workflow complete.",
+};
+
+export class ScriptedProvider implements LlmProvider {
+  readonly name = "scripted";
+  private fixture: ScriptFixture;
+  private cursors: Map<string, number> = new Map(); // agentId -> next response index
+  private callCount = 0;
+
+  constructor(fixture: ScriptFixture) {
+    this.fixture = fixture;
+  }
+
+  /**
+   * Load a fixture from a JSON file
+   */
+  static fromFile(filePath: string): ScriptedProvider {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Script fixture not found: ${filePath}`);
+    }
+    const fixture = JSON.parse(fs.readFileSync(filePath, "utf-8")) as ScriptFixture;
+    if (!fixture.roles || typeof fixture.roles !== "object") {
+      throw new Error(`Invalid script fixture (missing "roles"): ${filePath}`);
+    }
+    return new ScriptedProvider(fixture);
+  }
+
+  async createMessage(request: LlmRequest): Promise<LlmResponse> {
+    const script = this.fixture.roles[request.agent.role] || this.fixture.roles["*"] || [];
+    const index = this.cursors.get(request.agent.id) || 0;
+    this.cursors.set(request.agent.id, index + 1);
+
+    const scripted = script[index] || this.fixture.fallback || DEFAULT_FALLBACK;
+    return this.toResponse(scripted, request.agent.id);
+  }
+
+  private toResponse(scripted: ScriptedResponse, agentId: string): LlmResponse {
+    const content: LlmResponse["content"] = [];
+    if (scripted.text) {
+      content.push({ type: "text", text: scripted.text });
+    }
+
+    for (const call of scripted.toolCalls || []) {
+      this.callCount++;
+      content.push({
+        type: "tool_use",
+        id: call.id || `toolu_scripted_${agentId}_${this.callCount}`,
+        name: call.name,
+        input: call.input || {},
+      });
+    }
+
+    const hasToolCalls = (scripted.toolCalls?.length || 0) > 0;
+    return {
+      content,
+      stopReason: hasToolCalls ? "tool_use" : "end_turn",
+      usage: {
+        inputTokens: scripted.usage?.inputTokens ?? 0,
+        outputTokens: scripted.usage?.outputTokens ?? 0,
+      },
+    };
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+export function createLlmProvider(options: {
+  provider: LlmProviderName;
+  anthropicApiKey?: string;
+  scriptPath?: string;
+}): LlmProvider {
+  switch (options.provider) {
+    case "anthropic":
+      if (!options.anthropicApiKey) {
+        throw new Error("Anthropic provider requires anthropicApiKey");
+      }
+      return new AnthropicProvider(options.anthropicApiKey);
+    case "scripted":
+      if (!options.scriptPath) {
+        throw new Error("Scripted provider requires a script fixture path");
+      }
+      return ScriptedProvider.fromFile(options.scriptPath);
+    default:
+      throw new Error(`Unknown LLM provider: ${options.provider}`);
+  }
+}
@@ -8,6 +8,12 @@ import { AgentMessage, MessageType } from "./types.js";
 
 export type MessageHandler = (message: AgentMessage) => void;
 
+// Serializable message state for one session (used by the session store)
+export interface MessageBusSessionState {
+  history: AgentMessage[];
+  pending: Record<string, AgentMessage[]>; // agentId -> pending messages
+}
+
 export class MessageBus {
   private messages: Map<string, AgentMessage[]> = new Map(); // sessionId -> messages
   private pendingByAgent: Map<string, AgentMessage[]> = new Map(); // agentId -> pending messages
@@ -139,6 +145,38 @@ export class MessageBus {
     }
   }
 
+  /**
+   * Export history and undelivered messages for a session
+   */
+  exportSession(sessionId: string): MessageBusSessionState {
+    const pending: Record<string, AgentMessage[]> = {};
+    for (const [agentId, messages] of this.pendingByAgent.entries()) {
+      const forSession = messages.filter((m) => m.sessionId === sessionId);
+      if (forSession.length > 0) {
+        pending[agentId] = forSession;
+      }
+    }
+
+    return {
+      history: this.getSessionHistory(sessionId),
+      pending,
+    };
+  }
+
+  /**
+   * Restore previously exported state for a session (replaces existing state)
+   */
+  importSession(sessionId: string, state: MessageBusSessionState): void {
+    this.clearSession(sessionId);
+    this.messages.set(sessionId, [...state.history]);
+
+    for (const [agentId, messages] of Object.entries(state.pending)) {
+      for (const message of messages) {
+        this.addToPending(agentId, message);
+      }
+    }
+  }
+
   /**
    * Get statistics about the message bus
    */
@@ -0,0 +1,627 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { Orchestrator, OrchestratorConfig, ScriptedProvider, Session, NewGalleryEvent, ToolCallContext } from "./index.js";
+import { LlmRequest } from "./llm-provider.js";
+import { POSITIONS } from "../tools/position-invoke.js";
+
+const FIXTURES = path.resolve(process.cwd(), "fixtures", "scripted");
+
+async function waitForStatus(session: Session, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (session.status === "running" || session.status === "spawning_agents") {
+    if (Date.now() > deadline) {
+      throw new Error(`Session ${session.id} still ${session.status} after ${timeoutMs}ms`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Condition not met after ${timeoutMs}ms`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+function createOrchestrator(fixture: string): Orchestrator {
+  return new Orchestrator({
+    provider: ScriptedProvider.fromFile(path.join(FIXTURES, fixture)),
+    sessionStorePath: "",
+  });
+}
+
+describe("Scripted Orchestration", () => {
+  it("should run a solo position to completion offline", async () => {
+    const orchestrator = createOrchestrator("contemplator.json");
+    const events: Array<NewGalleryEvent> = [];
+    orchestrator.setGalleryEmitter((event) => events.push(event));
+
+    const session = await orchestrator.createSession(POSITIONS.contemplator, { target: "EQTest" });
+    await waitForStatus(session);
+
+    assert.strictEqual(session.status, "completed");
+    const agent = Array.from(session.agents.values())[0];
+    assert.strictEqual(agent.turnsCompleted, 2);
+    assert.strictEqual(agent.tokensUsed, 900 + 60 + 1000 + 20 + 1100 + 40 + 1150 + 10);
+
+    // The session_complete report becomes the session result
+    assert.ok(session.result?.success);
+    assert.strictEqual(session.result.summary, "Steady, low-frequency activity");
+    assert.deepStrictEqual(session.result.findings, ["No bursts in recent history"]);
+    assert.strictEqual(session.result.confidence, 0.8);
+
+    // The scripted gallery_emit tool call reached the gallery with injected IDs
+    const action = events.find((e) => e.type === "agent_action");
+    assert.ok(action, "Scripted tool call should emit a gallery event");
+    assert.strictEqual(action.sessionId, session.id);
+    assert.strictEqual(action.agentId, agent.id);
+  });
+
+  it("should route inter-agent messages in a duet", async () => {
+    const orchestrator = createOrchestrator("mirror.json");
+
+    const session = await orchestrator.createSession(POSITIONS.mirror);
+    await waitForStatus(session);
+
+    assert.strictEqual(session.status, "completed");
+    const completes = orchestrator.sessionsHistory(session.id).filter((m) => m.type === "COMPLETE");
+    assert.strictEqual(completes.length, 2, "Each agent should broadcast COMPLETE to its partner");
+
+    assert.strictEqual(session.skill.orchestration.completion, "all");
+    assert.strictEqual(session.result?.agentOutputs.size, 2);
+    assert.strictEqual(session.result.consensusReached, true);
+  });
+
+  it("should only complete through session_complete", async () => {
+    const orchestrator = new Orchestrator({
+      provider: new ScriptedProvider({
+        roles: {
+          "*": [
+            { text: "Mission accomplished is near; the final report follows. Workflow complete soon." },
+            { toolCalls: [{ name: "session_complete", input: { findings: ["no summary"] } }] },
+            { text: "Report rejected, retrying." },
+            { toolCalls: [{ name: "session_complete", input: { summary: "All clear" } }] },
+            { text: "Submitted." },
+          ],
+        },
+      }),
+      sessionStorePath: "",
+    });
+
+    const session = await orchestrator.createSession(POSITIONS.contemplator);
+    await waitForStatus(session);
+
+    const agent = Array.from(session.agents.values())[0];
+    assert.strictEqual(agent.turnsCompleted, 3, "Keywords in a response must not end the session");
+    assert.strictEqual(agent.conversationHistory[3].toolResults?.[0].isError, true);
+    assert.strictEqual(session.result?.summary, "All clear");
+  });
+
+  it("should hand off control in a sequential relay", async () => {
+    const orchestrator = createOrchestrator("relay.json");
+
+    const session = await orchestrator.createSession(POSITIONS.relay, { target: "Swap 100 TON" });
+    await waitForStatus(session);
+
+    assert.strictEqual(session.skill.orchestration.strategy, "sequential");
+    assert.strictEqual(session.status, "completed");
+
+    const [scout, executor] = Array.from(session.agents.values());
+    assert.strictEqual(scout.turnsCompleted, 1, "Scout should stop once it hands off");
+    assert.strictEqual(executor.turnsCompleted, 1);
+
+    // The Executor's first prompt carries the Scout's findings
+    const firstInput = executor.conversationHistory[0].content;
+    assert.ok(firstInput.includes("swap 100 TON"));
+  });
+
+  it("should report the active provider in stats", () => {
+    const orchestrator = createOrchestrator("contemplator.json");
+    assert.strictEqual(orchestrator.getStats().llmProvider, "scripted");
+  });
+});
+
+describe("Gated Tool Approvals", () => {
+  function createSendingOrchestrator(offeredTools: string[][]): Orchestrator {
+    const provider = new ScriptedProvider({
+      roles: {
+        "*": [
+          { toolCalls: [{ name: "ton_wallet_send", input: { to: "EQTreasury", amount: "1.5" } }] },
+          { toolCalls: [{ name: "session_complete", input: { summary: "Transfer handled" } }] },
+          { text: "Done." },
+        ],
+      },
+    });
+    const createMessage = provider.createMessage.bind(provider);
+    provider.createMessage = async (request) => {
+      offeredTools.push(request.tools.map((t) => t.name));
+      return createMessage(request);
+    };
+
+    const orchestrator = new Orchestrator({ provider, sessionStorePath: "", approvalTimeoutMs: 0 });
+    return orchestrator;
+  }
+
+  it("should hold a send until approved, then execute it", async () => {
+    const offeredTools: string[][] = [];
+    const orchestrator = createSendingOrchestrator(offeredTools);
+    const events: Array<NewGalleryEvent> = [];
+    orchestrator.setGalleryEmitter((event) => events.push(event));
+
+    const sent: Array<Record<string, unknown> | undefined> = [];
+    const contexts: Array<ToolCallContext | undefined> = [];
+    orchestrator.registerToolHandler("ton_wallet_", async (_name, args, context) => {
+      sent.push(args);
+      contexts.push(context);
+      return { content: [{ type: "text", text: JSON.stringify({ success: true, seqno: 7 }) }] };
+    });
+
+    const session = await orchestrator.createSession(POSITIONS.contemplator, {
+      allowTransactions: true,
+      network: "sandbox",
+      wallets: { session: "wallet-treasury" },
+    });
+    await waitFor(() => orchestrator.listApprovals({ status: "pending" }).length === 1);
+
+    assert.ok(offeredTools[0].includes("ton_wallet_send"), "Gated tool should be offered when transactions are allowed");
+    assert.strictEqual(sent.length, 0, "Nothing may be sent before approval");
+    const pending = events.find((e) => e.type === "blockchain_tx" && e.data.status === "pending_approval");
+    assert.ok(pending, "A pending blockchain_tx event should be emitted");
+    assert.strictEqual(pending.data.amount, "1.5");
+
+    const [request] = orchestrator.listApprovals({ status: "pending" });
+    orchestrator.approveRequest(request.id, "treasurer");
+    await waitForStatus(session);
+
+    assert.deepStrictEqual(sent, [{ to: "EQTreasury", amount: "1.5" }]);
+    assert.strictEqual(contexts[0]?.sessionId, session.id);
+    assert.strictEqual(contexts[0]?.walletId, "wallet-treasury", "The session's wallet binding reaches the handler");
+    assert.strictEqual(contexts[0]?.network, "sandbox", "The session's network reaches the handler");
+    assert.strictEqual(orchestrator.listApprovals({ status: "executed" }).length, 1);
+    assert.strictEqual(session.status, "completed");
+    assert.deepStrictEqual(session.spendingLedger.map((r) => [r.amount, r.status]), [["1.5", "spent"]]);
+  });
+
+  it("should tell the agent when a send is rejected", async () => {
+    const orchestrator = createSendingOrchestrator([]);
+    let calls = 0;
+    orchestrator.registerToolHandler("ton_wallet_", async () => {
+      calls++;
+      return { content: [{ type: "text", text: "{}" }] };
+    });
+
+    const session = await orchestrator.createSession(POSITIONS.contemplator, { allowTransactions: true });
+    await waitFor(() => orchestrator.listApprovals({ status: "pending" }).length === 1);
+
+    const [request] = orchestrator.listApprovals({ status: "pending" });
+    orchestrator.rejectRequest(request.id, "Over budget");
+    await waitForStatus(session);
+
+    assert.strictEqual(calls, 0);
+    const agent = Array.from(session.agents.values())[0];
+    const toolResult = agent.conversationHistory[1].toolResults?.[0];
+    assert.strictEqual(toolResult?.isError, true);
+    assert.match(toolResult.content, /Over budget/);
+    assert.deepStrictEqual(session.spendingLedger, [], "Rejected sends release their reservation");
+  });
+
+  it("should refuse sends that violate the spending policy", async () => {
+    const orchestrator = createSendingOrchestrator([]);
+    const events: Array<NewGalleryEvent> = [];
+    orchestrator.setGalleryEmitter((event) => events.push(event));
+
+    const session = await orchestrator.createSession(POSITIONS.contemplator, {
+      allowTransactions: true,
+      spendingPolicy: { maxPerTransaction: "1" },
+    });
+    await waitForStatus(session);
+
+    assert.strictEqual(orchestrator.listApprovals({ status: "pending" }).length, 0, "Violations never reach a human");
+    const agent = Array.from(session.agents.values())[0];
+    const toolResult = agent.conversationHistory[1].toolResults?.[0];
+    assert.strictEqual(toolResult?.isError, true);
+    assert.strictEqual(JSON.parse(toolResult.content).rule, "max_per_transaction");
+
+    const violation = events.find((e) => e.type === "system" && e.data.event === "policy_violation");
+    assert.ok(violation, "A system event should report the violation");
+    assert.deepStrictEqual(session.spendingLedger, []);
+  });
+
+  it("should reject malformed spending policies", async () => {
+    const orchestrator = createSendingOrchestrator([]);
+    await assert.rejects(
+      orchestrator.createSession(POSITIONS.contemplator, { spendingPolicy: { maxPerSession: "ten" } }),
+      /Invalid spending policy/
+    );
+  });
+
+  it("should reject unknown networks", async () => {
+    const orchestrator = createSendingOrchestrator([]);
+    await assert.rejects(
+      orchestrator.createSession(POSITIONS.contemplator, { network: "devnet" as never }),
+      /Unsupported network: devnet/
+    );
+  });
+
+  it("should route jetton reads directly and gate jetton transfers", async () => {
+    const provider = new ScriptedProvider({
+      roles: {
+        "*": [
+          {
+            toolCalls: [
+              { name: "ton_jetton_balance", input: { masterAddress: "EQMaster" } },
+              { name: "ton_jetton_transfer", input: { masterAddress: "EQMaster", to: "EQPool", amount: "250", decimals: 6 } },
+            ],
+          },
+          { toolCalls: [{ name: "session_complete", input: { summary: "Liquidity added" } }] },
+          { text: "Done." },
+        ],
+      },
+    });
+    const orchestrator = new Orchestrator({ provider, sessionStorePath: "", approvalTimeoutMs: 0 });
+    const events: Array<NewGalleryEvent> = [];
+    orchestrator.setGalleryEmitter((event) => events.push(event));
+
+    const calls: string[] = [];
+    orchestrator.registerToolHandler("ton_", async () => ({ content: [{ type: "text", text: "wrong handler" }], isError: true }));
+    orchestrator.registerToolHandler("ton_jetton_", async (name) => {
+      calls.push(name);
+      return { content: [{ type: "text", text: JSON.stringify({ success: true }) }] };
+    });
+
+    const session = await orchestrator.createSession(POSITIONS.contemplator, { allowTransactions: true });
+    await waitFor(() => orchestrator.listApprovals({ status: "pending" }).length === 1);
+    assert.deepStrictEqual(calls, ["ton_jetton_balance"], "Reads run without approval, transfers wait");
+
+    const [request] = orchestrator.listApprovals({ status: "pending" });
+    assert.strictEqual(request.toolName, "ton_jetton_transfer");
+    const pending = events.find((e) => e.type === "blockchain_tx" && e.data.status === "pending_approval");
+    assert.strictEqual(pending?.data.amountUnits, "250000000", "Approvers see the exact base units");
+    assert.strictEqual(pending?.data.decimals, 6);
+    orchestrator.approveRequest(request.id);
+    await waitForStatus(session);
+
+    assert.deepStrictEqual(calls, ["ton_jetton_balance", "ton_jetton_transfer"]);
+    assert.deepStrictEqual(session.spendingLedger.map((r) => [r.to, r.amount, r.status]), [["EQPool", "0.06", "spent"]]);
+  });
+
+  it("should not queue jetton transfers without decimals", async () => {
+    const provider = new ScriptedProvider({
+      roles: {
+        "*": [
+          { toolCalls: [{ name: "ton_jetton_transfer", input: { masterAddress: "EQMaster", to: "EQPool", amount: "10" } }] },
+          { toolCalls: [{ name: "session_complete", input: { summary: "Gave up" } }] },
+          { text: "Done." },
+        ],
+      },
+    });
+    const orchestrator = new Orchestrator({ provider, sessionStorePath: "", approvalTimeoutMs: 0 });
+
+    const session = await orchestrator.createSession(POSITIONS.contemplator, { allowTransactions: true });
+    await waitForStatus(session);
+
+    assert.strictEqual(orchestrator.listApprovals().length, 0);
+    const agent = Array.from(session.agents.values())[0];
+    const result = agent.conversationHistory.flatMap((turn) => turn.toolResults ?? [])[0];
+    assert.ok(result?.isError && /Invalid decimals/.test(result.content));
+  });
+
+  it("should not offer gated tools without allowTransactions", async () => {
+    const offeredTools: string[][] = [];
+    const orchestrator = createSendingOrchestrator(offeredTools);
+
+    const session = await orchestrator.createSession(POSITIONS.contemplator);
+    await waitForStatus(session);
+
+    assert.ok(!offeredTools[0].includes("ton_wallet_send"));
+    assert.strictEqual(orchestrator.listApprovals({ status: "pending" }).length, 0);
+  });
+
+  it("should refuse tools the agent was not offered", async () => {
+    const provider = new ScriptedProvider({
+      roles: {
+        "*": [
+          {
+            toolCalls: [
+              { name: "ton_wallet_bind", input: { walletId: "treasury", sessionId: "other" } },
+              { name: "ton_wallet_disconnect", input: {} },
+              { name: "ton_wallet_balance", input: {} },
+            ],
+          },
+          { toolCalls: [{ name: "session_complete", input: { summary: "Tried" } }] },
+          { text: "Done." },
+        ],
+      },
+    });
+    const toolResults: string[] = [];
+    const createMessage = provider.createMessage.bind(provider);
+    provider.createMessage = async (request) => {
+      for (const message of request.messages) {
+        if (!Array.isArray(message.content)) continue;
+        for (const block of message.content) {
+          if (block.type === "tool_result") toolResults.push(block.content);
+        }
+      }
+      return createMessage(request);
+    };
+    const orchestrator = new Orchestrator({ provider, sessionStorePath: "", approvalTimeoutMs: 0 });
+
+    const calls: string[] = [];
+    orchestrator.registerToolHandler("ton_wallet_", async (name) => {
+      calls.push(name);
+      return { content: [{ type: "text", text: JSON.stringify({ success: true }) }] };
+    });
+
+    const session = await orchestrator.createSession(POSITIONS.contemplator);
+    await waitForStatus(session);
+
+    assert.deepStrictEqual(calls, ["ton_wallet_balance"]);
+    assert.ok(toolResults.includes("Tool not available to agents: ton_wallet_bind"));
+    assert.ok(toolResults.includes("Tool not available to agents: ton_wallet_disconnect"));
+  });
+});
+
+describe("Session Resume", () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "clawmasutra-resume-"));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // An orchestrator over the same store, as after a restart
+  function boot(storeDir: string, requests: LlmRequest[] = []): Orchestrator {
+    const provider = new ScriptedProvider({
+      roles: {
+        "*": [
+          { toolCalls: [{ name: "ton_wallet_send", input: { to: "EQTreasury", amount: "1.5" } }] },
+          { toolCalls: [{ name: "session_complete", input: { summary: "Transfer handled" } }] },
+          { text: "Done." },
+        ],
+      },
+    });
+    const createMessage = provider.createMessage.bind(provider);
+    provider.createMessage = async (request) => {
+      requests.push(request);
+      return createMessage(request);
+    };
+    return new Orchestrator({ provider, sessionStorePath: storeDir, approvalTimeoutMs: 0 });
+  }
+
+  it("should not repeat a send a restart interrupted", async () => {
+    const storeDir = path.join(dir, "mid-send");
+    const first = boot(storeDir);
+    let sending = false;
+    first.registerToolHandler("ton_wallet_", async () => {
+      sending = true;
+      return new Promise(() => {}); // the process dies mid-send
+    });
+    const { id } = await first.createSession(POSITIONS.contemplator, { allowTransactions: true });
+    await waitFor(() => first.listApprovals({ status: "pending" }).length === 1);
+    first.approveRequest(first.listApprovals({ status: "pending" })[0].id);
+    await waitFor(() => sending);
+
+    const requests: LlmRequest[] = [];
+    const second = boot(storeDir, requests);
+    second.registerToolHandler("ton_wallet_", async () => ({ content: [{ type: "text", text: "{}" }] }));
+    assert.deepStrictEqual(await second.resumeSessions(), [id]);
+    const session = second.getSession(id)!;
+    await waitFor(() => requests.length > 0);
+
+    // The retried turn starts from a clean history and knows about the send
+    const [prompt, ...rest] = requests[0].messages;
+    assert.strictEqual(rest.length, 0, "The interrupted prompt is not left dangling");
+    assert.ok(String(prompt.content).includes("may have been sent"));
+    assert.deepStrictEqual(session.spendingLedger.map((r) => [r.amount, r.status]), [["1.5", "executing"]]);
+  });
+
+  it("should expire approvals a restart left undecided", async () => {
+    const storeDir = path.join(dir, "awaiting");
+    const first = boot(storeDir);
+    const { id } = await first.createSession(POSITIONS.contemplator, { allowTransactions: true });
+    await waitFor(() => first.listApprovals({ status: "pending" }).length === 1);
+    const [stale] = first.listApprovals({ status: "pending" });
+
+    const second = boot(storeDir);
+    const events: Array<NewGalleryEvent> = [];
+    second.setGalleryEmitter((event) => events.push(event));
+    await second.resumeSessions();
+    const session = second.getSession(id)!;
+    await waitFor(() => second.listApprovals({ status: "pending" }).length === 1);
+
+    const expired = events.find((e) => e.type === "blockchain_tx" && e.data.approvalId === stale.id);
+    assert.strictEqual(expired?.data.status, "expired");
+    const [retry] = second.listApprovals({ status: "pending" });
+    assert.deepStrictEqual(session.spendingLedger.map((r) => [r.approvalId, r.status]), [[retry.id, "reserved"]]);
+  });
+});
+
+describe("Budgets", () => {
+  // Every call costs 500 tokens and never completes on its own
+  function createBudgetOrchestrator(config: Partial<OrchestratorConfig> = {}): Orchestrator {
+    return new Orchestrator({
+      provider: new ScriptedProvider({
+        roles: { "*": [] },
+        fallback: { text: "Still working.", usage: { inputTokens: 400, outputTokens: 100 } },
+      }),
+      sessionStorePath: "",
+      ...config,
+    });
+  }
+
+  it("should warn, wind down and halt at the per-agent limit", async () => {
+    const orchestrator = createBudgetOrchestrator();
+    const events: Array<NewGalleryEvent> = [];
+    orchestrator.setGalleryEmitter((event) => events.push(event));
+
+    const session = await orchestrator.createSession(POSITIONS.contemplator, { maxTokensPerAgent: 1600 });
+    await waitForStatus(session);
+
+    assert.strictEqual(session.status, "budget_exceeded");
+    assert.match(session.error ?? "", /agent budget/);
+    assert.strictEqual(session.result?.success, false);
+
+    const agent = Array.from(session.agents.values())[0];
+    assert.strictEqual(agent.turnsCompleted, 4);
+    assert.ok(agent.costUsd > 0, "Cost should be priced per model");
+
+    const inputs = agent.conversationHistory.filter((m) => m.role === "user").map((m) => m.content);
+    assert.ok(!inputs[2].includes("Budget notice"));
+    assert.ok(inputs[3].includes("Budget notice"), "The last turn should ask the agent to wrap up");
+
+    const warnings = events.filter((e) => e.type === "system" && e.data.event === "budget_warning");
+    assert.deepStrictEqual(warnings.map((e) => e.data.threshold), [0.5, 0.9]);
+    assert.ok(events.some((e) => e.type === "system" && e.data.event === "budget_exceeded"));
+    assert.ok(events.some((e) => e.type === "position_update" && e.data.status === "budget_exceeded"));
+    assert.ok(!events.some((e) => e.type === "position_update" && e.data.status === "completed"));
+  });
+
+  it("should halt a duet at the session cost limit", async () => {
+    const orchestrator = createBudgetOrchestrator();
+
+    // 500 Sonnet tokens cost $0.0027, so two parallel agents exhaust $0.01 in their second round
+    const session = await orchestrator.createSession(POSITIONS.mirror, { maxCostPerSession: 0.01 });
+    await waitForStatus(session);
+
+    assert.strictEqual(session.status, "budget_exceeded");
+    assert.match(session.error ?? "", /session budget/);
+    for (const agent of session.agents.values()) {
+      assert.strictEqual(agent.turnsCompleted, 2);
+    }
+  });
+
+  it("should stop new sessions once the daily limit is spent", async () => {
+    const orchestrator = createBudgetOrchestrator({ dailyTokenLimit: 1200 });
+
+    const first = await orchestrator.createSession(POSITIONS.contemplator);
+    await waitForStatus(first);
+    assert.strictEqual(first.status, "budget_exceeded");
+    assert.strictEqual(orchestrator.getStats().budget.today.tokens, 1500);
+
+    const second = await orchestrator.createSession(POSITIONS.contemplator);
+    await waitForStatus(second);
+    assert.strictEqual(second.status, "budget_exceeded");
+    assert.match(second.error ?? "", /daily budget/);
+    assert.strictEqual(Array.from(second.agents.values())[0].turnsCompleted, 0, "No model call once the cap is hit");
+  });
+
+  it("should let an agent that completes on its last turn finish", async () => {
+    const orchestrator = new Orchestrator({
+      provider: new ScriptedProvider({
+        roles: {
+          "*": [
+            { text: "Looking.", usage: { inputTokens: 400, outputTokens: 100 } },
+            {
+              toolCalls: [{ name: "session_complete", input: { summary: "Done in budget" } }],
+              usage: { inputTokens: 400, outputTokens: 100 },
+            },
+            { text: "Submitted.", usage: { inputTokens: 400, outputTokens: 100 } },
+          ],
+        },
+      }),
+      sessionStorePath: "",
+    });
+
+    const session = await orchestrator.createSession(POSITIONS.contemplator, { maxTokensPerAgent: 1000 });
+    await waitForStatus(session);
+
+    assert.strictEqual(session.status, "completed");
+    assert.strictEqual(session.result?.summary, "Done in budget");
+  });
+
+  // Every call asks for another tool round
+  function createToolLoopOrchestrator(config: Partial<OrchestratorConfig> = {}): Orchestrator {
+    return new Orchestrator({
+      provider: new ScriptedProvider({
+        roles: { "*": [] },
+        fallback: { toolCalls: [{ name: "no_such_tool", input: {} }], usage: { inputTokens: 400, outputTokens: 100 } },
+      }),
+      sessionStorePath: "",
+      ...config,
+    });
+  }
+
+  it("should stop a tool loop once a budget is spent", async () => {
+    const orchestrator = createToolLoopOrchestrator();
+
+    const session = await orchestrator.createSession(POSITIONS.contemplator, { maxTokensPerAgent: 1600 });
+    await waitForStatus(session);
+
+    assert.strictEqual(session.status, "budget_exceeded");
+    const agent = Array.from(session.agents.values())[0];
+    assert.strictEqual(agent.turnsCompleted, 1);
+    assert.strictEqual(agent.tokensUsed, 2000, "Four calls: the one crossing the limit is the last");
+    assert.strictEqual(orchestrator.getStats().budget.today.tokens, 2000);
+  });
+
+  it("should cap the tool rounds of a turn", async () => {
+    const orchestrator = createToolLoopOrchestrator({ maxToolRoundsPerTurn: 2 });
+
+    const session = await orchestrator.createSession(POSITIONS.contemplator, { maxTokensPerAgent: 1600 });
+    await waitForStatus(session);
+
+    const agent = Array.from(session.agents.values())[0];
+    assert.strictEqual(agent.turnsCompleted, 2);
+    assert.strictEqual(agent.tokensUsed, 2000);
+  });
+
+  it("should reject malformed budgets", async () => {
+    const orchestrator = createBudgetOrchestrator();
+    await assert.rejects(
+      orchestrator.createSession(POSITIONS.contemplator, { maxCostPerSession: -1 }),
+      /Invalid budget/
+    );
+  });
+});
+
+describe("ScriptedProvider", () => {
+  it("should return the fallback once a script is exhausted", async () => {
+    const provider = new ScriptedProvider({ roles: { Solo: [{ text: "first" }] }, fallback: { text: "done" } });
+    const request = {
+      model: "test",
+      maxTokens: 100,
+      system: "",
+      messages: [],
+      tools: [],
+      agent: { id: "agent-1", sessionId: "s1", role: "Solo" },
+    };
+
+    const first = await provider.createMessage(request);
+    const second = await provider.createMessage(request);
+
+    assert.deepStrictEqual(first.content, [{ type: "text", text: "first" }]);
+    assert.deepStrictEqual(second.content, [{ type: "text", text: "done" }]);
+    assert.strictEqual(second.stopReason, "end_turn");
+  });
+
+  it("should mark tool calls with a tool_use stop reason", async () => {
+    const provider = new ScriptedProvider({
+      roles: { "*": [{ toolCalls: [{ name: "sessions_list" }] }] },
+    });
+    const response = await provider.createMessage({
+      model: "test",
+      maxTokens: 100,
+      system: "",
+      messages: [],
+      tools: [],
+      agent: { id: "agent-1", sessionId: "s1", role: "Anyone" },
+    });
+
+    assert.strictEqual(response.stopReason, "tool_use");
+    assert.strictEqual(response.content[0].type, "tool_use");
+  });
+
+  it("should reject a missing fixture file", () => {
+    assert.throws(() => ScriptedProvider.fromFile(path.join(FIXTURES, "missing.json")), /not found/);
+  });
+});
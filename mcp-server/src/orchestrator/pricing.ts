@@ -0,0 +1,45 @@
+/**
+ * Model Pricing
+ *
+ * USD prices per million tokens, used to turn token usage into cost for
+ * budget enforcement. Models are matched by exact ID first, then by the
+ * longest known prefix (so dated snapshots resolve to their family).
+ */
+
+export interface ModelPricing {
+  inputPerMTok: number;
+  outputPerMTok: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  "claude-opus-4": { inputPerMTok: 15, outputPerMTok: 75 },
+  "claude-sonnet-4": { inputPerMTok: 3, outputPerMTok: 15 },
+  "claude-3-7-sonnet": { inputPerMTok: 3, outputPerMTok: 15 },
+  "claude-3-5-sonnet": { inputPerMTok: 3, outputPerMTok: 15 },
+  "claude-3-5-haiku": { inputPerMTok: 0.8, outputPerMTok: 4 },
+  "claude-3-haiku": { inputPerMTok: 0.25, outputPerMTok: 1.25 },
+  "claude-3-opus": { inputPerMTok: 15, outputPerMTok: 75 },
+};
+
+// Unknown models are priced like the most expensive family, so budgets err on the safe side
+const FALLBACK_PRICING: ModelPricing = { inputPerMTok: 15, outputPerMTok: 75 };
+
+/**
+ * Pricing for a model ID
+ */
+export function getModelPricing(model: string): ModelPricing {
+  if (MODEL_PRICING[model]) return MODEL_PRICING[model];
+
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_PRICING[prefix] : FALLBACK_PRICING;
+}
+
+/**
+ * Cost in USD of one model call
+ */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const pricing = getModelPricing(model);
+  return (inputTokens * pricing.inputPerMTok + outputTokens * pricing.outputPerMTok) / 1_000_000;
+}
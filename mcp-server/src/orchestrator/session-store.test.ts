@@ -0,0 +1,140 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { FileSessionStore, MemorySessionStore, createSessionStore, toSnapshot, fromSnapshot } from "./session-store.js";
+import { MessageBus } from "./message-bus.js";
+import { Session, Agent } from "./types.js";
+
+function buildSession(): Session {
+  const agent: Agent = {
+    id: "agent-mirror-test-reflector-0",
+    sessionId: "mirror-test",
+    role: { name: "Reflector", role: "Primary Analyst", personality: "Thorough", responsibilities: [] },
+    systemPrompt: "You are Reflector",
+    status: "idle",
+    conversationHistory: [
+      { role: "user", content: "Begin", timestamp: new Date("2025-01-01T00:00:00Z") },
+      { role: "assistant", content: "Acknowledged", timestamp: new Date("2025-01-01T00:00:05Z") },
+    ],
+    pendingMessages: [],
+    tokensUsed: 1200,
+    costUsd: 0.0042,
+    turnsCompleted: 1,
+    createdAt: new Date("2025-01-01T00:00:00Z"),
+    lastActivityAt: new Date("2025-01-01T00:00:05Z"),
+  };
+
+  return {
+    id: "mirror-test",
+    position: { name: "mirror", path: "positions/duet/mirror", description: "Mirror", agents: 2, category: "duet" },
+    skill: {
+      position: "mirror",
+      title: "The Mirror",
+      overview: "",
+      agents: [agent.role],
+      workflow: [],
+      communicationProtocol: [],
+      toolsUsed: [],
+      philosophy: "",
+      orchestration: { strategy: "parallel", maxTurns: 15, completion: "all" },
+      rawContent: "",
+    },
+    config: { target: "EQTest", network: "testnet" },
+    status: "running",
+    turn: 3,
+    agents: new Map([[agent.id, agent]]),
+    completionReports: new Map([[agent.id, {
+      agentId: agent.id,
+      role: "Reflector",
+      summary: "No discrepancies",
+      findings: ["Balance matches"],
+      discrepancies: [],
+      submittedAt: "2025-01-01T00:00:05Z",
+    }]]),
+    spendingLedger: [],
+    startedAt: new Date("2025-01-01T00:00:00Z"),
+  };
+}
+
+describe("Session Snapshots", () => {
+  it("should round-trip sessions, agents and messages", () => {
+    const bus = new MessageBus();
+    bus.send({ from: "agent-a", to: "agent-mirror-test-reflector-0", sessionId: "mirror-test", type: "RESULTS", content: { ok: true } });
+
+    const session = buildSession();
+    const snapshot = JSON.parse(JSON.stringify(toSnapshot(session, bus.exportSession("mirror-test"))));
+    const restored = fromSnapshot(snapshot);
+
+    assert.strictEqual(restored.session.turn, 3);
+    assert.strictEqual(restored.session.status, "running");
+    assert.ok(restored.session.startedAt instanceof Date);
+
+    const agent = restored.session.agents.get("agent-mirror-test-reflector-0");
+    assert.ok(agent, "Agent should be restored");
+    assert.strictEqual(agent.conversationHistory.length, 2);
+    assert.ok(agent.conversationHistory[0].timestamp instanceof Date);
+    assert.strictEqual(agent.tokensUsed, 1200);
+    assert.strictEqual(agent.costUsd, 0.0042);
+    assert.strictEqual(restored.session.completionReports.get(agent.id)?.summary, "No discrepancies");
+
+    assert.strictEqual(restored.messages.history.length, 1);
+    assert.strictEqual(restored.messages.pending["agent-mirror-test-reflector-0"].length, 1);
+  });
+
+  it("should restore pending messages into a fresh message bus", () => {
+    const bus = new MessageBus();
+    bus.send({ from: "agent-a", to: "agent-b", sessionId: "s1", type: "QUERY", content: "hi" });
+
+    const other = new MessageBus();
+    other.importSession("s1", bus.exportSession("s1"));
+
+    assert.strictEqual(other.getSessionHistory("s1").length, 1);
+    assert.strictEqual(other.receive("agent-b").length, 1);
+  });
+});
+
+describe("FileSessionStore", () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "clawmasutra-sessions-"));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should persist snapshots across store instances", () => {
+    const snapshot = toSnapshot(buildSession(), { history: [], pending: {} });
+    new FileSessionStore(dir).save(snapshot);
+
+    const reopened = new FileSessionStore(dir);
+    assert.strictEqual(reopened.list().length, 1);
+    assert.strictEqual(reopened.load("mirror-test")?.turn, 3);
+  });
+
+  it("should delete snapshots", () => {
+    const store = new FileSessionStore(dir);
+    store.delete("mirror-test");
+    assert.strictEqual(store.load("mirror-test"), undefined);
+  });
+
+  it("should skip corrupt snapshot files", () => {
+    fs.writeFileSync(path.join(dir, "broken.json"), "{not json");
+    assert.deepStrictEqual(new FileSessionStore(dir).list(), []);
+  });
+
+  it("should fall back to memory store for an empty path", () => {
+    assert.ok(createSessionStore("") instanceof MemorySessionStore);
+  });
+
+  it("should fall back to memory store when the directory cannot be created", () => {
+    // A regular file where a parent directory should be
+    const file = path.join(dir, "not-a-directory");
+    fs.writeFileSync(file, "");
+    assert.ok(createSessionStore(path.join(file, "sessions")) instanceof MemorySessionStore);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Session Store - Persistence for Orchestrator Sessions
+ *
+ * Snapshots session, agent and message bus state so sessions survive
+ * an MCP server restart and can be resumed on boot.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  Session,
+  SessionStatus,
+  SessionConfig,
+  SessionResult,
+  CompletionReport,
+  SpendRecord,
+  Position,
+  SkillDefinition,
+  Agent,
+  AgentMessage,
+  ConversationMessage,
+} from "./types.js";
+import { MessageBusSessionState } from "./message-bus.js";
+
+// ============================================================================
+// Snapshot Types (JSON-safe mirrors of the runtime types)
+// ============================================================================
+
+export interface ConversationMessageSnapshot extends Omit<ConversationMessage, "timestamp"> {
+  timestamp: string;
+}
+
+export interface AgentMessageSnapshot extends Omit<AgentMessage, "timestamp"> {
+  timestamp: string;
+}
+
+export interface AgentSnapshot
+  extends Omit<Agent, "conversationHistory" | "pendingMessages" | "createdAt" | "lastActivityAt"> {
+  conversationHistory: ConversationMessageSnapshot[];
+  pendingMessages: AgentMessageSnapshot[];
+  createdAt: string;
+  lastActivityAt: string;
+}
+
+export interface SessionResultSnapshot extends Omit<SessionResult, "agentOutputs"> {
+  agentOutputs: Record<string, unknown>;
+}
+
+export interface SessionSnapshot {
+  id: string;
+  position: Position;
+  skill: SkillDefinition;
+  config: SessionConfig;
+  status: SessionStatus;
+  turn: number;
+  agents: AgentSnapshot[];
+  startedAt: string;
+  completedAt?: string;
+  error?: string;
+  completionReports: Record<string, CompletionReport>;
+  spendingLedger: SpendRecord[];
+  result?: SessionResultSnapshot;
+  messages: {
+    history: AgentMessageSnapshot[];
+    pending: Record<string, AgentMessageSnapshot[]>;
+  };
+  savedAt: string;
+}
+
+// ============================================================================
+// Store Interface
+// ============================================================================
+
+export interface SessionStore {
+  save(snapshot: SessionSnapshot): void;
+  load(sessionId: string): SessionSnapshot | undefined;
+  list(): SessionSnapshot[];
+  delete(sessionId: string): void;
+}
+
+/**
+ * Keeps snapshots in memory only (sessions are lost on restart)
+ */
+export class MemorySessionStore implements SessionStore {
+  private snapshots: Map<string, SessionSnapshot> = new Map();
+
+  save(snapshot: SessionSnapshot): void {
+    this.snapshots.set(snapshot.id, snapshot);
+  }
+
+  load(sessionId: string): SessionSnapshot | undefined {
+    return this.snapshots.get(sessionId);
+  }
+
+  list(): SessionSnapshot[] {
+    return Array.from(this.snapshots.values());
+  }
+
+  delete(sessionId: string): void {
+    this.snapshots.delete(sessionId);
+  }
+}
+
+/**
+ * Writes one JSON file per session into a directory.
+ * Writes go through a temp file + rename so a crash mid-write never
+ * leaves a truncated snapshot behind.
+ */
+export class FileSessionStore implements SessionStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  save(snapshot: SessionSnapshot): void {
+    const file = this.fileFor(snapshot.id);
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(snapshot));
+    fs.renameSync(tmp, file);
+  }
+
+  load(sessionId: string): SessionSnapshot | undefined {
+    const file = this.fileFor(sessionId);
+    if (!fs.existsSync(file)) return undefined;
+    return this.read(file);
+  }
+
+  list(): SessionSnapshot[] {
+    const snapshots: SessionSnapshot[] = [];
+    for (const entry of fs.readdirSync(this.dir)) {
+      if (!entry.endsWith(".json")) continue;
+      const snapshot = this.read(path.join(this.dir, entry));
+      if (snapshot) snapshots.push(snapshot);
+    }
+    return snapshots;
+  }
+
+  delete(sessionId: string): void {
+    fs.rmSync(this.fileFor(sessionId), { force: true });
+  }
+
+  private fileFor(sessionId: string): string {
+    // Session IDs are generated internally, but never trust them as paths
+    const safeId = sessionId.replace(/[^a-zA-Z0-9._-]/g, "_");
+    return path.join(this.dir, `${safeId}.json`);
+  }
+
+  private read(file: string): SessionSnapshot | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(file, "utf-8")) as SessionSnapshot;
+    } catch (error) {
+      console.error(`Skipping unreadable session snapshot ${file}:`, error instanceof Error ? error.message : String(error));
+      return undefined;
+    }
+  }
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+export function toSnapshot(session: Session, messages: MessageBusSessionState): SessionSnapshot {
+  return {
+    id: session.id,
+    position: session.position,
+    skill: session.skill,
+    config: session.config,
+    status: session.status,
+    turn: session.turn,
+    agents: Array.from(session.agents.values()).map(agentToSnapshot),
+    startedAt: session.startedAt.toISOString(),
+    completedAt: session.completedAt?.toISOString(),
+    error: session.error,
+    completionReports: Object.fromEntries(session.completionReports),
+    spendingLedger: session.spendingLedger,
+    result: session.result
+      ? { ...session.result, agentOutputs: Object.fromEntries(session.result.agentOutputs) }
+      : undefined,
+    messages: {
+      history: messages.history.map(messageToSnapshot),
+      pending: Object.fromEntries(
+        Object.entries(messages.pending).map(([agentId, pending]) => [agentId, pending.map(messageToSnapshot)])
+      ),
+    },
+    savedAt: new Date().toISOString(),
+  };
+}
+
+export function fromSnapshot(snapshot: SessionSnapshot): {
+  session: Session;
+  messages: MessageBusSessionState;
+} {
+  const agents = new Map<string, Agent>();
+  for (const agent of snapshot.agents) {
+    agents.set(agent.id, agentFromSnapshot(agent));
+  }
+
+  const session: Session = {
+    id: snapshot.id,
+    position: snapshot.position,
+    skill: snapshot.skill,
+    config: snapshot.config,
+    status: snapshot.status,
+    turn: snapshot.turn,
+    agents,
+    startedAt: new Date(snapshot.startedAt),
+    completedAt: snapshot.completedAt ? new Date(snapshot.completedAt) : undefined,
+    error: snapshot.error,
+    completionReports: new Map(Object.entries(snapshot.completionReports)),
+    spendingLedger: snapshot.spendingLedger,
+    result: snapshot.result
+      ? { ...snapshot.result, agentOutputs: new Map(Object.entries(snapshot.result.agentOutputs)) }
+      : undefined,
+  };
+
+  return {
+    session,
+    messages: {
+      history: snapshot.messages.history.map(messageFromSnapshot),
+      pending: Object.fromEntries(
+        Object.entries(snapshot.messages.pending).map(([agentId, pending]) => [agentId, pending.map(messageFromSnapshot)])
+      ),
+    },
+  };
+}
+
+function agentToSnapshot(agent: Agent): AgentSnapshot {
+  return {
+    ...agent,
+    conversationHistory: agent.conversationHistory.map((m) => ({ ...m, timestamp: m.timestamp.toISOString() })),
+    pendingMessages: agent.pendingMessages.map(messageToSnapshot),
+    createdAt: agent.createdAt.toISOString(),
+    lastActivityAt: agent.lastActivityAt.toISOString(),
+  };
+}
+
+function agentFromSnapshot(snapshot: AgentSnapshot): Agent {
+  return {
+    ...snapshot,
+    conversationHistory: snapshot.conversationHistory.map((m) => ({ ...m, timestamp: new Date(m.timestamp) })),
+    pendingMessages: snapshot.pendingMessages.map(messageFromSnapshot),
+    createdAt: new Date(snapshot.createdAt),
+    lastActivityAt: new Date(snapshot.lastActivityAt),
+  };
+}
+
+function messageToSnapshot(message: AgentMessage): AgentMessageSnapshot {
+  return { ...message, timestamp: message.timestamp.toISOString() };
+}
+
+function messageFromSnapshot(snapshot: AgentMessageSnapshot): AgentMessage {
+  return { ...snapshot, timestamp: new Date(snapshot.timestamp) };
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create a session store for the given path (empty path = memory only).
+ * A directory that cannot be created, e.g. in a read-only working
+ * directory, leaves sessions in memory rather than failing startup.
+ */
+export function createSessionStore(storePath: string): SessionStore {
+  if (!storePath) {
+    return new MemorySessionStore();
+  }
+  try {
+    return new FileSessionStore(storePath);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Session persistence disabled, keeping sessions in memory only: ${message}`);
+    return new MemorySessionStore();
+  }
+}
@@ -9,11 +9,29 @@ import * as path from "path";
 import {
   SkillDefinition,
   AgentRole,
+  CompletionPolicy,
   WorkflowPhase,
   CommunicationProtocol,
+  OrchestrationSpec,
   Position,
 } from "./types.js";
 
+const COMPLETION_POLICIES: CompletionPolicy[] = ["any", "all", "synthesizer"];
+
+/**
+ * Parallel agents each owe a report; a hierarchy waits on its synthesizer
+ */
+function defaultCompletion(strategy: string): CompletionPolicy {
+  switch (strategy) {
+    case "parallel":
+      return "all";
+    case "hierarchical":
+      return "synthesizer";
+    default:
+      return "any";
+  }
+}
+
 export class SkillLoader {
   private skillsPath: string;
   private cache: Map<string, SkillDefinition> = new Map();
@@ -37,7 +55,7 @@ export class SkillLoader {
     }
 
     const content = fs.readFileSync(skillPath, "utf-8");
-    const skill = this.parse(position.name, content);
+    const skill = this.parse(position, content);
 
     this.cache.set(cacheKey, skill);
     return skill;
@@ -46,7 +64,8 @@ export class SkillLoader {
   /**
    * Parse SKILL.md content into structured definition
    */
-  private parse(positionName: string, content: string): SkillDefinition {
+  private parse(position: Position, content: string): SkillDefinition {
+    const positionName = position.name;
     const sections = this.splitSections(content);
 
     const title = this.extractTitle(content);
@@ -56,6 +75,7 @@ export class SkillLoader {
     const communicationProtocol = this.extractCommunicationProtocol(sections);
     const toolsUsed = this.extractToolsUsed(sections);
     const philosophy = this.extractPhilosophy(sections);
+    const orchestration = this.extractOrchestration(sections, position, agents.length);
 
     return {
       position: positionName,
@@ -66,6 +86,7 @@ export class SkillLoader {
       communicationProtocol,
       toolsUsed,
       philosophy,
+      orchestration,
       rawContent: content,
     };
   }
@@ -744,6 +765,86 @@ export class SkillLoader {
     return firstLine?.trim() || "";
   }
 
+  /**
+   * Extract turn-taking strategy from the Orchestration section:
+   *
+   *   - **Strategy**: hierarchical
+   *   - **Max Turns**: 25
+   *   - **Synthesizer**: Apex
+   *   - **Order**: Agent A, Agent B
+   *   - **Completion**: synthesizer
+   *
+   * Positions without the section get a default based on their category.
+   */
+  private extractOrchestration(
+    sections: Map<string, string>,
+    position: Position,
+    agentCount: number
+  ): OrchestrationSpec {
+    const spec = this.defaultOrchestration(position, agentCount);
+    const section = sections.get("orchestration") || "";
+    let completion: CompletionPolicy | undefined;
+
+    const lineRegex = /^\s*[-*]\s*(?:\*\*)?([A-Za-z ]+?)(?:\*\*)?\s*:\s*(?:\*\*)?\s*(.+?)\s*$/gm;
+    let match;
+    while ((match = lineRegex.exec(section)) !== null) {
+      const key = match[1].trim().toLowerCase();
+      const value = match[2].replace(/`/g, "").trim();
+
+      switch (key) {
+        case "strategy":
+          spec.strategy = value.toLowerCase();
+          break;
+        case "max turns": {
+          const maxTurns = parseInt(value, 10);
+          if (maxTurns > 0) spec.maxTurns = maxTurns;
+          break;
+        }
+        case "synthesizer":
+          spec.synthesizer = value;
+          break;
+        case "order":
+          spec.order = value.split(",").map((name) => name.trim()).filter((name) => name.length > 0);
+          break;
+        case "completion": {
+          const policy = value.toLowerCase();
+          if (COMPLETION_POLICIES.includes(policy as CompletionPolicy)) {
+            completion = policy as CompletionPolicy;
+          }
+          break;
+        }
+      }
+    }
+
+    return { ...spec, completion: completion ?? defaultCompletion(spec.strategy) };
+  }
+
+  /**
+   * Default strategy per category (matches the pre-declarative behaviour)
+   */
+  private defaultOrchestration(
+    position: Position,
+    agentCount: number
+  ): Omit<OrchestrationSpec, "completion"> {
+    switch (position.category) {
+      case "solo":
+      case "healing":
+        return { strategy: "sequential", maxTurns: 20 };
+      case "duet":
+        return { strategy: "parallel", maxTurns: 15 };
+      case "group":
+        return { strategy: "round-robin", maxTurns: 20 };
+      case "crypto":
+        return position.agents <= 2
+          ? { strategy: "parallel", maxTurns: 15 }
+          : { strategy: "round-robin", maxTurns: 20 };
+      default:
+        if (agentCount <= 1) return { strategy: "sequential", maxTurns: 20 };
+        if (agentCount === 2) return { strategy: "parallel", maxTurns: 15 };
+        return { strategy: "round-robin", maxTurns: 20 };
+    }
+  }
+
   /**
    * Clear the cache (useful for development)
    */
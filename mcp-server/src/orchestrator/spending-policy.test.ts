@@ -0,0 +1,106 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { Address } from "@ton/core";
+
+import { checkSpendingPolicy, validateSpendingPolicy, extractTransfers } from "./spending-policy.js";
+import { SpendRecord } from "./types.js";
+
+const TREASURY = new Address(0, Buffer.alloc(32, 1));
+const STRANGER = new Address(0, Buffer.alloc(32, 2));
+
+function spent(amount: string, secondsAgo = 0): SpendRecord {
+  return {
+    approvalId: `approval-${amount}-${secondsAgo}`,
+    agentId: "agent-a",
+    to: TREASURY.toString(),
+    amount,
+    at: new Date(Date.now() - secondsAgo * 1000).toISOString(),
+    status: "spent",
+  };
+}
+
+describe("Spending Policy", () => {
+  it("should allow anything without a policy", () => {
+    assert.strictEqual(checkSpendingPolicy(undefined, [], { to: "EQ...", amount: "1000" }), null);
+  });
+
+  it("should enforce the per-transaction limit", () => {
+    const violation = checkSpendingPolicy({ maxPerTransaction: "5" }, [], { to: TREASURY.toString(), amount: "5.01" });
+    assert.strictEqual(violation?.rule, "max_per_transaction");
+    assert.strictEqual(violation.error, "policy_violation");
+  });
+
+  it("should count reserved and spent amounts against the session limit", () => {
+    const ledger = [spent("4"), { ...spent("3"), status: "reserved" as const }];
+    const policy = { maxPerSession: "10" };
+
+    assert.strictEqual(checkSpendingPolicy(policy, ledger, { to: TREASURY.toString(), amount: "3" }), null);
+    assert.strictEqual(checkSpendingPolicy(policy, ledger, { to: TREASURY.toString(), amount: "3.5" })?.rule, "max_per_session");
+  });
+
+  it("should match recipients across address formats", () => {
+    const policy = { allowRecipients: [TREASURY.toRawString()] };
+    const friendly = TREASURY.toString({ bounceable: false });
+
+    assert.strictEqual(checkSpendingPolicy(policy, [], { to: friendly, amount: "1" }), null);
+    assert.strictEqual(
+      checkSpendingPolicy(policy, [], { to: STRANGER.toString(), amount: "1" })?.rule,
+      "recipient_not_allowed"
+    );
+    assert.strictEqual(
+      checkSpendingPolicy({ denyRecipients: [STRANGER.toString()] }, [], { to: STRANGER.toRawString(), amount: "1" })?.rule,
+      "recipient_denied"
+    );
+  });
+
+  it("should rate limit within the window only", () => {
+    const policy = { rateLimit: { maxTransactions: 2, windowSeconds: 60 } };
+    const transfer = { to: TREASURY.toString(), amount: "1" };
+
+    assert.strictEqual(checkSpendingPolicy(policy, [spent("1", 10), spent("1", 120)], transfer), null);
+    assert.strictEqual(checkSpendingPolicy(policy, [spent("1", 10), spent("1", 20)], transfer)?.rule, "rate_limit");
+  });
+
+  it("should reject non-positive or malformed amounts", () => {
+    assert.strictEqual(checkSpendingPolicy({}, [], { to: TREASURY.toString(), amount: "-1" })?.rule, "invalid_transfer");
+    assert.strictEqual(checkSpendingPolicy({}, [], { to: TREASURY.toString(), amount: "lots" })?.rule, "invalid_transfer");
+  });
+
+  it("should validate policies up front", () => {
+    assert.throws(() => validateSpendingPolicy({ maxPerSession: "ten" }), /maxPerSession/);
+    assert.throws(() => validateSpendingPolicy({ rateLimit: { maxTransactions: 1, windowSeconds: 0 } }), /rateLimit/);
+    assert.doesNotThrow(() => validateSpendingPolicy({ maxPerTransaction: "0.5", denyRecipients: [] }));
+  });
+
+  it("should only treat TON transfers as spending", () => {
+    assert.deepStrictEqual(extractTransfers("ton_wallet_send", { to: "EQ...", amount: "1" }), [{ to: "EQ...", amount: "1" }]);
+    assert.strictEqual(extractTransfers("ton_wallet_balance", { address: "EQ..." }), undefined);
+  });
+
+  it("should count the TON a jetton transfer attaches", () => {
+    const transfers = extractTransfers("ton_jetton_transfer", { to: "EQ...", amount: "1000", forwardTonAmount: "0.2" });
+    assert.deepStrictEqual(transfers, [{ to: "EQ...", amount: "0.25" }]);
+    assert.strictEqual(extractTransfers("ton_jetton_transfer", { to: "EQ...", amount: "1000" })?.[0].amount, "0.06");
+    assert.strictEqual(checkSpendingPolicy({ maxPerTransaction: "0.1" }, [], transfers!)?.rule, "max_per_transaction");
+  });
+
+  it("should check every message of a batch and count the batch once", () => {
+    const transfers = extractTransfers("ton_wallet_send_batch", {
+      messages: [{ to: TREASURY.toString(), amount: "1" }, { to: STRANGER.toString(), amount: "2" }],
+    })!;
+    assert.strictEqual(transfers.length, 2);
+    assert.deepStrictEqual(extractTransfers("ton_wallet_send_batch", { messages: [] }), []);
+
+    const denied = checkSpendingPolicy({ denyRecipients: [STRANGER.toString()] }, [], transfers);
+    assert.strictEqual(denied?.rule, "recipient_denied");
+    assert.ok(denied?.message.startsWith("Message 2:"));
+    assert.strictEqual(checkSpendingPolicy({ maxPerTransaction: "2" }, [], transfers), null, "Limit applies per message");
+    assert.strictEqual(checkSpendingPolicy({ maxPerSession: "2.5" }, [], transfers)?.rule, "max_per_session");
+
+    // Two records of one approval are one transaction
+    const batch = [spent("1", 10), spent("2", 10)].map((record) => ({ ...record, approvalId: "approval-batch" }));
+    const policy = { rateLimit: { maxTransactions: 2, windowSeconds: 60 } };
+    assert.strictEqual(checkSpendingPolicy(policy, batch, transfers), null);
+    assert.strictEqual(checkSpendingPolicy(policy, [...batch, spent("1", 5)], transfers)?.rule, "rate_limit");
+  });
+});
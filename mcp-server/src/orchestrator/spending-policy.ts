@@ -0,0 +1,234 @@
+/**
+ * Spending Policy - Per-session Limits on Agent Transactions
+ *
+ * Checked by the orchestrator before a gated transfer is queued for
+ * approval. Approved amounts are reserved against the session ledger so
+ * concurrent agents cannot jointly overshoot the session limit.
+ */
+
+import { Address, toNano, fromNano } from "@ton/core";
+import { SpendingPolicy, SpendRecord } from "./types.js";
+import { jettonTransferValue, parseJettonAmount, parseJettonDecimals } from "../ton/jetton.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PolicyRule =
+  | "invalid_transfer"
+  | "max_per_transaction"
+  | "max_per_session"
+  | "recipient_denied"
+  | "recipient_not_allowed"
+  | "rate_limit";
+
+export interface PolicyViolation {
+  error: "policy_violation";
+  rule: PolicyRule;
+  message: string;
+  limit?: string | number;
+  attempted?: string | number;
+}
+
+export interface Transfer {
+  to: string;
+  amount: string; // TON
+}
+
+// Tools that move TON, and how to read the transfer from their input.
+// Jetton transfers count the TON they attach; their recipient is the new
+// jetton owner. Batches are one transfer per message.
+const TRANSFER_EXTRACTORS: Record<string, (input: Record<string, unknown>) => Transfer | Transfer[]> = {
+  ton_wallet_send: (input) => ({
+    to: String(input.to ?? ""),
+    amount: String(input.amount ?? ""),
+  }),
+  ton_wallet_send_batch: (input) =>
+    (Array.isArray(input.messages) ? input.messages : []).map((message: Record<string, unknown>) => ({
+      to: String(message?.to ?? ""),
+      amount: String(message?.amount ?? ""),
+    })),
+  ton_jetton_transfer: (input) => ({
+    to: String(input.to ?? ""),
+    amount: attachedTon(input.forwardTonAmount),
+  }),
+};
+
+function attachedTon(forwardTonAmount: unknown): string {
+  try {
+    return jettonTransferValue(forwardTonAmount === undefined ? undefined : String(forwardTonAmount));
+  } catch {
+    return String(forwardTonAmount);
+  }
+}
+
+/**
+ * Every TON transfer a tool call would make (one per message of a
+ * batch), if it is a spending tool
+ */
+export function extractTransfers(toolName: string, input: Record<string, unknown>): Transfer[] | undefined {
+  const transfer = TRANSFER_EXTRACTORS[toolName]?.(input);
+  return transfer === undefined ? undefined : [transfer].flat();
+}
+
+/**
+ * Base units of a jetton transfer, so approvers see exactly what would
+ * move; throws when its amount or decimals are missing or malformed
+ */
+export function jettonTransferUnits(input: Record<string, unknown>): { decimals: number; amountUnits: string } {
+  const decimals = parseJettonDecimals(input.decimals);
+  return { decimals, amountUnits: parseJettonAmount(String(input.amount ?? ""), decimals).toString() };
+}
+
+/**
+ * One line's worth of a transfer for events: a batch shows as its
+ * recipient count and total
+ */
+export function summarizeTransfers(transfers: Transfer[]): Transfer {
+  if (transfers.length === 1) return transfers[0];
+  let amount: string;
+  try {
+    amount = fromNano(transfers.reduce((sum, transfer) => sum + toNano(transfer.amount), 0n));
+  } catch {
+    amount = "?";
+  }
+  return { to: `${transfers.length} recipients`, amount };
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Reject malformed policies up front (throws)
+ */
+export function validateSpendingPolicy(policy: SpendingPolicy): void {
+  for (const key of ["maxPerTransaction", "maxPerSession"] as const) {
+    const value = policy[key];
+    if (value === undefined) continue;
+    try {
+      if (toNano(value) < 0n) throw new Error();
+    } catch {
+      throw new Error(`Invalid spending policy: ${key} must be a non-negative TON amount, got "${value}"`);
+    }
+  }
+
+  for (const key of ["allowRecipients", "denyRecipients"] as const) {
+    const value = policy[key];
+    if (value !== undefined && !Array.isArray(value)) {
+      throw new Error(`Invalid spending policy: ${key} must be an array of addresses`);
+    }
+  }
+
+  if (policy.rateLimit) {
+    const { maxTransactions, windowSeconds } = policy.rateLimit;
+    if (!(maxTransactions >= 0) || !(windowSeconds > 0)) {
+      throw new Error("Invalid spending policy: rateLimit needs maxTransactions >= 0 and windowSeconds > 0");
+    }
+  }
+}
+
+/**
+ * Check a transfer, or the messages of a batch, against the policy.
+ * Limits apply to each message; the session limit to their sum, and a
+ * batch counts once towards the rate limit. Returns the first violation,
+ * or null if the transfer is allowed.
+ */
+export function checkSpendingPolicy(
+  policy: SpendingPolicy | undefined,
+  ledger: SpendRecord[],
+  transfer: Transfer | Transfer[],
+  now: Date = new Date()
+): PolicyViolation | null {
+  if (!policy) return null;
+
+  const transfers = Array.isArray(transfer) ? transfer : [transfer];
+  if (transfers.length === 0) {
+    return violation("invalid_transfer", "No transfers to check");
+  }
+  // Violations name the message of a batch
+  const label = (index: number) => (transfers.length > 1 ? `Message ${index + 1}: ` : "");
+
+  let amountNano = 0n;
+  for (const [index, item] of transfers.entries()) {
+    let itemNano: bigint;
+    try {
+      itemNano = toNano(item.amount);
+    } catch {
+      return violation("invalid_transfer", `${label(index)}Invalid amount: ${item.amount}`);
+    }
+    if (itemNano <= 0n) {
+      return violation("invalid_transfer", `${label(index)}Amount must be positive: ${item.amount}`);
+    }
+
+    if (policy.maxPerTransaction !== undefined && itemNano > toNano(policy.maxPerTransaction)) {
+      return violation(
+        "max_per_transaction",
+        `${label(index)}Transfer of ${item.amount} TON exceeds the per-transaction limit of ${policy.maxPerTransaction} TON`,
+        policy.maxPerTransaction,
+        item.amount
+      );
+    }
+    amountNano += itemNano;
+  }
+
+  if (policy.maxPerSession !== undefined) {
+    const committed = ledger.reduce((sum, record) => sum + toNano(record.amount), 0n);
+    if (committed + amountNano > toNano(policy.maxPerSession)) {
+      return violation(
+        "max_per_session",
+        `Transfer would bring session spending to ${fromNano(committed + amountNano)} TON, above the limit of ${policy.maxPerSession} TON`,
+        policy.maxPerSession,
+        fromNano(committed + amountNano)
+      );
+    }
+  }
+
+  for (const [index, item] of transfers.entries()) {
+    if (policy.denyRecipients?.some((address) => sameAddress(address, item.to))) {
+      return violation("recipient_denied", `${label(index)}Recipient ${item.to} is on the session denylist`);
+    }
+
+    if (policy.allowRecipients && !policy.allowRecipients.some((address) => sameAddress(address, item.to))) {
+      return violation("recipient_not_allowed", `${label(index)}Recipient ${item.to} is not on the session allowlist`);
+    }
+  }
+
+  if (policy.rateLimit) {
+    const windowStart = now.getTime() - policy.rateLimit.windowSeconds * 1000;
+    // Records of one approval (a batch) are one transaction
+    const recent = new Set(
+      ledger.filter((record) => new Date(record.at).getTime() > windowStart).map((record) => record.approvalId)
+    ).size;
+    if (recent >= policy.rateLimit.maxTransactions) {
+      return violation(
+        "rate_limit",
+        `Rate limit reached: ${policy.rateLimit.maxTransactions} transactions per ${policy.rateLimit.windowSeconds}s`,
+        policy.rateLimit.maxTransactions,
+        recent + 1
+      );
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Compare addresses across raw/bounceable/non-bounceable forms
+ */
+function sameAddress(a: string, b: string): boolean {
+  try {
+    return Address.parse(a).equals(Address.parse(b));
+  } catch {
+    return a === b;
+  }
+}
+
+function violation(
+  rule: PolicyRule,
+  message: string,
+  limit?: string | number,
+  attempted?: string | number
+): PolicyViolation {
+  return { error: "policy_violation", rule, message, limit, attempted };
+}
@@ -0,0 +1,251 @@
+/**
+ * Orchestration Strategies
+ *
+ * Turn-taking patterns selected by a position's `## Orchestration`
+ * section. Each strategy drives the agents of one session until the
+ * session completes or the turn budget runs out; the orchestrator
+ * supplies turn execution, prompts and gallery output via the context.
+ */
+
+import { Session, Agent, OrchestrationSpec, TurnStrategy, ToolCall } from "./types.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TurnOutcome {
+  response: string;
+  toolCalls: ToolCall[];
+  tokensUsed: number;
+  skipped?: boolean; // the session halted before the turn could run
+}
+
+/**
+ * Session-bound operations a strategy may use
+ */
+export interface StrategyContext {
+  session: Session;
+  spec: OrchestrationSpec;
+  executeTurn(agent: Agent, input: string): Promise<TurnOutcome>;
+  initializeAgents(agents: Agent[]): Promise<void>;
+  buildInitialPrompt(agent: Agent): string;
+  buildContinuationPrompt(agent: Agent): string;
+  buildTurnPrompt(agent: Agent): string;
+  hasPendingMessages(agent: Agent): boolean;
+  isSessionComplete(): boolean; // completion policy satisfied
+  emitTurn(agent: Agent, result: TurnOutcome, data?: Record<string, unknown>): void;
+  advanceTurn(): void;
+}
+
+export type OrchestrationStrategy = (context: StrategyContext) => Promise<void>;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isRunning(context: StrategyContext): boolean {
+  return context.session.status === "running" && context.session.turn < context.spec.maxTurns;
+}
+
+/**
+ * Agents in the declared order; agents not named keep their spawn order
+ */
+export function orderAgents(session: Session, order?: string[]): Agent[] {
+  const agents = Array.from(session.agents.values());
+  if (!order || order.length === 0) return agents;
+
+  const ordered: Agent[] = [];
+  for (const name of order) {
+    const match = agents.find(
+      (agent) => !ordered.includes(agent) && agent.role.name.toLowerCase() === name.toLowerCase()
+    );
+    if (match) ordered.push(match);
+  }
+  return [...ordered, ...agents.filter((agent) => !ordered.includes(agent))];
+}
+
+/**
+ * The synthesizing agent (defaults to the first agent)
+ */
+export function findSynthesizer(agents: Agent[], synthesizer?: string): Agent | undefined {
+  if (synthesizer) {
+    const match = agents.find((agent) => agent.role.name.toLowerCase() === synthesizer.toLowerCase());
+    if (match) return match;
+  }
+  return agents[0];
+}
+
+// ============================================================================
+// Built-in Strategies
+// ============================================================================
+
+/**
+ * One agent acts at a time. Control is handed to the next agent (in
+ * order) that has messages waiting; otherwise the active agent continues.
+ * A single-agent position is the degenerate case.
+ */
+const sequential: OrchestrationStrategy = async (context) => {
+  const agents = orderAgents(context.session, context.spec.order);
+  if (agents.length === 0) return;
+
+  // On resume, pick up with whoever has a handoff waiting
+  let active = agents.findIndex((agent) => context.hasPendingMessages(agent));
+  if (active < 0) active = 0;
+
+  while (isRunning(context)) {
+    const agent = agents[active];
+    let input: string;
+    if (agent.turnsCompleted === 0) {
+      input = context.buildInitialPrompt(agent);
+      if (context.hasPendingMessages(agent)) {
+        input += `\n\n${context.buildContinuationPrompt(agent)}`;
+      }
+    } else {
+      input = context.buildContinuationPrompt(agent);
+    }
+
+    const result = await context.executeTurn(agent, input);
+    context.emitTurn(agent, result);
+
+    if (context.isSessionComplete()) {
+      break;
+    }
+
+    for (let offset = 1; offset < agents.length; offset++) {
+      const next = (active + offset) % agents.length;
+      if (context.hasPendingMessages(agents[next])) {
+        active = next;
+        break;
+      }
+    }
+
+    context.advanceTurn();
+  }
+};
+
+/**
+ * Every agent acts each round, concurrently.
+ */
+const parallel: OrchestrationStrategy = async (context) => {
+  const agents = orderAgents(context.session, context.spec.order);
+  if (agents.length === 0) return;
+
+  await context.initializeAgents(agents);
+
+  while (isRunning(context)) {
+    const results = await Promise.all(
+      agents.map((agent) => context.executeTurn(agent, context.buildTurnPrompt(agent)))
+    );
+
+    agents.forEach((agent, i) => context.emitTurn(agent, results[i]));
+
+    if (context.isSessionComplete()) {
+      break;
+    }
+
+    context.advanceTurn();
+  }
+};
+
+/**
+ * Agents act one after another in a fixed order each round.
+ */
+const roundRobin: OrchestrationStrategy = async (context) => {
+  const agents = orderAgents(context.session, context.spec.order);
+  if (agents.length === 0) return;
+
+  await context.initializeAgents(agents);
+
+  while (isRunning(context)) {
+    let complete = false;
+
+    for (const agent of agents) {
+      if (context.session.status !== "running") break;
+
+      const result = await context.executeTurn(agent, context.buildTurnPrompt(agent));
+      context.emitTurn(agent, result);
+
+      if (context.isSessionComplete()) {
+        complete = true;
+        break;
+      }
+    }
+
+    if (complete) break;
+    context.advanceTurn();
+  }
+};
+
+/**
+ * The synthesizer decomposes the task, workers act in parallel, then the
+ * synthesizer integrates their output.
+ */
+const hierarchical: OrchestrationStrategy = async (context) => {
+  const agents = orderAgents(context.session, context.spec.order);
+  const synthesizer = findSynthesizer(agents, context.spec.synthesizer);
+  if (!synthesizer) return;
+  const workers = agents.filter((agent) => agent !== synthesizer);
+
+  if (synthesizer.turnsCompleted === 0) {
+    const result = await context.executeTurn(synthesizer, context.buildInitialPrompt(synthesizer));
+    context.emitTurn(synthesizer, result, { phase: "decomposition" });
+  }
+
+  await context.initializeAgents(workers);
+
+  while (isRunning(context)) {
+    const results = await Promise.all(
+      workers.map((worker) => context.executeTurn(worker, context.buildTurnPrompt(worker)))
+    );
+    workers.forEach((worker, i) => context.emitTurn(worker, results[i]));
+
+    const synthesis = await context.executeTurn(synthesizer, context.buildTurnPrompt(synthesizer));
+    context.emitTurn(synthesizer, synthesis, { phase: "synthesis" });
+
+    if (context.isSessionComplete()) {
+      break;
+    }
+
+    context.advanceTurn();
+  }
+};
+
+/**
+ * Only agents with messages waiting act each round. When nobody has
+ * mail, the synthesizer (or every agent, if none is declared) is nudged.
+ */
+const eventDriven: OrchestrationStrategy = async (context) => {
+  const agents = orderAgents(context.session, context.spec.order);
+  if (agents.length === 0) return;
+
+  await context.initializeAgents(agents);
+
+  while (isRunning(context)) {
+    let ready = agents.filter((agent) => context.hasPendingMessages(agent));
+    if (ready.length === 0) {
+      const synthesizer = context.spec.synthesizer
+        ? findSynthesizer(agents, context.spec.synthesizer)
+        : undefined;
+      ready = synthesizer ? [synthesizer] : agents;
+    }
+
+    const results = await Promise.all(
+      ready.map((agent) => context.executeTurn(agent, context.buildTurnPrompt(agent)))
+    );
+    ready.forEach((agent, i) => context.emitTurn(agent, results[i]));
+
+    if (context.isSessionComplete()) {
+      break;
+    }
+
+    context.advanceTurn();
+  }
+};
+
+export const BUILTIN_STRATEGIES: Record<TurnStrategy, OrchestrationStrategy> = {
+  sequential,
+  parallel,
+  "round-robin": roundRobin,
+  hierarchical,
+  "event-driven": eventDriven,
+};
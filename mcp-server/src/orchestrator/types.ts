@@ -4,6 +4,8 @@
  * Core types for multi-agent collaboration orchestration.
  */
 
+import type { Network } from "../ton/wallet-registry.js";
+
 // ============================================================================
 // Position & Category Types
 // ============================================================================
@@ -40,6 +42,25 @@ export interface CommunicationProtocol {
   description: string;
 }
 
+// Built-in turn-taking strategies (custom ones can be registered by name)
+export type TurnStrategy =
+  | "sequential"
+  | "parallel"
+  | "round-robin"
+  | "hierarchical"
+  | "event-driven";
+
+// Whose session_complete reports end the session
+export type CompletionPolicy = "any" | "all" | "synthesizer";
+
+export interface OrchestrationSpec {
+  strategy: TurnStrategy | string;
+  maxTurns: number;
+  completion: CompletionPolicy;
+  synthesizer?: string; // role name that directs/synthesizes (hierarchical)
+  order?: string[]; // role names in turn order
+}
+
 export interface SkillDefinition {
   position: string;
   title: string;
@@ -49,6 +70,7 @@ export interface SkillDefinition {
   communicationProtocol: CommunicationProtocol[];
   toolsUsed: string[];
   philosophy: string;
+  orchestration: OrchestrationSpec;
   rawContent: string;
 }
 
@@ -64,14 +86,49 @@ export type SessionStatus =
   | "completed"
   | "error"
   | "timeout"
-  | "stopped";
+  | "stopped"
+  | "budget_exceeded";
 
 export interface SessionConfig {
   target?: string;
-  network?: "mainnet" | "testnet";
+  network?: Network;
   duration?: number;
   allowTransactions?: boolean;
-  maxTokensPerAgent?: number;
+  maxTokensPerAgent?: number; // defaults to OrchestratorConfig.maxTokensPerAgent
+  maxTokensPerSession?: number;
+  maxCostPerSession?: number; // USD, priced per model
+  spendingPolicy?: SpendingPolicy;
+  wallets?: SessionWallets;
+}
+
+// Wallet handles (from ton_wallet_connect) agents of the session sign with
+export interface SessionWallets {
+  session?: string; // walletId for every agent
+  agents?: Record<string, string>; // role name -> walletId
+}
+
+// Limits on agent transfers (amounts in TON, as decimal strings)
+export interface SpendingPolicy {
+  maxPerTransaction?: string;
+  maxPerSession?: string;
+  allowRecipients?: string[]; // if set, only these recipients
+  denyRecipients?: string[];
+  rateLimit?: {
+    maxTransactions: number;
+    windowSeconds: number;
+  };
+}
+
+// Transfer counted against a session's spending policy
+export interface SpendRecord {
+  approvalId: string;
+  agentId: string;
+  to: string;
+  amount: string; // TON
+  at: string; // ISO timestamp
+  // reserved while awaiting approval, executing once handed to the wallet
+  // (and for good if a restart interrupted the send), spent once sent
+  status: "reserved" | "executing" | "spent";
 }
 
 export interface Session {
@@ -80,17 +137,33 @@ export interface Session {
   skill: SkillDefinition;
   config: SessionConfig;
   status: SessionStatus;
+  turn: number; // orchestration rounds completed (used to resume)
   agents: Map<string, Agent>;
   startedAt: Date;
   completedAt?: Date;
   error?: string;
+  completionReports: Map<string, CompletionReport>; // agentId -> latest report
+  spendingLedger: SpendRecord[];
   result?: SessionResult;
 }
 
+// Final report submitted by an agent through the session_complete tool
+export interface CompletionReport {
+  agentId: string;
+  role: string;
+  summary: string;
+  findings: string[];
+  confidence?: number; // 0-1
+  discrepancies: string[];
+  submittedAt: string; // ISO timestamp
+}
+
 export interface SessionResult {
   success: boolean;
   summary: string;
   agentOutputs: Map<string, unknown>;
+  findings?: string[];
+  confidence?: number;
   consensusReached?: boolean;
   discrepancies?: string[];
 }
@@ -105,6 +178,7 @@ export type AgentStatus =
   | "thinking"
   | "executing_tool"
   | "waiting_for_message"
+  | "awaiting_approval"
   | "completed"
   | "error";
 
@@ -117,6 +191,7 @@ export interface Agent {
   conversationHistory: ConversationMessage[];
   pendingMessages: AgentMessage[];
   tokensUsed: number;
+  costUsd: number;
   turnsCompleted: number;
   createdAt: Date;
   lastActivityAt: Date;
@@ -146,6 +221,15 @@ export interface ToolResult {
   isError: boolean;
 }
 
+// Passed to MCP tool handlers when an agent makes the call
+export interface ToolCallContext {
+  sessionId: string;
+  agentId: string;
+  role: string;
+  walletId?: string; // wallet bound to the agent through the session config
+  network?: Network; // the session's network, which ton_* tools stay on
+}
+
 // ============================================================================
 // Inter-Agent Messaging
 // ============================================================================
@@ -180,21 +264,8 @@ export interface AgentMessage {
 // Gallery Events
 // ============================================================================
 
-export type GalleryEventType =
-  | "agent_message"
-  | "agent_action"
-  | "blockchain_tx"
-  | "position_update"
-  | "system";
-
-export interface GalleryEvent {
-  id: string;
-  timestamp: Date;
-  type: GalleryEventType;
-  sessionId: string;
-  agentId?: string;
-  data: Record<string, unknown>;
-}
+// One schema shared with the gallery servers and the dapp
+export type { GalleryEvent, GalleryEventType, NewGalleryEvent } from "@clawmasutra/gallery-core";
 
 // ============================================================================
 // Configuration
@@ -202,23 +273,39 @@ export interface GalleryEvent {
 
 export interface OrchestratorConfig {
   anthropicApiKey: string;
+  llmProvider: "anthropic" | "scripted";
+  llmScriptPath: string; // fixture file for the scripted provider
   model: string;
   maxTokensPerTurn: number;
+  maxToolRoundsPerTurn: number; // model calls one turn may make while it keeps using tools
   agentTimeoutMs: number;
   sessionMaxAgents: number;
   sessionMaxMessages: number;
-  galleryServerUrl: string;
+  galleryServerUrl: string; // remote gallery server events are forwarded to (empty = served by this process)
   skillsPath: string;
+  sessionStorePath: string; // empty = in-memory only
+  approvalTimeoutMs: number; // gated calls not decided in time are rejected (0 = wait forever)
+  maxTokensPerAgent: number; // default per-agent budget (0 = unlimited)
+  dailyTokenLimit: number; // across all sessions per UTC day (0 = unlimited)
+  dailyCostLimitUsd: number; // across all sessions per UTC day (0 = unlimited)
 }
 
 export const DEFAULT_CONFIG: Omit<OrchestratorConfig, "anthropicApiKey"> = {
+  llmProvider: process.env.AGENT_PROVIDER === "scripted" ? "scripted" : "anthropic",
+  llmScriptPath: process.env.AGENT_SCRIPT_PATH || "",
   model: "claude-sonnet-4-20250514",
   maxTokensPerTurn: 4096,
+  maxToolRoundsPerTurn: parseInt(process.env.AGENT_MAX_TOOL_ROUNDS || "20"),
   agentTimeoutMs: 300000, // 5 minutes
   sessionMaxAgents: 10,
   sessionMaxMessages: 1000,
-  galleryServerUrl: process.env.GALLERY_WS_URL || "http://localhost:3001",
+  galleryServerUrl: process.env.GALLERY_WS_URL || "",
   skillsPath: process.env.CLAWMASUTRA_SKILLS_PATH || "../skills",
+  sessionStorePath: process.env.CLAWMASUTRA_SESSION_STORE ?? ".clawmasutra/sessions",
+  approvalTimeoutMs: parseInt(process.env.APPROVAL_TIMEOUT_MS || "900000"), // 15 minutes
+  maxTokensPerAgent: parseInt(process.env.AGENT_MAX_TOKENS_PER_AGENT || "50000"),
+  dailyTokenLimit: parseInt(process.env.DAILY_TOKEN_LIMIT || "0"),
+  dailyCostLimitUsd: parseFloat(process.env.DAILY_COST_LIMIT_USD || "0"),
 };
 
 // ============================================================================
@@ -249,19 +336,31 @@ export const AGENT_AVAILABLE_TOOLS: string[] = [
   // Gallery events
   "gallery_emit",
 
+  // Structured completion
+  "session_complete",
+
   // Blockchain read operations
   "ton_wallet_balance",
   "ton_wallet_transactions",
+  "ton_wallet_tx_status",
   "ton_contract_get_info",
   "ton_contract_call_getter",
   "ton_contract_get_state",
   "ton_contract_jetton_info",
   "ton_contract_nft_info",
+  "ton_jetton_wallet_address",
+  "ton_jetton_balance",
 
   // Blockchain write operations (gated)
   // "ton_wallet_send", // Only if config.allowTransactions = true
+  // "ton_wallet_send_batch",
+  // "ton_jetton_transfer",
 ];
 
+// Offered only when config.allowTransactions = true, and every call is
+// held for human approval before it executes
 export const GATED_TOOLS: string[] = [
   "ton_wallet_send",
+  "ton_wallet_send_batch",
+  "ton_jetton_transfer",
 ];
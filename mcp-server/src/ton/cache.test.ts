@@ -0,0 +1,80 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { Address, Cell, TupleReader } from "@ton/core";
+
+import { CachedClient, DEFAULT_CACHE_TTLS, ReadCache } from "./cache.js";
+import type { TonApi } from "./client.js";
+
+const ADDRESS = new Address(0, Buffer.alloc(32, 1));
+const OTHER = new Address(0, Buffer.alloc(32, 2));
+
+function fakeApi() {
+  const calls: string[] = [];
+  const api = {
+    getBalance: async (address: Address) => {
+      calls.push(`balance:${address.hash[0]}`);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return BigInt(calls.length);
+    },
+    runMethod: async (_address: Address, name: string) => {
+      calls.push(`get:${name}`);
+      return { gas_used: 100, stack: new TupleReader([{ type: "int", value: 42n }]) };
+    },
+    provider: () => ({ external: async () => {} }),
+  } as unknown as TonApi;
+  return { api, calls };
+}
+
+describe("Read Cache", () => {
+  it("should share one call between concurrent and repeated reads", async () => {
+    const { api, calls } = fakeApi();
+    const client = new CachedClient(api);
+
+    const balances = await Promise.all([client.getBalance(ADDRESS), client.getBalance(ADDRESS)]);
+    assert.deepStrictEqual(balances, [1n, 1n]);
+    assert.strictEqual(await client.getBalance(ADDRESS), 1n);
+    assert.strictEqual(await client.getBalance(OTHER), 2n, "Keyed by address");
+    assert.strictEqual(calls.length, 2);
+
+    const stats = client.cache.stats();
+    assert.deepStrictEqual(stats.byMethod.getBalance, { hits: 1, misses: 2, deduplicated: 1 });
+    assert.strictEqual(stats.entries, 2);
+    assert.strictEqual(stats.hitRate, 0.5);
+  });
+
+  it("should expire entries after the method's TTL", async () => {
+    const { api, calls } = fakeApi();
+    const client = new CachedClient(api, new ReadCache({ ...DEFAULT_CACHE_TTLS, getBalance: 20, runMethod: 0 }));
+
+    await client.getBalance(ADDRESS);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    await client.getBalance(ADDRESS);
+    await client.runMethod(ADDRESS, "seqno");
+    await client.runMethod(ADDRESS, "seqno");
+    assert.deepStrictEqual(calls, ["balance:1", "balance:1", "get:seqno", "get:seqno"]);
+  });
+
+  it("should give every caller a fresh reader over a cached getter result", async () => {
+    const { api, calls } = fakeApi();
+    const client = new CachedClient(api);
+
+    const first = await client.runMethod(ADDRESS, "get_value", [{ type: "cell", cell: Cell.EMPTY }]);
+    const second = await client.runMethod(ADDRESS, "get_value", [{ type: "cell", cell: Cell.EMPTY }]);
+    assert.strictEqual(first.stack.readNumber(), 42);
+    assert.strictEqual(second.stack.readNumber(), 42);
+    await client.runMethod(ADDRESS, "get_value", [{ type: "int", value: 1n }]);
+    assert.strictEqual(calls.length, 2, "Arguments are part of the key");
+  });
+
+  it("should drop an account's entries after sending to it", async () => {
+    const { api, calls } = fakeApi();
+    const client = new CachedClient(api);
+
+    await client.getBalance(ADDRESS);
+    await client.getBalance(OTHER);
+    await client.provider(ADDRESS).external(Cell.EMPTY);
+    await client.getBalance(ADDRESS);
+    await client.getBalance(OTHER);
+    assert.deepStrictEqual(calls, ["balance:1", "balance:2", "balance:1"]);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Read Cache - Shared Blockchain Reads
+ *
+ * Sits in front of a network's RPC client, so agents of a session asking
+ * for the same balance, state, getter or history page within a few
+ * seconds share one RPC call and see the same answer. Entries live for a
+ * per-method TTL; identical calls in flight are joined rather than
+ * repeated. Sending an external message to an account drops its entries.
+ */
+
+import {
+  Address,
+  Cell,
+  Contract,
+  ContractProvider,
+  ContractState,
+  Sender,
+  StateInit,
+  Transaction,
+  TupleItem,
+  TupleReader,
+  openContract,
+  serializeTuple,
+} from "@ton/core";
+import type { TonApi } from "./client.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CachedMethod = "getBalance" | "getContractState" | "runMethod" | "getTransactions";
+
+export const CACHED_METHODS: CachedMethod[] = ["getBalance", "getContractState", "runMethod", "getTransactions"];
+
+// Milliseconds an answer is reused (0 = not cached)
+export type CacheTtls = Record<CachedMethod, number>;
+
+export const DEFAULT_CACHE_TTLS: CacheTtls = {
+  getBalance: 3_000,
+  getContractState: 5_000,
+  runMethod: 5_000,
+  getTransactions: 3_000,
+};
+
+// History pages below a known transaction never change
+const SETTLED_HISTORY_TTL = 60_000;
+
+const MAX_ENTRIES = 1000;
+
+export interface MethodStats {
+  hits: number;
+  misses: number;
+  deduplicated: number; // joined a call already in flight
+}
+
+export interface CacheStats extends MethodStats {
+  entries: number;
+  hitRate: number; // (hits + deduplicated) / all reads
+  byMethod: Record<CachedMethod, MethodStats>;
+}
+
+interface Entry {
+  address: string;
+  value: unknown;
+  expiresAt: number;
+}
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+export class ReadCache {
+  private entries: Map<string, Entry> = new Map();
+  private inFlight: Map<string, Promise<unknown>> = new Map();
+  private counters = Object.fromEntries(
+    CACHED_METHODS.map((method) => [method, { hits: 0, misses: 0, deduplicated: 0 }])
+  ) as Record<CachedMethod, MethodStats>;
+
+  constructor(
+    private ttls: CacheTtls = DEFAULT_CACHE_TTLS,
+    private maxEntries = MAX_ENTRIES
+  ) {}
+
+  /**
+   * Cached answer for a read of `address`, loading it on a miss
+   */
+  async read<T>(method: CachedMethod, address: Address, args: string, load: () => Promise<T>, ttl = this.ttls[method]): Promise<T> {
+    if (ttl <= 0) return load();
+
+    const owner = address.toRawString();
+    const key = `${method}:${owner}:${args}`;
+    const counters = this.counters[method];
+
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      counters.hits++;
+      return entry.value as T;
+    }
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      counters.deduplicated++;
+      return pending as Promise<T>;
+    }
+
+    counters.misses++;
+    const promise = load().then(
+      (value) => {
+        this.inFlight.delete(key);
+        this.store(key, { address: owner, value, expiresAt: Date.now() + ttl });
+        return value;
+      },
+      (error) => {
+        this.inFlight.delete(key);
+        throw error;
+      }
+    );
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  private store(key: string, entry: Entry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size <= this.maxEntries) return;
+
+    // Expired entries go first, then the oldest
+    const now = Date.now();
+    for (const [candidate, { expiresAt }] of this.entries) {
+      if (expiresAt <= now) this.entries.delete(candidate);
+    }
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  /**
+   * Drop everything cached about an account
+   */
+  invalidate(address: Address): void {
+    const owner = address.toRawString();
+    for (const [key, entry] of this.entries) {
+      if (entry.address === owner) this.entries.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  stats(): CacheStats {
+    const totals = { hits: 0, misses: 0, deduplicated: 0 };
+    for (const counters of Object.values(this.counters)) {
+      totals.hits += counters.hits;
+      totals.misses += counters.misses;
+      totals.deduplicated += counters.deduplicated;
+    }
+    const reads = totals.hits + totals.misses + totals.deduplicated;
+    return {
+      ...totals,
+      entries: this.entries.size,
+      hitRate: reads ? Math.round(((totals.hits + totals.deduplicated) / reads) * 1000) / 1000 : 0,
+      byMethod: structuredClone(this.counters),
+    };
+  }
+}
+
+// ============================================================================
+// Cached Client
+// ============================================================================
+
+/**
+ * A TonApi answering reads from a ReadCache. Seqno and other reads made
+ * through contract providers are never cached.
+ */
+export class CachedClient implements TonApi {
+  constructor(
+    private inner: TonApi,
+    readonly cache: ReadCache = new ReadCache()
+  ) {}
+
+  getBalance(address: Address): Promise<bigint> {
+    return this.cache.read("getBalance", address, "", () => this.inner.getBalance(address));
+  }
+
+  getContractState(address: Address): ReturnType<TonApi["getContractState"]> {
+    return this.cache.read("getContractState", address, "", () => this.inner.getContractState(address));
+  }
+
+  /**
+   * Each caller gets its own reader over the cached stack
+   */
+  async runMethod(address: Address, name: string, stack: TupleItem[] = []): Promise<{ gas_used: number; stack: TupleReader }> {
+    const args = `${name}:${serializeTuple(stack).hash().toString("hex")}`;
+    const result = await this.cache.read("runMethod", address, args, async () => {
+      const { gas_used, stack: reader } = await this.inner.runMethod(address, name, stack);
+      const items: TupleItem[] = [];
+      while (reader.remaining > 0) {
+        items.push(reader.pop());
+      }
+      return { gas_used, items };
+    });
+    return { gas_used: result.gas_used, stack: new TupleReader(result.items) };
+  }
+
+  async getTransactions(address: Address, opts: Parameters<TonApi["getTransactions"]>[1]): Promise<Transaction[]> {
+    const settled = opts.lt !== undefined && opts.hash !== undefined;
+    const transactions = await this.cache.read(
+      "getTransactions",
+      address,
+      JSON.stringify(opts),
+      () => this.inner.getTransactions(address, opts),
+      settled ? SETTLED_HISTORY_TTL : undefined
+    );
+    return [...transactions];
+  }
+
+  provider(address: Address, init?: StateInit | null): ContractProvider {
+    return new CachedProvider(this, this.inner.provider(address, init), address);
+  }
+}
+
+/**
+ * Contract provider that drops the account's cached reads once it has
+ * sent an external message for it
+ */
+class CachedProvider implements ContractProvider {
+  constructor(
+    private client: CachedClient,
+    private inner: ContractProvider,
+    private address: Address
+  ) {}
+
+  getState(): Promise<ContractState> {
+    return this.inner.getState();
+  }
+
+  get(name: string | number, args: TupleItem[]) {
+    return this.inner.get(name, args);
+  }
+
+  async external(message: Cell): Promise<void> {
+    try {
+      await this.inner.external(message);
+    } finally {
+      this.client.cache.invalidate(this.address);
+    }
+  }
+
+  internal(via: Sender, args: Parameters<ContractProvider["internal"]>[1]): Promise<void> {
+    return this.inner.internal(via, args);
+  }
+
+  open<T extends Contract>(contract: T) {
+    return openContract(contract, (params) => this.client.provider(params.address, params.init));
+  }
+
+  getTransactions(address: Address, lt: bigint, hash: Buffer, limit?: number): Promise<Transaction[]> {
+    return this.inner.getTransactions(address, lt, hash, limit);
+  }
+}
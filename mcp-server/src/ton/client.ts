@@ -0,0 +1,134 @@
+/**
+ * TON Clients - One Entry Point per Network
+ *
+ * mainnet and testnet are served by their configured RPC endpoints, with
+ * failover, retries and rate limits (see rpc.ts); sandbox by the
+ * in-process emulated chain. Tools only use the part of TonClient all of
+ * them provide, and share one client per network, so the rate limits and
+ * the read cache (see cache.ts) hold across tools and agents.
+ */
+
+import { TonClient } from "@ton/ton";
+import type { Network } from "./wallet-registry.js";
+import { getSandbox } from "./sandbox.js";
+import { DEFAULT_RETRY_OPTIONS, FailoverClient, RetryOptions, RpcEndpoint, createUpstream } from "./rpc.js";
+import { CACHED_METHODS, CacheStats, CacheTtls, CachedClient, CachedMethod, DEFAULT_CACHE_TTLS, ReadCache } from "./cache.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TonApi = Pick<TonClient, "getBalance" | "getContractState" | "runMethod" | "getTransactions" | "provider">;
+
+export const NETWORKS: Network[] = ["mainnet", "testnet", "sandbox"];
+
+export type RpcNetwork = Exclude<Network, "sandbox">;
+
+export interface RpcConfig {
+  endpoints: RpcEndpoint[];
+  retry: RetryOptions;
+  cacheTtls: CacheTtls;
+}
+
+// toncenter first, the v4 API as fallback
+const DEFAULT_ENDPOINTS: Record<RpcNetwork, string[]> = {
+  mainnet: ["https://toncenter.com/api/v2/jsonRPC", "v4:https://mainnet-v4.tonhubapi.com"],
+  testnet: ["https://testnet.toncenter.com/api/v2/jsonRPC", "v4:https://testnet-v4.tonhubapi.com"],
+};
+
+// toncenter allows 1 request per second without an API key, 10 with one
+const KEYLESS_RPS = 1;
+const DEFAULT_RPS = 10;
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Endpoints and retry policy of a network, from the environment:
+ * TON_<NETWORK>_RPC lists endpoints in failover order (comma-separated,
+ * "v4:" marks TonClient4 endpoints), TON_<NETWORK>_API_KEY or
+ * TONCENTER_API_KEY authenticates toncenter, TON_RPC_RPS and
+ * TON_RPC_RETRIES override the request rate and retry count, and
+ * TON_CACHE_TTLS the read cache's TTLs ("getBalance=3000,runMethod=0").
+ */
+export function loadRpcConfig(network: RpcNetwork, env: NodeJS.ProcessEnv = process.env): RpcConfig {
+  const prefix = `TON_${network.toUpperCase()}`;
+  const apiKey = env[`${prefix}_API_KEY`] || env.TONCENTER_API_KEY || undefined;
+  const rps = env.TON_RPC_RPS ? Number(env.TON_RPC_RPS) : undefined;
+  const retries = env.TON_RPC_RETRIES ? Number(env.TON_RPC_RETRIES) : DEFAULT_RETRY_OPTIONS.retries;
+  if (rps !== undefined && !(rps > 0)) {
+    throw new Error(`Invalid TON_RPC_RPS: ${env.TON_RPC_RPS}`);
+  }
+  if (!(Number.isInteger(retries) && retries >= 0)) {
+    throw new Error(`Invalid TON_RPC_RETRIES: ${env.TON_RPC_RETRIES}`);
+  }
+
+  const urls = env[`${prefix}_RPC`]
+    ? env[`${prefix}_RPC`]!.split(",").map((url) => url.trim()).filter(Boolean)
+    : DEFAULT_ENDPOINTS[network];
+  const endpoints = urls.map((entry): RpcEndpoint => {
+    if (entry.startsWith("v4:")) {
+      return { kind: "v4", url: entry.slice(3), rps: rps ?? DEFAULT_RPS };
+    }
+    return { kind: "toncenter", url: entry, apiKey, rps: rps ?? (apiKey ? DEFAULT_RPS : KEYLESS_RPS) };
+  });
+  for (const { url } of endpoints) {
+    if (!/^https?:\/\//.test(url)) {
+      throw new Error(`Invalid ${prefix}_RPC endpoint: ${url}`);
+    }
+  }
+
+  return { endpoints, retry: { ...DEFAULT_RETRY_OPTIONS, retries }, cacheTtls: parseCacheTtls(env.TON_CACHE_TTLS) };
+}
+
+function parseCacheTtls(value: string | undefined): CacheTtls {
+  const ttls = { ...DEFAULT_CACHE_TTLS };
+  for (const pair of (value ?? "").split(",").map((entry) => entry.trim()).filter(Boolean)) {
+    const [method, ms] = pair.split("=");
+    const ttl = Number(ms);
+    if (!CACHED_METHODS.includes(method as CachedMethod) || !(ttl >= 0)) {
+      throw new Error(`Invalid TON_CACHE_TTLS entry: ${pair} (methods: ${CACHED_METHODS.join(", ")})`);
+    }
+    ttls[method as CachedMethod] = ttl;
+  }
+  return ttls;
+}
+
+// ============================================================================
+// Clients
+// ============================================================================
+
+const clients: Map<RpcNetwork, CachedClient> = new Map();
+
+export function getTonClient(network: Network = "testnet"): TonApi {
+  if (network === "sandbox") {
+    return getSandbox().client;
+  }
+  let client = clients.get(network);
+  if (!client) {
+    const { endpoints, retry, cacheTtls } = loadRpcConfig(network);
+    client = new CachedClient(new FailoverClient(endpoints.map(createUpstream), retry), new ReadCache(cacheTtls));
+    clients.set(network, client);
+  }
+  return client;
+}
+
+/**
+ * Read cache statistics of the networks used so far
+ */
+export function getReadCacheStats(): Partial<Record<RpcNetwork, CacheStats>> {
+  return Object.fromEntries([...clients].map(([network, client]) => [network, client.cache.stats()]));
+}
+
+/**
+ * Network a call runs on: the session's, if it has one (its agents cannot
+ * leave it), else the requested one, else testnet
+ */
+export function resolveNetwork(requested: unknown, context?: { network?: Network }): Network {
+  const network = context?.network ?? requested ?? "testnet";
+  if (!NETWORKS.includes(network as Network)) {
+    throw new Error(`Unsupported network: ${network} (supported: ${NETWORKS.join(", ")})`);
+  }
+  return network as Network;
+}
@@ -0,0 +1,41 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { createHash } from "crypto";
+import { Cell, Dictionary, beginCell } from "@ton/core";
+
+import { parseContentCell } from "./content.js";
+
+function keyOf(name: string): bigint {
+  return BigInt(`0x${createHash("sha256").update(name).digest("hex")}`);
+}
+
+function onchain(fields: Record<string, string>): Cell {
+  const dict = Dictionary.empty(Dictionary.Keys.BigUint(256), Dictionary.Values.Cell());
+  for (const [key, value] of Object.entries(fields)) {
+    dict.set(keyOf(key), beginCell().storeUint(0, 8).storeStringTail(value).endCell());
+  }
+  return beginCell().storeUint(0, 8).storeDict(dict).endCell();
+}
+
+describe("TEP-64 Content Cells", () => {
+  it("should read off-chain URIs", () => {
+    const cell = beginCell().storeUint(1, 8).storeStringTail("https://example.com/jetton.json").endCell();
+    assert.deepStrictEqual(parseContentCell(cell), { layout: "offchain", uri: "https://example.com/jetton.json" });
+  });
+
+  it("should read on-chain attributes by name", () => {
+    const content = parseContentCell(onchain({ name: "Scale", symbol: "SCALE", decimals: "9" }));
+    assert.deepStrictEqual(content, { layout: "onchain", fields: { name: "Scale", symbol: "SCALE", decimals: "9" } });
+  });
+
+  it("should treat on-chain data with a uri as semi-chain", () => {
+    const content = parseContentCell(onchain({ uri: "ipfs://meta", image: "ipfs://img" }));
+    assert.strictEqual(content.layout, "semichain");
+    assert.ok(content.layout === "semichain" && content.uri === "ipfs://meta" && content.fields.image === "ipfs://img");
+  });
+
+  it("should flag unknown layouts", () => {
+    assert.deepStrictEqual(parseContentCell(beginCell().storeUint(7, 8).endCell()), { layout: "unknown", prefix: 7 });
+    assert.deepStrictEqual(parseContentCell(Cell.EMPTY), { layout: "unknown", prefix: null });
+  });
+});
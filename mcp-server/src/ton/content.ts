@@ -0,0 +1,109 @@
+/**
+ * Content Cells - TEP-64 Token Data Layout
+ *
+ * Jetton and NFT content cells are either off-chain (a URI to JSON) or
+ * on-chain (a dictionary keyed by sha256 of the attribute name). Values
+ * use snake or chunked encoding.
+ */
+
+import { createHash } from "crypto";
+import { Cell, Dictionary } from "@ton/core";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ContentCell =
+  | { layout: "offchain"; uri: string }
+  | { layout: "onchain"; fields: Record<string, string> }
+  | { layout: "semichain"; uri: string; fields: Record<string, string> }
+  | { layout: "unknown"; prefix: number | null };
+
+// Attribute names defined by TEP-64 and common extensions
+export const CONTENT_KEYS = [
+  "uri",
+  "name",
+  "description",
+  "image",
+  "image_data",
+  "symbol",
+  "decimals",
+  "amount_style",
+  "render_type",
+  "content_url",
+  "lottie",
+  "attributes",
+  "social_links",
+  "marketplace",
+  "cover_image",
+];
+
+const OFFCHAIN_PREFIX = 0x01;
+const ONCHAIN_PREFIX = 0x00;
+const SNAKE_PREFIX = 0x00;
+const CHUNKED_PREFIX = 0x01;
+
+const KEY_NAMES = new Map(
+  CONTENT_KEYS.map((key) => [BigInt(`0x${createHash("sha256").update(key).digest("hex")}`), key])
+);
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Decode a TEP-64 content cell. Unknown on-chain keys are kept by hash.
+ */
+export function parseContentCell(cell: Cell): ContentCell {
+  const slice = cell.beginParse();
+  if (slice.remainingBits < 8) {
+    return { layout: "unknown", prefix: null };
+  }
+
+  const prefix = slice.loadUint(8);
+  if (prefix === OFFCHAIN_PREFIX) {
+    return { layout: "offchain", uri: slice.loadStringTail() };
+  }
+  if (prefix !== ONCHAIN_PREFIX) {
+    return { layout: "unknown", prefix };
+  }
+
+  const dict = slice.loadDict(Dictionary.Keys.BigUint(256), Dictionary.Values.Cell());
+  const fields: Record<string, string> = {};
+  for (const [hash, value] of dict) {
+    fields[KEY_NAMES.get(hash) ?? `0x${hash.toString(16).padStart(64, "0")}`] = readContentValue(value);
+  }
+
+  // On-chain data that points at more JSON (TEP-64 "semi-chain")
+  if (fields.uri) {
+    return { layout: "semichain", uri: fields.uri, fields };
+  }
+  return { layout: "onchain", fields };
+}
+
+/**
+ * Read a snake- or chunk-encoded attribute value
+ */
+function readContentValue(cell: Cell): string {
+  const slice = cell.beginParse();
+  if (slice.remainingBits < 8) {
+    return slice.loadStringTail();
+  }
+
+  const prefix = slice.preloadUint(8);
+  if (prefix === SNAKE_PREFIX) {
+    slice.skip(8);
+    return slice.loadStringTail();
+  }
+  if (prefix === CHUNKED_PREFIX) {
+    slice.skip(8);
+    const chunks = slice.loadDict(Dictionary.Keys.Uint(32), Dictionary.Values.Cell());
+    return chunks
+      .keys()
+      .sort((a, b) => a - b)
+      .map((index) => chunks.get(index)!.beginParse().loadStringTail())
+      .join("");
+  }
+  // Some contracts store the bare string without a prefix
+  return slice.loadStringTail();
+}
@@ -0,0 +1,78 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { Address, fromNano, internal, toNano } from "@ton/core";
+import { keyPairFromSeed } from "@ton/crypto";
+
+import { estimateTransferFees } from "./fees.js";
+import { SandboxNetwork, getSandbox } from "./sandbox.js";
+import { WalletEntry, createWalletContract, getSeqno, sendTransfer } from "./wallet-registry.js";
+
+const RECIPIENT = new Address(0, Buffer.alloc(32, 7));
+
+async function fundedWallet(sandbox: SandboxNetwork): Promise<WalletEntry> {
+  const keyPair = keyPairFromSeed(Buffer.alloc(32, 2));
+  const contract = createWalletContract("v4", keyPair.publicKey, "sandbox");
+  await sandbox.fund(contract.address, toNano("10"));
+  return {
+    id: "sandbox-1",
+    version: "v4",
+    network: "sandbox",
+    address: contract.address.toString(),
+    contract,
+    keyPair,
+    client: sandbox.client,
+    connectedAt: new Date(),
+  };
+}
+
+/**
+ * Estimate a transfer, send it, and return both with what it really cost
+ */
+async function estimateAndSend(wallet: WalletEntry, value: bigint) {
+  const messages = [internal({ to: RECIPIENT, value, bounce: false })];
+  const seqno = await getSeqno(wallet);
+  const before = await wallet.client.getBalance(wallet.contract.address);
+  const estimate = await estimateTransferFees(wallet, seqno, messages);
+  await sendTransfer(wallet, seqno, messages);
+  const after = await wallet.client.getBalance(wallet.contract.address);
+  return { estimate, charged: before - after - value };
+}
+
+describe("Fee Estimation", () => {
+  it("should match what the first send, deploying the wallet, costs", async () => {
+    const sandbox = getSandbox();
+    sandbox.reset();
+    const wallet = await fundedWallet(sandbox);
+
+    const { estimate, charged } = await estimateAndSend(wallet, toNano("1"));
+    assert.strictEqual(estimate.method, "emulation");
+    assert.strictEqual(estimate.success, true);
+    assert.strictEqual(estimate.totalNano, charged.toString());
+    assert.ok(BigInt(estimate.gasUsed!) > 0n);
+
+    const parts = Object.values(estimate.breakdown!).reduce((sum, part) => sum + toNano(part), 0n);
+    assert.strictEqual(fromNano(parts), estimate.total, "Breakdown adds up to the total");
+  });
+
+  it("should charge storage since the wallet's last transaction", async () => {
+    const sandbox = getSandbox();
+    sandbox.reset();
+    const wallet = await fundedWallet(sandbox);
+    await estimateAndSend(wallet, toNano("1"));
+    await sandbox.setTime(sandbox.now() + 365 * 24 * 3600);
+
+    const { estimate, charged } = await estimateAndSend(wallet, toNano("1"));
+    assert.ok(toNano(estimate.breakdown!.storage) > 0n);
+    assert.strictEqual(estimate.totalNano, charged.toString());
+  });
+
+  it("should report transfers the wallet cannot pay for", async () => {
+    const sandbox = getSandbox();
+    sandbox.reset();
+    const wallet = await fundedWallet(sandbox);
+
+    const estimate = await estimateTransferFees(wallet, 0, [internal({ to: RECIPIENT, value: toNano("20"), bounce: false })]);
+    assert.strictEqual(estimate.success, false);
+    assert.match(estimate.failure!, /action result code 37/);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Fee Estimation - Emulated Wallet Transfers
+ *
+ * Dry runs sign the real external message and execute it locally in the
+ * TON emulator against a copy of the wallet's current account state. The
+ * wallet transaction it produces gives the fees the send would be
+ * charged: import of the external message, storage since the last
+ * transaction, compute, and forwarding of the outgoing messages. Fees the
+ * recipients pay on their side are not included.
+ */
+
+import {
+  Account,
+  Address,
+  Cell,
+  MessageRelaxed,
+  ShardAccount,
+  Transaction,
+  beginCell,
+  fromNano,
+  storeAccountStorage,
+} from "@ton/core";
+import { WalletEntry, networkTime, signTransfer } from "./wallet-registry.js";
+import { decodeTransaction } from "./transactions.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FeeBreakdown {
+  import: string; // TON, external message import
+  storage: string; // TON, storage since the wallet's last transaction
+  compute: string; // TON, wallet code execution
+  forward: string; // TON, outgoing messages
+}
+
+export interface FeeEstimate {
+  method: "emulation" | "flat";
+  total: string; // TON charged on top of the amounts sent
+  totalNano: string;
+  breakdown?: FeeBreakdown;
+  gasUsed?: string;
+  balanceAfter?: string; // TON
+  success: boolean; // false when the emulated transfer failed
+  failure?: string;
+  error?: string; // why emulation was not possible (flat estimate)
+}
+
+// Used when the transfer cannot be emulated
+const FLAT_FEE = 10_000_000n; // 0.01 TON
+
+// ============================================================================
+// Estimation
+// ============================================================================
+
+/**
+ * What sending messages from a wallet would cost; falls back to a flat
+ * estimate when the transfer cannot be emulated
+ */
+export async function estimateTransferFees(entry: WalletEntry, seqno: number, messages: MessageRelaxed[]): Promise<FeeEstimate> {
+  try {
+    return await emulateTransfer(entry, seqno, messages);
+  } catch (error) {
+    return {
+      method: "flat",
+      total: fromNano(FLAT_FEE),
+      totalNano: FLAT_FEE.toString(),
+      success: true,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Emulate sending messages from a wallet
+ */
+async function emulateTransfer(entry: WalletEntry, seqno: number, messages: MessageRelaxed[]): Promise<FeeEstimate> {
+  const address = entry.contract.address;
+  const now = networkTime(entry.network);
+  const state = await entry.client.getContractState(address);
+  if (state.state === "frozen") {
+    throw new Error("Wallet is frozen");
+  }
+  const active = state.state === "active" && !!state.code && !!state.data;
+  // Storage is paid up to the last transaction
+  const [last] = state.lastTransaction ? await entry.client.getTransactions(address, { limit: 1 }) : [];
+
+  const { body } = signTransfer(entry, seqno, messages);
+
+  // Loaded on first use, like the sandbox network
+  const { Blockchain } = await import("@ton/sandbox");
+  const chain = await Blockchain.create();
+  chain.now = now;
+  await chain.setShardAccount(
+    address,
+    shardAccount(address, state.balance, active ? { code: Cell.fromBoc(state.code!)[0], data: Cell.fromBoc(state.data!)[0] } : null, last?.now ?? now)
+  );
+
+  const iterator = await chain.sendMessageIter({
+    info: { type: "external-in", dest: address, importFee: 0n },
+    init: active ? undefined : entry.contract.init,
+    body,
+  });
+  const { value: tx } = await iterator.next();
+  if (!tx) {
+    throw new Error("Emulation produced no transaction");
+  }
+
+  const balanceAfter = (await chain.getContract(address)).balance;
+  return summarize(tx, state.balance, balanceAfter);
+}
+
+function summarize(tx: Transaction, balanceBefore: bigint, balanceAfter: bigint): FeeEstimate {
+  const decoded = decodeTransaction(tx);
+  const sent = tx.outMessages
+    .values()
+    .reduce((sum, message) => sum + (message.info.type === "internal" ? message.info.value.coins : 0n), 0n);
+  const total = balanceBefore - balanceAfter - sent;
+
+  const breakdown = { import: 0n, storage: 0n, compute: 0n, forward: 0n };
+  let gasUsed: bigint | undefined;
+  if (tx.description.type === "generic") {
+    const { storagePhase, computePhase, actionPhase } = tx.description;
+    breakdown.storage = storagePhase?.storageFeesCollected ?? 0n;
+    if (computePhase.type === "vm") {
+      breakdown.compute = computePhase.gasFees;
+      gasUsed = computePhase.gasUsed;
+    }
+    breakdown.forward = actionPhase?.totalFwdFees ?? 0n;
+    // The validators' share of forwarding is part of the transaction fees too
+    breakdown.import = tx.totalFees.coins - breakdown.storage - breakdown.compute - (actionPhase?.totalActionFees ?? 0n);
+  }
+
+  return {
+    method: "emulation",
+    total: fromNano(total),
+    totalNano: total.toString(),
+    breakdown: {
+      import: fromNano(breakdown.import),
+      storage: fromNano(breakdown.storage),
+      compute: fromNano(breakdown.compute),
+      forward: fromNano(breakdown.forward),
+    },
+    gasUsed: gasUsed?.toString(),
+    balanceAfter: fromNano(balanceAfter),
+    success: decoded.success,
+    failure: decoded.success ? undefined : decoded.classification.summary,
+  };
+}
+
+// ============================================================================
+// Account State
+// ============================================================================
+
+/**
+ * The wallet's account as the emulator expects it. Storage usage is
+ * counted over the account storage, as the network does, so the storage
+ * fee comes out right.
+ */
+function shardAccount(address: Address, balance: bigint, code: { code: Cell; data: Cell } | null, lastPaid: number): ShardAccount {
+  const account: Account = {
+    addr: address,
+    storageStats: {
+      used: { cells: 0n, bits: 0n },
+      storageExtra: null,
+      lastPaid,
+      duePayment: null,
+    },
+    storage: {
+      lastTransLt: 0n,
+      balance: { coins: balance },
+      state: code ? { type: "active", state: code } : { type: "uninit" },
+    },
+  };
+  account.storageStats.used = storageUsed(beginCell().store(storeAccountStorage(account.storage)).endCell());
+  return { account, lastTransactionLt: 0n, lastTransactionHash: 0n };
+}
+
+/**
+ * Distinct cells and their bits under a root
+ */
+function storageUsed(root: Cell): { cells: bigint; bits: bigint } {
+  const seen = new Set<string>();
+  let cells = 0n;
+  let bits = 0n;
+  const visit = (cell: Cell) => {
+    const hash = cell.hash().toString("hex");
+    if (seen.has(hash)) return;
+    seen.add(hash);
+    cells++;
+    bits += BigInt(cell.bits.length);
+    cell.refs.forEach(visit);
+  };
+  visit(root);
+  return { cells, bits };
+}
@@ -0,0 +1,201 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { Address, Cell, Dictionary, Message, Transaction, toNano } from "@ton/core";
+
+import { TransactionSource, decodeCursor, encodeCursor, fetchHistory, summarizeHistory } from "./history.js";
+
+const WALLET = new Address(0, Buffer.alloc(32, 1));
+const ALICE = new Address(0, Buffer.alloc(32, 2));
+const BOB = new Address(0, Buffer.alloc(32, 3));
+
+const START = 1_700_000_000;
+
+function internal(src: Address, dest: Address, value: string): Message {
+  return {
+    info: {
+      type: "internal",
+      ihrDisabled: true,
+      bounce: false,
+      bounced: false,
+      src,
+      dest,
+      value: { coins: toNano(value) },
+      ihrFee: 0n,
+      forwardFee: 0n,
+      createdLt: 1n,
+      createdAt: START,
+    },
+    body: Cell.EMPTY,
+  };
+}
+
+/**
+ * Transaction number i (lt = i, one minute apart), receiving from ALICE
+ * on even i and sending to BOB on odd i
+ */
+function transaction(i: number): Transaction {
+  const outMessages = Dictionary.empty<number, Message>();
+  const incoming = i % 2 === 0;
+  if (!incoming) outMessages.set(0, internal(WALLET, BOB, "1"));
+  const hash = Buffer.alloc(32);
+  hash.writeUInt32BE(i, 28);
+
+  return {
+    address: 0n,
+    lt: BigInt(i),
+    prevTransactionHash: 0n,
+    prevTransactionLt: 0n,
+    now: START + i * 60,
+    outMessagesCount: outMessages.size,
+    oldStatus: "active",
+    endStatus: "active",
+    inMessage: incoming
+      ? internal(ALICE, WALLET, String(i))
+      : { info: { type: "external-in", dest: WALLET, importFee: 0n }, body: Cell.EMPTY },
+    outMessages,
+    totalFees: { coins: toNano("0.001") },
+    stateUpdate: { oldHash: Buffer.alloc(32), newHash: Buffer.alloc(32) },
+    description: {
+      type: "generic",
+      creditFirst: false,
+      computePhase: {
+        type: "vm",
+        success: true,
+        messageStateUsed: false,
+        accountActivated: false,
+        gasFees: 0n,
+        gasUsed: 0n,
+        gasLimit: 0n,
+        mode: 0,
+        exitCode: 0,
+        vmSteps: 1,
+        vmInitStateHash: 0n,
+        vmFinalStateHash: 0n,
+      },
+      aborted: false,
+      destroyed: false,
+    },
+    raw: Cell.EMPTY,
+    hash: () => hash,
+  };
+}
+
+/**
+ * Account with transactions 1..count, served newest first like toncenter
+ */
+function history(count: number): { source: TransactionSource; calls: number[] } {
+  const txs = Array.from({ length: count }, (_, i) => transaction(count - i));
+  const calls: number[] = [];
+  const source: TransactionSource = async ({ limit, lt, hash }) => {
+    calls.push(limit);
+    let start = 0;
+    if (lt !== undefined) {
+      const index = txs.findIndex((tx) => tx.lt.toString() === lt && tx.hash().toString("base64") === hash);
+      assert.ok(index >= 0, "Cursor should point at a known transaction");
+      start = index + 1;
+    }
+    return txs.slice(start, start + limit);
+  };
+  return { source, calls };
+}
+
+describe("Transaction History", () => {
+  it("should round-trip cursors and reject malformed ones", () => {
+    const hash = "ab".repeat(32);
+    const decoded = decodeCursor(encodeCursor({ lt: "123", hash }));
+    assert.strictEqual(decoded.lt, "123");
+    assert.strictEqual(Buffer.from(decoded.hash, "base64").toString("hex"), hash);
+    assert.throws(() => decodeCursor("123"), /Invalid cursor/);
+  });
+
+  it("should page backwards with nextCursor until the first transaction", async () => {
+    const { source } = history(25);
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+
+    do {
+      const page = await fetchHistory(source, { limit: 10, cursor });
+      seen.push(...page.transactions.map((tx) => tx.lt));
+      cursor = page.nextCursor ?? undefined;
+      pages++;
+    } while (cursor);
+
+    assert.strictEqual(pages, 3);
+    assert.deepStrictEqual(seen, Array.from({ length: 25 }, (_, i) => String(25 - i)));
+  });
+
+  it("should return nextCursor null when a page ends exactly at the first transaction", async () => {
+    const { source } = history(10);
+    const first = await fetchHistory(source, { limit: 10 });
+    assert.strictEqual(first.transactions.length, 10);
+    assert.ok(first.nextCursor, "Page filled up, so more may follow");
+
+    const second = await fetchHistory(source, { limit: 10, cursor: first.nextCursor! });
+    assert.strictEqual(second.transactions.length, 0);
+    assert.strictEqual(second.nextCursor, null);
+  });
+
+  it("should apply since/until and stop scanning past since", async () => {
+    const { source } = history(200);
+    const page = await fetchHistory(source, {
+      limit: 100,
+      since: START + 150 * 60,
+      until: START + 160 * 60,
+    });
+
+    assert.deepStrictEqual(
+      page.transactions.map((tx) => Number(tx.lt)),
+      Array.from({ length: 11 }, (_, i) => 160 - i)
+    );
+    assert.strictEqual(page.nextCursor, null);
+    assert.strictEqual(page.scanned, 52, "Should stop at the first transaction older than since");
+  });
+
+  it("should filter by direction and minimum value across batches", async () => {
+    const { source } = history(120);
+
+    const incoming = await fetchHistory(source, { limit: 5, direction: "in", minValue: "100" });
+    assert.deepStrictEqual(incoming.transactions.map((tx) => tx.lt), ["120", "118", "116", "114", "112"]);
+
+    const outgoing = await fetchHistory(source, { limit: 100, direction: "out" });
+    assert.strictEqual(outgoing.transactions.length, 60);
+    assert.ok(outgoing.transactions.every((tx) => tx.classification.kind === "ton_transfer_out"));
+
+    const large = await fetchHistory(source, { limit: 100, minValue: "115" });
+    assert.deepStrictEqual(large.transactions.map((tx) => tx.lt), ["120", "118", "116"]);
+  });
+
+  it("should stop at maxScan and hand back a cursor to resume", async () => {
+    const { source, calls } = history(100);
+    const page = await fetchHistory(source, { limit: 10, minValue: "1000", maxScan: 30 });
+
+    assert.strictEqual(page.transactions.length, 0);
+    assert.strictEqual(page.scanned, 30);
+    assert.deepStrictEqual(calls, [30]);
+    assert.strictEqual(decodeCursor(page.nextCursor!).lt, "71");
+  });
+
+  it("should summarize totals and rank counterparties by volume", async () => {
+    const { source } = history(10);
+    const summary = await summarizeHistory(source, { limit: 10 });
+
+    assert.strictEqual(summary.count, 10);
+    assert.strictEqual(summary.totalIn, "30"); // 2 + 4 + ... + 10
+    assert.strictEqual(summary.totalOut, "5");
+    assert.strictEqual(summary.net, "25");
+    assert.strictEqual(summary.fees, "0.01");
+    assert.deepStrictEqual(summary.byKind, { ton_transfer_in: 5, ton_transfer_out: 5 });
+    assert.strictEqual(summary.last, new Date((START + 600) * 1000).toISOString());
+    assert.strictEqual(summary.first, new Date((START + 60) * 1000).toISOString());
+    assert.strictEqual(summary.nextCursor, null);
+
+    assert.deepStrictEqual(
+      summary.counterparties.map((party) => [party.address, party.in, party.out, party.volume, party.count]),
+      [
+        [ALICE.toString(), "30", "0", "30", 5],
+        [BOB.toString(), "0", "5", "5", 5],
+      ]
+    );
+  });
+});
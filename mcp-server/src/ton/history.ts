@@ -0,0 +1,239 @@
+/**
+ * Transaction History - Pagination, Filters and Summaries
+ *
+ * Walks an account's transactions from newest to oldest in batches,
+ * resuming from an opaque "lt:hash" cursor. Time bounds, direction and
+ * minimum value are applied while scanning, so a page is always `limit`
+ * matches (or the end of the range), however sparse they are.
+ */
+
+import { Transaction, fromNano, toNano } from "@ton/core";
+import { DecodedTransaction, TransactionKind, decodeTransaction } from "./transactions.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type HistoryDirection = "in" | "out" | "all";
+
+export interface HistoryQuery {
+  limit: number;
+  cursor?: string; // "lt:hash" of the last transaction already seen
+  since?: number; // unix seconds, inclusive
+  until?: number; // unix seconds, inclusive
+  direction?: HistoryDirection;
+  minValue?: string; // TON
+  maxScan?: number; // raw transactions to read at most
+}
+
+export interface HistoryPage {
+  transactions: DecodedTransaction[];
+  nextCursor: string | null; // null once the range is exhausted
+  scanned: number;
+}
+
+export interface CounterpartyVolume {
+  address: string;
+  in: string; // TON
+  out: string; // TON
+  volume: string; // TON
+  count: number;
+}
+
+export interface HistorySummary {
+  count: number;
+  scanned: number;
+  totalIn: string; // TON
+  totalOut: string; // TON
+  net: string; // TON
+  fees: string; // TON
+  byKind: Partial<Record<TransactionKind, number>>;
+  first: string | null; // ISO time of the oldest match
+  last: string | null; // ISO time of the newest match
+  counterparties: CounterpartyVolume[]; // ranked by volume
+  nextCursor: string | null; // set when maxScan cut the range short
+}
+
+// Reads a batch of transactions, newest first, starting after (lt, hash)
+export type TransactionSource = (opts: { limit: number; lt?: string; hash?: string }) => Promise<Transaction[]>;
+
+const BATCH_SIZE = 50;
+export const DEFAULT_MAX_SCAN = 1000;
+export const MAX_SCAN_LIMIT = 10 * DEFAULT_MAX_SCAN; // highest maxScan a caller may ask for
+const TOP_COUNTERPARTIES = 10;
+
+// ============================================================================
+// Cursors
+// ============================================================================
+
+export function encodeCursor(tx: { lt: string; hash: string }): string {
+  return `${tx.lt}:${tx.hash}`;
+}
+
+/**
+ * Cursor to the lt and base64 hash the toncenter API expects
+ */
+export function decodeCursor(cursor: string): { lt: string; hash: string } {
+  const match = /^(\d+):([0-9a-f]{64})$/i.exec(cursor);
+  if (!match) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+  return { lt: match[1], hash: Buffer.from(match[2], "hex").toString("base64") };
+}
+
+// ============================================================================
+// Scanning
+// ============================================================================
+
+/**
+ * Value moved in each direction (TON, nano)
+ */
+function flows(tx: DecodedTransaction): { in: bigint; out: bigint } {
+  const inValue = tx.inMessage?.type === "internal" ? BigInt(tx.inMessage.valueNano ?? "0") : 0n;
+  const outValue = tx.outMessages.reduce((sum, msg) => sum + BigInt(msg.valueNano ?? "0"), 0n);
+  return { in: inValue, out: outValue };
+}
+
+function matches(tx: DecodedTransaction, query: HistoryQuery): boolean {
+  const { in: inValue, out: outValue } = flows(tx);
+  const direction = query.direction ?? "all";
+  if (direction === "in" && tx.inMessage?.type !== "internal") return false;
+  if (direction === "out" && !tx.outMessages.some((msg) => msg.type === "internal")) return false;
+
+  if (query.minValue !== undefined) {
+    const value = direction === "in" ? inValue : direction === "out" ? outValue : inValue > outValue ? inValue : outValue;
+    if (value < toNano(query.minValue)) return false;
+  }
+  return true;
+}
+
+/**
+ * Visit matching transactions, newest first, until the visitor returns
+ * false or the range/scan budget runs out. Returns the resume cursor.
+ */
+async function scan(
+  source: TransactionSource,
+  query: HistoryQuery,
+  visit: (tx: DecodedTransaction) => boolean
+): Promise<{ nextCursor: string | null; scanned: number }> {
+  const maxScan = query.maxScan ?? DEFAULT_MAX_SCAN;
+  let cursor = query.cursor ?? null;
+  let scanned = 0;
+
+  while (scanned < maxScan) {
+    const limit = Math.min(BATCH_SIZE, maxScan - scanned);
+    const batch = await source({ limit, ...(cursor ? decodeCursor(cursor) : {}) });
+    for (const raw of batch) {
+      const tx = decodeTransaction(raw);
+      scanned++;
+      cursor = encodeCursor(tx);
+
+      // Newest first: skip until the window starts, stop once it ends
+      if (query.until !== undefined && tx.now > query.until) continue;
+      if (query.since !== undefined && tx.now < query.since) {
+        return { nextCursor: null, scanned };
+      }
+
+      if (matches(tx, query) && !visit(tx)) {
+        return { nextCursor: cursor, scanned };
+      }
+    }
+
+    if (batch.length < limit) {
+      return { nextCursor: null, scanned }; // reached the first transaction
+    }
+  }
+
+  return { nextCursor: cursor, scanned };
+}
+
+/**
+ * One page of matching transactions
+ */
+export async function fetchHistory(source: TransactionSource, query: HistoryQuery): Promise<HistoryPage> {
+  const transactions: DecodedTransaction[] = [];
+  const { nextCursor, scanned } = await scan(source, query, (tx) => {
+    transactions.push(tx);
+    return transactions.length < query.limit;
+  });
+  return { transactions, nextCursor, scanned };
+}
+
+/**
+ * Aggregate every matching transaction in the range (up to maxScan)
+ */
+export async function summarizeHistory(source: TransactionSource, query: HistoryQuery): Promise<HistorySummary> {
+  let count = 0;
+  let totalIn = 0n;
+  let totalOut = 0n;
+  let fees = 0n;
+  let first: string | null = null;
+  let last: string | null = null;
+  const byKind: HistorySummary["byKind"] = {};
+  const parties = new Map<string, { in: bigint; out: bigint; count: number }>();
+
+  const party = (address: string | null) => {
+    if (!address) return undefined;
+    let entry = parties.get(address);
+    if (!entry) {
+      entry = { in: 0n, out: 0n, count: 0 };
+      parties.set(address, entry);
+    }
+    return entry;
+  };
+
+  const { nextCursor, scanned } = await scan(source, query, (tx) => {
+    count++;
+    last ??= tx.time;
+    first = tx.time;
+    fees += BigInt(tx.feesNano);
+    byKind[tx.classification.kind] = (byKind[tx.classification.kind] ?? 0) + 1;
+
+    if (tx.inMessage?.type === "internal") {
+      const value = BigInt(tx.inMessage.valueNano ?? "0");
+      totalIn += value;
+      const entry = party(tx.inMessage.src);
+      if (entry) {
+        entry.in += value;
+        entry.count++;
+      }
+    }
+    for (const msg of tx.outMessages) {
+      if (msg.type !== "internal") continue;
+      const value = BigInt(msg.valueNano ?? "0");
+      totalOut += value;
+      const entry = party(msg.dest);
+      if (entry) {
+        entry.out += value;
+        entry.count++;
+      }
+    }
+    return true;
+  });
+
+  const counterparties = Array.from(parties.entries())
+    .map(([address, entry]) => ({ address, ...entry, volume: entry.in + entry.out }))
+    .sort((a, b) => (b.volume > a.volume ? 1 : b.volume < a.volume ? -1 : 0))
+    .slice(0, TOP_COUNTERPARTIES)
+    .map((entry) => ({
+      address: entry.address,
+      in: fromNano(entry.in),
+      out: fromNano(entry.out),
+      volume: fromNano(entry.volume),
+      count: entry.count,
+    }));
+
+  return {
+    count,
+    scanned,
+    totalIn: fromNano(totalIn),
+    totalOut: fromNano(totalOut),
+    net: fromNano(totalIn - totalOut),
+    fees: fromNano(fees),
+    byKind,
+    first,
+    last,
+    counterparties,
+    nextCursor,
+  };
+}
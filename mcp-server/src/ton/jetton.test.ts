@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { Address } from "@ton/core";
+
+import {
+  JETTON_TRANSFER_OP,
+  buildJettonTransferBody,
+  commentPayload,
+  parseJettonAmount,
+  parseJettonDecimals,
+  formatJettonAmount,
+} from "./jetton.js";
+
+const RECIPIENT = new Address(0, Buffer.alloc(32, 1));
+const SENDER = new Address(0, Buffer.alloc(32, 2));
+
+describe("Jetton Transfer Body", () => {
+  it("should follow the TEP-74 layout", () => {
+    const body = buildJettonTransferBody({
+      queryId: 42n,
+      amount: 1_500_000n,
+      destination: RECIPIENT,
+      responseDestination: SENDER,
+      forwardTonAmount: 10_000_000n,
+      forwardPayload: commentPayload("gm"),
+    });
+
+    const slice = body.beginParse();
+    assert.strictEqual(slice.loadUint(32), JETTON_TRANSFER_OP);
+    assert.strictEqual(slice.loadUintBig(64), 42n);
+    assert.strictEqual(slice.loadCoins(), 1_500_000n);
+    assert.ok(slice.loadAddress().equals(RECIPIENT));
+    assert.ok(slice.loadAddress().equals(SENDER));
+    assert.strictEqual(slice.loadMaybeRef(), null, "No custom payload");
+    assert.strictEqual(slice.loadCoins(), 10_000_000n);
+    assert.strictEqual(slice.loadBit(), true, "Forward payload is stored by reference");
+
+    const payload = slice.loadRef().beginParse();
+    assert.strictEqual(payload.loadUint(32), 0);
+    assert.strictEqual(payload.loadStringTail(), "gm");
+  });
+
+  it("should store an empty inline forward payload", () => {
+    const slice = buildJettonTransferBody({
+      amount: 1n,
+      destination: RECIPIENT,
+      responseDestination: SENDER,
+      forwardTonAmount: 0n,
+    }).beginParse();
+
+    slice.skip(32 + 64);
+    slice.loadCoins();
+    slice.loadAddress();
+    slice.loadAddress();
+    slice.loadMaybeRef();
+    slice.loadCoins();
+    assert.strictEqual(slice.loadBit(), false);
+    assert.strictEqual(slice.remainingBits, 0);
+  });
+});
+
+describe("Jetton Amounts", () => {
+  it("should convert between decimal strings and base units", () => {
+    assert.strictEqual(parseJettonAmount("1.5", 6), 1_500_000n);
+    assert.strictEqual(parseJettonAmount("12", 9), 12_000_000_000n);
+    assert.strictEqual(formatJettonAmount(1_500_000n, 6), "1.5");
+    assert.strictEqual(formatJettonAmount(7n, 9), "0.000000007");
+    assert.strictEqual(formatJettonAmount(42n, 0), "42");
+  });
+
+  it("should reject malformed or over-precise amounts", () => {
+    assert.throws(() => parseJettonAmount("-1", 9), /Invalid amount/);
+    assert.throws(() => parseJettonAmount("1e3", 9), /Invalid amount/);
+    assert.throws(() => parseJettonAmount("0.0000001", 6), /more than 6 decimals/);
+  });
+
+  it("should only accept TEP-64 decimals", () => {
+    assert.strictEqual(parseJettonDecimals(6), 6);
+    assert.strictEqual(parseJettonDecimals(0), 0);
+    assert.throws(() => parseJettonDecimals(undefined), /Invalid decimals/);
+    assert.throws(() => parseJettonDecimals("6"), /Invalid decimals/);
+    assert.throws(() => parseJettonDecimals(1.5), /Invalid decimals/);
+    assert.throws(() => parseJettonDecimals(256), /Invalid decimals/);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Jettons - TEP-74 Wallet Lookups and Transfers
+ *
+ * Each holder of a jetton has their own jetton wallet contract, found
+ * through the master's get_wallet_address getter. Transfers are internal
+ * messages to the sender's jetton wallet carrying a TEP-74 transfer body.
+ */
+
+import { Address, Cell, beginCell, toNano, fromNano } from "@ton/core";
+import type { TonApi } from "./client.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const JETTON_TRANSFER_OP = 0x0f8a7ea5;
+
+// TON attached on top of forward_ton_amount to pay for the jetton wallets' gas
+export const JETTON_TRANSFER_GAS = "0.05";
+
+// Default forward_ton_amount, enough for the recipient to get a transfer_notification
+export const DEFAULT_FORWARD_TON_AMOUNT = "0.01";
+
+export const DEFAULT_JETTON_DECIMALS = 9;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface JettonWalletData {
+  balance: bigint;
+  owner: Address;
+  master: Address;
+  deployed: boolean;
+}
+
+export interface JettonTransferParams {
+  queryId?: bigint;
+  amount: bigint; // base units
+  destination: Address; // new owner, not their jetton wallet
+  responseDestination: Address; // receives the excess TON
+  forwardTonAmount: bigint;
+  forwardPayload?: Cell;
+  customPayload?: Cell;
+}
+
+// ============================================================================
+// Lookups
+// ============================================================================
+
+/**
+ * Jetton wallet address of an owner, as computed by the master
+ */
+export async function getJettonWalletAddress(client: TonApi, master: Address, owner: Address): Promise<Address> {
+  const result = await client.runMethod(master, "get_wallet_address", [
+    { type: "slice", cell: beginCell().storeAddress(owner).endCell() },
+  ]);
+  return result.stack.readAddress();
+}
+
+/**
+ * Content cell of a jetton master, holding its TEP-64 metadata
+ */
+export async function getJettonContent(client: TonApi, master: Address): Promise<Cell> {
+  const result = await client.runMethod(master, "get_jetton_data");
+  result.stack.readBigNumber(); // total_supply
+  result.stack.readBoolean(); // mintable
+  result.stack.readAddressOpt(); // admin_address
+  return result.stack.readCell();
+}
+
+/**
+ * Balance and owner of a jetton wallet. Wallets that were never deployed
+ * hold nothing yet.
+ */
+export async function getJettonWalletData(
+  client: TonApi,
+  jettonWallet: Address,
+  expected: { owner: Address; master: Address }
+): Promise<JettonWalletData> {
+  const state = await client.getContractState(jettonWallet);
+  if (state.state !== "active") {
+    return { balance: 0n, ...expected, deployed: false };
+  }
+
+  const result = await client.runMethod(jettonWallet, "get_wallet_data");
+  return {
+    balance: result.stack.readBigNumber(),
+    owner: result.stack.readAddress(),
+    master: result.stack.readAddress(),
+    deployed: true,
+  };
+}
+
+// ============================================================================
+// Transfers
+// ============================================================================
+
+/**
+ * TEP-74 transfer body, sent to the sender's own jetton wallet
+ */
+export function buildJettonTransferBody(params: JettonTransferParams): Cell {
+  const body = beginCell()
+    .storeUint(JETTON_TRANSFER_OP, 32)
+    .storeUint(params.queryId ?? 0n, 64)
+    .storeCoins(params.amount)
+    .storeAddress(params.destination)
+    .storeAddress(params.responseDestination)
+    .storeMaybeRef(params.customPayload)
+    .storeCoins(params.forwardTonAmount);
+
+  // forward_payload:(Either Cell ^Cell) - always by reference when present
+  if (params.forwardPayload) {
+    body.storeBit(1).storeRef(params.forwardPayload);
+  } else {
+    body.storeBit(0);
+  }
+  return body.endCell();
+}
+
+/**
+ * TON attached to a jetton transfer: the forwarded amount plus gas
+ */
+export function jettonTransferValue(forwardTonAmount: string = DEFAULT_FORWARD_TON_AMOUNT): string {
+  return fromNano(toNano(forwardTonAmount) + toNano(JETTON_TRANSFER_GAS));
+}
+
+/**
+ * Forward payload carrying a text comment (op 0)
+ */
+export function commentPayload(text: string): Cell {
+  return beginCell().storeUint(0, 32).storeStringTail(text).endCell();
+}
+
+// ============================================================================
+// Amounts
+// ============================================================================
+
+/**
+ * Decimals given by a caller; TEP-64 allows 0 to 255
+ */
+export function parseJettonDecimals(value: unknown): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value > 255) {
+    throw new Error(`Invalid decimals: ${value} (expected an integer from 0 to 255)`);
+  }
+  return value;
+}
+
+/**
+ * Decimal string to base units (e.g. "1.5" with 6 decimals -> 1500000n)
+ */
+export function parseJettonAmount(amount: string, decimals: number): bigint {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(amount.trim());
+  if (!match) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > decimals) {
+    throw new Error(`Invalid amount: ${amount} has more than ${decimals} decimals`);
+  }
+  return BigInt(whole + fraction.padEnd(decimals, "0"));
+}
+
+/**
+ * Base units to a decimal string
+ */
+export function formatJettonAmount(units: bigint, decimals: number): string {
+  if (decimals === 0) return units.toString();
+  const negative = units < 0n;
+  const digits = (negative ? -units : units).toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, -decimals);
+  const fraction = digits.slice(-decimals).replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
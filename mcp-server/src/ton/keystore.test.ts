@@ -0,0 +1,59 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { mnemonicNew } from "@ton/crypto";
+
+import { Keystore } from "./keystore.js";
+
+const meta = { address: "EQCD39VS5jcptHL8vMjEXrzGaRcCVYto7HUn4bpAOg8xqB2N", version: "v4" as const, network: "testnet" as const };
+
+describe("Keystore", () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "clawmasutra-keystore-"));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should round-trip a mnemonic without writing it in plaintext", async () => {
+    const filePath = path.join(dir, "roundtrip.json");
+    const keystore = new Keystore(filePath);
+    const mnemonic = await mnemonicNew();
+
+    const wallet = await keystore.import("treasury", mnemonic, "correct horse", meta);
+    assert.strictEqual(wallet.alias, "treasury");
+    assert.strictEqual(wallet.address, meta.address);
+
+    const raw = fs.readFileSync(filePath, "utf-8");
+    assert.ok(!raw.includes(mnemonic.slice(0, 3).join(" ")), "Mnemonic should be encrypted");
+    assert.strictEqual(fs.statSync(filePath).mode & 0o777, 0o600);
+
+    // A fresh instance reads the same file
+    assert.deepStrictEqual(await new Keystore(filePath).decrypt("treasury", "correct horse"), mnemonic);
+    assert.deepStrictEqual(new Keystore(filePath).list().map((w) => w.alias), ["treasury"]);
+  });
+
+  it("should reject a wrong passphrase", async () => {
+    const keystore = new Keystore(path.join(dir, "passphrase.json"));
+    await keystore.import("ops", await mnemonicNew(), "right", meta);
+
+    await assert.rejects(keystore.decrypt("ops", "wrong"), /Wrong passphrase/);
+    await assert.rejects(keystore.decrypt("missing", "right"), /No wallet in keystore/);
+  });
+
+  it("should reject duplicate and invalid aliases", async () => {
+    const keystore = new Keystore(path.join(dir, "aliases.json"));
+    const mnemonic = await mnemonicNew();
+    await keystore.import("ops", mnemonic, "secret", meta);
+
+    await assert.rejects(keystore.import("ops", mnemonic, "secret", meta), /already exists/);
+    await assert.rejects(keystore.import("wallet-1234", mnemonic, "secret", meta), /Invalid alias/);
+    await assert.rejects(keystore.import("Has Spaces", mnemonic, "secret", meta), /Invalid alias/);
+    await assert.rejects(keystore.import("empty-pass", mnemonic, "", meta), /passphrase is required/);
+  });
+});
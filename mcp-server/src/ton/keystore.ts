@@ -0,0 +1,184 @@
+/**
+ * Keystore - Encrypted Mnemonics on Disk
+ *
+ * Mnemonics are encrypted with AES-256-GCM under a key derived from a
+ * passphrase (scrypt, per-wallet salt) and stored by alias. Only the
+ * alias, address and public metadata are readable without the passphrase,
+ * so wallets can be listed and referred to while locked.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { randomBytes, scrypt, createCipheriv, createDecipheriv } from "crypto";
+import { Network, WalletVersion } from "./wallet-registry.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface KeystoreEntry {
+  alias: string;
+  address: string;
+  version: WalletVersion;
+  network: Network;
+  createdAt: string; // ISO timestamp
+  kdf: {
+    name: "scrypt";
+    N: number;
+    r: number;
+    p: number;
+    salt: string; // hex
+  };
+  cipher: {
+    name: "aes-256-gcm";
+    iv: string; // hex
+    tag: string; // hex
+    ciphertext: string; // hex
+  };
+}
+
+// Public view of an entry
+export type KeystoreWallet = Pick<KeystoreEntry, "alias" | "address" | "version" | "network" | "createdAt">;
+
+interface KeystoreFile {
+  version: 1;
+  wallets: Record<string, KeystoreEntry>;
+}
+
+const KDF_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+// Lowercase handle, distinct from the generated "wallet-xxxxxxxx" IDs
+const ALIAS_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+// ============================================================================
+// Keystore
+// ============================================================================
+
+export class Keystore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  list(): KeystoreWallet[] {
+    return Object.values(this.read().wallets).map(({ alias, address, version, network, createdAt }) => ({
+      alias,
+      address,
+      version,
+      network,
+      createdAt,
+    }));
+  }
+
+  get(alias: string): KeystoreWallet | undefined {
+    return this.list().find((wallet) => wallet.alias === alias);
+  }
+
+  /**
+   * Encrypt and store a mnemonic under an alias
+   */
+  async import(
+    alias: string,
+    mnemonic: string[],
+    passphrase: string,
+    meta: Pick<KeystoreEntry, "address" | "version" | "network">
+  ): Promise<KeystoreWallet> {
+    if (!ALIAS_PATTERN.test(alias) || alias.startsWith("wallet-")) {
+      throw new Error(`Invalid alias "${alias}": use 1-32 lowercase letters, digits, "-" or "_", not starting with "wallet-"`);
+    }
+    if (!passphrase) {
+      throw new Error("A passphrase is required");
+    }
+
+    const store = this.read();
+    if (store.wallets[alias]) {
+      throw new Error(`Alias already exists: ${alias}`);
+    }
+
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const key = await deriveKey(passphrase, salt, KDF_PARAMS);
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    const ciphertext = Buffer.concat([cipher.update(mnemonic.join(" "), "utf-8"), cipher.final()]);
+
+    const entry: KeystoreEntry = {
+      alias,
+      ...meta,
+      createdAt: new Date().toISOString(),
+      kdf: { name: "scrypt", ...KDF_PARAMS, salt: salt.toString("hex") },
+      cipher: {
+        name: "aes-256-gcm",
+        iv: iv.toString("hex"),
+        tag: cipher.getAuthTag().toString("hex"),
+        ciphertext: ciphertext.toString("hex"),
+      },
+    };
+
+    store.wallets[alias] = entry;
+    this.write(store);
+    return this.get(alias)!;
+  }
+
+  /**
+   * Decrypt a stored mnemonic (throws on a wrong passphrase)
+   */
+  async decrypt(alias: string, passphrase: string): Promise<string[]> {
+    const entry = this.read().wallets[alias];
+    if (!entry) {
+      throw new Error(`No wallet in keystore with alias: ${alias}`);
+    }
+
+    const { N, r, p, salt } = entry.kdf;
+    const key = await deriveKey(passphrase, Buffer.from(salt, "hex"), { N, r, p });
+    const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(entry.cipher.iv, "hex"));
+    decipher.setAuthTag(Buffer.from(entry.cipher.tag, "hex"));
+
+    try {
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(entry.cipher.ciphertext, "hex")),
+        decipher.final(),
+      ]);
+      return plaintext.toString("utf-8").split(" ");
+    } catch {
+      throw new Error(`Wrong passphrase for ${alias}`);
+    }
+  }
+
+  private read(): KeystoreFile {
+    if (!fs.existsSync(this.filePath)) {
+      return { version: 1, wallets: {} };
+    }
+    return JSON.parse(fs.readFileSync(this.filePath, "utf-8")) as KeystoreFile;
+  }
+
+  private write(store: KeystoreFile): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    // Write-then-rename so a crash never leaves a truncated keystore
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(store, null, 2), { mode: 0o600 });
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: { N: number; r: number; p: number }): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, 32, { ...params, maxmem: 128 * params.N * params.r * 2 }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+// Singleton instance
+let keystoreInstance: Keystore | null = null;
+
+export function getKeystore(): Keystore {
+  if (!keystoreInstance) {
+    keystoreInstance = new Keystore(
+      path.resolve(process.cwd(), process.env.KEYSTORE_PATH ?? ".clawmasutra/keystore.json")
+    );
+  }
+  return keystoreInstance;
+}
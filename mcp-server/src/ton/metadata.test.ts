@@ -0,0 +1,100 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { createHash } from "crypto";
+import { Dictionary, beginCell } from "@ton/core";
+
+import { MetadataResolver, createStaticMetadataFetcher, httpMetadataFetcher } from "./metadata.js";
+
+function offchain(uri: string) {
+  return beginCell().storeUint(1, 8).storeStringTail(uri).endCell();
+}
+
+function onchain(fields: Record<string, string>) {
+  const dict = Dictionary.empty(Dictionary.Keys.BigUint(256), Dictionary.Values.Cell());
+  for (const [key, value] of Object.entries(fields)) {
+    const hash = BigInt(`0x${createHash("sha256").update(key).digest("hex")}`);
+    dict.set(hash, beginCell().storeUint(0, 8).storeStringTail(value).endCell());
+  }
+  return beginCell().storeUint(0, 8).storeDict(dict).endCell();
+}
+
+describe("Metadata Resolver", () => {
+  it("should fetch off-chain metadata once per content cell", async () => {
+    let fetches = 0;
+    const fixtures = createStaticMetadataFetcher({
+      "https://example.com/scale.json": { name: "Scale", symbol: "SCALE", decimals: "9", image: "ipfs://img" },
+    });
+    const resolver = new MetadataResolver(async (uri) => {
+      fetches++;
+      return fixtures(uri);
+    });
+
+    const first = await resolver.resolve(offchain("https://example.com/scale.json"));
+    const again = await resolver.resolve(offchain("https://example.com/scale.json"));
+
+    assert.strictEqual(first.layout, "offchain");
+    assert.strictEqual(first.symbol, "SCALE");
+    assert.strictEqual(first.decimals, 9);
+    assert.strictEqual(again, first);
+    assert.strictEqual(fetches, 1);
+  });
+
+  it("should read on-chain metadata without fetching", async () => {
+    const resolver = new MetadataResolver(async () => {
+      throw new Error("should not fetch");
+    });
+    const metadata = await resolver.resolve(onchain({ name: "Tether USD", symbol: "USD₮", decimals: "6" }));
+
+    assert.strictEqual(metadata.layout, "onchain");
+    assert.strictEqual(metadata.name, "Tether USD");
+    assert.strictEqual(metadata.symbol, "USD₮");
+    assert.strictEqual(metadata.decimals, 6);
+  });
+
+  it("should let on-chain fields override semi-chain JSON", async () => {
+    const resolver = new MetadataResolver(createStaticMetadataFetcher({
+      "ipfs://meta": { name: "Off-chain name", description: "From JSON" },
+    }));
+    const metadata = await resolver.resolve(onchain({ uri: "ipfs://meta", name: "On-chain name" }));
+
+    assert.strictEqual(metadata.layout, "semichain");
+    assert.strictEqual(metadata.name, "On-chain name");
+    assert.strictEqual(metadata.description, "From JSON");
+  });
+
+  it("should report failed fetches without caching them", async () => {
+    let fail = true;
+    const resolver = new MetadataResolver(async () => {
+      if (fail) throw new Error("offline");
+      return { name: "Back online" };
+    });
+    const content = offchain("https://example.com/flaky.json");
+
+    const failed = await resolver.resolve(content);
+    assert.strictEqual(failed.fetchError, "offline");
+    assert.strictEqual(failed.uri, "https://example.com/flaky.json");
+
+    fail = false;
+    assert.strictEqual((await resolver.resolve(content)).name, "Back online");
+  });
+});
+
+describe("HTTP Metadata Fetcher", () => {
+  it("should only fetch over HTTPS", async () => {
+    await assert.rejects(httpMetadataFetcher("http://example.com/meta.json"), /Unsupported metadata URI/);
+    await assert.rejects(httpMetadataFetcher("file:///etc/passwd"), /Unsupported metadata URI/);
+  });
+
+  it("should refuse private, loopback and link-local hosts", async () => {
+    for (const uri of [
+      "https://127.0.0.1/meta.json",
+      "https://10.1.2.3/meta.json",
+      "https://169.254.169.254/latest/meta-data",
+      "https://[::1]/meta.json",
+      "https://[::ffff:127.0.0.1]/meta.json",
+      "https://localhost/meta.json",
+    ]) {
+      await assert.rejects(httpMetadataFetcher(uri), /not a public address/, uri);
+    }
+  });
+});
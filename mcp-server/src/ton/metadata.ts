@@ -0,0 +1,255 @@
+/**
+ * Token Metadata - TEP-64 Resolution for Jettons and NFTs
+ *
+ * Content cells are parsed locally; off-chain JSON is loaded through a
+ * pluggable fetcher (HTTPS by default, replaceable with a stub for offline
+ * runs). Resolved metadata is cached per content cell hash.
+ */
+
+import * as fs from "fs";
+import * as dns from "dns";
+import * as https from "https";
+import { BlockList, LookupFunction, isIP } from "net";
+import { Cell } from "@ton/core";
+import { ContentCell, parseContentCell } from "./content.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MetadataFetcher = (uri: string) => Promise<Record<string, unknown>>;
+
+export interface TokenMetadata {
+  layout: ContentCell["layout"];
+  uri?: string;
+  name?: string;
+  symbol?: string;
+  description?: string;
+  image?: string;
+  decimals?: number;
+  attributes?: unknown;
+  fields: Record<string, unknown>; // everything that was found, merged
+  fetchError?: string;
+}
+
+const DEFAULT_IPFS_GATEWAY = "https://ipfs.io/ipfs/";
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_METADATA_BYTES = 256 * 1024;
+const MAX_REDIRECTS = 3;
+const MAX_CACHE_ENTRIES = 500;
+
+// Metadata URIs come from arbitrary contracts, so they may only reach
+// public hosts: no private, loopback, link-local or otherwise special ranges
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], ["::ffff:0:0", 96], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv6");
+}
+
+// ============================================================================
+// Fetchers
+// ============================================================================
+
+/**
+ * Load JSON over HTTPS from public hosts, mapping ipfs:// through a
+ * gateway. Redirects are followed a few times and checked the same way.
+ */
+export const httpMetadataFetcher: MetadataFetcher = async (uri) => {
+  const gateway = process.env.IPFS_GATEWAY ?? DEFAULT_IPFS_GATEWAY;
+  const url = uri.startsWith("ipfs://") ? gateway + uri.slice("ipfs://".length) : uri;
+  if (!url.startsWith("https://")) {
+    throw new Error(`Unsupported metadata URI: ${uri}`);
+  }
+
+  const body = await fetchPublic(new URL(url), MAX_REDIRECTS, AbortSignal.timeout(FETCH_TIMEOUT_MS));
+  try {
+    return JSON.parse(body) as Record<string, unknown>;
+  } catch {
+    throw new Error("Metadata is not valid JSON");
+  }
+};
+
+function isNonPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  return family === 0 || NON_PUBLIC.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * DNS lookup that fails for hosts resolving to non-public addresses. It
+ * runs as the socket connects, so the checked address is the one used.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "", 0);
+      return;
+    }
+    const blocked = addresses.find(({ address }) => isNonPublicAddress(address));
+    if (blocked || addresses.length === 0) {
+      callback(new Error(`Refusing to fetch metadata from ${hostname}: not a public address`), "", 0);
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+function fetchPublic(url: URL, redirectsLeft: number, signal: AbortSignal): Promise<string> {
+  // IP literals skip the lookup, so check them here
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) && isNonPublicAddress(host)) {
+    return Promise.reject(new Error(`Refusing to fetch metadata from ${host}: not a public address`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = https.get(url, { lookup: publicLookup, signal, headers: { accept: "application/json" } }, (response) => {
+      const status = response.statusCode ?? 0;
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.resume();
+        const next = new URL(location, url);
+        if (redirectsLeft <= 0 || next.protocol !== "https:") {
+          reject(new Error(`Metadata fetch failed: redirect to ${next.protocol}//${next.host} not followed`));
+        } else {
+          resolve(fetchPublic(next, redirectsLeft - 1, signal));
+        }
+        return;
+      }
+      if (status < 200 || status >= 300) {
+        response.resume();
+        reject(new Error(`Metadata fetch failed: HTTP ${status}`));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_METADATA_BYTES) {
+          request.destroy(new Error(`Metadata is larger than ${MAX_METADATA_BYTES} bytes`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+      response.on("error", reject);
+    });
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Serve metadata from a fixed { uri: json } map, e.g. for offline runs
+ */
+export function createStaticMetadataFetcher(records: Record<string, Record<string, unknown>>): MetadataFetcher {
+  return async (uri) => {
+    const record = records[uri];
+    if (!record) throw new Error(`No metadata fixture for ${uri}`);
+    return record;
+  };
+}
+
+/**
+ * Static fetcher backed by a JSON file of { uri: json }
+ */
+export function loadMetadataFixtures(filePath: string): MetadataFetcher {
+  return createStaticMetadataFetcher(JSON.parse(fs.readFileSync(filePath, "utf-8")));
+}
+
+// ============================================================================
+// Resolver
+// ============================================================================
+
+export class MetadataResolver {
+  private fetcher: MetadataFetcher;
+  private cache: Map<string, TokenMetadata> = new Map();
+
+  constructor(fetcher: MetadataFetcher = httpMetadataFetcher) {
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * Swap the off-chain fetcher (clears the cache)
+   */
+  setFetcher(fetcher: MetadataFetcher): void {
+    this.fetcher = fetcher;
+    this.cache.clear();
+  }
+
+  /**
+   * Metadata of a content cell. Failed fetches are reported but not
+   * cached, so they are retried on the next call.
+   */
+  async resolve(content: Cell): Promise<TokenMetadata> {
+    const key = content.hash().toString("hex");
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const metadata = await this.load(parseContentCell(content));
+    if (!metadata.fetchError) {
+      if (this.cache.size >= MAX_CACHE_ENTRIES) {
+        this.cache.delete(this.cache.keys().next().value!);
+      }
+      this.cache.set(key, metadata);
+    }
+    return metadata;
+  }
+
+  private async load(content: ContentCell): Promise<TokenMetadata> {
+    if (content.layout === "unknown") {
+      return { layout: "unknown", fields: {} };
+    }
+
+    const onchain: Record<string, unknown> = content.layout === "offchain" ? {} : content.fields;
+    const uri = content.layout === "onchain" ? undefined : content.uri;
+
+    let offchain: Record<string, unknown> = {};
+    let fetchError: string | undefined;
+    if (uri) {
+      try {
+        offchain = await this.fetcher(uri);
+      } catch (error) {
+        fetchError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    // TEP-64: on-chain values take precedence over the off-chain JSON
+    const fields = { ...offchain, ...onchain };
+    const decimals = fields.decimals !== undefined ? Number(fields.decimals) : undefined;
+
+    return {
+      layout: content.layout,
+      uri,
+      name: stringField(fields.name),
+      symbol: stringField(fields.symbol),
+      description: stringField(fields.description),
+      image: stringField(fields.image),
+      decimals: Number.isInteger(decimals) ? decimals : undefined,
+      attributes: fields.attributes,
+      fields,
+      fetchError,
+    };
+  }
+}
+
+function stringField(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+// Singleton instance
+let resolverInstance: MetadataResolver | null = null;
+
+export function getMetadataResolver(): MetadataResolver {
+  if (!resolverInstance) {
+    resolverInstance = new MetadataResolver();
+  }
+  return resolverInstance;
+}
@@ -0,0 +1,100 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { Address } from "@ton/core";
+
+import { FailoverClient, RateLimiter, Upstream, isRetryable } from "./rpc.js";
+import { loadRpcConfig, type TonApi } from "./client.js";
+
+const ADDRESS = new Address(0, Buffer.alloc(32, 1));
+const RETRY = { retries: 2, backoffMs: 1, cooldownMs: 60_000 };
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`Request failed with status code ${status}`), { response: { status } });
+}
+
+function upstream(name: string, balances: Array<bigint | Error>): Upstream & { calls: number } {
+  const entry = {
+    name,
+    calls: 0,
+    limiter: new RateLimiter(1000),
+    api: {
+      getBalance: async () => {
+        const next = balances[Math.min(entry.calls++, balances.length - 1)];
+        if (next instanceof Error) throw next;
+        return next;
+      },
+    } as unknown as TonApi,
+  };
+  return entry;
+}
+
+describe("TON RPC Failover", () => {
+  it("should move to the next endpoint when one is rate limited", async () => {
+    const primary = upstream("primary", [httpError(429)]);
+    const fallback = upstream("fallback", [5n]);
+    const client = new FailoverClient([primary, fallback], RETRY);
+
+    assert.strictEqual(await client.getBalance(ADDRESS), 5n);
+    assert.strictEqual(await client.getBalance(ADDRESS), 5n);
+    assert.strictEqual(primary.calls, 1, "The failing endpoint cools down");
+    assert.strictEqual(fallback.calls, 2);
+  });
+
+  it("should retry a single endpoint with backoff, then give up", async () => {
+    const flaky = upstream("flaky", [httpError(502), 7n]);
+    assert.strictEqual(await new FailoverClient([flaky], RETRY).getBalance(ADDRESS), 7n);
+
+    const down = upstream("down", [Object.assign(new Error("socket hang up"), { code: "ECONNRESET" })]);
+    await assert.rejects(new FailoverClient([down], RETRY).getBalance(ADDRESS), /socket hang up \(down, 3 attempts\)/);
+    assert.strictEqual(down.calls, 3);
+  });
+
+  it("should return request errors without retrying", async () => {
+    const primary = upstream("primary", [httpError(400)]);
+    const fallback = upstream("fallback", [5n]);
+
+    await assert.rejects(new FailoverClient([primary, fallback], RETRY).getBalance(ADDRESS), /status code 400/);
+    assert.strictEqual(fallback.calls, 0);
+    assert.ok(!isRetryable(new Error("Unable to execute get method. Got exit_code: 11")));
+  });
+
+  it("should space calls to the endpoint's rate", async () => {
+    const limiter = new RateLimiter(20);
+    const started = Date.now();
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+    assert.ok(Date.now() - started >= 90, "Third call waits two 50ms slots");
+  });
+});
+
+describe("TON RPC Configuration", () => {
+  it("should default to toncenter with a v4 fallback at the keyless rate", () => {
+    const { endpoints, retry } = loadRpcConfig("testnet", {});
+    assert.deepStrictEqual(
+      endpoints.map(({ kind, rps }) => [kind, rps]),
+      [
+        ["toncenter", 1],
+        ["v4", 10],
+      ]
+    );
+    assert.strictEqual(retry.retries, 3);
+  });
+
+  it("should read endpoints, API keys and limits per network", () => {
+    const env = {
+      TON_MAINNET_RPC: "https://rpc.example/jsonRPC, v4:https://v4.example",
+      TON_MAINNET_API_KEY: "mainnet-key",
+      TONCENTER_API_KEY: "shared-key",
+      TON_RPC_RETRIES: "5",
+    };
+    const mainnet = loadRpcConfig("mainnet", env);
+    assert.deepStrictEqual(mainnet.endpoints, [
+      { kind: "toncenter", url: "https://rpc.example/jsonRPC", apiKey: "mainnet-key", rps: 10 },
+      { kind: "v4", url: "https://v4.example", rps: 10 },
+    ]);
+    assert.strictEqual(mainnet.retry.retries, 5);
+    assert.strictEqual(loadRpcConfig("testnet", env).endpoints[0].apiKey, "shared-key");
+
+    assert.throws(() => loadRpcConfig("mainnet", { TON_MAINNET_RPC: "rpc.example" }), /Invalid TON_MAINNET_RPC/);
+    assert.throws(() => loadRpcConfig("mainnet", { TON_RPC_RPS: "0" }), /Invalid TON_RPC_RPS/);
+  });
+});
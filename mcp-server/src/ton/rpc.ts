@@ -0,0 +1,316 @@
+/**
+ * TON RPC - Providers, Failover, Retries and Rate Limits
+ *
+ * A network is served by a list of RPC endpoints: toncenter v2 (jsonRPC)
+ * or TonClient4 (v4 HTTP API). Calls go to the first healthy endpoint,
+ * within that endpoint's request rate; rate limits, timeouts and server
+ * errors move the call to the next endpoint, or back off and retry once
+ * every endpoint has failed. Errors the request itself caused (a bad
+ * address, a failing get method) are returned at once.
+ */
+
+import { TonClient, TonClient4 } from "@ton/ton";
+import {
+  Address,
+  Cell,
+  Contract,
+  ContractProvider,
+  ContractState,
+  Sender,
+  StateInit,
+  Transaction,
+  TupleItem,
+  TupleReader,
+  openContract,
+} from "@ton/core";
+import type { TonApi } from "./client.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RpcKind = "toncenter" | "v4";
+
+export interface RpcEndpoint {
+  kind: RpcKind;
+  url: string;
+  apiKey?: string; // toncenter only
+  rps: number; // requests per second
+}
+
+export interface RetryOptions {
+  retries: number; // extra attempts after the first
+  backoffMs: number; // first backoff, doubled per attempt
+  cooldownMs: number; // how long a failing endpoint is skipped
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  backoffMs: 500,
+  cooldownMs: 30_000,
+};
+
+// Transport errors worth another attempt
+const RETRYABLE_CODES = new Set([
+  "ECONNABORTED",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ERR_NETWORK",
+]);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// ============================================================================
+// Rate Limiting
+// ============================================================================
+
+/**
+ * Spaces calls evenly at `rps` per second; callers wait their turn
+ */
+export class RateLimiter {
+  private next = 0;
+
+  constructor(private rps: number) {}
+
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const at = Math.max(now, this.next);
+    this.next = at + 1000 / this.rps;
+    if (at > now) {
+      await sleep(at - now);
+    }
+  }
+}
+
+/**
+ * Whether a failed call may succeed on another attempt: rate limits,
+ * server errors and transport failures, but not rejected requests
+ */
+export function isRetryable(error: unknown): boolean {
+  const { response, code } = (error ?? {}) as { response?: { status?: number }; code?: string };
+  if (response?.status !== undefined) {
+    return response.status === 429 || response.status >= 500;
+  }
+  return code !== undefined && RETRYABLE_CODES.has(code);
+}
+
+// ============================================================================
+// TonClient4 Adapter
+// ============================================================================
+
+/**
+ * The TonClient calls tools make, answered by a v4 HTTP API endpoint.
+ * Reads run against the latest masterchain block.
+ */
+class V4Client implements TonApi {
+  constructor(private client: TonClient4) {}
+
+  private async seqno(): Promise<number> {
+    return (await this.client.getLastBlock()).last.seqno;
+  }
+
+  async getBalance(address: Address): Promise<bigint> {
+    const { account } = await this.client.getAccountLite(await this.seqno(), address);
+    return BigInt(account.balance.coins);
+  }
+
+  async getContractState(address: Address): ReturnType<TonApi["getContractState"]> {
+    const last = await this.client.getLastBlock();
+    const { account, block } = await this.client.getAccount(last.last.seqno, address);
+    const currencies = Object.entries(account.balance.currencies);
+    return {
+      balance: BigInt(account.balance.coins),
+      extra_currencies: currencies.length
+        ? currencies.map(([id, amount]) => ({ "@type": "extraCurrency" as const, id: Number(id), amount }))
+        : undefined,
+      state: account.state.type === "uninit" ? "uninitialized" : account.state.type,
+      code: account.state.type === "active" && account.state.code ? Buffer.from(account.state.code, "base64") : null,
+      data: account.state.type === "active" && account.state.data ? Buffer.from(account.state.data, "base64") : null,
+      lastTransaction: account.last,
+      blockId: { workchain: block.workchain, shard: block.shard, seqno: block.seqno },
+      timestampt: last.now,
+    };
+  }
+
+  async runMethod(address: Address, name: string, stack: TupleItem[] = []): Promise<{ gas_used: number; stack: TupleReader }> {
+    const result = await this.client.runMethod(await this.seqno(), address, name, stack);
+    if (result.exitCode !== 0 && result.exitCode !== 1) {
+      throw new Error(`Unable to execute get method. Got exit_code: ${result.exitCode}`);
+    }
+    // The v4 API does not report gas
+    return { gas_used: 0, stack: result.reader };
+  }
+
+  /**
+   * Newest first; lt/hash (base64, as for toncenter) start after that
+   * transaction unless inclusive
+   */
+  async getTransactions(
+    address: Address,
+    opts: { limit: number; lt?: string; hash?: string; to_lt?: string; inclusive?: boolean }
+  ): Promise<Transaction[]> {
+    let lt: bigint;
+    let hash: Buffer;
+    let skip = 0;
+    if (opts.lt !== undefined && opts.hash !== undefined) {
+      lt = BigInt(opts.lt);
+      hash = Buffer.from(opts.hash, "base64");
+      skip = opts.inclusive ? 0 : 1;
+    } else {
+      const { account } = await this.client.getAccountLite(await this.seqno(), address);
+      if (!account.last) return [];
+      lt = BigInt(account.last.lt);
+      hash = Buffer.from(account.last.hash, "base64");
+    }
+    const toLt = opts.to_lt !== undefined ? BigInt(opts.to_lt) : 0n;
+
+    const transactions: Transaction[] = [];
+    while (transactions.length < opts.limit && lt > toLt) {
+      const batch = (await this.client.getAccountTransactions(address, lt, hash)).map(({ tx }) => tx);
+      if (batch.length === 0) break;
+      for (const tx of batch.slice(skip)) {
+        if (tx.lt <= toLt || transactions.length >= opts.limit) break;
+        transactions.push(tx);
+      }
+      skip = 0;
+      const oldest = batch[batch.length - 1];
+      lt = oldest.prevTransactionLt;
+      hash = Buffer.from(oldest.prevTransactionHash.toString(16).padStart(64, "0"), "hex");
+    }
+    return transactions;
+  }
+
+  provider(address: Address, init?: StateInit | null): ContractProvider {
+    return this.client.provider(address, init);
+  }
+}
+
+// ============================================================================
+// Failover Client
+// ============================================================================
+
+export interface Upstream {
+  name: string; // endpoint URL, for errors
+  api: TonApi;
+  limiter: RateLimiter;
+  failedUntil?: number; // skipped until then
+}
+
+export function createUpstream(endpoint: RpcEndpoint): Upstream {
+  const api =
+    endpoint.kind === "v4"
+      ? new V4Client(new TonClient4({ endpoint: endpoint.url }))
+      : new TonClient({ endpoint: endpoint.url, apiKey: endpoint.apiKey });
+  return { name: endpoint.url, api, limiter: new RateLimiter(endpoint.rps) };
+}
+
+/**
+ * A TonApi over several endpoints, tried in order
+ */
+export class FailoverClient implements TonApi {
+  constructor(
+    readonly upstreams: Upstream[],
+    private options: RetryOptions = DEFAULT_RETRY_OPTIONS
+  ) {
+    if (upstreams.length === 0) {
+      throw new Error("At least one RPC endpoint is required");
+    }
+  }
+
+  /**
+   * First endpoint not cooling down, else the one that recovers soonest
+   */
+  private pick(): Upstream {
+    const now = Date.now();
+    return (
+      this.upstreams.find((upstream) => (upstream.failedUntil ?? 0) <= now) ??
+      this.upstreams.reduce((a, b) => ((a.failedUntil ?? 0) <= (b.failedUntil ?? 0) ? a : b))
+    );
+  }
+
+  async call<T>(fn: (api: TonApi) => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const upstream = this.pick();
+      await upstream.limiter.acquire();
+      try {
+        const result = await fn(upstream.api);
+        upstream.failedUntil = undefined;
+        return result;
+      } catch (error) {
+        if (!isRetryable(error)) throw error;
+        if (attempt >= this.options.retries) {
+          const message = error instanceof Error ? error.message : String(error);
+          throw new Error(`${message} (${upstream.name}, ${attempt + 1} attempts)`, { cause: error });
+        }
+        upstream.failedUntil = Date.now() + this.options.cooldownMs;
+        // Back off only once every endpoint has failed
+        if (this.upstreams.every((other) => (other.failedUntil ?? 0) > Date.now())) {
+          await sleep(this.options.backoffMs * 2 ** attempt);
+        }
+      }
+    }
+  }
+
+  getBalance(address: Address): Promise<bigint> {
+    return this.call((api) => api.getBalance(address));
+  }
+
+  getContractState(address: Address): ReturnType<TonApi["getContractState"]> {
+    return this.call((api) => api.getContractState(address));
+  }
+
+  runMethod(address: Address, name: string, stack?: TupleItem[]): Promise<{ gas_used: number; stack: TupleReader }> {
+    return this.call((api) => api.runMethod(address, name, stack));
+  }
+
+  getTransactions(address: Address, opts: Parameters<TonApi["getTransactions"]>[1]): Promise<Transaction[]> {
+    return this.call((api) => api.getTransactions(address, opts));
+  }
+
+  provider(address: Address, init?: StateInit | null): ContractProvider {
+    return new FailoverProvider(this, address, init ?? null);
+  }
+}
+
+/**
+ * Contract provider whose calls fail over like the client's. Resending an
+ * external message is safe: the wallet's seqno rejects duplicates.
+ */
+class FailoverProvider implements ContractProvider {
+  constructor(
+    private client: FailoverClient,
+    private address: Address,
+    private init: StateInit | null
+  ) {}
+
+  private call<T>(fn: (provider: ContractProvider) => Promise<T>): Promise<T> {
+    return this.client.call((api) => fn(api.provider(this.address, this.init)));
+  }
+
+  getState(): Promise<ContractState> {
+    return this.call((provider) => provider.getState());
+  }
+
+  get(name: string | number, args: TupleItem[]) {
+    return this.call((provider) => provider.get(name, args));
+  }
+
+  external(message: Cell): Promise<void> {
+    return this.call((provider) => provider.external(message));
+  }
+
+  internal(via: Sender, args: Parameters<ContractProvider["internal"]>[1]): Promise<void> {
+    return this.call((provider) => provider.internal(via, args));
+  }
+
+  open<T extends Contract>(contract: T) {
+    return openContract(contract, (params) => this.client.provider(params.address, params.init));
+  }
+
+  getTransactions(address: Address, lt: bigint, hash: Buffer, limit?: number): Promise<Transaction[]> {
+    return this.call((provider) => provider.getTransactions(address, lt, hash, limit));
+  }
+}
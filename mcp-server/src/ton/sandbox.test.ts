@@ -0,0 +1,111 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { Address, internal, toNano } from "@ton/core";
+import { keyPairFromSeed } from "@ton/crypto";
+
+import { SandboxNetwork } from "./sandbox.js";
+import { WalletEntry, createWalletContract, getSeqno, sendTransfer } from "./wallet-registry.js";
+import { fetchHistory } from "./history.js";
+
+const START = 1_700_000_000;
+const RECIPIENT = new Address(0, Buffer.alloc(32, 7));
+
+function wallet(sandbox: SandboxNetwork, seed: number): WalletEntry {
+  const keyPair = keyPairFromSeed(Buffer.alloc(32, seed));
+  const contract = createWalletContract("v4", keyPair.publicKey, "sandbox");
+  return {
+    id: `sandbox-${seed}`,
+    version: "v4",
+    network: "sandbox",
+    address: contract.address.toString(),
+    contract,
+    keyPair,
+    client: sandbox.client,
+    connectedAt: new Date(),
+  };
+}
+
+describe("Sandbox Network", () => {
+  it("should fund a fresh wallet and send from it with real signatures", async () => {
+    const sandbox = new SandboxNetwork(START);
+    const sender = wallet(sandbox, 1);
+
+    await sandbox.fund(sender.contract.address, toNano("10"));
+    const funded = await sandbox.client.getContractState(sender.contract.address);
+    assert.strictEqual(funded.state, "uninitialized");
+    assert.strictEqual(funded.balance, toNano("10"));
+
+    // The first external message deploys the wallet and is executed at once
+    await sendTransfer(sender, await getSeqno(sender), [internal({ to: RECIPIENT, value: toNano("2"), bounce: false })]);
+    assert.strictEqual((await sandbox.client.getContractState(sender.contract.address)).state, "active");
+    assert.strictEqual(await getSeqno(sender), 1);
+    assert.strictEqual(await sandbox.client.getBalance(RECIPIENT), toNano("2"));
+
+    const balance = await sandbox.client.getBalance(sender.contract.address);
+    assert.ok(balance < toNano("8") && balance > toNano("7.9"), "Should pay value plus fees");
+  });
+
+  it("should list transactions newest first and page with toncenter cursors", async () => {
+    const sandbox = new SandboxNetwork(START);
+    const sender = wallet(sandbox, 1);
+    await sandbox.fund(sender.contract.address, toNano("10"));
+    for (let seqno = 0; seqno < 3; seqno++) {
+      await sendTransfer(sender, seqno, [internal({ to: RECIPIENT, value: toNano("1"), bounce: false })]);
+    }
+
+    const all = await sandbox.client.getTransactions(sender.contract.address, { limit: 10 });
+    assert.strictEqual(all.length, 4);
+    assert.ok(all[0].lt > all[1].lt, "Newest first");
+
+    const after = await sandbox.client.getTransactions(sender.contract.address, {
+      limit: 10,
+      lt: all[1].lt.toString(),
+      hash: all[1].hash().toString("base64"),
+    });
+    assert.deepStrictEqual(after.map((tx) => tx.lt), [all[2].lt, all[3].lt]);
+
+    const page = await fetchHistory((opts) => sandbox.client.getTransactions(sender.contract.address, opts), {
+      limit: 10,
+      direction: "out",
+    });
+    assert.strictEqual(page.transactions.length, 3);
+    assert.strictEqual(page.nextCursor, null);
+  });
+
+  it("should keep time still until it is moved, and only forward", async () => {
+    const sandbox = new SandboxNetwork(START);
+    const sender = wallet(sandbox, 1);
+
+    await sandbox.fund(sender.contract.address, toNano("10"));
+    await sandbox.setTime(START + 3600);
+    await sandbox.fund(sender.contract.address, toNano("1"));
+
+    const [latest, first] = await sandbox.client.getTransactions(sender.contract.address, { limit: 10 });
+    assert.strictEqual(first.now, START);
+    assert.strictEqual(latest.now, START + 3600);
+    await assert.rejects(sandbox.setTime(START), /only move forward/);
+  });
+
+  it("should deploy contracts from code and data and run their getters", async () => {
+    const sandbox = new SandboxNetwork(START);
+    const { init } = wallet(sandbox, 2).contract;
+
+    const { address } = await sandbox.deploy(init.code, init.data, toNano("1"));
+    assert.strictEqual((await sandbox.client.getContractState(address)).state, "active");
+
+    const { stack } = await sandbox.client.runMethod(address, "seqno");
+    assert.strictEqual(stack.readNumber(), 0);
+  });
+
+  it("should start over on reset", async () => {
+    const sandbox = new SandboxNetwork(START);
+    const sender = wallet(sandbox, 1);
+    await sandbox.setTime(START + 60);
+    await sandbox.fund(sender.contract.address, toNano("10"));
+
+    sandbox.reset();
+    assert.strictEqual(sandbox.now(), START);
+    assert.strictEqual(await sandbox.client.getBalance(sender.contract.address), 0n);
+    assert.deepStrictEqual(await sandbox.client.getTransactions(sender.contract.address, { limit: 10 }), []);
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Sandbox Network - In-Process Emulated Blockchain
+ *
+ * The "sandbox" network runs on @ton/sandbox instead of toncenter, so
+ * sessions can rehearse real sends without touching testnet. Wallets are
+ * funded from a built-in treasury, contracts can be deployed from code
+ * and data, and time only moves when told to.
+ */
+
+import type { Blockchain, SandboxContract, TreasuryContract } from "@ton/sandbox";
+import {
+  Address,
+  Cell,
+  Contract,
+  ContractProvider,
+  ContractState,
+  Message,
+  Sender,
+  StateInit,
+  Transaction,
+  TupleItem,
+  TupleReader,
+  contractAddress,
+  openContract,
+} from "@ton/core";
+import type { TonApi } from "./client.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SandboxSendResult {
+  transactions: Transaction[];
+}
+
+const TREASURY_SEED = "clawmasutra";
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * The TonClient calls tools make, answered by the emulated chain
+ */
+class SandboxClient implements TonApi {
+  constructor(private sandbox: SandboxNetwork) {}
+
+  async getBalance(address: Address): Promise<bigint> {
+    const chain = await this.sandbox.blockchain();
+    return (await chain.getContract(address)).balance;
+  }
+
+  async getContractState(address: Address): ReturnType<TonApi["getContractState"]> {
+    const chain = await this.sandbox.blockchain();
+    const { balance, last, state } = await chain.provider(address).getState();
+    return {
+      balance,
+      extra_currencies: undefined,
+      state: state.type === "uninit" ? "uninitialized" : state.type,
+      code: state.type === "active" ? state.code ?? null : null,
+      data: state.type === "active" ? state.data ?? null : null,
+      lastTransaction: last ? { lt: last.lt.toString(), hash: last.hash.toString("base64") } : null,
+      blockId: { workchain: -1, shard: "-9223372036854775808", seqno: 0 },
+      timestampt: this.sandbox.now(),
+    };
+  }
+
+  async runMethod(address: Address, name: string, stack: TupleItem[] = []): Promise<{ gas_used: number; stack: TupleReader }> {
+    const chain = await this.sandbox.blockchain();
+    const result = await chain.runGetMethod(address, name, stack);
+    return { gas_used: Number(result.gasUsed), stack: result.stackReader };
+  }
+
+  /**
+   * Newest first; lt/hash (base64, as for toncenter) start after that
+   * transaction unless inclusive
+   */
+  async getTransactions(
+    address: Address,
+    opts: { limit: number; lt?: string; hash?: string; to_lt?: string; inclusive?: boolean }
+  ): Promise<Transaction[]> {
+    let transactions = await this.sandbox.transactions(address);
+    if (opts.lt !== undefined && opts.hash !== undefined) {
+      const index = transactions.findIndex(
+        (tx) => tx.lt.toString() === opts.lt && tx.hash().toString("base64") === opts.hash
+      );
+      if (index < 0) {
+        throw new Error(`Transaction not found: ${opts.lt}:${opts.hash}`);
+      }
+      transactions = transactions.slice(opts.inclusive ? index : index + 1);
+    }
+    if (opts.to_lt !== undefined) {
+      const toLt = BigInt(opts.to_lt);
+      transactions = transactions.filter((tx) => tx.lt > toLt);
+    }
+    return transactions.slice(0, opts.limit);
+  }
+
+  provider(address: Address, init?: StateInit | null): ContractProvider {
+    return new SandboxProvider(this.sandbox, address, init ?? null);
+  }
+}
+
+/**
+ * Contract provider whose external messages are executed right away (the
+ * stock sandbox provider only queues them)
+ */
+class SandboxProvider implements ContractProvider {
+  constructor(
+    private sandbox: SandboxNetwork,
+    private address: Address,
+    private init: StateInit | null
+  ) {}
+
+  async getState(): Promise<ContractState> {
+    return (await this.sandbox.blockchain()).provider(this.address, this.init).getState();
+  }
+
+  async get(name: string | number, args: TupleItem[]) {
+    return (await this.sandbox.blockchain()).provider(this.address, this.init).get(name, args);
+  }
+
+  async external(body: Cell): Promise<void> {
+    const { state } = await this.getState();
+    await this.sandbox.send({
+      info: { type: "external-in", dest: this.address, importFee: 0n },
+      init: state.type !== "active" && this.init ? this.init : undefined,
+      body,
+    });
+  }
+
+  async internal(via: Sender, args: Parameters<ContractProvider["internal"]>[1]): Promise<void> {
+    await (await this.sandbox.blockchain()).provider(this.address, this.init).internal(via, args);
+  }
+
+  open<T extends Contract>(contract: T) {
+    return openContract(contract, (params) => this.sandbox.client.provider(params.address, params.init));
+  }
+
+  async getTransactions(address: Address, lt: bigint, hash: Buffer, limit?: number): Promise<Transaction[]> {
+    return this.sandbox.client.getTransactions(address, {
+      limit: limit ?? 100,
+      lt: lt.toString(),
+      hash: hash.toString("base64"),
+      inclusive: true,
+    });
+  }
+}
+
+// ============================================================================
+// Network
+// ============================================================================
+
+export class SandboxNetwork {
+  readonly client: TonApi = new SandboxClient(this);
+  private chain: Promise<Blockchain> | null = null;
+  private readonly startTime: number;
+  private time: number;
+
+  /**
+   * startTime pins the chain clock (unix seconds; default: now, or
+   * TON_SANDBOX_START_TIME)
+   */
+  constructor(startTime?: number) {
+    this.startTime = startTime ?? (Number(process.env.TON_SANDBOX_START_TIME) || Math.floor(Date.now() / 1000));
+    this.time = this.startTime;
+  }
+
+  /**
+   * The emulated chain, created on first use
+   */
+  blockchain(): Promise<Blockchain> {
+    if (!this.chain) {
+      const time = this.time;
+      // Loaded on first use: the emulator is only needed for sandbox runs
+      this.chain = import("@ton/sandbox").then(async ({ Blockchain }) => {
+        const chain = await Blockchain.create();
+        chain.now = time;
+        return chain;
+      });
+      // Let the next call retry if the emulator failed to load
+      this.chain.catch(() => {
+        this.chain = null;
+      });
+    }
+    return this.chain;
+  }
+
+  /**
+   * Drop every account and transaction; the clock goes back to its start
+   */
+  reset(): void {
+    this.chain = null;
+    this.time = this.startTime;
+  }
+
+  // --------------------------------------------------------------------------
+  // Time
+  // --------------------------------------------------------------------------
+
+  /**
+   * Chain time in unix seconds
+   */
+  now(): number {
+    return this.time;
+  }
+
+  /**
+   * Move the clock to a unix time (never backwards)
+   */
+  async setTime(now: number): Promise<number> {
+    if (!Number.isInteger(now) || now < this.time) {
+      throw new Error(`Sandbox time can only move forward (now: ${this.time}, requested: ${now})`);
+    }
+    const chain = await this.blockchain();
+    chain.now = now;
+    this.time = now;
+    return now;
+  }
+
+  // --------------------------------------------------------------------------
+  // Messages
+  // --------------------------------------------------------------------------
+
+  /**
+   * Execute a message and everything it triggers
+   */
+  async send(message: Message): Promise<SandboxSendResult> {
+    const result = await (await this.blockchain()).sendMessage(message);
+    return { transactions: result.transactions };
+  }
+
+  /**
+   * Send TON from the treasury (non-bounceable, so new wallets get funded)
+   */
+  async fund(address: Address, amount: bigint): Promise<SandboxSendResult> {
+    const treasury = await this.treasury();
+    const result = await treasury.send({ to: address, value: amount, bounce: false });
+    return { transactions: result.transactions };
+  }
+
+  /**
+   * Deploy a contract from its code and data, paying value from the treasury
+   */
+  async deploy(code: Cell, data: Cell, value: bigint, body?: Cell): Promise<SandboxSendResult & { address: Address }> {
+    const init = { code, data };
+    const address = contractAddress(0, init);
+    const treasury = await this.treasury();
+    const result = await treasury.send({ to: address, value, init, body, bounce: false });
+    return { address, transactions: result.transactions };
+  }
+
+  async treasury(): Promise<SandboxContract<TreasuryContract>> {
+    return (await this.blockchain()).treasury(TREASURY_SEED);
+  }
+
+  /**
+   * Transactions of an account, newest first
+   */
+  async transactions(address: Address): Promise<Transaction[]> {
+    const chain = await this.blockchain();
+    return chain
+      .snapshot()
+      .transactions.filter((tx) => {
+        const dest = tx.inMessage?.info.dest;
+        return Address.isAddress(dest) && dest.equals(address);
+      })
+      .reverse();
+  }
+}
+
+// Singleton instance
+let sandboxInstance: SandboxNetwork | null = null;
+
+export function getSandbox(): SandboxNetwork {
+  if (!sandboxInstance) {
+    sandboxInstance = new SandboxNetwork();
+  }
+  return sandboxInstance;
+}
@@ -0,0 +1,117 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { Address, internal, toNano } from "@ton/core";
+import { keyPairFromSeed } from "@ton/crypto";
+
+import { SandboxNetwork, getSandbox } from "./sandbox.js";
+import { TransactionTracker } from "./tracker.js";
+import { WalletEntry, createWalletContract, getSeqno, sendTransfer } from "./wallet-registry.js";
+
+const RECIPIENT = new Address(0, Buffer.alloc(32, 7));
+const OPTIONS = { pollMs: 5, graceSeconds: 30, deliveryTimeoutMs: 1000 };
+
+async function fundedWallet(sandbox: SandboxNetwork): Promise<WalletEntry> {
+  const keyPair = keyPairFromSeed(Buffer.alloc(32, 1));
+  const contract = createWalletContract("v4", keyPair.publicKey, "sandbox");
+  await sandbox.fund(contract.address, toNano("10"));
+  return {
+    id: "sandbox-1",
+    version: "v4",
+    network: "sandbox",
+    address: contract.address.toString(),
+    contract,
+    keyPair,
+    client: sandbox.client,
+    connectedAt: new Date(),
+  };
+}
+
+function trackerWithEvents() {
+  const tracker = new TransactionTracker(OPTIONS);
+  const statuses: unknown[] = [];
+  tracker.setGalleryEmitter((event) => statuses.push(event.data.status));
+  return { tracker, statuses };
+}
+
+const transfer = { kind: "ton" as const, to: RECIPIENT.toString(), amount: "1" };
+
+describe("Transaction Tracker", () => {
+  it("should follow a send until the destination accepts it", async () => {
+    const sandbox = new SandboxNetwork();
+    const wallet = await fundedWallet(sandbox);
+    const { tracker, statuses } = trackerWithEvents();
+
+    const sent = await sendTransfer(wallet, 0, [internal({ to: RECIPIENT, value: toNano("1"), bounce: false })]);
+    const tracked = await tracker.track(wallet, sent, transfer, { sessionId: "embrace-1", agentId: "agent-a" });
+
+    assert.strictEqual(tracked.status, "confirmed");
+    assert.match(tracked.hash!, /^[0-9a-f]{64}$/);
+    assert.deepStrictEqual(tracked.messages.map((message) => message.status), ["delivered"]);
+    assert.deepStrictEqual(statuses, ["pending", "sent", "confirmed"]);
+    assert.deepStrictEqual(tracker.list({ sessionId: "embrace-1" }).map((t) => t.id), [tracked.id]);
+    tracker.clear();
+  });
+
+  it("should report bounces from the destination", async () => {
+    const sandbox = new SandboxNetwork();
+    const wallet = await fundedWallet(sandbox);
+    const { tracker } = trackerWithEvents();
+
+    // Bounceable value to an account without code comes back
+    const sent = await sendTransfer(wallet, 0, [internal({ to: RECIPIENT, value: toNano("1"), bounce: true })]);
+    const tracked = await tracker.track(wallet, sent, transfer);
+
+    assert.strictEqual(tracked.status, "bounced");
+    assert.ok(tracked.reason?.startsWith(RECIPIENT.toString()));
+    tracker.clear();
+  });
+
+  it("should find a send buried behind later transactions", async () => {
+    const sandbox = new SandboxNetwork();
+    const wallet = await fundedWallet(sandbox);
+    const { tracker } = trackerWithEvents();
+
+    const sent = await sendTransfer(wallet, 0, [internal({ to: RECIPIENT, value: toNano("1"), bounce: false })]);
+    for (let i = 0; i < 25; i++) {
+      await sandbox.fund(wallet.contract.address, toNano("0.01"));
+    }
+    const tracked = await tracker.track(wallet, sent, transfer);
+
+    assert.strictEqual(tracked.status, "confirmed");
+    tracker.clear();
+  });
+
+  it("should emit each status once when polls overlap", async () => {
+    const sandbox = new SandboxNetwork();
+    const wallet = await fundedWallet(sandbox);
+    const { tracker, statuses } = trackerWithEvents();
+
+    const sent = await sendTransfer(wallet, 0, [internal({ to: RECIPIENT, value: toNano("1"), bounce: false })]);
+    const tracking = tracker.track(wallet, sent, transfer);
+    const [txId] = tracker.list().map((t) => t.id);
+    await Promise.all([tracking, tracker.poll(txId), tracker.wait(txId, 1000)]);
+
+    assert.deepStrictEqual(statuses, ["pending", "sent", "confirmed"]);
+    tracker.clear();
+  });
+
+  it("should expire messages the wallet never executed", async () => {
+    // Expiry is judged by the network's clock, i.e. the shared sandbox's
+    const sandbox = getSandbox();
+    sandbox.reset();
+    const wallet = await fundedWallet(sandbox);
+    const { tracker, statuses } = trackerWithEvents();
+
+    // A message that never made it into a transaction
+    const stale = { seqno: await getSeqno(wallet), bodyHash: "00".repeat(32), validUntil: sandbox.now() + 60 };
+    const tracked = await tracker.track(wallet, stale, transfer);
+    assert.strictEqual(tracked.status, "pending");
+
+    await sandbox.setTime(sandbox.now() + 120);
+    const settled = await tracker.wait(tracked.id, 1000);
+    assert.strictEqual(settled?.status, "expired");
+    assert.deepStrictEqual(statuses, ["pending", "expired"]);
+    tracker.clear();
+    sandbox.reset();
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Transaction Tracker - Following Sends Until They Land
+ *
+ * A send only hands a signed external message to the network. The
+ * tracker polls the wallet until the transaction carrying that message
+ * appears, then each destination until the outgoing messages are
+ * delivered, and settles on one outcome: confirmed, bounced, failed, or
+ * expired when the message was never executed. Every status change is
+ * mirrored to the gallery as a blockchain_tx event.
+ */
+
+import { Address, Transaction } from "@ton/core";
+import type { NewGalleryEvent } from "../orchestrator/types.js";
+import { Network, SentTransfer, WalletEntry, networkTime } from "./wallet-registry.js";
+import { decodeTransaction } from "./transactions.js";
+import type { TonApi } from "./client.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TrackedStatus = "pending" | "sent" | "confirmed" | "bounced" | "failed" | "expired";
+
+// Statuses that no longer change
+export const FINAL_STATUSES: TrackedStatus[] = ["confirmed", "bounced", "failed", "expired"];
+
+export interface TransferDetails {
+  kind: "ton" | "jetton" | "batch";
+  to: string; // "<n> recipients" for batches
+  amount: string; // TON (a batch's total), or jetton units
+  jetton?: string; // master address
+  comment?: string | null;
+}
+
+// An outgoing message of the wallet transaction, followed to its destination
+export interface TrackedMessage {
+  dest: string;
+  createdLt: string;
+  status: "pending" | "delivered" | "bounced" | "failed";
+  hash?: string; // destination transaction, hex
+  summary?: string;
+}
+
+export interface TrackedTransfer {
+  id: string;
+  status: TrackedStatus;
+  network: Network;
+  walletId: string;
+  from: string;
+  seqno: number;
+  validUntil: number; // unix seconds
+  transfer: TransferDetails;
+  sessionId?: string;
+  agentId?: string;
+  hash: string | null; // wallet transaction, hex
+  lt: string | null;
+  fees: string | null; // TON, of the wallet transaction
+  messages: TrackedMessage[];
+  reason?: string;
+  lastError?: string; // last polling failure, retried on the next poll
+  submittedAt: string; // ISO
+  updatedAt: string; // ISO
+}
+
+export interface TrackerOptions {
+  pollMs: number;
+  graceSeconds: number; // after validUntil before a missing transaction counts as expired
+  deliveryTimeoutMs: number; // background polling of deliveries stops after this
+}
+
+const DEFAULT_OPTIONS: TrackerOptions = {
+  pollMs: 3000,
+  graceSeconds: 30,
+  deliveryTimeoutMs: 120_000,
+};
+
+// Transactions read per request, and at most per account and poll
+const SCAN_LIMIT = 20;
+const MAX_SCAN = 1000;
+const MAX_TRACKED = 500;
+
+type GalleryEmitter = (event: NewGalleryEvent) => void;
+
+interface Entry {
+  record: TrackedTransfer;
+  bodyHash: string;
+  client: TonApi;
+  address: Address;
+  startedAt: number;
+  sentAt: number; // network time, unix seconds
+  scannedLt?: string; // wallet transactions up to here hold no match
+  polling?: Promise<void>;
+  timer?: NodeJS.Timeout;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// ============================================================================
+// Tracker
+// ============================================================================
+
+export class TransactionTracker {
+  private entries: Map<string, Entry> = new Map();
+  private galleryEmitter: GalleryEmitter | null = null;
+  private counter = 0;
+
+  constructor(private options: TrackerOptions = DEFAULT_OPTIONS) {}
+
+  setGalleryEmitter(emitter: GalleryEmitter): void {
+    this.galleryEmitter = emitter;
+  }
+
+  /**
+   * Start following a sent transfer. Checks once right away, so sends on
+   * the sandbox come back settled.
+   */
+  async track(
+    wallet: WalletEntry,
+    sent: SentTransfer,
+    transfer: TransferDetails,
+    scope: { sessionId?: string; agentId?: string } = {}
+  ): Promise<TrackedTransfer> {
+    const now = new Date().toISOString();
+    const record: TrackedTransfer = {
+      id: `tx-${Date.now()}-${++this.counter}`,
+      status: "pending",
+      network: wallet.network,
+      walletId: wallet.id,
+      from: wallet.address,
+      seqno: sent.seqno,
+      validUntil: sent.validUntil,
+      transfer,
+      sessionId: scope.sessionId,
+      agentId: scope.agentId,
+      hash: null,
+      lt: null,
+      fees: null,
+      messages: [],
+      submittedAt: now,
+      updatedAt: now,
+    };
+    this.entries.set(record.id, {
+      record,
+      bodyHash: sent.bodyHash,
+      client: wallet.client,
+      address: wallet.contract.address,
+      startedAt: Date.now(),
+      sentAt: networkTime(wallet.network),
+    });
+    this.prune();
+    this.emit(record);
+
+    await this.poll(record.id);
+    this.schedule(record.id);
+    return this.get(record.id)!;
+  }
+
+  get(id: string): TrackedTransfer | undefined {
+    const entry = this.entries.get(id);
+    return entry ? structuredClone(entry.record) : undefined;
+  }
+
+  /**
+   * Tracked transfers, newest first
+   */
+  list(filter: { walletId?: string; sessionId?: string } = {}): TrackedTransfer[] {
+    return [...this.entries.values()]
+      .map((entry) => entry.record)
+      .filter((record) => !filter.walletId || record.walletId === filter.walletId)
+      .filter((record) => !filter.sessionId || record.sessionId === filter.sessionId)
+      .reverse()
+      .map((record) => structuredClone(record));
+  }
+
+  /**
+   * Poll until the transfer settles or the timeout passes
+   */
+  async wait(id: string, timeoutMs: number): Promise<TrackedTransfer | undefined> {
+    const deadline = Date.now() + timeoutMs;
+    await this.poll(id);
+    while (this.isOpen(id) && Date.now() < deadline) {
+      await sleep(Math.min(this.options.pollMs, deadline - Date.now()));
+      await this.poll(id);
+    }
+    return this.get(id);
+  }
+
+  /**
+   * Stop background polling and forget every transfer
+   */
+  clear(): void {
+    for (const entry of this.entries.values()) {
+      clearTimeout(entry.timer);
+    }
+    this.entries.clear();
+  }
+
+  // --------------------------------------------------------------------------
+  // Polling
+  // --------------------------------------------------------------------------
+
+  private isOpen(id: string): boolean {
+    const entry = this.entries.get(id);
+    return !!entry && !FINAL_STATUSES.includes(entry.record.status);
+  }
+
+  private schedule(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry || !this.isOpen(id)) return;
+    if (entry.record.status === "sent" && Date.now() - entry.startedAt > this.options.deliveryTimeoutMs) {
+      return; // tx_status queries still re-check
+    }
+    entry.timer = setTimeout(async () => {
+      await this.poll(id);
+      this.schedule(id);
+    }, this.options.pollMs);
+    entry.timer.unref();
+  }
+
+  /**
+   * One check of a transfer; polling failures are kept and retried. A
+   * check already in flight (wait() and the background timer overlap) is
+   * shared rather than repeated, so each status change is emitted once.
+   */
+  async poll(id: string): Promise<void> {
+    const entry = this.entries.get(id);
+    if (!entry || !this.isOpen(id)) return;
+    entry.polling ??= this.check(entry).finally(() => {
+      entry.polling = undefined;
+    });
+    return entry.polling;
+  }
+
+  private async check(entry: Entry): Promise<void> {
+    try {
+      if (entry.record.status === "pending") {
+        await this.findWalletTransaction(entry);
+      }
+      if (entry.record.status === "sent") {
+        await this.followMessages(entry);
+      }
+      entry.record.lastError = undefined;
+    } catch (error) {
+      entry.record.lastError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * The first check reads the wallet back to the send; later ones only
+   * read what arrived since, so a busy wallet cannot bury the transaction
+   */
+  private async findWalletTransaction(entry: Entry): Promise<void> {
+    const { record } = entry;
+    const { tx, newestLt, complete } = await findTransaction(
+      entry.client,
+      entry.address,
+      (candidate) =>
+        candidate.inMessage?.info.type === "external-in" &&
+        candidate.inMessage.body.hash().toString("hex") === entry.bodyHash,
+      { toLt: entry.scannedLt, since: entry.sentAt - this.options.graceSeconds }
+    );
+    if (complete && newestLt) {
+      entry.scannedLt = newestLt;
+    }
+
+    if (!tx) {
+      if (networkTime(record.network) > record.validUntil + this.options.graceSeconds) {
+        this.update(entry, "expired", {
+          reason: "Not executed before the message expired (seqno already used, wallet underfunded, or the message never arrived)",
+        });
+      }
+      return;
+    }
+
+    const decoded = decodeTransaction(tx);
+    record.hash = decoded.hash;
+    record.lt = decoded.lt;
+    record.fees = decoded.fees;
+    if (!decoded.success) {
+      this.update(entry, "failed", { reason: decoded.classification.summary });
+      return;
+    }
+
+    record.messages = outgoing(tx);
+    this.update(entry, record.messages.length > 0 ? "sent" : "confirmed");
+  }
+
+  private async followMessages(entry: Entry): Promise<void> {
+    const { record } = entry;
+    for (const message of record.messages.filter((candidate) => candidate.status === "pending")) {
+      // The destination executes the message after it was created
+      const { tx } = await findTransaction(
+        entry.client,
+        Address.parse(message.dest),
+        (candidate) => {
+          const info = candidate.inMessage?.info;
+          return info?.type === "internal" && info.src.equals(entry.address) && info.createdLt.toString() === message.createdLt;
+        },
+        { toLt: message.createdLt }
+      );
+      if (!tx) continue;
+
+      const decoded = decodeTransaction(tx);
+      message.hash = decoded.hash;
+      message.summary = decoded.classification.summary;
+      message.status = decoded.success ? "delivered" : decoded.bounced ? "bounced" : "failed";
+    }
+
+    if (record.messages.some((message) => message.status === "pending")) return;
+    const problem = record.messages.find((message) => message.status !== "delivered");
+    if (problem) {
+      this.update(entry, problem.status === "bounced" ? "bounced" : "failed", {
+        reason: `${problem.dest}: ${problem.summary}`,
+      });
+    } else {
+      this.update(entry, "confirmed");
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Internal
+  // --------------------------------------------------------------------------
+
+  private update(entry: Entry, status: TrackedStatus, changes: Partial<TrackedTransfer> = {}): void {
+    Object.assign(entry.record, changes, { status, updatedAt: new Date().toISOString() });
+    this.emit(entry.record);
+  }
+
+  private emit(record: TrackedTransfer): void {
+    this.galleryEmitter?.({
+      type: "blockchain_tx",
+      sessionId: record.sessionId ?? "operator",
+      agentId: record.agentId,
+      data: {
+        txId: record.id,
+        status: record.status,
+        network: record.network,
+        walletId: record.walletId,
+        from: record.from,
+        to: record.transfer.to,
+        amount: record.transfer.amount,
+        jetton: record.transfer.jetton,
+        seqno: record.seqno,
+        hash: record.hash,
+        reason: record.reason,
+      },
+    });
+  }
+
+  /**
+   * Keep the newest transfers; settled ones go first
+   */
+  private prune(): void {
+    for (const id of this.entries.keys()) {
+      if (this.entries.size <= MAX_TRACKED) return;
+      if (!this.isOpen(id)) this.entries.delete(id);
+    }
+    for (const [id, entry] of this.entries) {
+      if (this.entries.size <= MAX_TRACKED) return;
+      clearTimeout(entry.timer);
+      this.entries.delete(id);
+    }
+  }
+}
+
+/**
+ * Page back through an account's transactions, newest first, for the one
+ * `match` picks. Stops after `toLt` (exclusive), once transactions are
+ * older than `since` (unix seconds) or after MAX_SCAN; `complete` is false
+ * when that cap cut the range short.
+ */
+async function findTransaction(
+  client: TonApi,
+  address: Address,
+  match: (tx: Transaction) => boolean,
+  range: { toLt?: string; since?: number }
+): Promise<{ tx?: Transaction; newestLt?: string; complete: boolean }> {
+  let cursor: { lt: string; hash: string } | undefined;
+  let newestLt: string | undefined;
+  for (let scanned = 0; scanned < MAX_SCAN; ) {
+    const batch = await client.getTransactions(address, {
+      limit: SCAN_LIMIT,
+      ...cursor,
+      ...(range.toLt !== undefined ? { to_lt: range.toLt } : {}),
+    });
+    newestLt ??= batch[0]?.lt.toString();
+    scanned += batch.length;
+
+    const tx = batch.find(match);
+    const last = batch[batch.length - 1];
+    if (tx || batch.length < SCAN_LIMIT || (range.since !== undefined && last.now < range.since)) {
+      return { tx, newestLt, complete: true };
+    }
+    cursor = { lt: last.lt.toString(), hash: last.hash().toString("base64") };
+  }
+  return { newestLt, complete: false };
+}
+
+/**
+ * Internal messages a transaction sent
+ */
+function outgoing(tx: Transaction): TrackedMessage[] {
+  return tx.outMessages.values().flatMap((message) =>
+    message.info.type === "internal"
+      ? [{ dest: message.info.dest.toString(), createdLt: message.info.createdLt.toString(), status: "pending" as const }]
+      : []
+  );
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+let trackerInstance: TransactionTracker | null = null;
+
+export function getTransactionTracker(): TransactionTracker {
+  if (!trackerInstance) {
+    trackerInstance = new TransactionTracker();
+  }
+  return trackerInstance;
+}
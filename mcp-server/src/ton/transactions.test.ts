@@ -0,0 +1,189 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { Address, Cell, Dictionary, Message, Transaction, beginCell, toNano } from "@ton/core";
+
+import { decodeMessageBody, decodeTransaction, OPCODES } from "./transactions.js";
+import { buildJettonTransferBody, commentPayload } from "./jetton.js";
+
+const WALLET = new Address(0, Buffer.alloc(32, 1));
+const FRIEND = new Address(0, Buffer.alloc(32, 2));
+const JETTON_WALLET = new Address(0, Buffer.alloc(32, 3));
+
+function internal(src: Address, dest: Address, value: string, body?: Cell, bounced = false): Message {
+  return {
+    info: {
+      type: "internal",
+      ihrDisabled: true,
+      bounce: true,
+      bounced,
+      src,
+      dest,
+      value: { coins: toNano(value) },
+      ihrFee: 0n,
+      forwardFee: toNano("0.001"),
+      createdLt: 1n,
+      createdAt: 1_700_000_000,
+    },
+    body: body ?? Cell.EMPTY,
+  };
+}
+
+function externalIn(dest: Address): Message {
+  return { info: { type: "external-in", dest, importFee: 0n }, body: beginCell().storeUint(1, 64).endCell() };
+}
+
+function transaction(params: {
+  inMessage?: Message;
+  outMessages?: Message[];
+  exitCode?: number;
+  aborted?: boolean;
+}): Transaction {
+  const outMessages = Dictionary.empty<number, Message>();
+  (params.outMessages ?? []).forEach((msg, i) => outMessages.set(i, msg));
+  const exitCode = params.exitCode ?? 0;
+
+  return {
+    address: 0n,
+    lt: 42n,
+    prevTransactionHash: 0n,
+    prevTransactionLt: 0n,
+    now: 1_700_000_000,
+    outMessagesCount: outMessages.size,
+    oldStatus: "active",
+    endStatus: "active",
+    inMessage: params.inMessage,
+    outMessages,
+    totalFees: { coins: toNano("0.005") },
+    stateUpdate: { oldHash: Buffer.alloc(32), newHash: Buffer.alloc(32) },
+    description: {
+      type: "generic",
+      creditFirst: false,
+      computePhase: {
+        type: "vm",
+        success: exitCode === 0,
+        messageStateUsed: false,
+        accountActivated: false,
+        gasFees: 0n,
+        gasUsed: 3000n,
+        gasLimit: 0n,
+        mode: 0,
+        exitCode,
+        vmSteps: 50,
+        vmInitStateHash: 0n,
+        vmFinalStateHash: 0n,
+      },
+      aborted: params.aborted ?? exitCode !== 0,
+      destroyed: false,
+    },
+    raw: Cell.EMPTY,
+    hash: () => Buffer.alloc(32, 9),
+  };
+}
+
+function comment(text: string): Cell {
+  return beginCell().storeUint(0, 32).storeStringTail(text).endCell();
+}
+
+describe("Message Bodies", () => {
+  it("should decode comments and jetton transfers", () => {
+    assert.deepStrictEqual(decodeMessageBody(comment("gm")), { op: "0x00000000", opName: "comment", comment: "gm" });
+
+    const body = buildJettonTransferBody({
+      queryId: 7n,
+      amount: 1_000n,
+      destination: FRIEND,
+      responseDestination: WALLET,
+      forwardTonAmount: 1n,
+      forwardPayload: commentPayload("invoice 12"),
+    });
+    const decoded = decodeMessageBody(body);
+    assert.strictEqual(decoded.opName, "jetton_transfer");
+    assert.strictEqual(decoded.queryId, "7");
+    assert.strictEqual(decoded.jetton?.amount, "1000");
+    assert.strictEqual(decoded.jetton?.destination, FRIEND.toString());
+    assert.strictEqual(decoded.comment, "invoice 12");
+  });
+
+  it("should keep unknown ops as hex", () => {
+    const decoded = decodeMessageBody(beginCell().storeUint(0xdeadbeef, 32).endCell());
+    assert.deepStrictEqual(decoded, { op: "0xdeadbeef", opName: undefined });
+    assert.deepStrictEqual(decodeMessageBody(Cell.EMPTY), {});
+  });
+});
+
+describe("Transaction Classification", () => {
+  it("should classify plain TON transfers in both directions", () => {
+    const incoming = decodeTransaction(transaction({ inMessage: internal(FRIEND, WALLET, "2.5", comment("rent")) }));
+    assert.strictEqual(incoming.classification.kind, "ton_transfer_in");
+    assert.strictEqual(incoming.classification.summary, `Received 2.5 TON from ${FRIEND.toString()} ("rent")`);
+    assert.strictEqual(incoming.inMessage?.comment, "rent");
+    assert.strictEqual(incoming.fees, "0.005");
+
+    const outgoing = decodeTransaction(transaction({
+      inMessage: externalIn(WALLET),
+      outMessages: [internal(WALLET, FRIEND, "1")],
+    }));
+    assert.strictEqual(outgoing.classification.kind, "ton_transfer_out");
+    assert.strictEqual(outgoing.outMessages[0].dest, FRIEND.toString());
+    assert.strictEqual(outgoing.outMessages[0].value, "1");
+  });
+
+  it("should recognise jetton transfers, notifications and excesses", () => {
+    const sent = decodeTransaction(transaction({
+      inMessage: externalIn(WALLET),
+      outMessages: [internal(WALLET, JETTON_WALLET, "0.06", buildJettonTransferBody({
+        amount: 500n,
+        destination: FRIEND,
+        responseDestination: WALLET,
+        forwardTonAmount: 0n,
+      }))],
+    }));
+    assert.strictEqual(sent.classification.kind, "jetton_transfer_out");
+    assert.match(sent.classification.summary, new RegExp(`500 jetton units to ${FRIEND.toString()}`));
+
+    const notification = beginCell()
+      .storeUint(OPCODES.jetton_transfer_notification, 32)
+      .storeUint(0, 64)
+      .storeCoins(500n)
+      .storeAddress(FRIEND)
+      .storeBit(0)
+      .endCell();
+    const received = decodeTransaction(transaction({ inMessage: internal(JETTON_WALLET, WALLET, "0.01", notification) }));
+    assert.strictEqual(received.classification.kind, "jetton_transfer_in");
+    assert.strictEqual(received.inMessage?.jetton?.sender, FRIEND.toString());
+
+    const excesses = beginCell().storeUint(OPCODES.excesses, 32).storeUint(0, 64).endCell();
+    const refund = decodeTransaction(transaction({ inMessage: internal(JETTON_WALLET, WALLET, "0.04", excesses) }));
+    assert.strictEqual(refund.classification.kind, "excess");
+  });
+
+  it("should report failures with their exit code and bounces", () => {
+    const failed = decodeTransaction(transaction({ inMessage: internal(FRIEND, WALLET, "1"), exitCode: 33 }));
+    assert.strictEqual(failed.success, false);
+    assert.deepStrictEqual(failed.computePhase, { type: "vm", success: false, exitCode: 33, gasUsed: "3000" });
+    assert.strictEqual(failed.classification.kind, "failed");
+    assert.match(failed.classification.summary, /exit code 33/);
+
+    const bounced = decodeTransaction(transaction({ inMessage: internal(FRIEND, WALLET, "0.9", undefined, true) }));
+    assert.strictEqual(bounced.classification.kind, "bounce");
+  });
+
+  it("should count deposits to accounts without code as received", () => {
+    const tx = transaction({ inMessage: internal(FRIEND, WALLET, "3") });
+    if (tx.description.type !== "generic") throw new Error("unreachable");
+    tx.description.computePhase = { type: "skipped", reason: "no-state" };
+    tx.description.aborted = true;
+
+    const decoded = decodeTransaction(tx);
+    assert.strictEqual(decoded.success, true);
+    assert.strictEqual(decoded.classification.kind, "ton_transfer_in");
+  });
+
+  it("should treat unknown ops as contract calls", () => {
+    const call = decodeTransaction(transaction({
+      inMessage: internal(FRIEND, WALLET, "0.1", beginCell().storeUint(0x12345678, 32).endCell()),
+    }));
+    assert.strictEqual(call.classification.kind, "contract_call");
+    assert.match(call.classification.summary, /op 0x12345678/);
+  });
+});
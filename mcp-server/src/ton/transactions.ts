@@ -0,0 +1,317 @@
+/**
+ * Transactions - Decoding and Classification
+ *
+ * Turns raw transactions into messages with decoded bodies (comments,
+ * jetton and NFT standard ops), phase results and fees, plus a single
+ * human-readable classification from the account's point of view, so
+ * agents reading the same transaction reach the same conclusion.
+ */
+
+import { Cell, Message, Slice, Transaction, fromNano } from "@ton/core";
+import { JETTON_TRANSFER_OP } from "./jetton.js";
+
+// ============================================================================
+// Opcodes
+// ============================================================================
+
+export const OPCODES = {
+  comment: 0x00000000,
+  encrypted_comment: 0x2167da4b,
+  jetton_transfer: JETTON_TRANSFER_OP,
+  jetton_internal_transfer: 0x178d4519,
+  jetton_transfer_notification: 0x7362d09c,
+  jetton_burn: 0x595f07bc,
+  jetton_burn_notification: 0x7bdd97de,
+  excesses: 0xd53276db,
+  nft_transfer: 0x5fcc3d14,
+  nft_ownership_assigned: 0x05138d91,
+} as const;
+
+export type OpName = keyof typeof OPCODES;
+
+const OP_NAMES = new Map<number, OpName>(
+  Object.entries(OPCODES).map(([name, op]) => [op, name as OpName])
+);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DecodedBody {
+  op?: string; // hex, absent for empty bodies
+  opName?: OpName;
+  queryId?: string;
+  comment?: string;
+  jetton?: {
+    amount: string; // base units
+    destination?: string; // jetton_transfer
+    sender?: string; // jetton_transfer_notification / internal_transfer
+    responseDestination?: string;
+  };
+  nft?: {
+    newOwner?: string; // nft_transfer
+    prevOwner?: string; // nft_ownership_assigned
+  };
+}
+
+export interface DecodedMessage extends DecodedBody {
+  type: "internal" | "external-in" | "external-out";
+  src: string | null;
+  dest: string | null;
+  value?: string; // TON
+  valueNano?: string;
+  bounce?: boolean;
+  bounced?: boolean;
+  forwardFee?: string; // TON
+}
+
+export type TransactionKind =
+  | "ton_transfer_out"
+  | "ton_transfer_in"
+  | "jetton_transfer_out"
+  | "jetton_transfer_in"
+  | "nft_transfer_out"
+  | "nft_transfer_in"
+  | "excess"
+  | "bounce"
+  | "failed"
+  | "contract_call"
+  | "unknown";
+
+export interface DecodedTransaction {
+  hash: string;
+  lt: string;
+  now: number;
+  time: string; // ISO
+  fees: string; // TON
+  feesNano: string;
+  success: boolean;
+  aborted?: boolean;
+  computePhase?: { type: "vm"; success: boolean; exitCode: number; gasUsed: string } | { type: "skipped"; reason: string };
+  actionPhase?: { success: boolean; resultCode: number; messagesCreated: number };
+  bounced?: boolean;
+  inMessage: DecodedMessage | null;
+  outMessages: DecodedMessage[];
+  classification: { kind: TransactionKind; summary: string };
+}
+
+// ============================================================================
+// Bodies
+// ============================================================================
+
+/**
+ * Decode a message body: comments and the common jetton/NFT ops
+ */
+export function decodeMessageBody(body: Cell | undefined): DecodedBody {
+  if (!body) return {};
+  const slice = body.beginParse();
+  if (slice.remainingBits < 32) return {};
+
+  const op = slice.loadUint(32);
+  const opName = OP_NAMES.get(op);
+  const decoded: DecodedBody = { op: `0x${op.toString(16).padStart(8, "0")}`, opName };
+
+  try {
+    switch (opName) {
+      case "comment":
+        decoded.comment = slice.loadStringTail();
+        break;
+      case "jetton_transfer":
+        decoded.queryId = slice.loadUintBig(64).toString();
+        decoded.jetton = {
+          amount: slice.loadCoins().toString(),
+          destination: slice.loadAddress().toString(),
+          responseDestination: slice.loadMaybeAddress()?.toString(),
+        };
+        slice.loadMaybeRef(); // custom_payload
+        slice.loadCoins(); // forward_ton_amount
+        decoded.comment = readForwardComment(slice);
+        break;
+      case "jetton_internal_transfer":
+        decoded.queryId = slice.loadUintBig(64).toString();
+        decoded.jetton = {
+          amount: slice.loadCoins().toString(),
+          sender: slice.loadMaybeAddress()?.toString(),
+          responseDestination: slice.loadMaybeAddress()?.toString(),
+        };
+        break;
+      case "jetton_transfer_notification":
+        decoded.queryId = slice.loadUintBig(64).toString();
+        decoded.jetton = {
+          amount: slice.loadCoins().toString(),
+          sender: slice.loadMaybeAddress()?.toString(),
+        };
+        decoded.comment = readForwardComment(slice);
+        break;
+      case "jetton_burn":
+        decoded.queryId = slice.loadUintBig(64).toString();
+        decoded.jetton = { amount: slice.loadCoins().toString() };
+        break;
+      case "nft_transfer":
+        decoded.queryId = slice.loadUintBig(64).toString();
+        decoded.nft = { newOwner: slice.loadAddress().toString() };
+        break;
+      case "nft_ownership_assigned":
+        decoded.queryId = slice.loadUintBig(64).toString();
+        decoded.nft = { prevOwner: slice.loadMaybeAddress()?.toString() };
+        break;
+      case "excesses":
+      case "jetton_burn_notification":
+        decoded.queryId = slice.loadUintBig(64).toString();
+        break;
+    }
+  } catch {
+    // Truncated or non-standard body; keep what was read
+  }
+
+  return decoded;
+}
+
+/**
+ * Text comment in a forward_payload:(Either Cell ^Cell), if any
+ */
+function readForwardComment(slice: Slice): string | undefined {
+  if (slice.remainingBits < 1) return undefined;
+  const payload = slice.loadBit() ? slice.loadRef().beginParse() : slice;
+  if (payload.remainingBits < 32 || payload.loadUint(32) !== OPCODES.comment) return undefined;
+  return payload.loadStringTail();
+}
+
+// ============================================================================
+// Messages and Transactions
+// ============================================================================
+
+export function decodeMessage(message: Message): DecodedMessage {
+  const info = message.info;
+  const body = decodeMessageBody(message.body);
+
+  if (info.type === "internal") {
+    return {
+      type: "internal",
+      src: info.src.toString(),
+      dest: info.dest.toString(),
+      value: fromNano(info.value.coins),
+      valueNano: info.value.coins.toString(),
+      bounce: info.bounce,
+      bounced: info.bounced,
+      forwardFee: fromNano(info.forwardFee),
+      ...body,
+    };
+  }
+  if (info.type === "external-in") {
+    // Signed wallet payloads are not decoded
+    return { type: "external-in", src: info.src?.toString() ?? null, dest: info.dest.toString() };
+  }
+  return { type: "external-out", src: info.src.toString(), dest: info.dest?.toString() ?? null, ...body };
+}
+
+/**
+ * Decode a transaction and classify it from the account's point of view
+ */
+export function decodeTransaction(tx: Transaction): DecodedTransaction {
+  const inMessage = tx.inMessage ? decodeMessage(tx.inMessage) : null;
+  const outMessages = tx.outMessages.values().map(decodeMessage);
+
+  const decoded: DecodedTransaction = {
+    hash: tx.hash().toString("hex"),
+    lt: tx.lt.toString(),
+    now: tx.now,
+    time: new Date(tx.now * 1000).toISOString(),
+    fees: fromNano(tx.totalFees.coins),
+    feesNano: tx.totalFees.coins.toString(),
+    success: true,
+    inMessage,
+    outMessages,
+    classification: { kind: "unknown", summary: "" },
+  };
+
+  const description = tx.description;
+  if (description.type === "generic") {
+    const compute = description.computePhase;
+    decoded.computePhase = compute.type === "vm"
+      ? { type: "vm", success: compute.success, exitCode: compute.exitCode, gasUsed: compute.gasUsed.toString() }
+      : { type: "skipped", reason: compute.reason };
+    if (description.actionPhase) {
+      decoded.actionPhase = {
+        success: description.actionPhase.success,
+        resultCode: description.actionPhase.resultCode,
+        messagesCreated: description.actionPhase.messagesCreated,
+      };
+    }
+    decoded.aborted = description.aborted;
+    decoded.bounced = !!description.bouncePhase && description.bouncePhase.type === "ok";
+    // Value for an account without code (e.g. a first deposit) is kept although the transaction aborts
+    const credited = compute.type === "skipped" && compute.reason === "no-state" && !decoded.bounced;
+    decoded.success = (credited || !description.aborted) &&
+      (compute.type === "skipped" || compute.success) &&
+      (description.actionPhase?.success ?? true);
+  }
+
+  decoded.classification = classify(decoded);
+  return decoded;
+}
+
+function classify(tx: DecodedTransaction): DecodedTransaction["classification"] {
+  const inMsg = tx.inMessage;
+  const outs = tx.outMessages.filter((msg) => msg.type === "internal");
+  const note = (msg: DecodedMessage | null | undefined) => (msg?.comment ? ` ("${msg.comment}")` : "");
+
+  if (!tx.success) {
+    const exitCode = tx.computePhase?.type === "vm" ? tx.computePhase.exitCode : undefined;
+    const reason = exitCode !== undefined && exitCode !== 0 && exitCode !== 1
+      ? `exit code ${exitCode}`
+      : tx.actionPhase && !tx.actionPhase.success
+        ? `action result code ${tx.actionPhase.resultCode}`
+        : "aborted";
+    return { kind: "failed", summary: `Failed (${reason})${tx.bounced ? ", incoming value bounced back" : ""}` };
+  }
+
+  if (inMsg?.type === "internal" && inMsg.bounced) {
+    return { kind: "bounce", summary: `Bounced ${inMsg.value} TON returned from ${inMsg.src}` };
+  }
+
+  // Outgoing actions of the account, led by its first standard message
+  const jettonOut = outs.find((msg) => msg.opName === "jetton_transfer");
+  if (jettonOut) {
+    return {
+      kind: "jetton_transfer_out",
+      summary: `Sent ${jettonOut.jetton?.amount} jetton units to ${jettonOut.jetton?.destination} via jetton wallet ${jettonOut.dest}${note(jettonOut)}`,
+    };
+  }
+  const nftOut = outs.find((msg) => msg.opName === "nft_transfer");
+  if (nftOut) {
+    return { kind: "nft_transfer_out", summary: `Sent NFT ${nftOut.dest} to ${nftOut.nft?.newOwner}` };
+  }
+
+  if (inMsg?.type === "internal") {
+    switch (inMsg.opName) {
+      case "jetton_transfer_notification":
+        return {
+          kind: "jetton_transfer_in",
+          summary: `Received ${inMsg.jetton?.amount} jetton units from ${inMsg.jetton?.sender ?? "unknown sender"} via jetton wallet ${inMsg.src}${note(inMsg)}`,
+        };
+      case "nft_ownership_assigned":
+        return { kind: "nft_transfer_in", summary: `Received NFT ${inMsg.src} from ${inMsg.nft?.prevOwner ?? "unknown owner"}` };
+      case "excesses":
+        return { kind: "excess", summary: `Refund of ${inMsg.value} TON excess from ${inMsg.src}` };
+    }
+  }
+
+  if (outs.length > 0 && inMsg?.type !== "internal") {
+    const total = outs.reduce((sum, msg) => sum + BigInt(msg.valueNano ?? "0"), 0n);
+    const recipients = outs.map((msg) => msg.dest).join(", ");
+    return {
+      kind: "ton_transfer_out",
+      summary: `Sent ${fromNano(total)} TON to ${recipients}${outs.length === 1 ? note(outs[0]) : ""}`,
+    };
+  }
+
+  if (inMsg?.type === "internal") {
+    if (!inMsg.op || inMsg.opName === "comment") {
+      return { kind: "ton_transfer_in", summary: `Received ${inMsg.value} TON from ${inMsg.src}${note(inMsg)}` };
+    }
+    return { kind: "contract_call", summary: `Call ${inMsg.opName ?? `op ${inMsg.op}`} from ${inMsg.src} with ${inMsg.value} TON` };
+  }
+
+  return { kind: "unknown", summary: "No recognised transfers" };
+}
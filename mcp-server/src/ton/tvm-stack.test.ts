@@ -0,0 +1,92 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { Address, TupleReader, beginCell } from "@ton/core";
+
+import { parseGetterArgs, decodeStack } from "./tvm-stack.js";
+
+const OWNER = new Address(0, Buffer.alloc(32, 7));
+
+describe("Getter Arguments", () => {
+  it("should build typed stack entries", () => {
+    const boc = beginCell().storeUint(5, 8).endCell().toBoc().toString("base64");
+    const [int, address, cell, slice] = parseGetterArgs([
+      { type: "int", value: "-42" },
+      { type: "address", value: OWNER.toString() },
+      { type: "cell", value: boc },
+      { type: "slice", value: boc },
+    ]);
+
+    assert.deepStrictEqual(int, { type: "int", value: -42n });
+    assert.strictEqual(address.type, "slice");
+    assert.ok(address.type === "slice" && address.cell.beginParse().loadAddress().equals(OWNER));
+    assert.strictEqual(cell.type, "cell");
+    assert.strictEqual(slice.type, "slice");
+  });
+
+  it("should accept bare integers and addresses", () => {
+    const [small, hex, owner] = parseGetterArgs([3, "0xff", OWNER.toRawString()]);
+    assert.deepStrictEqual(small, { type: "int", value: 3n });
+    assert.deepStrictEqual(hex, { type: "int", value: 255n });
+    assert.strictEqual(owner.type, "slice");
+  });
+
+  it("should name the malformed argument", () => {
+    assert.throws(() => parseGetterArgs([1, "not-an-address"]), /Invalid getter argument 1/);
+    assert.throws(() => parseGetterArgs([{ type: "tuple" as "int", value: "1" }]), /unsupported type/);
+  });
+});
+
+describe("Result Stack Decoding", () => {
+  it("should decode every entry type", () => {
+    const stack = new TupleReader([
+      { type: "int", value: 1000n },
+      { type: "null" },
+      { type: "nan" },
+      { type: "slice", cell: beginCell().storeAddress(OWNER).endCell() },
+      { type: "tuple", items: [{ type: "int", value: 1n }, { type: "tuple", items: [{ type: "int", value: 2n }] }] },
+    ]);
+
+    const [int, nul, nan, slice, tuple] = decodeStack(stack);
+    assert.deepStrictEqual(int, { type: "int", value: "1000" });
+    assert.deepStrictEqual(nul, { type: "null" });
+    assert.deepStrictEqual(nan, { type: "nan" });
+    assert.ok(slice.type === "slice" && slice.address === OWNER.toString(), "Address slices are decoded without a hint");
+    assert.deepStrictEqual(tuple, {
+      type: "tuple",
+      items: [{ type: "int", value: "1" }, { type: "tuple", items: [{ type: "int", value: "2" }] }],
+    });
+  });
+
+  it("should apply hints by position", () => {
+    const owner = beginCell().storeAddress(OWNER).endCell();
+    const list = {
+      type: "tuple" as const,
+      items: [
+        { type: "cell" as const, cell: owner },
+        { type: "tuple" as const, items: [{ type: "cell" as const, cell: owner }, { type: "null" as const }] },
+      ],
+    };
+    const stack = new TupleReader([
+      { type: "int", value: -1n },
+      { type: "cell", cell: beginCell().storeStringTail("hello").endCell() },
+      list,
+    ]);
+
+    const [flag, text, addresses] = decodeStack(stack, {
+      hints: { "0": "bool", "1": "string", "2": "list", "2.*": "address" },
+      includeBoc: true,
+    });
+
+    assert.deepStrictEqual(flag, { type: "int", value: "-1", bool: true });
+    assert.ok(text.type === "cell" && text.string === "hello" && typeof text.boc === "string");
+    assert.ok(addresses.type === "list");
+    assert.strictEqual(addresses.items.length, 2);
+    assert.ok(addresses.items.every((item) => item.type === "cell" && item.address === OWNER.toString()));
+  });
+
+  it("should report cells that do not match their hint", () => {
+    const stack = new TupleReader([{ type: "cell", cell: beginCell().storeUint(1, 3).endCell() }]);
+    const [value] = decodeStack(stack, { hints: { "0": "address" } });
+    assert.ok(value.type === "cell" && value.error === "Not an address");
+  });
+});
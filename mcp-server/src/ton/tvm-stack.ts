@@ -0,0 +1,216 @@
+/**
+ * TVM Stack - Getter Arguments and Result Decoding
+ *
+ * Converts typed JSON arguments into stack entries for runMethod, and
+ * decodes result stacks (ints, cells, slices, tuples, lists) into JSON,
+ * with optional per-position hints for values the stack cannot describe
+ * itself (booleans, strings, TEP-64 content cells, lisp-style lists).
+ */
+
+import { Address, Cell, TupleItem, TupleReader, beginCell } from "@ton/core";
+import { ContentCell, parseContentCell } from "./content.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GetterArgType = "int" | "address" | "cell" | "slice" | "builder";
+
+export const GETTER_ARG_TYPES: GetterArgType[] = ["int", "address", "cell", "slice", "builder"];
+
+// { type, value } with cells as base64 BoC, or a bare int / address
+export type GetterArg = { type: GetterArgType; value: string | number } | string | number;
+
+export type DecodeHint = "bool" | "address" | "string" | "content" | "list";
+
+export const DECODE_HINTS: DecodeHint[] = ["bool", "address", "string", "content", "list"];
+
+export interface DecodeOptions {
+  // Keyed by stack position: "0", "1.2" (item 2 of tuple 1), "3.*" (every item)
+  hints?: Record<string, DecodeHint>;
+  includeBoc?: boolean;
+}
+
+export type StackValue =
+  | { type: "null" }
+  | { type: "nan" }
+  | { type: "int"; value: string; bool?: boolean }
+  | {
+      type: "cell" | "slice" | "builder";
+      hash: string;
+      bits: number;
+      refs: number;
+      address?: string | null;
+      string?: string;
+      content?: ContentCell;
+      boc?: string;
+      error?: string;
+    }
+  | { type: "tuple" | "list"; items: StackValue[] };
+
+// ============================================================================
+// Arguments
+// ============================================================================
+
+/**
+ * Stack entries for runMethod (throws on malformed arguments)
+ */
+export function parseGetterArgs(args: GetterArg[]): TupleItem[] {
+  return args.map((arg, index) => {
+    try {
+      return parseGetterArg(arg);
+    } catch (error) {
+      throw new Error(`Invalid getter argument ${index}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+function parseGetterArg(arg: GetterArg): TupleItem {
+  if (typeof arg === "number" || typeof arg === "string") {
+    return parseBareArg(arg);
+  }
+
+  const value = String(arg.value);
+  switch (arg.type) {
+    case "int":
+      return { type: "int", value: BigInt(value) };
+    case "address":
+      return { type: "slice", cell: beginCell().storeAddress(Address.parse(value)).endCell() };
+    case "cell":
+    case "slice":
+    case "builder":
+      return { type: arg.type, cell: Cell.fromBase64(value) };
+    default:
+      throw new Error(`unsupported type "${(arg as { type: string }).type}" (supported: ${GETTER_ARG_TYPES.join(", ")})`);
+  }
+}
+
+/**
+ * Bare numbers are ints; bare strings are ints or addresses
+ */
+function parseBareArg(arg: string | number): TupleItem {
+  if (typeof arg === "number") {
+    if (!Number.isSafeInteger(arg)) throw new Error(`${arg} is not an integer`);
+    return { type: "int", value: BigInt(arg) };
+  }
+  if (/^-?(\d+|0x[0-9a-f]+)$/i.test(arg)) {
+    return { type: "int", value: BigInt(arg) };
+  }
+  if (Address.isFriendly(arg) || Address.isRaw(arg)) {
+    return { type: "slice", cell: beginCell().storeAddress(Address.parse(arg)).endCell() };
+  }
+  throw new Error(`"${arg}" is neither an integer nor an address; pass { type, value }`);
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+/**
+ * Decode every entry left on a result stack
+ */
+export function decodeStack(stack: TupleReader, options: DecodeOptions = {}): StackValue[] {
+  const items: StackValue[] = [];
+  while (stack.remaining > 0) {
+    items.push(decodeStackItem(stack.pop(), String(items.length), options));
+  }
+  return items;
+}
+
+/**
+ * Decode one stack entry; path locates it for hints
+ */
+export function decodeStackItem(item: TupleItem, path: string, options: DecodeOptions = {}): StackValue {
+  const hint = hintFor(path, options);
+
+  switch (item.type) {
+    case "null":
+      return { type: "null" };
+    case "nan":
+      return { type: "nan" };
+    case "int":
+      return hint === "bool"
+        ? { type: "int", value: item.value.toString(), bool: item.value !== 0n }
+        : { type: "int", value: item.value.toString() };
+    case "tuple":
+      if (hint === "list") {
+        return { type: "list", items: flattenList(item).map((entry, i) => decodeStackItem(entry, `${path}.${i}`, options)) };
+      }
+      return { type: "tuple", items: item.items.map((entry, i) => decodeStackItem(entry, `${path}.${i}`, options)) };
+    case "cell":
+    case "slice":
+    case "builder":
+      return decodeCell(item.type, item.cell, hint, options);
+  }
+}
+
+function decodeCell(
+  type: "cell" | "slice" | "builder",
+  cell: Cell,
+  hint: DecodeHint | undefined,
+  options: DecodeOptions
+): StackValue {
+  const value: StackValue = { type, hash: cell.hash().toString("hex"), bits: cell.bits.length, refs: cell.refs.length };
+
+  try {
+    // Slices holding exactly one address are decoded without a hint
+    if (hint === "address" || (type === "slice" && !hint)) {
+      const address = readAddress(cell);
+      if (address !== undefined) value.address = address;
+      else if (hint === "address") value.error = "Not an address";
+    }
+    if (hint === "string") {
+      value.string = cell.beginParse().loadStringTail();
+    }
+    if (hint === "content") {
+      value.content = parseContentCell(cell);
+    }
+  } catch (error) {
+    value.error = `Could not decode as ${hint}: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  if (options.includeBoc) {
+    value.boc = cell.toBoc().toString("base64");
+  }
+  return value;
+}
+
+/**
+ * The address a cell holds and nothing else (null for addr_none), or
+ * undefined if it holds something else
+ */
+function readAddress(cell: Cell): string | null | undefined {
+  if (cell.refs.length > 0) return undefined;
+  try {
+    const slice = cell.beginParse();
+    const address = slice.loadAddressAny();
+    if (slice.remainingBits > 0) return undefined;
+    return address ? address.toString() : null;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Items of a lisp-style list: (head, (head, (... null)))
+ */
+function flattenList(tuple: TupleItem & { type: "tuple" }): TupleItem[] {
+  const items: TupleItem[] = [];
+  let current: TupleItem = tuple;
+  while (current.type === "tuple" && current.items.length === 2) {
+    items.push(current.items[0]);
+    current = current.items[1];
+  }
+  if (current.type !== "null") {
+    // Not a well-formed list; keep the tail so nothing is lost
+    items.push(current);
+  }
+  return items;
+}
+
+function hintFor(path: string, options: DecodeOptions): DecodeHint | undefined {
+  const hints = options.hints;
+  if (!hints) return undefined;
+  const parent = path.includes(".") ? path.slice(0, path.lastIndexOf(".")) : undefined;
+  return hints[path] ?? (parent !== undefined ? hints[`${parent}.*`] : undefined);
+}
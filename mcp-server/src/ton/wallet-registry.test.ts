@@ -0,0 +1,122 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { TonClient } from "@ton/ton";
+import { keyPairFromSeed } from "@ton/crypto";
+
+import { WalletRegistry, WalletVersion, createWalletContract, walletIdFor } from "./wallet-registry.js";
+
+const client = new TonClient({ endpoint: "https://testnet.toncenter.com/api/v2/jsonRPC" });
+
+function connect(registry: WalletRegistry, seed: number, makeDefault: boolean, version: WalletVersion = "v4") {
+  const keyPair = keyPairFromSeed(Buffer.alloc(32, seed));
+  const contract = createWalletContract(version, keyPair.publicKey, "testnet");
+  return registry.add(
+    { version, network: "testnet", address: contract.address.toString(), contract, keyPair, client },
+    makeDefault
+  );
+}
+
+describe("Wallet Contracts", () => {
+  it("should derive a different address per wallet version", () => {
+    const { publicKey } = keyPairFromSeed(Buffer.alloc(32, 1));
+    const addresses = (["v3r2", "v4", "v5r1"] as const).map((version) =>
+      createWalletContract(version, publicKey, "testnet").address.toString()
+    );
+    assert.strictEqual(new Set(addresses).size, 3);
+  });
+
+  it("should bind V5R1 wallets to their network", () => {
+    const { publicKey } = keyPairFromSeed(Buffer.alloc(32, 1));
+    const mainnet = createWalletContract("v5r1", publicKey, "mainnet").address;
+    const testnet = createWalletContract("v5r1", publicKey, "testnet").address;
+    assert.ok(!mainnet.equals(testnet));
+  });
+});
+
+describe("WalletRegistry", () => {
+  it("should hand out stable handles", () => {
+    const registry = new WalletRegistry();
+    const first = connect(registry, 1, true);
+    const again = connect(registry, 1, true);
+
+    assert.strictEqual(first.id, again.id);
+    assert.strictEqual(first.id, walletIdFor("testnet", first.address));
+    assert.strictEqual(registry.list().length, 1);
+  });
+
+  it("should prefer agent, then session bindings, then the default", () => {
+    const registry = new WalletRegistry();
+    const fallback = connect(registry, 1, true);
+    const shared = connect(registry, 2, false);
+    const own = connect(registry, 3, false);
+
+    registry.bind(shared.id, { sessionId: "embrace-1" });
+    registry.bind(own.id, { sessionId: "embrace-1", agentId: "agent-b" });
+
+    assert.strictEqual(registry.resolve(undefined, { sessionId: "embrace-1", agentId: "agent-a" })?.id, shared.id);
+    assert.strictEqual(registry.resolve(undefined, { sessionId: "embrace-1", agentId: "agent-b" })?.id, own.id);
+    assert.strictEqual(registry.resolve(undefined, { sessionId: "other", agentId: "agent-x" })?.id, fallback.id);
+    assert.strictEqual(registry.resolve(undefined)?.id, fallback.id);
+  });
+
+  it("should honour wallets bound through the session config", () => {
+    const registry = new WalletRegistry();
+    connect(registry, 1, true);
+    const configured = connect(registry, 2, false);
+
+    const scope = { sessionId: "mirror-1", agentId: "agent-a", walletId: configured.id };
+    assert.strictEqual(registry.resolve(undefined, scope)?.id, configured.id);
+  });
+
+  it("should keep agents away from other sessions' wallets", () => {
+    const registry = new WalletRegistry();
+    const fallback = connect(registry, 1, true);
+    const theirs = connect(registry, 2, false);
+    registry.bind(theirs.id, { sessionId: "embrace-2" });
+
+    assert.throws(
+      () => registry.resolve(theirs.id, { sessionId: "embrace-1", agentId: "agent-a" }),
+      /not bound to this session/
+    );
+    assert.strictEqual(registry.resolve(fallback.id, { sessionId: "embrace-1", agentId: "agent-a" })?.id, fallback.id);
+
+    // Operators (no session scope) may use any wallet
+    assert.strictEqual(registry.resolve(theirs.id)?.id, theirs.id);
+    assert.throws(() => registry.resolve("wallet-missing"), /Wallet not found/);
+  });
+
+  it("should keep sessions on their network's wallets", () => {
+    const registry = new WalletRegistry();
+    const testnet = connect(registry, 1, true);
+    const sandboxPair = keyPairFromSeed(Buffer.alloc(32, 2));
+    const contract = createWalletContract("v4", sandboxPair.publicKey, "sandbox");
+    const sandbox = registry.add(
+      { version: "v4", network: "sandbox", address: contract.address.toString(), contract, keyPair: sandboxPair, client },
+      false
+    );
+    registry.bind(testnet.id, { sessionId: "arbitrageur-1" });
+
+    // The testnet default is not offered to a sandbox session
+    assert.strictEqual(registry.resolve(undefined, { sessionId: "embrace-1", network: "sandbox" }), undefined);
+    assert.throws(
+      () => registry.resolve(undefined, { sessionId: "arbitrageur-1", network: "sandbox" }),
+      /is on testnet, but this session runs on sandbox/
+    );
+
+    registry.bind(sandbox.id, { sessionId: "embrace-1" });
+    assert.strictEqual(registry.resolve(undefined, { sessionId: "embrace-1", network: "sandbox" })?.id, sandbox.id);
+  });
+
+  it("should drop bindings and the default when a wallet is removed", () => {
+    const registry = new WalletRegistry();
+    const wallet = connect(registry, 1, true);
+    const other = connect(registry, 2, false);
+    registry.bind(wallet.id, { sessionId: "embrace-1" });
+
+    assert.ok(registry.remove(wallet.id));
+    assert.deepStrictEqual(registry.listBindings(), {});
+    assert.strictEqual(registry.getDefault(), undefined);
+    assert.strictEqual(registry.get(other.id)?.id, other.id, "Other wallets stay connected");
+    assert.strictEqual(registry.remove(wallet.id), false);
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Wallet Registry - Connected Wallets and Their Bindings
+ *
+ * Every connected wallet gets a handle (walletId) that wallet tools
+ * accept. Wallets can be bound to a session or to a single agent so that
+ * concurrent positions sign with their own keys; unbound callers fall
+ * back to the default wallet.
+ */
+
+import { createHash } from "crypto";
+import { WalletContractV3R2, WalletContractV4, WalletContractV5R1 } from "@ton/ton";
+import { KeyPair } from "@ton/crypto";
+import { Cell, MessageRelaxed, SendMode } from "@ton/core";
+import type { TonApi } from "./client.js";
+import { getSandbox } from "./sandbox.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Network = "mainnet" | "testnet" | "sandbox";
+
+export type WalletVersion = "v3r2" | "v4" | "v5r1";
+
+export const WALLET_VERSIONS: WalletVersion[] = ["v3r2", "v4", "v5r1"];
+
+export type WalletContract = WalletContractV3R2 | WalletContractV4 | WalletContractV5R1;
+
+// Messages a wallet can send in one transaction
+export const MAX_TRANSFER_MESSAGES: Record<WalletVersion, number> = {
+  v3r2: 4,
+  v4: 4,
+  v5r1: 255,
+};
+
+export interface WalletEntry {
+  id: string;
+  version: WalletVersion;
+  network: Network;
+  address: string;
+  contract: WalletContract;
+  keyPair: KeyPair;
+  client: TonApi;
+  label?: string;
+  connectedAt: Date;
+}
+
+// Who is asking for a wallet (set for agent tool calls)
+export interface WalletScope {
+  sessionId?: string;
+  agentId?: string;
+  walletId?: string; // bound through the session config
+  network?: Network; // the session's network; wallets on others are refused
+}
+
+// A signed external message handed to the network
+export interface SentTransfer {
+  seqno: number;
+  bodyHash: string; // hex hash of the external message body
+  validUntil: number; // unix seconds; the wallet rejects it afterwards
+}
+
+// ============================================================================
+// Contracts
+// ============================================================================
+
+// Global IDs baked into V5R1 wallet IDs
+const NETWORK_GLOBAL_IDS: Record<Network, number> = {
+  mainnet: -239,
+  testnet: -3,
+  sandbox: -239, // the emulator runs with the mainnet config
+};
+
+/**
+ * Wallet contract of the given version for a public key
+ */
+export function createWalletContract(version: WalletVersion, publicKey: Buffer, network: Network): WalletContract {
+  switch (version) {
+    case "v3r2":
+      return WalletContractV3R2.create({ workchain: 0, publicKey });
+    case "v4":
+      return WalletContractV4.create({ workchain: 0, publicKey });
+    case "v5r1":
+      return WalletContractV5R1.create({
+        publicKey,
+        walletId: {
+          networkGlobalId: NETWORK_GLOBAL_IDS[network],
+          context: { walletVersion: "v5r1", workchain: 0, subwalletNumber: 0 },
+        },
+      });
+  }
+}
+
+/**
+ * Current seqno of a wallet
+ */
+export async function getSeqno(entry: WalletEntry): Promise<number> {
+  return entry.contract.getSeqno(entry.client.provider(entry.contract.address, entry.contract.init));
+}
+
+// How long a signed transfer stays valid
+const TRANSFER_TIMEOUT_SECONDS = 60;
+
+/**
+ * Current time on a network, in unix seconds (the sandbox keeps its own)
+ */
+export function networkTime(network: Network): number {
+  return network === "sandbox" ? getSandbox().now() : Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Sign the external message body that sends messages from a wallet
+ */
+export function signTransfer(entry: WalletEntry, seqno: number, messages: MessageRelaxed[]): { body: Cell; validUntil: number } {
+  const validUntil = networkTime(entry.network) + TRANSFER_TIMEOUT_SECONDS;
+  const transfer = {
+    seqno,
+    secretKey: entry.keyPair.secretKey,
+    messages,
+    sendMode: SendMode.PAY_GAS_SEPARATELY,
+    timeout: validUntil,
+  };
+  // Same arguments for every version, but no common signature to call
+  const { contract } = entry;
+  const body =
+    contract instanceof WalletContractV5R1
+      ? contract.createTransfer(transfer)
+      : contract instanceof WalletContractV4
+        ? contract.createTransfer(transfer)
+        : contract.createTransfer(transfer);
+  return { body, validUntil };
+}
+
+/**
+ * Sign and send messages from a wallet
+ */
+export async function sendTransfer(entry: WalletEntry, seqno: number, messages: MessageRelaxed[]): Promise<SentTransfer> {
+  const { body, validUntil } = signTransfer(entry, seqno, messages);
+  await entry.client.provider(entry.contract.address, entry.contract.init).external(body);
+  return { seqno, bodyHash: body.hash().toString("hex"), validUntil };
+}
+
+/**
+ * Stable handle for a wallet, so a session config keeps pointing at the
+ * same wallet across restarts
+ */
+export function walletIdFor(network: Network, address: string): string {
+  return `wallet-${createHash("sha256").update(`${network}:${address}`).digest("hex").slice(0, 8)}`;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export class WalletRegistry {
+  private wallets: Map<string, WalletEntry> = new Map();
+  private bindings: Map<string, string> = new Map(); // "session:<id>" | "agent:<id>" -> walletId
+  private defaultId: string | null = null;
+
+  /**
+   * Register a wallet under the given handle (e.g. a keystore alias), or
+   * one derived from its address so reconnecting keeps the handle
+   */
+  add(params: Omit<WalletEntry, "id" | "connectedAt"> & { id?: string }, makeDefault: boolean): WalletEntry {
+    const entry: WalletEntry = {
+      ...params,
+      id: params.id ?? walletIdFor(params.network, params.address),
+      connectedAt: new Date(),
+    };
+    this.wallets.set(entry.id, entry);
+    if (makeDefault) this.defaultId = entry.id;
+    return entry;
+  }
+
+  /**
+   * Drop a wallet, its bindings and its keys
+   */
+  remove(walletId: string): boolean {
+    if (!this.wallets.delete(walletId)) return false;
+    for (const [key, boundId] of this.bindings) {
+      if (boundId === walletId) this.bindings.delete(key);
+    }
+    if (this.defaultId === walletId) this.defaultId = null;
+    return true;
+  }
+
+  get(walletId: string): WalletEntry | undefined {
+    return this.wallets.get(walletId);
+  }
+
+  list(): WalletEntry[] {
+    return Array.from(this.wallets.values());
+  }
+
+  getDefault(): WalletEntry | undefined {
+    return this.defaultId ? this.wallets.get(this.defaultId) : undefined;
+  }
+
+  /**
+   * Bind a wallet to a session, or to one agent of it
+   */
+  bind(walletId: string, scope: { sessionId: string; agentId?: string }): void {
+    if (!this.wallets.has(walletId)) {
+      throw new Error(`Wallet not found: ${walletId}`);
+    }
+    this.bindings.set(bindingKey(scope), walletId);
+  }
+
+  unbind(scope: { sessionId: string; agentId?: string }): boolean {
+    return this.bindings.delete(bindingKey(scope));
+  }
+
+  /**
+   * Bindings as { "session:<id>" | "agent:<id>": walletId }
+   */
+  listBindings(): Record<string, string> {
+    return Object.fromEntries(this.bindings);
+  }
+
+  /**
+   * The wallet a caller should use. Throws if the requested wallet is
+   * unknown, or is not bound to the calling session/agent.
+   */
+  resolve(walletId: string | undefined, scope: WalletScope = {}): WalletEntry | undefined {
+    const bound = this.boundIds(scope);
+
+    if (walletId) {
+      const entry = this.wallets.get(walletId);
+      if (!entry) {
+        throw new Error(`Wallet not found: ${walletId}`);
+      }
+      // Agents may only pick among their own wallets (the default if none are bound)
+      const allowed = bound.length > 0 ? bound : [this.defaultId];
+      if (scope.sessionId && !allowed.includes(walletId)) {
+        throw new Error(`Wallet ${walletId} is not bound to this session`);
+      }
+      return checkNetwork(entry, scope);
+    }
+
+    if (bound.length > 0) {
+      const entry = this.wallets.get(bound[0]);
+      if (!entry) {
+        throw new Error(`Wallet ${bound[0]} is bound to this session but not connected`);
+      }
+      return checkNetwork(entry, scope);
+    }
+
+    // The default wallet only serves sessions on its own network
+    const fallback = this.getDefault();
+    return fallback && scope.network && fallback.network !== scope.network ? undefined : fallback;
+  }
+
+  /**
+   * Wallet IDs bound to the caller, most specific first
+   */
+  private boundIds(scope: WalletScope): string[] {
+    const ids = [
+      scope.agentId ? this.bindings.get(bindingKey({ sessionId: "", agentId: scope.agentId })) : undefined,
+      scope.walletId,
+      scope.sessionId ? this.bindings.get(bindingKey({ sessionId: scope.sessionId })) : undefined,
+    ];
+    return ids.filter((id): id is string => !!id);
+  }
+}
+
+/**
+ * Refuse a wallet on another network than the calling session's
+ */
+function checkNetwork(entry: WalletEntry, scope: WalletScope): WalletEntry {
+  if (scope.network && entry.network !== scope.network) {
+    throw new Error(`Wallet ${entry.id} is on ${entry.network}, but this session runs on ${scope.network}`);
+  }
+  return entry;
+}
+
+function bindingKey(scope: { sessionId: string; agentId?: string }): string {
+  return scope.agentId ? `agent:${scope.agentId}` : `session:${scope.sessionId}`;
+}
+
+// Singleton instance
+let registryInstance: WalletRegistry | null = null;
+
+export function getWalletRegistry(): WalletRegistry {
+  if (!registryInstance) {
+    registryInstance = new WalletRegistry();
+  }
+  return registryInstance;
+}
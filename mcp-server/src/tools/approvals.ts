@@ -0,0 +1,161 @@
+/**
+ * Approvals Tools
+ *
+ * MCP tools for the human-in-the-loop approval queue. Agent calls to
+ * gated tools (e.g. ton_wallet_send) wait here until an operator
+ * approves or rejects them.
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { getOrchestrator, hasOrchestrator, ApprovalRequest, ApprovalStatus } from "../orchestrator/index.js";
+
+type ToolResult = { content: Array<{ type: string; text: string }>; isError?: boolean };
+
+const ok = (data: object): ToolResult => ({
+  content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+});
+
+const err = (msg: string): ToolResult => ({
+  content: [{ type: "text", text: msg }],
+  isError: true,
+});
+
+export const approvalsTools: Tool[] = [
+  {
+    name: "approvals_list",
+    description: "List gated agent tool calls (e.g. ton_wallet_send) awaiting or past human approval",
+    inputSchema: {
+      type: "object",
+      properties: {
+        status: {
+          type: "string",
+          enum: ["pending", "approved", "rejected", "expired", "executed", "failed"],
+          description: "Filter by status (default: pending)",
+        },
+        sessionId: {
+          type: "string",
+          description: "Filter by session ID (optional)",
+        },
+      },
+    },
+  },
+  {
+    name: "approvals_approve",
+    description: "Approve a pending gated call. The agent's turn resumes and the call is executed.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        approvalId: {
+          type: "string",
+          description: "The approval request ID",
+        },
+        approver: {
+          type: "string",
+          description: "Who approved the call (recorded for audit)",
+        },
+      },
+      required: ["approvalId"],
+    },
+  },
+  {
+    name: "approvals_reject",
+    description: "Reject a pending gated call. The agent is told the call was rejected and why.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        approvalId: {
+          type: "string",
+          description: "The approval request ID",
+        },
+        reason: {
+          type: "string",
+          description: "Reason passed back to the agent",
+        },
+        approver: {
+          type: "string",
+          description: "Who rejected the call (recorded for audit)",
+        },
+      },
+      required: ["approvalId"],
+    },
+  },
+];
+
+function formatApproval(request: ApprovalRequest) {
+  return {
+    approvalId: request.id,
+    status: request.status,
+    sessionId: request.sessionId,
+    agentId: request.agentId,
+    role: request.role,
+    tool: request.toolName,
+    input: request.input,
+    requestedAt: request.requestedAt.toISOString(),
+    resolvedAt: request.resolvedAt?.toISOString(),
+    resolvedBy: request.resolvedBy,
+    reason: request.reason,
+    result: request.result,
+  };
+}
+
+export async function handleApprovalsTool(
+  name: string,
+  args: Record<string, unknown> | undefined
+): Promise<ToolResult> {
+  if (!hasOrchestrator()) {
+    return err(
+      "Orchestrator not initialized. Set ANTHROPIC_API_KEY (or AGENT_PROVIDER=scripted) and restart the server."
+    );
+  }
+
+  const orchestrator = getOrchestrator();
+
+  switch (name) {
+    case "approvals_list": {
+      const status = (args?.status as ApprovalStatus | undefined) || "pending";
+      const sessionId = args?.sessionId as string | undefined;
+
+      const approvals = orchestrator.listApprovals({ status, sessionId });
+      return ok({
+        status,
+        count: approvals.length,
+        approvals: approvals.map(formatApproval),
+      });
+    }
+
+    case "approvals_approve": {
+      const approvalId = args?.approvalId as string;
+      if (!approvalId) {
+        return err("approvalId is required");
+      }
+
+      try {
+        const request = orchestrator.approveRequest(approvalId, (args?.approver as string) || "mcp");
+        return ok({ success: true, approval: formatApproval(request) });
+      } catch (error) {
+        return err(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    case "approvals_reject": {
+      const approvalId = args?.approvalId as string;
+      if (!approvalId) {
+        return err("approvalId is required");
+      }
+
+      try {
+        const request = orchestrator.rejectRequest(
+          approvalId,
+          (args?.reason as string) || undefined,
+          (args?.approver as string) || "mcp"
+        );
+        return ok({ success: true, approval: formatApproval(request) });
+      } catch (error) {
+        return err(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    default:
+      return err(`Unknown approvals tool: ${name}`);
+  }
+}
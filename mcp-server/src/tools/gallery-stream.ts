@@ -1,31 +1,128 @@
+/**
+ * Gallery Stream - Agent Activity for the Visual Gallery
+ *
+ * Events from agents, the orchestrator and the transaction tracker go
+ * through a shared gallery hub: stored for polling with gallery_stream,
+ * recorded to the durable event log for replays, and pushed to viewers on
+ * this process's WebSocket server. With a remote gallery server
+ * configured, events are forwarded there instead and viewers connect to it.
+ */
+
+import { createHash, timingSafeEqual } from "crypto";
+import { IncomingMessage } from "http";
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { WebSocketServer, WebSocket } from "ws";
-
-// Event types for the gallery stream
-interface GalleryEvent {
-  id: string;
-  timestamp: Date;
-  type: "agent_message" | "agent_action" | "blockchain_tx" | "position_update" | "system";
-  sessionId: string;
-  agentId?: string;
-  data: Record<string, unknown>;
+import { WebSocketServer } from "ws";
+import {
+  Access,
+  ConnectRequest,
+  GALLERY_EVENT_TYPES,
+  GalleryAuth,
+  GalleryEvent,
+  GalleryEventType,
+  GalleryHub,
+  NewGalleryEvent,
+  ServerMessage,
+  openEventLog,
+  parseConnectUrl,
+  parseNewEvent,
+} from "@clawmasutra/gallery-core";
+
+// ============================================================================
+// Hub
+// ============================================================================
+
+// Stores events and pushes them to connected viewers
+const hub = new GalleryHub({
+  commands: { approval: (message) => handleApprovalCommand(message) },
+});
+
+// WebSocket server for real-time push. Without auth its viewers only
+// watch: events come from this process (gallery_emit, the orchestrator,
+// the tracker).
+let wss: WebSocketServer | null = null;
+const WS_PORT = parseInt(process.env.GALLERY_WS_PORT || "3001");
+const WS_HOST = process.env.GALLERY_WS_HOST || "127.0.0.1";
+const VIEWER_ACCESS: Access = { emit: false, sessions: "*", subject: "viewer" };
+
+function envList(value: string | undefined): string[] {
+  return (value || "").split(",").map((item) => item.trim()).filter(Boolean);
 }
 
-// In-memory event store
-const eventStore: GalleryEvent[] = [];
-const MAX_EVENTS = 1000;
+// Same settings as the standalone gallery server: API keys may emit and
+// watch everything, viewer tokens watch their sessions
+const auth = new GalleryAuth({
+  apiKeys: envList(process.env.GALLERY_API_KEYS),
+  viewerSecret: process.env.GALLERY_VIEWER_SECRET || undefined,
+  allowedOrigins: envList(process.env.GALLERY_ALLOWED_ORIGINS),
+});
+const HEARTBEAT_MS = parseInt(process.env.GALLERY_HEARTBEAT_MS || "30000");
+
+// Event log retention
+const LOG_RETENTION = {
+  maxAgeDays: parseFloat(process.env.GALLERY_LOG_RETENTION_DAYS || "30"),
+  maxSizeMb: parseFloat(process.env.GALLERY_LOG_MAX_MB || "1024"),
+};
+
+// Remote gallery server events are forwarded to, in order, with its API key
+let remoteUrl: string | null = null;
+const REMOTE_API_KEY = process.env.GALLERY_API_KEY || "";
+let forwarding: Promise<void> = Promise.resolve();
+let pendingForwards = 0;
+let droppedForwards = 0;
+// A slow or unreachable server must not hold events (or memory) forever:
+// each POST gets a deadline, and events past the backlog limit are dropped
+const FORWARD_TIMEOUT_MS = 10_000;
+const MAX_PENDING_FORWARDS = 1000;
+
+// Approve/reject commands from the dapp approvals panel. Disabled unless
+// GALLERY_APPROVAL_TOKEN is set; commands must carry the same token.
+interface ApprovalCommand {
+  action: "approve" | "reject";
+  approvalId: string;
+  reason?: string;
+  approver?: string;
+}
+type ApprovalCommandHandler = (command: ApprovalCommand) => { success: boolean; error?: string };
+let approvalHandler: ApprovalCommandHandler | null = null;
+const APPROVAL_TOKEN = process.env.GALLERY_APPROVAL_TOKEN || "";
+
+// Compare hashes so the check takes as long whatever the token's length
+function approvalTokenMatches(token: unknown): boolean {
+  const hash = (value: string) => createHash("sha256").update(value).digest();
+  return typeof token === "string" && timingSafeEqual(hash(token), hash(APPROVAL_TOKEN));
+}
 
-// WebSocket server for real-time push
-let wss: WebSocketServer | null = null;
-const WS_PORT = parseInt(process.env.GALLERY_WS_PORT || "3001");
+/**
+ * Route approval commands received over WebSocket (set by the orchestrator wiring)
+ */
+function setApprovalHandler(handler: ApprovalCommandHandler): void {
+  approvalHandler = handler;
+}
+
+function handleApprovalCommand(msg: Record<string, unknown>): ServerMessage {
+  const approvalId = typeof msg.approvalId === "string" ? msg.approvalId : undefined;
+  const reply = (result: { success: boolean; error?: string }): ServerMessage => ({ type: "approvalResult", approvalId, ...result });
 
-// Connected clients with their session filters
-interface ClientConnection {
-  ws: WebSocket;
-  sessionFilter?: string;
-  subscriptionId: string;
+  if (!approvalHandler) {
+    return reply({ success: false, error: "Approvals are not available (orchestrator disabled)" });
+  }
+  if (!APPROVAL_TOKEN) {
+    return reply({ success: false, error: "Approvals over WebSocket are disabled (set GALLERY_APPROVAL_TOKEN)" });
+  }
+  if (!approvalTokenMatches(msg.token)) {
+    return reply({ success: false, error: "Invalid approval token" });
+  }
+  if ((msg.action !== "approve" && msg.action !== "reject") || !approvalId) {
+    return reply({ success: false, error: "approval requires action (approve|reject) and approvalId" });
+  }
+
+  return reply(approvalHandler({
+    action: msg.action,
+    approvalId,
+    reason: typeof msg.reason === "string" ? msg.reason : undefined,
+    approver: typeof msg.approver === "string" ? msg.approver : "gallery",
+  }));
 }
-const clients: Map<string, ClientConnection> = new Map();
 
 /**
  * Initialize the WebSocket server for real-time event streaming
@@ -36,51 +133,39 @@ function initWebSocketServer(): { started: boolean; port: number; error?: string
   }
 
   try {
-    wss = new WebSocketServer({ port: WS_PORT });
+    wss = new WebSocketServer({
+      host: WS_HOST,
+      port: WS_PORT,
+      verifyClient: (info: { origin: string }) => auth.originAllowed(info.origin),
+    });
 
     wss.on("connection", (ws, req) => {
-      const subscriptionId = `ws-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-
-      // Parse session filter from query string
-      const url = new URL(req.url || "/", `http://localhost:${WS_PORT}`);
-      const sessionFilter = url.searchParams.get("session") || undefined;
+      let subscriptionId: string;
+      try {
+        const access = auth.enabled ? auth.authenticate(requestToken(req)) : VIEWER_ACCESS;
+        if (!access) {
+          throw new Error("Authentication required: connect with ?token=<viewer token or API key>");
+        }
+        const request: ConnectRequest = parseConnectUrl(req.url || "/");
+        ({ subscriptionId } = hub.connect(ws, request, access));
+      } catch (error) {
+        const message: ServerMessage = { type: "error", error: error instanceof Error ? error.message : String(error) };
+        ws.send(JSON.stringify(message));
+        ws.close(1008, "Connection refused");
+        return;
+      }
 
-      clients.set(subscriptionId, { ws, sessionFilter, subscriptionId });
+      ws.on("pong", () => hub.markAlive(subscriptionId));
 
-      // Send welcome message
-      ws.send(JSON.stringify({
-        type: "connected",
-        subscriptionId,
-        sessionFilter: sessionFilter || "all",
-        message: "Connected to Clawmasutra Gallery Stream",
-      }));
-
-      // Handle client messages (for changing filters, etc.)
-      ws.on("message", (data) => {
-        try {
-          const msg = JSON.parse(data.toString());
-          if (msg.type === "setFilter" && msg.sessionId !== undefined) {
-            const client = clients.get(subscriptionId);
-            if (client) {
-              client.sessionFilter = msg.sessionId || undefined;
-              ws.send(JSON.stringify({
-                type: "filterUpdated",
-                sessionFilter: msg.sessionId || "all",
-              }));
-            }
-          }
-        } catch (error) {
-          console.warn(`Invalid WebSocket message from ${subscriptionId}:`, error instanceof Error ? error.message : String(error));
-        }
-      });
+      ws.on("message", (data) => hub.receive(subscriptionId, data.toString()));
 
       ws.on("close", () => {
-        clients.delete(subscriptionId);
+        hub.disconnect(subscriptionId);
       });
 
       ws.on("error", (error) => {
         console.warn(`WebSocket client error (${subscriptionId}):`, error.message);
-        clients.delete(subscriptionId);
+        hub.disconnect(subscriptionId);
       });
     });
 
@@ -88,7 +173,11 @@ function initWebSocketServer(): { started: boolean; port: number; error?: string
       console.error("WebSocket server error:", error);
     });
 
-    console.error(`Gallery WebSocket server started on ws://localhost:${WS_PORT}`);
+    // Drop viewers whose connection died without closing
+    const stopHeartbeat = hub.startHeartbeat(HEARTBEAT_MS);
+    wss.on("close", stopHeartbeat);
+
+    console.error(`Gallery WebSocket server started on ws://${WS_HOST}:${WS_PORT}`);
     return { started: true, port: WS_PORT };
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
@@ -98,65 +187,106 @@ function initWebSocketServer(): { started: boolean; port: number; error?: string
 }
 
 /**
- * Broadcast an event to all connected WebSocket clients
+ * The bearer token of an upgrade request; browsers cannot set headers on a
+ * WebSocket, so `?token=` works too
  */
-function broadcastEvent(event: GalleryEvent): number {
-  let sentCount = 0;
+function requestToken(req: IncomingMessage): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim();
+  }
+  return new URL(req.url || "/", "http://localhost").searchParams.get("token") || undefined;
+}
 
-  clients.forEach((client) => {
-    // Apply session filter
-    if (client.sessionFilter && event.sessionId !== client.sessionFilter) {
-      return;
+/**
+ * Record events to the durable event log in a directory (empty = memory
+ * only). A directory that cannot be used, e.g. in a read-only working
+ * directory, leaves events in memory rather than failing startup.
+ */
+function recordEvents(dir: string): void {
+  try {
+    const log = openEventLog(dir, { retention: LOG_RETENTION });
+    if (log) {
+      hub.setLog(log);
+      console.error(`Gallery event log: ${log.dir}`);
     }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Gallery event log disabled, keeping events in memory only: ${message}`);
+  }
+}
 
-    if (client.ws.readyState === WebSocket.OPEN) {
-      try {
-        client.ws.send(JSON.stringify({
-          type: "event",
-          event: {
-            id: event.id,
-            timestamp: event.timestamp.toISOString(),
-            type: event.type,
-            sessionId: event.sessionId,
-            agentId: event.agentId,
-            data: event.data,
-          },
-        }));
-        sentCount++;
-      } catch (error) {
-        console.warn(`Failed to send to client ${client.subscriptionId}:`, error instanceof Error ? error.message : String(error));
-        // Client likely disconnected, will be cleaned up on next close event
+/**
+ * Forward every event to a remote gallery server (POST /emit) instead of
+ * serving viewers from this process
+ */
+function forwardEvents(url: string): void {
+  remoteUrl = url.replace(/^ws(s?):\/\//, "http$1://").replace(/\/+$/, "");
+  console.error(`Gallery events forwarded to ${remoteUrl}`);
+}
+
+function forward(event: GalleryEvent): void {
+  const target = `${remoteUrl}/emit`;
+  const { sessionId, agentId, type, data } = event;
+  if (pendingForwards >= MAX_PENDING_FORWARDS) {
+    if (droppedForwards++ === 0) {
+      console.warn(`Gallery server at ${remoteUrl} is falling behind, dropping events until it catches up`);
+    }
+    return;
+  }
+  if (droppedForwards > 0) {
+    console.warn(`Dropped ${droppedForwards} gallery events while ${remoteUrl} was behind`);
+    droppedForwards = 0;
+  }
+  pendingForwards++;
+  forwarding = forwarding.then(async () => {
+    try {
+      const response = await fetch(target, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(REMOTE_API_KEY ? { Authorization: `Bearer ${REMOTE_API_KEY}` } : {}),
+        },
+        body: JSON.stringify({ sessionId, agentId, type, data }),
+        signal: AbortSignal.timeout(FORWARD_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        console.warn(`Gallery server rejected event ${event.id}: HTTP ${response.status}`);
       }
+    } catch (error) {
+      console.warn(`Failed to forward event ${event.id} to ${target}:`, error instanceof Error ? error.message : String(error));
+    } finally {
+      pendingForwards--;
     }
   });
-
-  return sentCount;
 }
 
-function addEvent(event: Omit<GalleryEvent, "id" | "timestamp">): GalleryEvent {
-  const fullEvent: GalleryEvent = {
-    ...event,
-    id: `evt-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-    timestamp: new Date(),
-  };
-
-  eventStore.push(fullEvent);
+/**
+ * Broadcast an event to all connected WebSocket clients
+ */
+function broadcastEvent(event: GalleryEvent): number {
+  return hub.broadcast(event);
+}
 
-  // Trim if over limit
-  if (eventStore.length > MAX_EVENTS) {
-    eventStore.splice(0, eventStore.length - MAX_EVENTS);
+/**
+ * Store and broadcast an event, forwarding it when a remote gallery is set
+ */
+function addEvent(event: NewGalleryEvent): GalleryEvent {
+  const stored = hub.emit(event);
+  if (remoteUrl) {
+    forward(stored);
   }
-
-  // Broadcast to WebSocket clients
-  const sentCount = broadcastEvent(fullEvent);
-
-  return fullEvent;
+  return stored;
 }
 
+// ============================================================================
+// Tools
+// ============================================================================
+
 export const galleryTools: Tool[] = [
   {
     name: "gallery_emit",
-    description: "Emit an event to the visual gallery stream (for agents to report their activity). Events are broadcast to connected WebSocket clients in real-time.",
+    description: "Emit an event to the visual gallery stream (for agents to report their activity). Events are broadcast to connected WebSocket clients in real-time, and forwarded to the remote gallery server when GALLERY_WS_URL is set.",
     inputSchema: {
       type: "object",
       properties: {
@@ -170,7 +300,7 @@ export const galleryTools: Tool[] = [
         },
         type: {
           type: "string",
-          enum: ["agent_message", "agent_action", "blockchain_tx", "position_update", "system"],
+          enum: [...GALLERY_EVENT_TYPES],
           description: "Type of event",
         },
         data: {
@@ -197,7 +327,7 @@ export const galleryTools: Tool[] = [
         },
         type: {
           type: "string",
-          enum: ["agent_message", "agent_action", "blockchain_tx", "position_update", "system"],
+          enum: [...GALLERY_EVENT_TYPES],
           description: "Filter by event type (optional)",
         },
         limit: {
@@ -249,96 +379,53 @@ export async function handleGalleryTool(
   try {
     switch (name) {
       case "gallery_emit": {
-        const sessionId = args?.sessionId as string;
-        const agentId = args?.agentId as string | undefined;
-        const type = args?.type as GalleryEvent["type"];
-        const data = args?.data as Record<string, unknown>;
-
-        if (!sessionId || typeof sessionId !== "string") {
-          return {
-            content: [{ type: "text", text: "sessionId is required and must be a string" }],
-            isError: true,
-          };
-        }
-        if (!type || !["agent_message", "agent_action", "blockchain_tx", "position_update", "system"].includes(type)) {
-          return {
-            content: [{ type: "text", text: "type is required and must be one of: agent_message, agent_action, blockchain_tx, position_update, system" }],
-            isError: true,
-          };
-        }
-        if (data === undefined || data === null || typeof data !== "object") {
+        let event: NewGalleryEvent;
+        try {
+          event = parseNewEvent(args);
+        } catch (error) {
           return {
-            content: [{ type: "text", text: "data is required and must be an object" }],
+            content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }],
             isError: true,
           };
         }
 
-        const event = addEvent({
-          sessionId,
-          agentId,
-          type,
-          data,
-        });
+        const stored = addEvent(event);
 
         return {
           content: [{
             type: "text",
             text: JSON.stringify({
               success: true,
-              eventId: event.id,
-              timestamp: event.timestamp.toISOString(),
-              broadcastedTo: clients.size,
+              eventId: stored.id,
+              timestamp: stored.timestamp,
+              broadcastedTo: hub.clientCount,
               wsServerRunning: wss !== null,
+              forwardedTo: remoteUrl ?? undefined,
             }, null, 2),
           }],
         };
       }
 
       case "gallery_stream": {
-        const sessionId = args?.sessionId as string | undefined;
-        const agentId = args?.agentId as string | undefined;
-        const eventType = args?.type as GalleryEvent["type"] | undefined;
-        const limit = (args?.limit as number) || 50;
-        const since = args?.since as string | undefined;
-
-        let events = [...eventStore];
-
-        // Apply filters
-        if (sessionId) {
-          events = events.filter((e) => e.sessionId === sessionId);
-        }
-        if (agentId) {
-          events = events.filter((e) => e.agentId === agentId);
-        }
-        if (eventType) {
-          events = events.filter((e) => e.type === eventType);
-        }
-        if (since) {
-          const sinceDate = new Date(since);
-          events = events.filter((e) => e.timestamp > sinceDate);
-        }
-
-        // Sort by timestamp descending and limit
-        events = events
-          .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
-          .slice(0, limit);
+        const events = hub.store.query({
+          sessionId: args?.sessionId as string | undefined,
+          agentId: args?.agentId as string | undefined,
+          type: args?.type as GalleryEventType | undefined,
+          since: args?.since as string | undefined,
+          limit: (args?.limit as number) || 50,
+        });
 
         return {
           content: [{
             type: "text",
             text: JSON.stringify({
               count: events.length,
-              events: events.map((e) => ({
-                id: e.id,
-                timestamp: e.timestamp.toISOString(),
-                type: e.type,
-                sessionId: e.sessionId,
-                agentId: e.agentId,
-                data: e.data,
-              })),
-              _realtime: wss
-                ? `For real-time updates, connect to ws://localhost:${WS_PORT}`
-                : "WebSocket server not running. Use gallery_server_start to enable real-time updates.",
+              events,
+              _realtime: remoteUrl
+                ? `For real-time updates, connect to the gallery server at ${remoteUrl}`
+                : wss
+                  ? `For real-time updates, connect to ws://localhost:${WS_PORT}`
+                  : "WebSocket server not running. Use gallery_server_start to enable real-time updates.",
             }, null, 2),
           }],
         };
@@ -355,11 +442,14 @@ export async function handleGalleryTool(
                 success: true,
                 wsUrl: `ws://localhost:${result.port}`,
                 message: "WebSocket server is running. Connect from UI for real-time events.",
-                connectedClients: clients.size,
+                connectedClients: hub.clientCount,
                 usage: {
                   connect: `ws://localhost:${result.port}`,
                   connectWithFilter: `ws://localhost:${result.port}?session=YOUR_SESSION_ID`,
+                  resume: `ws://localhost:${result.port}?session=YOUR_SESSION_ID&resumeFrom=LAST_SEQ`,
                   changeFilter: '{ "type": "setFilter", "sessionId": "SESSION_ID" }',
+                  subscribe: '{ "type": "subscribe", "name": "big-tx", "filter": { "types": ["blockchain_tx"], "where": [{ "path": "amount", "op": "gt", "value": 10 }] } }',
+                  replay: '{ "type": "replay", "sessionId": "SESSION_ID", "speed": 2 }',
                 },
               }, null, 2),
             }],
@@ -388,13 +478,12 @@ export async function handleGalleryTool(
               running: wss !== null,
               port: WS_PORT,
               wsUrl: wss ? `ws://localhost:${WS_PORT}` : null,
-              connectedClients: clients.size,
-              clientDetails: Array.from(clients.values()).map(c => ({
-                subscriptionId: c.subscriptionId,
-                sessionFilter: c.sessionFilter || "all",
-                connected: c.ws.readyState === WebSocket.OPEN,
-              })),
-              eventStoreSize: eventStore.length,
+              forwardingTo: remoteUrl,
+              authEnabled: auth.enabled,
+              connectedClients: hub.clientCount,
+              clientDetails: hub.clientDetails(),
+              eventStoreSize: hub.store.size,
+              eventLog: hub.eventLog?.stats() ?? null,
             }, null, 2),
           }],
         };
@@ -402,41 +491,19 @@ export async function handleGalleryTool(
 
       case "gallery_clear": {
         const sessionId = args?.sessionId as string | undefined;
+        const cleared = hub.store.clear(sessionId);
 
-        if (sessionId) {
-          const before = eventStore.length;
-          // O(n) filter instead of O(n²) indexOf+splice
-          const keepEvents = eventStore.filter((e) => e.sessionId !== sessionId);
-          const cleared = before - keepEvents.length;
-          eventStore.length = 0;
-          eventStore.push(...keepEvents);
-
-          return {
-            content: [{
-              type: "text",
-              text: JSON.stringify({
-                success: true,
-                cleared,
-                remaining: eventStore.length,
-                sessionId,
-              }, null, 2),
-            }],
-          };
-        } else {
-          const cleared = eventStore.length;
-          eventStore.length = 0;
-
-          return {
-            content: [{
-              type: "text",
-              text: JSON.stringify({
-                success: true,
-                cleared,
-                remaining: 0,
-              }, null, 2),
-            }],
-          };
-        }
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              cleared,
+              remaining: hub.store.size,
+              sessionId,
+            }, null, 2),
+          }],
+        };
       }
 
       default:
@@ -457,4 +524,5 @@ export async function handleGalleryTool(
 }
 
 // Export for external use
-export { initWebSocketServer, broadcastEvent, GalleryEvent };
+export { initWebSocketServer, recordEvents, forwardEvents, addEvent, broadcastEvent, setApprovalHandler };
+export type { GalleryEvent };
@@ -0,0 +1,78 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { EventLog } from "@clawmasutra/gallery-core";
+
+import { forwardEvents, handleGalleryTool, recordEvents } from "./gallery-stream.js";
+
+describe("Gallery Event Log", () => {
+  it("should record emitted events to the log directory", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "gallery-"));
+    recordEvents(dir);
+    await handleGalleryTool("gallery_emit", { sessionId: "logged", type: "system", data: { n: 1 } });
+    await handleGalleryTool("gallery_emit", { sessionId: "logged", type: "system", data: { n: 2 } });
+
+    const status = JSON.parse((await handleGalleryTool("gallery_server_status", {})).content[0].text);
+    assert.strictEqual(status.eventLog.events, 2);
+    assert.deepStrictEqual(
+      new EventLog(dir).read("logged").map((event) => event.data.n),
+      [1, 2]
+    );
+  });
+
+  it("should keep events in memory when the log directory cannot be used", async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "gallery-")), "not-a-dir");
+    fs.writeFileSync(file, "");
+    assert.doesNotThrow(() => recordEvents(path.join(file, "log")));
+
+    const result = await handleGalleryTool("gallery_emit", { sessionId: "unlogged", type: "system", data: {} });
+    assert.ok(!result.isError);
+  });
+});
+
+describe("Gallery Forwarding", () => {
+  it("should forward events to the remote gallery server in order", async () => {
+    const received: Array<Record<string, unknown>> = [];
+    const remote = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ path: req.url, ...JSON.parse(body) });
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: true }));
+      });
+    });
+    await new Promise<void>((resolve) => remote.listen(0, "127.0.0.1", resolve));
+    const { port } = remote.address() as AddressInfo;
+
+    try {
+      forwardEvents(`ws://127.0.0.1:${port}/`);
+      for (const n of [1, 2, 3]) {
+        const result = await handleGalleryTool("gallery_emit", { sessionId: "fwd", agentId: "a1", type: "agent_action", data: { n } });
+        assert.ok(!result.isError);
+      }
+
+      const deadline = Date.now() + 5000;
+      while (received.length < 3 && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      assert.deepStrictEqual(
+        received.map((event) => (event.data as { n: number }).n),
+        [1, 2, 3]
+      );
+      assert.deepStrictEqual(received[0], { path: "/emit", sessionId: "fwd", agentId: "a1", type: "agent_action", data: { n: 1 } });
+
+      // Still kept locally for polling
+      const stream = JSON.parse((await handleGalleryTool("gallery_stream", { sessionId: "fwd" })).content[0].text);
+      assert.strictEqual(stream.count, 3);
+      const status = JSON.parse((await handleGalleryTool("gallery_server_status", {})).content[0].text);
+      assert.strictEqual(status.forwardingTo, `http://127.0.0.1:${port}`);
+    } finally {
+      remote.close();
+    }
+  });
+});
@@ -14,6 +14,7 @@ import {
   SessionConfig,
   Category,
 } from "../orchestrator/index.js";
+import { NETWORKS } from "../ton/client.js";
 
 type ToolResult = { content: Array<{ type: string; text: string }>; isError?: boolean };
 
@@ -45,7 +46,7 @@ const POSITIONS: Record<string, Position> = {
 // Environment
 const DEFAULT_SKILLS_PATH = path.resolve(process.cwd(), "..", "skills");
 const SKILLS_PATH = process.env.CLAWMASUTRA_SKILLS_PATH || DEFAULT_SKILLS_PATH;
-const ORCHESTRATOR_AVAILABLE = !!process.env.ANTHROPIC_API_KEY;
+const ORCHESTRATOR_AVAILABLE = !!process.env.ANTHROPIC_API_KEY || process.env.AGENT_PROVIDER === "scripted";
 
 // Legacy demo session tracking (for backwards compatibility)
 interface LegacySessionState {
@@ -99,8 +100,8 @@ export const positionTools: Tool[] = [
             },
             network: {
               type: "string",
-              enum: ["mainnet", "testnet"],
-              description: "TON network to use",
+              enum: NETWORKS,
+              description: "TON network the session's ton_* tools run on (sandbox: in-process emulated chain, no network access)",
             },
             duration: {
               type: "number",
@@ -112,7 +113,23 @@ export const positionTools: Tool[] = [
             },
             maxTokensPerAgent: {
               type: "number",
-              description: "Maximum tokens per agent (default: 50000)",
+              description: "Maximum tokens per agent; the session halts with status budget_exceeded when reached (default: 50000, or AGENT_MAX_TOKENS_PER_AGENT)",
+            },
+            maxTokensPerSession: {
+              type: "number",
+              description: "Maximum tokens across all agents of the session",
+            },
+            maxCostPerSession: {
+              type: "number",
+              description: "Maximum model spend for the session in USD, priced per model",
+            },
+            wallets: {
+              type: "object",
+              description: "Wallet handles from ton_wallet_connect the agents sign with: session (walletId for all agents) and agents ({ role name: walletId })",
+            },
+            spendingPolicy: {
+              type: "object",
+              description: "Limits on agent transfers when allowTransactions is true: maxPerTransaction and maxPerSession (TON strings), allowRecipients/denyRecipients (address arrays), rateLimit ({ maxTransactions, windowSeconds })",
             },
           },
         },
@@ -191,8 +208,10 @@ export async function handlePositionTool(
         environment: {
           orchestratorAvailable: ORCHESTRATOR_AVAILABLE,
           orchestratorReason: ORCHESTRATOR_AVAILABLE
-            ? "ANTHROPIC_API_KEY is set - real agent execution available"
-            : "Set ANTHROPIC_API_KEY to enable real agent execution",
+            ? process.env.AGENT_PROVIDER === "scripted"
+              ? "AGENT_PROVIDER=scripted - real orchestration with scripted agent responses"
+              : "ANTHROPIC_API_KEY is set - real agent execution available"
+            : "Set ANTHROPIC_API_KEY (or AGENT_PROVIDER=scripted) to enable real agent execution",
           skillsPath: SKILLS_PATH,
         },
       });
@@ -267,7 +286,7 @@ export async function handlePositionTool(
         _warning: "Running in DEMO MODE. No real agents are executing.",
         _reason: ORCHESTRATOR_AVAILABLE
           ? "Demo mode was explicitly requested"
-          : "ANTHROPIC_API_KEY not set - real agent execution requires API key",
+          : "ANTHROPIC_API_KEY not set - real agent execution requires API key (or AGENT_PROVIDER=scripted)",
         message: `[DEMO] Position '${positionName}' simulated with ${position.agents} demo agent(s). No real work is being performed.`,
       });
     }
@@ -295,11 +314,15 @@ export async function handlePositionTool(
               status: a.status,
               turnsCompleted: a.turnsCompleted,
               tokensUsed: a.tokensUsed,
+              costUsd: a.costUsd,
             })),
             startedAt: session.startedAt.toISOString(),
             completedAt: session.completedAt?.toISOString(),
             runningFor: `${runningFor}s`,
             error: session.error,
+            result: session.result
+              ? { ...session.result, agentOutputs: Object.fromEntries(session.result.agentOutputs) }
+              : undefined,
           });
         }
       }
@@ -349,6 +372,7 @@ export async function handlePositionTool(
               role: a.role.name,
               turns: a.turnsCompleted,
               tokens: a.tokensUsed,
+              costUsd: a.costUsd,
             })),
           });
         }
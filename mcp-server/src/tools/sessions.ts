@@ -8,6 +8,7 @@
 
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { getOrchestrator, hasOrchestrator } from "../orchestrator/index.js";
+import { getReadCacheStats } from "../ton/client.js";
 
 type ToolResult = { content: Array<{ type: string; text: string }>; isError?: boolean };
 
@@ -117,7 +118,7 @@ export const sessionsTools: Tool[] = [
   },
   {
     name: "sessions_stats",
-    description: "Get orchestrator statistics including active sessions, agents, and message counts",
+    description: "Get orchestrator statistics including active sessions, agents, message counts, and TON read cache hit rates",
     inputSchema: {
       type: "object",
       properties: {},
@@ -132,7 +133,7 @@ export async function handleSessionsTool(
   // Check if orchestrator is initialized
   if (!hasOrchestrator()) {
     return err(
-      "Orchestrator not initialized. Set ANTHROPIC_API_KEY environment variable and restart the server."
+      "Orchestrator not initialized. Set ANTHROPIC_API_KEY (or AGENT_PROVIDER=scripted) and restart the server."
     );
   }
 
@@ -266,6 +267,7 @@ export async function handleSessionsTool(
         status: agent.status,
         turnsCompleted: agent.turnsCompleted,
         tokensUsed: agent.tokensUsed,
+        costUsd: agent.costUsd,
         pendingMessages: agent.pendingMessages.length,
         conversationLength: agent.conversationHistory.length,
         createdAt: agent.createdAt.toISOString(),
@@ -287,8 +289,11 @@ export async function handleSessionsTool(
         orchestrator: {
           activeSessions: stats.activeSessions,
           totalAgents: stats.totalAgents,
+          llmProvider: stats.llmProvider,
         },
         messageBus: stats.messageStats,
+        budget: stats.budget,
+        rpcCache: getReadCacheStats(),
         environment: {
           hasApiKey: !!process.env.ANTHROPIC_API_KEY,
           model: process.env.AGENT_MODEL || "claude-sonnet-4-20250514",
@@ -1,17 +1,18 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { TonClient } from "@ton/ton";
 import { Address, Cell } from "@ton/core";
+import { ToolCallContext } from "../orchestrator/types.js";
+import {
+  GetterArg,
+  DecodeHint,
+  GETTER_ARG_TYPES,
+  DECODE_HINTS,
+  parseGetterArgs,
+  decodeStack,
+} from "../ton/tvm-stack.js";
+import { getMetadataResolver } from "../ton/metadata.js";
+import { DEFAULT_JETTON_DECIMALS } from "../ton/jetton.js";
+import { NETWORKS, getTonClient, resolveNetwork } from "../ton/client.js";
 
-const ENDPOINTS = {
-  mainnet: "https://toncenter.com/api/v2/jsonRPC",
-  testnet: "https://testnet.toncenter.com/api/v2/jsonRPC",
-} as const;
-
-type Network = "mainnet" | "testnet";
-
-function getClient(network: Network = "testnet"): TonClient {
-  return new TonClient({ endpoint: ENDPOINTS[network] });
-}
 
 export const tonContractTools: Tool[] = [
   {
@@ -26,7 +27,7 @@ export const tonContractTools: Tool[] = [
         },
         network: {
           type: "string",
-          enum: ["mainnet", "testnet"],
+          enum: NETWORKS,
           description: "Network to use (default: testnet)",
         },
       },
@@ -35,7 +36,7 @@ export const tonContractTools: Tool[] = [
   },
   {
     name: "ton_contract_call_getter",
-    description: "Call a getter method on a TON smart contract",
+    description: "Call a getter method on a TON smart contract, with typed arguments, and decode the full result stack",
     inputSchema: {
       type: "object",
       properties: {
@@ -47,9 +48,22 @@ export const tonContractTools: Tool[] = [
           type: "string",
           description: "Getter method name",
         },
+        args: {
+          type: "array",
+          description: `Getter arguments in order: { type, value } with type one of ${GETTER_ARG_TYPES.join(", ")} (cells as base64 BoC), or a bare integer or address`,
+          items: {},
+        },
+        hints: {
+          type: "object",
+          description: `How to decode result positions ("0", "1.2" for item 2 of tuple 1, "1.*" for every item): ${DECODE_HINTS.join(", ")}`,
+        },
+        includeBoc: {
+          type: "boolean",
+          description: "Include cells and slices as base64 BoC (default: false)",
+        },
         network: {
           type: "string",
-          enum: ["mainnet", "testnet"],
+          enum: NETWORKS,
           description: "Network to use (default: testnet)",
         },
       },
@@ -68,7 +82,7 @@ export const tonContractTools: Tool[] = [
         },
         network: {
           type: "string",
-          enum: ["mainnet", "testnet"],
+          enum: NETWORKS,
           description: "Network to use (default: testnet)",
         },
       },
@@ -77,7 +91,7 @@ export const tonContractTools: Tool[] = [
   },
   {
     name: "ton_contract_jetton_info",
-    description: "Get information about a Jetton (fungible token) on TON",
+    description: "Get information about a Jetton (fungible token) on TON, including its TEP-64 metadata (name, symbol, decimals, image)",
     inputSchema: {
       type: "object",
       properties: {
@@ -87,7 +101,7 @@ export const tonContractTools: Tool[] = [
         },
         network: {
           type: "string",
-          enum: ["mainnet", "testnet"],
+          enum: NETWORKS,
           description: "Network to use (default: testnet)",
         },
       },
@@ -96,7 +110,7 @@ export const tonContractTools: Tool[] = [
   },
   {
     name: "ton_contract_nft_info",
-    description: "Get information about an NFT or NFT collection on TON",
+    description: "Get information about an NFT or NFT collection on TON, including its TEP-64 metadata",
     inputSchema: {
       type: "object",
       properties: {
@@ -106,7 +120,7 @@ export const tonContractTools: Tool[] = [
         },
         network: {
           type: "string",
-          enum: ["mainnet", "testnet"],
+          enum: NETWORKS,
           description: "Network to use (default: testnet)",
         },
       },
@@ -117,12 +131,13 @@ export const tonContractTools: Tool[] = [
 
 export async function handleTonContractTool(
   name: string,
-  args: Record<string, unknown> | undefined
+  args: Record<string, unknown> | undefined,
+  context?: ToolCallContext
 ): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
-  const network = (args?.network as "mainnet" | "testnet") || "testnet";
-  const client = getClient(network);
-
   try {
+    const network = resolveNetwork(args?.network, context);
+    const client = getTonClient(network);
+
     switch (name) {
       case "ton_contract_get_info": {
         const addressStr = args?.address as string;
@@ -153,29 +168,19 @@ export async function handleTonContractTool(
         const method = args?.method as string;
 
         const address = Address.parse(addressStr);
-        const result = await client.runMethod(address, method);
-
-        // Parse result stack - read all items
-        const resultItems: unknown[] = [];
-        while (result.stack.remaining > 0) {
-          // Read as generic tuple item
-          const itemType = result.stack.peek().type;
-
-          if (itemType === "int") {
-            resultItems.push({ type: "int", value: result.stack.readBigNumber().toString() });
-          } else if (itemType === "cell") {
-            const cell = result.stack.readCell();
-            resultItems.push({ type: "cell", hash: cell.hash().toString("hex") });
-          } else if (itemType === "slice") {
-            const slice = result.stack.readCell(); // Read slice as cell
-            resultItems.push({ type: "slice", hash: slice.hash().toString("hex") });
-          } else {
-            // Skip unknown types
-            result.stack.skip();
-            resultItems.push({ type: itemType, value: "unknown" });
-          }
+        const stack = parseGetterArgs((args?.args as GetterArg[] | undefined) ?? []);
+        const hints = args?.hints as Record<string, DecodeHint> | undefined;
+        const badHint = Object.values(hints ?? {}).find((hint) => !DECODE_HINTS.includes(hint));
+        if (badHint) {
+          return {
+            content: [{ type: "text", text: `Invalid hint: ${badHint}. Supported: ${DECODE_HINTS.join(", ")}` }],
+            isError: true,
+          };
         }
 
+        const result = await client.runMethod(address, method, stack);
+        const resultItems = decodeStack(result.stack, { hints, includeBoc: args?.includeBoc === true });
+
         return {
           content: [{
             type: "text",
@@ -222,6 +227,7 @@ export async function handleTonContractTool(
         const adminAddress = result.stack.readAddressOpt();
         const content = result.stack.readCell();
         const walletCode = result.stack.readCell();
+        const metadata = await getMetadataResolver().resolve(content);
 
         return {
           content: [{
@@ -234,6 +240,8 @@ export async function handleTonContractTool(
               adminAddress: adminAddress?.toString() || null,
               contentHash: content.hash().toString("hex"),
               walletCodeHash: walletCode.hash().toString("hex"),
+              // TEP-64's default of 9 only applies when the metadata loaded and left decimals unset
+              metadata: { ...metadata, decimals: metadata.decimals ?? (metadata.fetchError ? null : DEFAULT_JETTON_DECIMALS) },
             }, null, 2),
           }],
         };
@@ -249,6 +257,7 @@ export async function handleTonContractTool(
           const nextItemIndex = result.stack.readBigNumber();
           const content = result.stack.readCell();
           const ownerAddress = result.stack.readAddressOpt();
+          const metadata = await getMetadataResolver().resolve(content);
 
           return {
             content: [{
@@ -260,6 +269,7 @@ export async function handleTonContractTool(
                 nextItemIndex: nextItemIndex.toString(),
                 contentHash: content.hash().toString("hex"),
                 ownerAddress: ownerAddress?.toString() || null,
+                metadata,
               }, null, 2),
             }],
           };
@@ -272,6 +282,21 @@ export async function handleTonContractTool(
           const ownerAddress = result.stack.readAddressOpt();
           const content = result.stack.readCell();
 
+          // Items in a collection store only their part of the content
+          let fullContent = content;
+          if (collectionAddress) {
+            try {
+              const full = await client.runMethod(collectionAddress, "get_nft_content", [
+                { type: "int", value: index },
+                { type: "cell", cell: content },
+              ]);
+              fullContent = full.stack.readCell();
+            } catch {
+              // Fall back to the item's own content
+            }
+          }
+          const metadata = await getMetadataResolver().resolve(fullContent);
+
           return {
             content: [{
               type: "text",
@@ -284,6 +309,7 @@ export async function handleTonContractTool(
                 collectionAddress: collectionAddress?.toString() || null,
                 ownerAddress: ownerAddress?.toString() || null,
                 contentHash: content.hash().toString("hex"),
+                metadata,
               }, null, 2),
             }],
           };
@@ -0,0 +1,359 @@
+/**
+ * Jetton Tools
+ *
+ * MCP tools for TEP-74 jettons: find a holder's jetton wallet, read its
+ * balance, and transfer jettons from a connected wallet. Agent transfers
+ * are gated like ton_wallet_send.
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { internal } from "@ton/ton";
+import { Address, Cell, toNano, fromNano } from "@ton/core";
+import { ToolCallContext } from "../orchestrator/types.js";
+import { Network, getWalletRegistry, getSeqno, sendTransfer } from "../ton/wallet-registry.js";
+import {
+  DEFAULT_FORWARD_TON_AMOUNT,
+  DEFAULT_JETTON_DECIMALS,
+  getJettonWalletAddress,
+  getJettonWalletData,
+  getJettonContent,
+  buildJettonTransferBody,
+  commentPayload,
+  parseJettonAmount,
+  parseJettonDecimals,
+  formatJettonAmount,
+  jettonTransferValue,
+} from "../ton/jetton.js";
+import { NETWORKS, TonApi, getTonClient, resolveNetwork } from "../ton/client.js";
+import { getMetadataResolver } from "../ton/metadata.js";
+import { getTransactionTracker } from "../ton/tracker.js";
+import { trackedResult } from "./ton-wallet.js";
+
+type ToolResult = { content: Array<{ type: string; text: string }>; isError?: boolean };
+
+const registry = getWalletRegistry();
+
+const ok = (data: object): ToolResult => ({
+  content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+});
+
+const err = (message: string): ToolResult => ({
+  content: [{ type: "text", text: message }],
+  isError: true,
+});
+
+const masterAddressProperty = {
+  type: "string",
+  description: "Jetton master contract address",
+};
+
+const decimalsProperty = {
+  type: "number",
+  description: "Jetton decimals (default: from the jetton's metadata; USDT uses 6)",
+};
+
+const walletIdProperty = {
+  type: "string",
+  description: "Wallet handle (defaults to the wallet bound to the caller, then the default wallet)",
+};
+
+const networkProperty = {
+  type: "string",
+  enum: NETWORKS,
+  description: "Network to use when no wallet is connected (default: testnet, or the session's network)",
+};
+
+export const tonJettonTools: Tool[] = [
+  {
+    name: "ton_jetton_wallet_address",
+    description: "Find the jetton wallet address of a holder for a given jetton master",
+    inputSchema: {
+      type: "object",
+      properties: {
+        masterAddress: masterAddressProperty,
+        ownerAddress: {
+          type: "string",
+          description: "Holder address (default: the connected wallet)",
+        },
+        walletId: walletIdProperty,
+        network: networkProperty,
+      },
+      required: ["masterAddress"],
+    },
+  },
+  {
+    name: "ton_jetton_balance",
+    description: "Get a holder's balance of a jetton",
+    inputSchema: {
+      type: "object",
+      properties: {
+        masterAddress: masterAddressProperty,
+        ownerAddress: {
+          type: "string",
+          description: "Holder address (default: the connected wallet)",
+        },
+        decimals: decimalsProperty,
+        walletId: walletIdProperty,
+        network: networkProperty,
+      },
+      required: ["masterAddress"],
+    },
+  },
+  {
+    name: "ton_jetton_transfer",
+    description: "Transfer jettons from the connected wallet (TEP-74). ACTUALLY SENDS REAL TRANSACTIONS. Returns a txId to follow with ton_wallet_tx_status.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        masterAddress: masterAddressProperty,
+        to: {
+          type: "string",
+          description: "Recipient owner address (not their jetton wallet)",
+        },
+        amount: {
+          type: "string",
+          description: "Amount in jetton units (e.g., '12.5')",
+        },
+        decimals: {
+          type: "number",
+          description: "Jetton decimals (USDT uses 6, most jettons 9); must match the jetton's metadata",
+        },
+        comment: {
+          type: "string",
+          description: "Optional comment forwarded to the recipient",
+        },
+        forwardPayload: {
+          type: "string",
+          description: "Optional forward payload as a base64 BoC (instead of comment)",
+        },
+        forwardTonAmount: {
+          type: "string",
+          description: `TON forwarded to the recipient with the transfer notification (default: ${DEFAULT_FORWARD_TON_AMOUNT})`,
+        },
+        responseAddress: {
+          type: "string",
+          description: "Where excess TON is returned (default: the sending wallet)",
+        },
+        dryRun: {
+          type: "boolean",
+          description: "If true, prepare but don't send the transfer (default: false)",
+        },
+        walletId: walletIdProperty,
+      },
+      required: ["masterAddress", "to", "amount", "decimals"],
+    },
+  },
+];
+
+/**
+ * Holder to look up: the given address, or the caller's wallet
+ */
+function resolveOwner(
+  args: Record<string, unknown> | undefined,
+  context?: ToolCallContext
+): { owner: Address; client: TonApi; network: Network } {
+  const network = resolveNetwork(args?.network, context);
+  const wallet = args?.ownerAddress ? undefined : registry.resolve(args?.walletId as string | undefined, context);
+  const ownerStr = (args?.ownerAddress as string) || wallet?.address;
+  if (!ownerStr) {
+    throw new Error("No ownerAddress provided and no wallet connected");
+  }
+
+  return {
+    owner: Address.parse(ownerStr),
+    client: wallet?.client ?? getTonClient(network),
+    network: wallet?.network ?? network,
+  };
+}
+
+/**
+ * Decimals from a jetton master's TEP-64 metadata (9 when it does not say
+ * otherwise); undefined when its off-chain metadata could not be loaded
+ */
+async function metadataDecimals(client: TonApi, master: Address): Promise<number | undefined> {
+  const metadata = await getMetadataResolver().resolve(await getJettonContent(client, master));
+  if (metadata.fetchError) return undefined;
+  return metadata.decimals ?? DEFAULT_JETTON_DECIMALS;
+}
+
+export async function handleTonJettonTool(
+  name: string,
+  args: Record<string, unknown> | undefined,
+  context?: ToolCallContext
+): Promise<ToolResult> {
+  try {
+    return await handleJettonCall(name, args, context);
+  } catch (error) {
+    return err(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function handleJettonCall(
+  name: string,
+  args: Record<string, unknown> | undefined,
+  context?: ToolCallContext
+): Promise<ToolResult> {
+  switch (name) {
+    case "ton_jetton_wallet_address": {
+      const master = Address.parse(args?.masterAddress as string);
+      const { owner, client, network } = resolveOwner(args, context);
+      const jettonWallet = await getJettonWalletAddress(client, master, owner);
+
+      return ok({
+        masterAddress: master.toString(),
+        ownerAddress: owner.toString(),
+        jettonWalletAddress: jettonWallet.toString(),
+        network,
+      });
+    }
+
+    case "ton_jetton_balance": {
+      const master = Address.parse(args?.masterAddress as string);
+      const { owner, client, network } = resolveOwner(args, context);
+      const decimals = args?.decimals !== undefined
+        ? parseJettonDecimals(args.decimals)
+        : await metadataDecimals(client, master);
+
+      const jettonWallet = await getJettonWalletAddress(client, master, owner);
+      const data = await getJettonWalletData(client, jettonWallet, { owner, master });
+
+      return ok({
+        masterAddress: master.toString(),
+        ownerAddress: owner.toString(),
+        jettonWalletAddress: jettonWallet.toString(),
+        network,
+        deployed: data.deployed,
+        balance: decimals === undefined ? null : formatJettonAmount(data.balance, decimals),
+        balanceUnits: data.balance.toString(),
+        decimals: decimals ?? null,
+        ...(decimals === undefined && {
+          _note: "The jetton's metadata could not be loaded, so its decimals are unknown. Pass decimals to format the balance.",
+        }),
+      });
+    }
+
+    case "ton_jetton_transfer":
+      return transferJettons(args, context);
+
+    default:
+      return err(`Unknown jetton tool: ${name}`);
+  }
+}
+
+async function transferJettons(
+  args: Record<string, unknown> | undefined,
+  context?: ToolCallContext
+): Promise<ToolResult> {
+  const wallet = registry.resolve(args?.walletId as string | undefined, context);
+  if (!wallet) {
+    return err("No wallet connected with signing capability. Use ton_wallet_connect first.");
+  }
+
+  // Amounts are scaled by the decimals, so a wrong guess sends 1000x too much
+  if (args?.decimals === undefined) {
+    return err("decimals is required (USDT uses 6, most jettons 9; see ton_contract_jetton_info)");
+  }
+  const amount = args?.amount as string;
+  const decimals = parseJettonDecimals(args.decimals);
+  const comment = args?.comment as string | undefined;
+  const forwardTonAmount = (args?.forwardTonAmount as string | undefined) ?? DEFAULT_FORWARD_TON_AMOUNT;
+  const dryRun = (args?.dryRun as boolean) || false;
+
+  let master: Address;
+  let recipient: Address;
+  let responseAddress: Address;
+  try {
+    master = Address.parse(args?.masterAddress as string);
+    recipient = Address.parse(args?.to as string);
+    responseAddress = args?.responseAddress
+      ? Address.parse(args.responseAddress as string)
+      : wallet.contract.address;
+  } catch {
+    return err("Invalid address: masterAddress, to and responseAddress must be TON addresses");
+  }
+
+  const units = parseJettonAmount(String(amount ?? ""), decimals);
+  if (units <= 0n) {
+    return err(`Invalid amount: ${amount}`);
+  }
+
+  let forwardPayload: Cell | undefined;
+  if (args?.forwardPayload) {
+    forwardPayload = Cell.fromBase64(args.forwardPayload as string);
+  } else if (comment) {
+    forwardPayload = commentPayload(comment);
+  }
+
+  const client = wallet.client;
+  const knownDecimals = await metadataDecimals(client, master);
+  if (knownDecimals !== undefined && knownDecimals !== decimals) {
+    return err(`Wrong decimals: ${master.toString()} uses ${knownDecimals}, not ${decimals}`);
+  }
+
+  const owner = wallet.contract.address;
+  const jettonWallet = await getJettonWalletAddress(client, master, owner);
+  const jettonData = await getJettonWalletData(client, jettonWallet, { owner, master });
+  const tonBalance = await client.getBalance(owner);
+  const value = toNano(jettonTransferValue(forwardTonAmount));
+
+  if (jettonData.balance < units || tonBalance < value) {
+    return {
+      ...err("Insufficient balance"),
+      content: [{ type: "text", text: JSON.stringify({
+        error: "Insufficient balance",
+        jettonBalance: formatJettonAmount(jettonData.balance, decimals),
+        requested: amount,
+        tonBalance: fromNano(tonBalance),
+        tonRequired: fromNano(value),
+      }, null, 2) }],
+    };
+  }
+
+  const seqno = await getSeqno(wallet);
+  const body = buildJettonTransferBody({
+    queryId: BigInt(Date.now()),
+    amount: units,
+    destination: recipient,
+    responseDestination: responseAddress,
+    forwardTonAmount: toNano(forwardTonAmount),
+    forwardPayload,
+  });
+
+  const txInfo = {
+    walletId: wallet.id,
+    from: wallet.address,
+    jettonWallet: jettonWallet.toString(),
+    masterAddress: master.toString(),
+    to: recipient.toString(),
+    amount,
+    amountUnits: units.toString(),
+    decimals,
+    comment: comment || null,
+    tonAttached: fromNano(value),
+    seqno,
+  };
+
+  if (dryRun) {
+    return ok({
+      dryRun: true,
+      status: "prepared",
+      ...txInfo,
+      jettonBalance: formatJettonAmount(jettonData.balance, decimals),
+      jettonBalanceAfter: formatJettonAmount(jettonData.balance - units, decimals),
+      _note: "Transfer NOT sent. Remove dryRun:true to send.",
+    });
+  }
+
+  const sent = await sendTransfer(wallet, seqno, [
+    internal({ to: jettonWallet, value, body, bounce: true }),
+  ]);
+  // Followed as far as the sender's jetton wallet; it bounces transfers it cannot make
+  const tracked = await getTransactionTracker().track(
+    wallet,
+    sent,
+    { kind: "jetton", to: txInfo.to, amount, jetton: txInfo.masterAddress, comment: txInfo.comment },
+    { sessionId: context?.sessionId, agentId: context?.agentId }
+  );
+
+  return ok({ success: true, ...trackedResult(tracked), ...txInfo });
+}
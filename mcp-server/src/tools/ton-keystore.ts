@@ -0,0 +1,287 @@
+/**
+ * Keystore Tools
+ *
+ * MCP tools for the encrypted mnemonic keystore. Mnemonics are read from a
+ * file or environment variable on the server, never from tool arguments;
+ * unlocked wallets are registered under their alias and locked again after
+ * a timeout, so agents only ever see the alias.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { getKeystore } from "../ton/keystore.js";
+import { WalletVersion, WALLET_VERSIONS, getWalletRegistry, createWalletContract } from "../ton/wallet-registry.js";
+import { NETWORKS, resolveNetwork } from "../ton/client.js";
+import { mnemonicToKeyPair, connectKeyPair } from "./ton-wallet.js";
+
+type ToolResult = { content: Array<{ type: string; text: string }>; isError?: boolean };
+
+const ok = (data: object): ToolResult => ({
+  content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+});
+
+const err = (msg: string): ToolResult => ({
+  content: [{ type: "text", text: msg }],
+  isError: true,
+});
+
+const DEFAULT_UNLOCK_TIMEOUT_SECONDS = 900;
+// A week; also keeps the auto-lock timer within setTimeout's range (~24.8 days)
+const MAX_UNLOCK_TIMEOUT_SECONDS = 7 * 24 * 60 * 60;
+
+// Only files in here may be imported from, so callers cannot read others
+const DEFAULT_IMPORT_DIR = ".clawmasutra/import";
+
+// Auto-lock timers of unlocked wallets
+const unlocked: Map<string, { timer: NodeJS.Timeout; until: Date }> = new Map();
+
+const passphraseProperty = {
+  type: "string",
+  description: "Keystore passphrase (default: KEYSTORE_PASSPHRASE env var)",
+};
+
+export const tonKeystoreTools: Tool[] = [
+  {
+    name: "ton_keystore_import",
+    description: "Encrypt a 24-word mnemonic into the local keystore under an alias. The mnemonic is read from a file or environment variable on the server, never passed as an argument.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        alias: {
+          type: "string",
+          description: "Name to refer to the wallet by (lowercase letters, digits, '-' or '_')",
+        },
+        mnemonicFile: {
+          type: "string",
+          description: "File containing the mnemonic, relative to KEYSTORE_IMPORT_DIR (default: .clawmasutra/import)",
+        },
+        mnemonicEnv: {
+          type: "string",
+          description: "Name of an environment variable containing the mnemonic",
+        },
+        passphrase: passphraseProperty,
+        network: {
+          type: "string",
+          enum: NETWORKS,
+          description: "Network the wallet is used on (default: testnet)",
+        },
+        version: {
+          type: "string",
+          enum: WALLET_VERSIONS,
+          description: "Wallet contract version (default: v4)",
+        },
+      },
+      required: ["alias"],
+    },
+  },
+  {
+    name: "ton_keystore_list",
+    description: "List keystore wallets by alias, with their address and whether they are unlocked",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "ton_keystore_unlock",
+    description: "Decrypt a keystore wallet and connect it under its alias for a limited time. Wallet tools then accept the alias as walletId.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        alias: {
+          type: "string",
+          description: "Keystore alias",
+        },
+        passphrase: passphraseProperty,
+        timeoutSeconds: {
+          type: "number",
+          description: "Lock again after this many seconds, at most 604800 (default: KEYSTORE_UNLOCK_TIMEOUT_SECONDS or 900)",
+        },
+        sessionId: {
+          type: "string",
+          description: "Bind the wallet to this session instead of making it the default",
+        },
+        agentId: {
+          type: "string",
+          description: "Bind the wallet to this agent of the session (requires sessionId)",
+        },
+      },
+      required: ["alias"],
+    },
+  },
+  {
+    name: "ton_keystore_lock",
+    description: "Lock an unlocked keystore wallet, clearing its keys from memory",
+    inputSchema: {
+      type: "object",
+      properties: {
+        alias: {
+          type: "string",
+          description: "Keystore alias",
+        },
+      },
+      required: ["alias"],
+    },
+  },
+];
+
+/**
+ * Forget an unlocked wallet's keys and bindings
+ */
+function lock(alias: string): boolean {
+  const state = unlocked.get(alias);
+  if (state) {
+    clearTimeout(state.timer);
+    unlocked.delete(alias);
+  }
+  return getWalletRegistry().remove(alias) || !!state;
+}
+
+/**
+ * Read a mnemonic file from the import directory. Errors never echo the
+ * file, since a caller could otherwise probe any path on the server.
+ */
+function readMnemonicFile(file: string): string {
+  const dir = path.resolve(process.env.KEYSTORE_IMPORT_DIR || DEFAULT_IMPORT_DIR);
+  let real: string;
+  try {
+    real = fs.realpathSync(path.resolve(dir, file));
+    const relative = path.relative(fs.realpathSync(dir), real);
+    if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+      throw new Error("outside");
+    }
+  } catch {
+    throw new Error("mnemonicFile must name a file in the keystore import directory (KEYSTORE_IMPORT_DIR)");
+  }
+  return fs.readFileSync(real, "utf-8");
+}
+
+function readMnemonic(args: Record<string, unknown> | undefined): string {
+  const file = args?.mnemonicFile as string | undefined;
+  const envName = args?.mnemonicEnv as string | undefined;
+
+  if (file) {
+    return readMnemonicFile(file);
+  }
+  if (envName) {
+    const value = process.env[envName];
+    if (!value) throw new Error(`Environment variable ${envName} is not set`);
+    return value;
+  }
+  throw new Error("Provide mnemonicFile or mnemonicEnv");
+}
+
+function requirePassphrase(args: Record<string, unknown> | undefined): string {
+  const passphrase = (args?.passphrase as string | undefined) || process.env.KEYSTORE_PASSPHRASE;
+  if (!passphrase) throw new Error("No passphrase given and KEYSTORE_PASSPHRASE is not set");
+  return passphrase;
+}
+
+export async function handleTonKeystoreTool(
+  name: string,
+  args: Record<string, unknown> | undefined
+): Promise<ToolResult> {
+  try {
+    return await handleKeystoreCall(name, args);
+  } catch (error) {
+    return err(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function handleKeystoreCall(name: string, args: Record<string, unknown> | undefined): Promise<ToolResult> {
+  const keystore = getKeystore();
+
+  switch (name) {
+    case "ton_keystore_import": {
+      const alias = args?.alias as string;
+      const network = resolveNetwork(args?.network);
+      const version = (args?.version as WalletVersion) || "v4";
+      if (!alias) return err("alias is required");
+      if (!WALLET_VERSIONS.includes(version)) {
+        return err(`Invalid wallet version: ${version}. Supported: ${WALLET_VERSIONS.join(", ")}`);
+      }
+
+      const passphrase = requirePassphrase(args);
+      const mnemonic = readMnemonic(args);
+      // The details would quote what the source holds instead
+      const keyPair = await mnemonicToKeyPair(mnemonic).catch(() => {
+        throw new Error("The mnemonic source does not hold a valid 24-word mnemonic");
+      });
+      const address = createWalletContract(version, keyPair.publicKey, network).address.toString();
+
+      const wallet = await keystore.import(alias, mnemonic.trim().toLowerCase().split(/\s+/), passphrase, {
+        address,
+        version,
+        network,
+      });
+      return ok({ success: true, ...wallet });
+    }
+
+    case "ton_keystore_list": {
+      const wallets = keystore.list().map((wallet) => ({
+        ...wallet,
+        unlocked: unlocked.has(wallet.alias),
+        unlockedUntil: unlocked.get(wallet.alias)?.until.toISOString(),
+      }));
+      return ok({ count: wallets.length, wallets });
+    }
+
+    case "ton_keystore_unlock": {
+      const alias = args?.alias as string;
+      const sessionId = args?.sessionId as string | undefined;
+      const agentId = args?.agentId as string | undefined;
+      const timeoutSeconds =
+        (args?.timeoutSeconds as number | undefined) ??
+        parseInt(process.env.KEYSTORE_UNLOCK_TIMEOUT_SECONDS || String(DEFAULT_UNLOCK_TIMEOUT_SECONDS), 10);
+      if (!alias) return err("alias is required");
+      if (agentId && !sessionId) return err("agentId requires sessionId");
+      if (!(timeoutSeconds > 0)) return err("timeoutSeconds must be positive");
+      if (timeoutSeconds > MAX_UNLOCK_TIMEOUT_SECONDS) {
+        return err(`timeoutSeconds must be at most ${MAX_UNLOCK_TIMEOUT_SECONDS} (7 days)`);
+      }
+
+      const stored = keystore.get(alias);
+      if (!stored) return err(`No wallet in keystore with alias: ${alias}`);
+
+      const mnemonic = await keystore.decrypt(alias, requirePassphrase(args));
+      const keyPair = await mnemonicToKeyPair(mnemonic.join(" "));
+
+      lock(alias);
+      const entry = connectKeyPair({
+        keyPair,
+        version: stored.version,
+        network: stored.network,
+        id: alias,
+        label: alias,
+        sessionId,
+        agentId,
+      });
+
+      const until = new Date(Date.now() + timeoutSeconds * 1000);
+      const timer = setTimeout(() => lock(alias), timeoutSeconds * 1000);
+      timer.unref();
+      unlocked.set(alias, { timer, until });
+
+      return ok({
+        success: true,
+        walletId: entry.id,
+        address: entry.address,
+        network: entry.network,
+        version: entry.version,
+        isDefault: getWalletRegistry().getDefault()?.id === entry.id,
+        boundTo: sessionId ? { sessionId, agentId } : undefined,
+        unlockedUntil: until.toISOString(),
+      });
+    }
+
+    case "ton_keystore_lock": {
+      const alias = args?.alias as string;
+      if (!alias) return err("alias is required");
+      return ok({ success: true, alias, wasUnlocked: lock(alias) });
+    }
+
+    default:
+      return err(`Unknown keystore tool: ${name}`);
+  }
+}
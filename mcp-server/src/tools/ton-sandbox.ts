@@ -0,0 +1,265 @@
+/**
+ * Sandbox Tools
+ *
+ * MCP tools that set up the in-process sandbox network for rehearsals:
+ * create funded wallets, top up addresses, deploy contracts and move the
+ * clock. Sessions started with network "sandbox" then run every ton_*
+ * tool against it, with real signing but no network access.
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { mnemonicNew, mnemonicToPrivateKey } from "@ton/crypto";
+import { Address, Cell, fromNano, toNano } from "@ton/core";
+import { WalletVersion, WALLET_VERSIONS, getWalletRegistry } from "../ton/wallet-registry.js";
+import { getSandbox } from "../ton/sandbox.js";
+import { decodeTransaction } from "../ton/transactions.js";
+import { connectKeyPair, parseTime } from "./ton-wallet.js";
+
+type ToolResult = { content: Array<{ type: string; text: string }>; isError?: boolean };
+
+const ok = (data: object): ToolResult => ({
+  content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+});
+
+const err = (msg: string): ToolResult => ({
+  content: [{ type: "text", text: msg }],
+  isError: true,
+});
+
+const DEFAULT_WALLET_FUNDING = "1000";
+const DEFAULT_DEPLOY_VALUE = "0.5";
+
+export const tonSandboxTools: Tool[] = [
+  {
+    name: "ton_sandbox_create_wallet",
+    description: "Create a wallet with a fresh key on the sandbox network and fund it from the sandbox treasury. Returns a walletId usable by every ton_* tool and in session wallet bindings.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        amount: {
+          type: "string",
+          description: `TON to fund the wallet with (default: ${DEFAULT_WALLET_FUNDING})`,
+        },
+        version: {
+          type: "string",
+          enum: WALLET_VERSIONS,
+          description: "Wallet contract version (default: v4)",
+        },
+        label: {
+          type: "string",
+          description: "Optional name for the wallet",
+        },
+        sessionId: {
+          type: "string",
+          description: "Bind the wallet to this session instead of making it the default",
+        },
+        agentId: {
+          type: "string",
+          description: "Bind the wallet to this agent of the session (requires sessionId)",
+        },
+      },
+    },
+  },
+  {
+    name: "ton_sandbox_fund",
+    description: "Send TON from the sandbox treasury to an address or sandbox wallet",
+    inputSchema: {
+      type: "object",
+      properties: {
+        address: {
+          type: "string",
+          description: "Address to fund",
+        },
+        walletId: {
+          type: "string",
+          description: "Sandbox wallet to fund (instead of address)",
+        },
+        amount: {
+          type: "string",
+          description: "Amount in TON",
+        },
+      },
+      required: ["amount"],
+    },
+  },
+  {
+    name: "ton_sandbox_deploy",
+    description: "Deploy a contract on the sandbox network from its code and initial data, paid for by the sandbox treasury",
+    inputSchema: {
+      type: "object",
+      properties: {
+        code: {
+          type: "string",
+          description: "Contract code as a base64 BoC",
+        },
+        data: {
+          type: "string",
+          description: "Initial data as a base64 BoC",
+        },
+        value: {
+          type: "string",
+          description: `TON sent with the deploy message (default: ${DEFAULT_DEPLOY_VALUE})`,
+        },
+        body: {
+          type: "string",
+          description: "Optional deploy message body as a base64 BoC",
+        },
+      },
+      required: ["code", "data"],
+    },
+  },
+  {
+    name: "ton_sandbox_time",
+    description: "Read or move the sandbox clock. Time stands still unless moved, so sandbox runs are deterministic.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        set: {
+          type: ["string", "number"],
+          description: "New time: ISO date or unix seconds (never earlier than now)",
+        },
+        advance: {
+          type: "number",
+          description: "Seconds to move the clock forward",
+        },
+      },
+    },
+  },
+  {
+    name: "ton_sandbox_reset",
+    description: "Discard every sandbox account and transaction and rewind the clock. Sandbox wallets stay connected but have to be funded again.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+];
+
+function parseAmount(value: unknown, field: string): bigint {
+  let amount: bigint;
+  try {
+    amount = toNano(String(value));
+  } catch {
+    throw new Error(`Invalid ${field}: ${value}`);
+  }
+  if (amount <= 0n) throw new Error(`Invalid ${field}: ${value}`);
+  return amount;
+}
+
+export async function handleTonSandboxTool(
+  name: string,
+  args: Record<string, unknown> | undefined
+): Promise<ToolResult> {
+  try {
+    return await handleSandboxCall(name, args);
+  } catch (error) {
+    return err(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function handleSandboxCall(name: string, args: Record<string, unknown> | undefined): Promise<ToolResult> {
+  const sandbox = getSandbox();
+
+  switch (name) {
+    case "ton_sandbox_create_wallet": {
+      const version = (args?.version as WalletVersion) || "v4";
+      const sessionId = args?.sessionId as string | undefined;
+      const agentId = args?.agentId as string | undefined;
+      if (!WALLET_VERSIONS.includes(version)) {
+        return err(`Invalid wallet version: ${version}. Supported: ${WALLET_VERSIONS.join(", ")}`);
+      }
+      if (agentId && !sessionId) return err("agentId requires sessionId");
+      const amount = parseAmount(args?.amount ?? DEFAULT_WALLET_FUNDING, "amount");
+
+      const keyPair = await mnemonicToPrivateKey(await mnemonicNew());
+      const entry = connectKeyPair({
+        keyPair,
+        version,
+        network: "sandbox",
+        label: args?.label as string | undefined,
+        sessionId,
+        agentId,
+      });
+      await sandbox.fund(entry.contract.address, amount);
+
+      return ok({
+        success: true,
+        walletId: entry.id,
+        address: entry.address,
+        network: entry.network,
+        version: entry.version,
+        balance: fromNano(await entry.client.getBalance(entry.contract.address)),
+        isDefault: getWalletRegistry().getDefault()?.id === entry.id,
+        boundTo: sessionId ? { sessionId, agentId } : undefined,
+      });
+    }
+
+    case "ton_sandbox_fund": {
+      const walletId = args?.walletId as string | undefined;
+      let address: Address;
+      if (walletId) {
+        const entry = getWalletRegistry().get(walletId);
+        if (!entry) return err(`Wallet not found: ${walletId}`);
+        if (entry.network !== "sandbox") return err(`Wallet ${walletId} is on ${entry.network}, not sandbox`);
+        address = entry.contract.address;
+      } else if (args?.address) {
+        address = Address.parse(args.address as string);
+      } else {
+        return err("Provide address or walletId");
+      }
+      const amount = parseAmount(args?.amount, "amount");
+
+      await sandbox.fund(address, amount);
+      return ok({
+        success: true,
+        address: address.toString(),
+        funded: fromNano(amount),
+        balance: fromNano(await sandbox.client.getBalance(address)),
+      });
+    }
+
+    case "ton_sandbox_deploy": {
+      if (!args?.code || !args?.data) return err("code and data are required");
+      const code = Cell.fromBase64(args.code as string);
+      const data = Cell.fromBase64(args.data as string);
+      const body = args.body ? Cell.fromBase64(args.body as string) : undefined;
+      const value = parseAmount(args.value ?? DEFAULT_DEPLOY_VALUE, "value");
+
+      const { address, transactions } = await sandbox.deploy(code, data, value, body);
+      const state = await sandbox.client.getContractState(address);
+      return ok({
+        success: state.state === "active",
+        address: address.toString(),
+        state: state.state,
+        balance: fromNano(state.balance),
+        transactions: transactions.map((tx) => decodeTransaction(tx).classification),
+      });
+    }
+
+    case "ton_sandbox_time": {
+      const set = parseTime(args?.set, "set");
+      const advance = args?.advance as number | undefined;
+      if (set !== undefined && advance !== undefined) return err("Provide set or advance, not both");
+      if (advance !== undefined && !(Number.isInteger(advance) && advance >= 0)) {
+        return err(`Invalid advance: ${advance} (expected whole seconds)`);
+      }
+
+      if (set !== undefined) await sandbox.setTime(set);
+      if (advance !== undefined) await sandbox.setTime(sandbox.now() + advance);
+      return ok({ now: sandbox.now(), time: new Date(sandbox.now() * 1000).toISOString() });
+    }
+
+    case "ton_sandbox_reset": {
+      sandbox.reset();
+      return ok({
+        success: true,
+        now: sandbox.now(),
+        wallets: getWalletRegistry().list().filter((entry) => entry.network === "sandbox").map((entry) => entry.id),
+        message: "Sandbox reset. Connected sandbox wallets need funding again (ton_sandbox_fund).",
+      });
+    }
+
+    default:
+      return err(`Unknown sandbox tool: ${name}`);
+  }
+}
@@ -1,32 +1,48 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { TonClient, WalletContractV4, internal } from "@ton/ton";
+import { internal } from "@ton/ton";
 import { mnemonicToPrivateKey, KeyPair } from "@ton/crypto";
-import { Address, toNano, fromNano, beginCell } from "@ton/core";
+import { Address, Cell, MessageRelaxed, StateInit, toNano, fromNano, beginCell, contractAddress, loadStateInit } from "@ton/core";
+import { ToolCallContext } from "../orchestrator/types.js";
+import {
+  Network,
+  WalletEntry,
+  WalletVersion,
+  WALLET_VERSIONS,
+  MAX_TRANSFER_MESSAGES,
+  getWalletRegistry,
+  createWalletContract,
+  getSeqno,
+  sendTransfer,
+} from "../ton/wallet-registry.js";
+import { NETWORKS, getTonClient, resolveNetwork } from "../ton/client.js";
+import { estimateTransferFees } from "../ton/fees.js";
+import { FINAL_STATUSES, TrackedStatus, TrackedTransfer, getTransactionTracker } from "../ton/tracker.js";
+import {
+  DEFAULT_MAX_SCAN,
+  MAX_SCAN_LIMIT,
+  HistoryDirection,
+  HistoryQuery,
+  TransactionSource,
+  fetchHistory,
+  summarizeHistory,
+} from "../ton/history.js";
 
-type Network = "mainnet" | "testnet";
 type ToolResult = { content: Array<{ type: string; text: string }>; isError?: boolean };
 
-const ENDPOINTS: Record<Network, string> = {
-  mainnet: "https://toncenter.com/api/v2/jsonRPC",
-  testnet: "https://testnet.toncenter.com/api/v2/jsonRPC",
-};
-
-interface WalletState {
-  client: TonClient | null;
-  wallet: WalletContractV4 | null;
-  keyPair: KeyPair | null;
-  address: string | null;
-  network: Network;
-}
+const MAX_HISTORY_LIMIT = 100;
+const MAX_STATUS_WAIT_SECONDS = 60;
 
-const state: WalletState = {
-  client: null,
-  wallet: null,
-  keyPair: null,
-  address: null,
-  network: "testnet",
+const STATUS_NOTES: Record<TrackedStatus, string> = {
+  pending: "Submitted, not yet executed by the wallet. Check again with ton_wallet_tx_status.",
+  sent: "Executed by the wallet; waiting for the destination to process it. Check again with ton_wallet_tx_status.",
+  confirmed: "Delivered: the wallet sent it and the destination accepted it.",
+  bounced: "The destination rejected the transfer and the value bounced back (minus fees).",
+  failed: "The transfer failed; see reason.",
+  expired: "Never executed and can no longer be: nothing was sent. It is safe to send again.",
 };
 
+const registry = getWalletRegistry();
+
 const ok = (data: object): ToolResult => ({
   content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
 });
@@ -36,13 +52,90 @@ const err = (message: string): ToolResult => ({
   isError: true,
 });
 
-const getClient = (network: Network = "testnet") =>
-  state.client || new TonClient({ endpoint: ENDPOINTS[network] });
+const networkProperty = {
+  type: "string",
+  enum: NETWORKS,
+  description: "Network of the address when no wallet is used (default: testnet, or the session's network)",
+};
+
+const walletIdProperty = {
+  type: "string",
+  description: "Wallet handle from ton_wallet_connect (defaults to the wallet bound to the caller, then the default wallet)",
+};
+
+/**
+ * Validate a 24-word mnemonic and derive its key pair
+ */
+export async function mnemonicToKeyPair(mnemonic: unknown): Promise<KeyPair> {
+  if (!mnemonic || typeof mnemonic !== "string") {
+    throw new Error("Invalid mnemonic: must be a string");
+  }
+
+  const mnemonicArray = mnemonic.trim().toLowerCase().split(/\s+/);
+  if (mnemonicArray.length !== 24) {
+    throw new Error(`Invalid mnemonic: must be 24 words (got ${mnemonicArray.length})`);
+  }
+
+  // Basic validation: words should be lowercase alphabetic
+  const invalidWords = mnemonicArray.filter(w => !/^[a-z]+$/.test(w));
+  if (invalidWords.length > 0) {
+    throw new Error(`Invalid mnemonic: words must be lowercase letters only. Invalid: ${invalidWords.slice(0, 3).join(", ")}${invalidWords.length > 3 ? "..." : ""}`);
+  }
+
+  // mnemonicToPrivateKey will throw if words aren't valid BIP39
+  try {
+    return await mnemonicToPrivateKey(mnemonicArray);
+  } catch (e) {
+    throw new Error(`Invalid mnemonic: ${e instanceof Error ? e.message : "not a valid BIP39 phrase"}`);
+  }
+}
+
+/**
+ * Register a signing wallet. Unscoped wallets become the default; scoped
+ * ones are bound to their session/agent instead.
+ */
+export function connectKeyPair(params: {
+  keyPair: KeyPair;
+  version: WalletVersion;
+  network: Network;
+  id?: string;
+  label?: string;
+  sessionId?: string;
+  agentId?: string;
+}): WalletEntry {
+  const { keyPair, version, network, sessionId, agentId } = params;
+  const contract = createWalletContract(version, keyPair.publicKey, network);
+
+  const entry = registry.add({
+    id: params.id,
+    version,
+    network,
+    address: contract.address.toString(),
+    contract,
+    keyPair,
+    client: getTonClient(network),
+    label: params.label,
+  }, !sessionId);
+  if (sessionId) {
+    registry.bind(entry.id, { sessionId, agentId });
+  }
+  return entry;
+}
+
+const describeWallet = (entry: WalletEntry) => ({
+  walletId: entry.id,
+  address: entry.address,
+  network: entry.network,
+  version: entry.version,
+  label: entry.label,
+  isDefault: registry.getDefault()?.id === entry.id,
+  connectedAt: entry.connectedAt.toISOString(),
+});
 
 export const tonWalletTools: Tool[] = [
   {
     name: "ton_wallet_connect",
-    description: "Connect to a TON wallet using mnemonic phrase. Returns the wallet address. WARNING: The mnemonic is stored in memory for signing transactions.",
+    description: "Connect to a TON wallet using mnemonic phrase. Returns a walletId handle that other wallet tools accept, and the wallet address. WARNING: The mnemonic passes through the tool call and the key is stored in memory; prefer ton_keystore_unlock.",
     inputSchema: {
       type: "object",
       properties: {
@@ -52,8 +145,25 @@ export const tonWalletTools: Tool[] = [
         },
         network: {
           type: "string",
-          enum: ["mainnet", "testnet"],
-          description: "Network to connect to (default: testnet)",
+          enum: NETWORKS,
+          description: "Network to connect to (default: testnet; sandbox is an in-process emulated chain)",
+        },
+        version: {
+          type: "string",
+          enum: WALLET_VERSIONS,
+          description: "Wallet contract version (default: v4)",
+        },
+        label: {
+          type: "string",
+          description: "Optional name for the wallet",
+        },
+        sessionId: {
+          type: "string",
+          description: "Bind the wallet to this session instead of making it the default",
+        },
+        agentId: {
+          type: "string",
+          description: "Bind the wallet to this agent of the session (requires sessionId)",
         },
       },
       required: ["mnemonic"],
@@ -69,12 +179,14 @@ export const tonWalletTools: Tool[] = [
           type: "string",
           description: "TON wallet address (uses connected wallet if not provided)",
         },
+        network: networkProperty,
+        walletId: walletIdProperty,
       },
     },
   },
   {
     name: "ton_wallet_send",
-    description: "Send TON from the connected wallet to an address. ACTUALLY SENDS REAL TRANSACTIONS.",
+    description: "Send TON from the connected wallet to an address. ACTUALLY SENDS REAL TRANSACTIONS. Returns a txId to follow with ton_wallet_tx_status until the transfer is confirmed, bounced, failed or expired.",
     inputSchema: {
       type: "object",
       properties: {
@@ -92,15 +204,90 @@ export const tonWalletTools: Tool[] = [
         },
         dryRun: {
           type: "boolean",
-          description: "If true, prepare but don't send the transaction (default: false)",
+          description: "If true, prepare but don't send the transaction; fees are estimated by emulating it (default: false)",
         },
+        walletId: walletIdProperty,
       },
       required: ["to", "amount"],
     },
   },
+  {
+    name: "ton_wallet_send_batch",
+    description: `Send several TON messages from the wallet in one transaction: one seqno and one fee for the whole batch. Up to ${MAX_TRANSFER_MESSAGES.v4} messages on v3r2/v4 wallets, ${MAX_TRANSFER_MESSAGES.v5r1} on v5r1. ACTUALLY SENDS REAL TRANSACTIONS. Returns one txId to follow with ton_wallet_tx_status.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        messages: {
+          type: "array",
+          description: "Messages to send, in order",
+          items: {
+            type: "object",
+            properties: {
+              to: {
+                type: "string",
+                description: "Recipient TON address",
+              },
+              amount: {
+                type: "string",
+                description: "Amount in TON (e.g., '0.5')",
+              },
+              comment: {
+                type: "string",
+                description: "Optional comment (instead of body)",
+              },
+              body: {
+                type: "string",
+                description: "Optional message body as a base64 BoC (instead of comment)",
+              },
+              stateInit: {
+                type: "string",
+                description: "Optional StateInit as a base64 BoC, to deploy the recipient (must match its address)",
+              },
+              bounce: {
+                type: "boolean",
+                description: "Bounce the value back if the recipient rejects it (default: false)",
+              },
+            },
+            required: ["to", "amount"],
+          },
+        },
+        dryRun: {
+          type: "boolean",
+          description: "If true, prepare but don't send the batch; fees are estimated by emulating it (default: false)",
+        },
+        walletId: walletIdProperty,
+      },
+      required: ["messages"],
+    },
+  },
+  {
+    name: "ton_wallet_tx_status",
+    description: "Status of a transfer sent with ton_wallet_send, ton_wallet_send_batch or ton_jetton_transfer: pending (not executed yet), sent (executed, not yet delivered), confirmed, bounced, failed or expired (never executed, safe to resend). Lists recent transfers when no txId is given.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        txId: {
+          type: "string",
+          description: "txId returned by the send",
+        },
+        wait: {
+          type: "number",
+          description: `Seconds to wait for the transfer to settle (default: 0, max: ${MAX_STATUS_WAIT_SECONDS})`,
+        },
+        walletId: {
+          type: "string",
+          description: "Without txId: only list transfers from this wallet",
+        },
+        limit: {
+          type: "number",
+          description: "Without txId: number of transfers to list (default: 10)",
+        },
+      },
+    },
+  },
   {
     name: "ton_wallet_transactions",
-    description: "Get recent transactions for a TON wallet",
+    description: "Get transactions for a TON wallet, decoded: comments, out-messages, fees, phase exit codes, jetton/NFT ops and a classification of each. Pages backwards with a cursor and filters by time, direction and value; summary mode aggregates totals and top counterparties instead",
     inputSchema: {
       type: "object",
       properties: {
@@ -110,8 +297,39 @@ export const tonWalletTools: Tool[] = [
         },
         limit: {
           type: "number",
-          description: "Number of transactions to fetch (default: 10)",
+          description: "Number of matching transactions to return (default: 10, max: 100)",
+        },
+        cursor: {
+          type: "string",
+          description: "nextCursor from a previous call, to continue with older transactions",
+        },
+        since: {
+          type: ["string", "number"],
+          description: "Oldest time to include: ISO date or unix seconds",
+        },
+        until: {
+          type: ["string", "number"],
+          description: "Newest time to include: ISO date or unix seconds",
+        },
+        direction: {
+          type: "string",
+          enum: ["in", "out", "all"],
+          description: "Only transactions receiving (in) or sending (out) TON (default: all)",
+        },
+        minValue: {
+          type: "string",
+          description: "Minimum TON moved in the chosen direction",
+        },
+        summary: {
+          type: "boolean",
+          description: "Return totals in/out, fees, kinds and counterparties ranked by volume instead of transactions",
+        },
+        maxScan: {
+          type: "number",
+          description: `Stop after reading this many raw transactions (default: ${DEFAULT_MAX_SCAN}, at most ${MAX_SCAN_LIMIT}); resume with nextCursor`,
         },
+        network: networkProperty,
+        walletId: walletIdProperty,
       },
     },
   },
@@ -120,75 +338,264 @@ export const tonWalletTools: Tool[] = [
     description: "Get current wallet connection status and info",
     inputSchema: {
       type: "object",
-      properties: {},
+      properties: {
+        walletId: walletIdProperty,
+      },
     },
   },
   {
     name: "ton_wallet_disconnect",
-    description: "Disconnect the current wallet and clear stored keys from memory",
+    description: "Disconnect a wallet and clear its keys from memory. Other connected wallets are unaffected.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        walletId: {
+          type: "string",
+          description: "Wallet handle to disconnect (default: the default wallet)",
+        },
+      },
+    },
+  },
+  {
+    name: "ton_wallet_list",
+    description: "List connected wallets and their session/agent bindings",
     inputSchema: {
       type: "object",
       properties: {},
     },
   },
+  {
+    name: "ton_wallet_bind",
+    description: "Bind a connected wallet to a session, or to one agent of a session, so its agents sign with it",
+    inputSchema: {
+      type: "object",
+      properties: {
+        walletId: {
+          type: "string",
+          description: "Wallet handle from ton_wallet_connect",
+        },
+        sessionId: {
+          type: "string",
+          description: "Session to bind to",
+        },
+        agentId: {
+          type: "string",
+          description: "Bind only this agent of the session",
+        },
+      },
+      required: ["walletId", "sessionId"],
+    },
+  },
+  {
+    name: "ton_wallet_unbind",
+    description: "Remove a session or agent wallet binding",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sessionId: {
+          type: "string",
+          description: "Session to unbind",
+        },
+        agentId: {
+          type: "string",
+          description: "Unbind only this agent",
+        },
+      },
+      required: ["sessionId"],
+    },
+  },
 ];
 
+/**
+ * The wallet a call acts on (throws if the requested wallet is unknown or
+ * not bound to the calling agent)
+ */
+function resolveWallet(args: Record<string, unknown> | undefined, context?: ToolCallContext): WalletEntry | undefined {
+  return registry.resolve(args?.walletId as string | undefined, context);
+}
+
+/**
+ * Unix seconds from an ISO date or a number (throws on garbage)
+ */
+export function parseTime(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const seconds = typeof value === "number" || /^\d+$/.test(String(value))
+    ? Number(value)
+    : Math.floor(Date.parse(String(value)) / 1000);
+  if (!Number.isFinite(seconds)) {
+    throw new Error(`Invalid ${field}: ${value} (expected an ISO date or unix seconds)`);
+  }
+  return seconds;
+}
+
+// A batch message as reported back
+interface BatchItem {
+  to: string;
+  amount: string;
+  comment: string | null;
+  bounce: boolean;
+  body: boolean; // carries a custom body
+  deploys: boolean; // carries a StateInit
+}
+
+/**
+ * One message of a batch send (throws with the message's position)
+ */
+function parseBatchMessage(input: unknown, index: number): { item: BatchItem; value: bigint; message: MessageRelaxed } {
+  const fail = (reason: string) => new Error(`Message ${index + 1}: ${reason}`);
+  if (!input || typeof input !== "object") throw fail("expected an object with to and amount");
+  const { to, amount, comment, body, stateInit, bounce } = input as Record<string, unknown>;
+
+  let recipient: Address;
+  try {
+    recipient = Address.parse(String(to));
+  } catch {
+    throw fail(`invalid recipient address: ${to}`);
+  }
+
+  let amountNano: bigint;
+  try {
+    amountNano = toNano(String(amount));
+  } catch {
+    throw fail(`invalid amount: ${amount}`);
+  }
+  if (amountNano <= 0n) throw fail(`amount must be positive: ${amount}`);
+
+  if (comment !== undefined && body !== undefined) throw fail("give either comment or body, not both");
+  let payload: Cell | undefined;
+  try {
+    payload = body !== undefined
+      ? Cell.fromBase64(String(body))
+      : comment ? beginCell().storeUint(0, 32).storeStringTail(String(comment)).endCell() : undefined;
+  } catch {
+    throw fail("body is not a valid base64 BoC");
+  }
+
+  let init: StateInit | undefined;
+  if (stateInit !== undefined) {
+    try {
+      init = loadStateInit(Cell.fromBase64(String(stateInit)).beginParse());
+    } catch {
+      throw fail("stateInit is not a valid base64 StateInit BoC");
+    }
+    if (!contractAddress(recipient.workChain, init).equals(recipient)) {
+      throw fail("stateInit does not match the recipient address");
+    }
+  }
+
+  return {
+    item: {
+      to: recipient.toString(),
+      amount: String(amount),
+      comment: comment ? String(comment) : null,
+      bounce: bounce === true,
+      body: body !== undefined,
+      deploys: !!init,
+    },
+    value: amountNano,
+    message: internal({ to: recipient, value: amountNano, body: payload, init, bounce: bounce === true }),
+  };
+}
+
+/**
+ * What a send tool or ton_wallet_tx_status reports about a tracked transfer
+ */
+export function trackedResult(tracked: TrackedTransfer) {
+  return {
+    txId: tracked.id,
+    status: tracked.status,
+    hash: tracked.hash,
+    fees: tracked.fees,
+    reason: tracked.reason,
+    transfer: tracked.transfer,
+    messages: tracked.messages,
+    submittedAt: tracked.submittedAt,
+    updatedAt: tracked.updatedAt,
+    ...(tracked.lastError && { _pollError: tracked.lastError }),
+    _note: STATUS_NOTES[tracked.status],
+  };
+}
+
+// Tools that manage the wallet registry itself
+const OPERATOR_TOOLS = ["ton_wallet_connect", "ton_wallet_disconnect", "ton_wallet_list", "ton_wallet_bind", "ton_wallet_unbind"];
+
 export async function handleTonWalletTool(
   name: string,
-  args: Record<string, unknown> | undefined
+  args: Record<string, unknown> | undefined,
+  context?: ToolCallContext
+): Promise<ToolResult> {
+  try {
+    return await handleWalletCall(name, args, context);
+  } catch (error) {
+    return err(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function handleWalletCall(
+  name: string,
+  args: Record<string, unknown> | undefined,
+  context?: ToolCallContext
 ): Promise<ToolResult> {
+  // A context means an agent is calling; which wallets exist and which
+  // session uses which is the operator's business
+  if (context && OPERATOR_TOOLS.includes(name)) {
+    return err(`${name} is not available to agents`);
+  }
+
   switch (name) {
     case "ton_wallet_connect": {
       const mnemonic = args?.mnemonic as string;
-      const network = (args?.network as Network) || "testnet";
+      const network = resolveNetwork(args?.network, context);
+      const version = (args?.version as WalletVersion) || "v4";
+      const sessionId = args?.sessionId as string | undefined;
+      const agentId = args?.agentId as string | undefined;
 
-      if (!mnemonic || typeof mnemonic !== "string") {
-        return err("Invalid mnemonic: must be a string");
+      if (!WALLET_VERSIONS.includes(version)) {
+        return err(`Invalid wallet version: ${version}. Supported: ${WALLET_VERSIONS.join(", ")}`);
       }
-
-      const mnemonicArray = mnemonic.trim().toLowerCase().split(/\s+/);
-      if (mnemonicArray.length !== 24) {
-        return err(`Invalid mnemonic: must be 24 words (got ${mnemonicArray.length})`);
-      }
-
-      // Basic validation: words should be lowercase alphabetic
-      const invalidWords = mnemonicArray.filter(w => !/^[a-z]+$/.test(w));
-      if (invalidWords.length > 0) {
-        return err(`Invalid mnemonic: words must be lowercase letters only. Invalid: ${invalidWords.slice(0, 3).join(", ")}${invalidWords.length > 3 ? "..." : ""}`);
+      if (agentId && !sessionId) {
+        return err("agentId requires sessionId");
       }
 
-      // mnemonicToPrivateKey will throw if words aren't valid BIP39
       let keyPair: KeyPair;
       try {
-        keyPair = await mnemonicToPrivateKey(mnemonicArray);
+        keyPair = await mnemonicToKeyPair(mnemonic);
       } catch (e) {
-        return err(`Invalid mnemonic: ${e instanceof Error ? e.message : "not a valid BIP39 phrase"}`);
+        return err(e instanceof Error ? e.message : String(e));
       }
-      const wallet = WalletContractV4.create({ publicKey: keyPair.publicKey, workchain: 0 });
-      const client = new TonClient({ endpoint: ENDPOINTS[network] });
 
-      state.client = client;
-      state.wallet = wallet;
-      state.keyPair = keyPair;
-      state.address = wallet.address.toString();
-      state.network = network;
+      const entry = connectKeyPair({
+        keyPair,
+        version,
+        network,
+        label: args?.label as string | undefined,
+        sessionId,
+        agentId,
+      });
+      const { contract, client } = entry;
 
-      const contractState = await client.getContractState(wallet.address);
+      const contractState = await client.getContractState(contract.address);
 
       return ok({
         success: true,
-        address: state.address,
-        network: state.network,
+        walletId: entry.id,
+        address: entry.address,
+        network: entry.network,
+        version: entry.version,
+        isDefault: registry.getDefault()?.id === entry.id,
+        boundTo: sessionId ? { sessionId, agentId } : undefined,
         isDeployed: contractState.state === "active",
-        _warning: "Private key is stored in memory. Use ton_wallet_disconnect when done.",
+        _warning: "Private key is stored in memory. Use ton_wallet_disconnect when done, and prefer ton_keystore_import/ton_keystore_unlock so the mnemonic never passes through tool calls.",
       });
     }
 
     case "ton_wallet_balance": {
-      const addressStr = (args?.address as string) || state.address;
+      const wallet = args?.address ? undefined : resolveWallet(args, context);
+      const addressStr = (args?.address as string) || wallet?.address;
       if (!addressStr) return err("No address provided and no wallet connected");
 
-      const balance = await getClient().getBalance(Address.parse(addressStr));
+      const client = wallet?.client ?? getTonClient(resolveNetwork(args?.network, context));
+      const balance = await client.getBalance(Address.parse(addressStr));
 
       return ok({
         address: addressStr,
@@ -198,7 +605,8 @@ export async function handleTonWalletTool(
     }
 
     case "ton_wallet_send": {
-      if (!state.wallet || !state.client || !state.keyPair) {
+      const wallet = resolveWallet(args, context);
+      if (!wallet) {
         return err("No wallet connected with signing capability. Use ton_wallet_connect first.");
       }
 
@@ -222,29 +630,34 @@ export async function handleTonWalletTool(
         return err(`Invalid amount: ${amount}`);
       }
 
-      const contract = state.client.open(state.wallet);
-      const seqno = await contract.getSeqno();
-      const balance = await state.client.getBalance(state.wallet.address);
-      const estimatedFee = toNano("0.01");
+      const body = message
+        ? beginCell().storeUint(0, 32).storeStringTail(message).endCell()
+        : undefined;
+      const messages = [internal({ to: recipientAddress, value: amountNano, body, bounce: false })];
+
+      const seqno = await getSeqno(wallet);
+      const balance = await wallet.client.getBalance(wallet.contract.address);
+      const fees = await estimateTransferFees(wallet, seqno, messages);
+      const estimatedFee = BigInt(fees.totalNano);
+      const insufficient = balance < amountNano + estimatedFee;
 
-      if (balance < amountNano + estimatedFee) {
+      if (insufficient || !fees.success) {
+        const error = insufficient ? "Insufficient balance" : `Transfer would fail: ${fees.failure}`;
         return {
-          ...err("Insufficient balance"),
+          ...err(error),
           content: [{ type: "text", text: JSON.stringify({
-            error: "Insufficient balance",
+            error,
             balance: fromNano(balance),
             requested: amount,
             estimatedFee: fromNano(estimatedFee),
+            fees,
           }, null, 2) }],
         };
       }
 
-      const body = message
-        ? beginCell().storeUint(0, 32).storeStringTail(message).endCell()
-        : undefined;
-
       const txInfo = {
-        from: state.address,
+        walletId: wallet.id,
+        from: wallet.address,
         to: recipientAddress.toString(),
         amount,
         amountNano: amountNano.toString(),
@@ -260,80 +673,225 @@ export async function handleTonWalletTool(
           balance: fromNano(balance),
           balanceAfter: fromNano(balance - amountNano - estimatedFee),
           estimatedFee: fromNano(estimatedFee),
+          fees,
           _note: "Transaction NOT sent. Remove dryRun:true to send.",
         });
       }
 
-      await contract.sendTransfer({
-        seqno,
-        secretKey: state.keyPair.secretKey,
-        messages: [internal({ to: recipientAddress, value: amountNano, body, bounce: false })],
-      });
+      const sent = await sendTransfer(wallet, seqno, messages);
+      const tracked = await getTransactionTracker().track(
+        wallet,
+        sent,
+        { kind: "ton", to: txInfo.to, amount, comment: txInfo.message },
+        { sessionId: context?.sessionId, agentId: context?.agentId }
+      );
 
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      let newSeqno = seqno;
-      let seqnoCheckError: string | undefined;
-      try {
-        newSeqno = await contract.getSeqno();
-      } catch (e) {
-        seqnoCheckError = e instanceof Error ? e.message : String(e);
-        console.error("Failed to check new seqno:", seqnoCheckError);
+      return ok({ success: true, ...trackedResult(tracked), ...txInfo });
+    }
+
+    case "ton_wallet_send_batch":
+      return sendBatch(args, context);
+
+    case "ton_wallet_tx_status": {
+      const tracker = getTransactionTracker();
+      const txId = args?.txId as string | undefined;
+      const waitSeconds = Math.min((args?.wait as number | undefined) ?? 0, MAX_STATUS_WAIT_SECONDS);
+      if (!(waitSeconds >= 0)) return err(`Invalid wait: ${args?.wait}`);
+
+      if (!txId) {
+        const transfers = tracker
+          .list({ walletId: args?.walletId as string | undefined, sessionId: context?.sessionId })
+          .slice(0, Math.min((args?.limit as number) || 10, MAX_HISTORY_LIMIT));
+        return ok({ count: transfers.length, transfers: transfers.map(trackedResult) });
       }
 
-      const confirmed = newSeqno > seqno;
-      return ok({
-        success: true,
-        status: confirmed ? "confirmed" : "pending",
-        ...txInfo,
-        newSeqno,
-        ...(seqnoCheckError && { _seqnoCheckError: seqnoCheckError }),
-        _note: confirmed
-          ? "Transaction confirmed (seqno increased)"
-          : "Transaction submitted but not yet confirmed. Check balance in a few seconds.",
-      });
+      // Agents only see their own session's transfers
+      const tracked = tracker.get(txId);
+      if (!tracked || (context && tracked.sessionId !== context.sessionId)) {
+        return err(`Unknown transaction: ${txId}`);
+      }
+      if (FINAL_STATUSES.includes(tracked.status)) return ok(trackedResult(tracked));
+      if (waitSeconds === 0) {
+        await tracker.poll(txId);
+        return ok(trackedResult(tracker.get(txId)!));
+      }
+      return ok(trackedResult((await tracker.wait(txId, waitSeconds * 1000))!));
     }
 
     case "ton_wallet_transactions": {
-      const addressStr = (args?.address as string) || state.address;
-      const limit = (args?.limit as number) || 10;
+      const wallet = args?.address ? undefined : resolveWallet(args, context);
+      const addressStr = (args?.address as string) || wallet?.address;
+      const limit = Math.min((args?.limit as number) || 10, MAX_HISTORY_LIMIT);
 
       if (!addressStr) return err("No address provided and no wallet connected");
 
-      const transactions = await getClient().getTransactions(Address.parse(addressStr), { limit });
+      const direction = (args?.direction as HistoryDirection | undefined) ?? "all";
+      if (!["in", "out", "all"].includes(direction)) {
+        return err(`Invalid direction: ${direction} (expected in, out or all)`);
+      }
+      const maxScan = args?.maxScan;
+      if (maxScan !== undefined && (!Number.isInteger(maxScan) || (maxScan as number) < 1 || (maxScan as number) > MAX_SCAN_LIMIT)) {
+        return err(`Invalid maxScan: ${maxScan} (expected an integer from 1 to ${MAX_SCAN_LIMIT})`);
+      }
+      const query: HistoryQuery = {
+        limit,
+        cursor: args?.cursor as string | undefined,
+        since: parseTime(args?.since, "since"),
+        until: parseTime(args?.until, "until"),
+        direction,
+        minValue: args?.minValue !== undefined ? String(args.minValue) : undefined,
+        maxScan: maxScan as number | undefined,
+      };
+
+      const client = wallet?.client ?? getTonClient(resolveNetwork(args?.network, context));
+      const address = Address.parse(addressStr);
+      const source: TransactionSource = (opts) => client.getTransactions(address, opts);
+
+      if (args?.summary) {
+        return ok({ address: addressStr, summary: await summarizeHistory(source, query) });
+      }
 
+      const page = await fetchHistory(source, query);
       return ok({
         address: addressStr,
-        count: transactions.length,
-        transactions: transactions.map((tx) => ({
-          hash: tx.hash().toString("hex"),
-          lt: tx.lt.toString(),
-          now: tx.now,
-          inMessage: tx.inMessage && tx.inMessage.info.type === "internal" ? {
-            value: fromNano(tx.inMessage.info.value.coins),
-            src: tx.inMessage.info.src?.toString() || null,
-          } : null,
-          outMessagesCount: tx.outMessagesCount,
+        count: page.transactions.length,
+        scanned: page.scanned,
+        nextCursor: page.nextCursor,
+        transactions: page.transactions.map((tx) => ({
+          ...tx,
+          outMessagesCount: tx.outMessages.length,
         })),
       });
     }
 
-    case "ton_wallet_info":
+    case "ton_wallet_info": {
+      const wallet = resolveWallet(args, context);
+      return ok({
+        connected: !!wallet,
+        canSign: !!wallet?.keyPair,
+        walletId: wallet?.id ?? null,
+        address: wallet?.address ?? null,
+        network: wallet?.network ?? "testnet",
+        version: wallet?.version ?? null,
+        connectedWallets: registry.list().length,
+      });
+    }
+
+    case "ton_wallet_disconnect": {
+      const walletId = (args?.walletId as string) || registry.getDefault()?.id;
+      if (!walletId || !registry.remove(walletId)) {
+        return ok({ success: true, message: "No wallet to disconnect." });
+      }
+      return ok({ success: true, walletId, message: "Wallet disconnected. Keys cleared from memory." });
+    }
+
+    case "ton_wallet_list":
       return ok({
-        connected: !!state.wallet,
-        canSign: !!state.keyPair,
-        address: state.address,
-        network: state.network,
+        count: registry.list().length,
+        wallets: registry.list().map(describeWallet),
+        bindings: registry.listBindings(),
       });
 
-    case "ton_wallet_disconnect":
-      state.client = null;
-      state.wallet = null;
-      state.keyPair = null;
-      state.address = null;
-      state.network = "testnet";
-      return ok({ success: true, message: "Wallet disconnected. Keys cleared from memory." });
+    case "ton_wallet_bind": {
+      const walletId = args?.walletId as string;
+      const sessionId = args?.sessionId as string;
+      if (!walletId || !sessionId) return err("walletId and sessionId are required");
+
+      const agentId = args?.agentId as string | undefined;
+      registry.bind(walletId, { sessionId, agentId });
+      return ok({ success: true, walletId, sessionId, agentId });
+    }
+
+    case "ton_wallet_unbind": {
+      const sessionId = args?.sessionId as string;
+      if (!sessionId) return err("sessionId is required");
+
+      const agentId = args?.agentId as string | undefined;
+      return ok({ success: registry.unbind({ sessionId, agentId }), sessionId, agentId });
+    }
 
     default:
       return err(`Unknown wallet tool: ${name}`);
   }
 }
+
+/**
+ * Several messages from one wallet transaction
+ */
+async function sendBatch(args: Record<string, unknown> | undefined, context?: ToolCallContext): Promise<ToolResult> {
+  const wallet = resolveWallet(args, context);
+  if (!wallet) {
+    return err("No wallet connected with signing capability. Use ton_wallet_connect first.");
+  }
+
+  const inputs = args?.messages;
+  if (!Array.isArray(inputs) || inputs.length === 0) {
+    return err("messages must be a non-empty array");
+  }
+  const limit = MAX_TRANSFER_MESSAGES[wallet.version];
+  if (inputs.length > limit) {
+    return err(`Too many messages: ${wallet.version} wallets send at most ${limit} per transaction (got ${inputs.length})`);
+  }
+  const dryRun = (args?.dryRun as boolean) || false;
+
+  let batch: ReturnType<typeof parseBatchMessage>[];
+  try {
+    batch = inputs.map(parseBatchMessage);
+  } catch (error) {
+    return err(error instanceof Error ? error.message : String(error));
+  }
+  const messages = batch.map((item) => item.message);
+  const totalNano = batch.reduce((sum, { value }) => sum + value, 0n);
+
+  const seqno = await getSeqno(wallet);
+  const balance = await wallet.client.getBalance(wallet.contract.address);
+  const fees = await estimateTransferFees(wallet, seqno, messages);
+  const estimatedFee = BigInt(fees.totalNano);
+  const insufficient = balance < totalNano + estimatedFee;
+
+  if (insufficient || !fees.success) {
+    const error = insufficient ? "Insufficient balance" : `Batch would fail: ${fees.failure}`;
+    return {
+      ...err(error),
+      content: [{ type: "text", text: JSON.stringify({
+        error,
+        balance: fromNano(balance),
+        requested: fromNano(totalNano),
+        estimatedFee: fromNano(estimatedFee),
+        fees,
+      }, null, 2) }],
+    };
+  }
+
+  const txInfo = {
+    walletId: wallet.id,
+    from: wallet.address,
+    count: batch.length,
+    total: fromNano(totalNano),
+    batch: batch.map(({ item }) => item),
+    seqno,
+  };
+
+  if (dryRun) {
+    return ok({
+      dryRun: true,
+      status: "prepared",
+      ...txInfo,
+      balance: fromNano(balance),
+      balanceAfter: fromNano(balance - totalNano - estimatedFee),
+      estimatedFee: fromNano(estimatedFee),
+      fees,
+      _note: "Batch NOT sent. Remove dryRun:true to send.",
+    });
+  }
+
+  const sent = await sendTransfer(wallet, seqno, messages);
+  const tracked = await getTransactionTracker().track(
+    wallet,
+    sent,
+    { kind: "batch", to: `${batch.length} recipients`, amount: txInfo.total },
+    { sessionId: context?.sessionId, agentId: context?.agentId }
+  );
+
+  return ok({ success: true, ...trackedResult(tracked), ...txInfo });
+}
@@ -1,8 +1,16 @@
-import { describe, it } from "node:test";
+import { describe, it, before, after } from "node:test";
 import assert from "node:assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { mnemonicNew } from "@ton/crypto";
+import { Address } from "@ton/core";
 
 import { handleTonWalletTool, tonWalletTools } from "./ton-wallet.js";
 import { handleTonContractTool, tonContractTools } from "./ton-contract.js";
+import { handleTonKeystoreTool } from "./ton-keystore.js";
+import { handleTonJettonTool, tonJettonTools } from "./ton-jetton.js";
+import { handleTonSandboxTool } from "./ton-sandbox.js";
 
 describe("TON Wallet Tool Definitions", () => {
   it("should have required wallet tools defined", () => {
@@ -44,7 +52,7 @@ describe("TON Contract Tool Definitions", () => {
       );
       assert.deepStrictEqual(
         props?.network?.enum,
-        ["mainnet", "testnet"],
+        ["mainnet", "testnet", "sandbox"],
         `${tool.name} network should have correct enum`
       );
     }
@@ -105,6 +113,70 @@ describe("TON Wallet Handler - No Connection", () => {
     const result = await handleTonWalletTool("ton_wallet_unknown", {});
     assert.ok(result.isError, "Should error on unknown tool");
   });
+
+  it("should reject unsupported wallet versions", async () => {
+    const result = await handleTonWalletTool("ton_wallet_connect", {
+      mnemonic: "invalid mnemonic",
+      version: "v2r1",
+    });
+    assert.ok(result.isError, "Should error on unsupported version");
+    assert.ok(result.content[0].text.includes("v3r2, v4, v5r1"), "Should list supported versions");
+  });
+
+  it("should list no wallets and refuse to bind unknown handles", async () => {
+    const list = JSON.parse((await handleTonWalletTool("ton_wallet_list", {})).content[0].text);
+    assert.strictEqual(list.count, 0);
+
+    const result = await handleTonWalletTool("ton_wallet_bind", { walletId: "wallet-missing", sessionId: "s1" });
+    assert.ok(result.isError, "Should error on unknown wallet");
+    assert.ok(result.content[0].text.includes("Wallet not found"));
+  });
+
+  it("should validate transaction history filters before querying", async () => {
+    const address = "EQDvRVnzT0D6C00E7iCbPXDwwz_nlhM0YPHP0U7xnPs1Rrr1";
+
+    const direction = await handleTonWalletTool("ton_wallet_transactions", { address, direction: "sideways" });
+    assert.ok(direction.isError);
+    assert.ok(direction.content[0].text.includes("Invalid direction"));
+
+    const since = await handleTonWalletTool("ton_wallet_transactions", { address, since: "last tuesday" });
+    assert.ok(since.isError);
+    assert.ok(since.content[0].text.includes("Invalid since"));
+
+    for (const maxScan of [0, -5, 2.5, "100", 1e9]) {
+      const result = await handleTonWalletTool("ton_wallet_transactions", { address, maxScan });
+      assert.ok(result.isError, `maxScan ${maxScan} should be refused`);
+      assert.ok(result.content[0].text.includes("Invalid maxScan"));
+    }
+  });
+});
+
+describe("TON Jetton Tools", () => {
+  it("should define wallet lookup, balance and transfer tools", () => {
+    const toolNames = tonJettonTools.map(t => t.name);
+    assert.deepStrictEqual(toolNames, ["ton_jetton_wallet_address", "ton_jetton_balance", "ton_jetton_transfer"]);
+
+    const transfer = tonJettonTools.find(t => t.name === "ton_jetton_transfer");
+    assert.deepStrictEqual(transfer?.inputSchema.required, ["masterAddress", "to", "amount", "decimals"]);
+  });
+
+  it("should need an owner or a connected wallet", async () => {
+    const result = await handleTonJettonTool("ton_jetton_balance", {
+      masterAddress: "EQCD39VS5jcptHL8vMjEXrzGaRcCVYto7HUn4bpAOg8xqB2N",
+    });
+    assert.ok(result.isError);
+    assert.ok(result.content[0].text.includes("No ownerAddress provided"));
+  });
+
+  it("should refuse to transfer without a wallet", async () => {
+    const result = await handleTonJettonTool("ton_jetton_transfer", {
+      masterAddress: "EQCD39VS5jcptHL8vMjEXrzGaRcCVYto7HUn4bpAOg8xqB2N",
+      to: "EQCD39VS5jcptHL8vMjEXrzGaRcCVYto7HUn4bpAOg8xqB2N",
+      amount: "1",
+    });
+    assert.ok(result.isError);
+    assert.ok(result.content[0].text.includes("No wallet connected"));
+  });
 });
 
 describe("TON Contract Handler - Error Handling", () => {
@@ -120,3 +192,174 @@ describe("TON Contract Handler - Error Handling", () => {
     assert.ok(result.isError, "Should error on unknown tool");
   });
 });
+
+describe("TON Keystore Tools", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "clawmasutra-keystore-"));
+    process.env.KEYSTORE_PATH = path.join(dir, "keystore.json");
+    process.env.KEYSTORE_PASSPHRASE = "test-passphrase";
+    process.env.TEST_KEYSTORE_MNEMONIC = (await mnemonicNew()).join(" ");
+    process.env.KEYSTORE_IMPORT_DIR = path.join(dir, "import");
+    fs.mkdirSync(process.env.KEYSTORE_IMPORT_DIR);
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should import from an environment variable and refuse raw mnemonics", async () => {
+    const result = await handleTonKeystoreTool("ton_keystore_import", {
+      alias: "treasury",
+      mnemonicEnv: "TEST_KEYSTORE_MNEMONIC",
+    });
+    assert.ok(!result.isError, result.content[0].text);
+    assert.ok(!result.content[0].text.includes(process.env.TEST_KEYSTORE_MNEMONIC!.split(" ")[0] + " "));
+
+    const raw = await handleTonKeystoreTool("ton_keystore_import", { alias: "raw", mnemonic: "word ".repeat(24) });
+    assert.ok(raw.isError, "Should require mnemonicFile or mnemonicEnv");
+  });
+
+  it("should only import files from the import directory, without echoing them", async () => {
+    fs.writeFileSync(path.join(dir, "secret.txt"), "hunter2 password");
+    fs.writeFileSync(path.join(dir, "import", "notes.txt"), "quarterly figures");
+    fs.writeFileSync(path.join(dir, "import", "cold.txt"), process.env.TEST_KEYSTORE_MNEMONIC!);
+
+    for (const mnemonicFile of ["../secret.txt", path.join(dir, "secret.txt"), "notes.txt"]) {
+      const result = await handleTonKeystoreTool("ton_keystore_import", { alias: "probe", mnemonicFile });
+      assert.ok(result.isError, mnemonicFile);
+      assert.ok(!/hunter2|password|quarterly|figures/.test(result.content[0].text), result.content[0].text);
+    }
+
+    const result = await handleTonKeystoreTool("ton_keystore_import", { alias: "cold", mnemonicFile: "cold.txt" });
+    assert.ok(!result.isError, result.content[0].text);
+  });
+
+  it("should unlock under the alias and lock again after the timeout", async () => {
+    const wrong = await handleTonKeystoreTool("ton_keystore_unlock", { alias: "treasury", passphrase: "nope" });
+    assert.ok(wrong.isError);
+    assert.ok(wrong.content[0].text.includes("Wrong passphrase"));
+
+    const tooLong = await handleTonKeystoreTool("ton_keystore_unlock", { alias: "treasury", timeoutSeconds: 30 * 24 * 60 * 60 });
+    assert.ok(tooLong.isError);
+    assert.ok(tooLong.content[0].text.includes("at most 604800"));
+
+    const result = await handleTonKeystoreTool("ton_keystore_unlock", { alias: "treasury", timeoutSeconds: 0.2 });
+    const unlocked = JSON.parse(result.content[0].text);
+    assert.strictEqual(unlocked.walletId, "treasury");
+    assert.strictEqual(unlocked.isDefault, true);
+
+    const info = JSON.parse((await handleTonWalletTool("ton_wallet_info", { walletId: "treasury" })).content[0].text);
+    assert.strictEqual(info.canSign, true);
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    const list = JSON.parse((await handleTonKeystoreTool("ton_keystore_list", {})).content[0].text);
+    assert.strictEqual(list.wallets[0].unlocked, false);
+    const wallets = JSON.parse((await handleTonWalletTool("ton_wallet_list", {})).content[0].text);
+    assert.strictEqual(wallets.count, 0, "Keys should be cleared on auto-lock");
+  });
+
+  it("should lock on request", async () => {
+    await handleTonKeystoreTool("ton_keystore_unlock", { alias: "treasury" });
+    const locked = JSON.parse((await handleTonKeystoreTool("ton_keystore_lock", { alias: "treasury" })).content[0].text);
+    assert.strictEqual(locked.wasUnlocked, true);
+    assert.ok((await handleTonWalletTool("ton_wallet_info", { walletId: "treasury" })).isError);
+  });
+});
+
+describe("TON Sandbox Tools", () => {
+  const recipient = new Address(0, Buffer.alloc(32, 7)).toString();
+  const sandboxSession = { sessionId: "embrace-sandbox", agentId: "agent-a", role: "Leader", network: "sandbox" as const };
+
+  it("should rehearse a real send on a funded sandbox wallet", async () => {
+    const created = await handleTonSandboxTool("ton_sandbox_create_wallet", { amount: "50", sessionId: "embrace-sandbox" });
+    assert.ok(!created.isError, created.content[0].text);
+    const wallet = JSON.parse(created.content[0].text);
+    assert.strictEqual(wallet.network, "sandbox");
+    assert.strictEqual(wallet.balance, "50");
+
+    // Dry runs emulate the transfer for its fees
+    const dry = await handleTonWalletTool("ton_wallet_send", { to: recipient, amount: "5", dryRun: true }, sandboxSession);
+    const estimate = JSON.parse(dry.content[0].text);
+    assert.strictEqual(estimate.fees.method, "emulation");
+    assert.strictEqual(estimate.balanceAfter, estimate.fees.balanceAfter);
+
+    // Agents of a sandbox session sign with the bound sandbox wallet
+    const sent = await handleTonWalletTool("ton_wallet_send", { to: recipient, amount: "5" }, sandboxSession);
+    assert.ok(!sent.isError, sent.content[0].text);
+    const send = JSON.parse(sent.content[0].text);
+    assert.strictEqual(send.status, "confirmed");
+    assert.strictEqual(send.walletId, wallet.walletId);
+    assert.match(send.hash, /^[0-9a-f]{64}$/);
+
+    const status = await handleTonWalletTool("ton_wallet_tx_status", { txId: send.txId }, sandboxSession);
+    assert.strictEqual(JSON.parse(status.content[0].text).status, "confirmed");
+    const foreign = await handleTonWalletTool("ton_wallet_tx_status", { txId: send.txId }, { ...sandboxSession, sessionId: "other" });
+    assert.ok(foreign.isError, "Transfers of other sessions stay hidden");
+
+    // Reads for arbitrary addresses stay on the session's network
+    const balance = await handleTonWalletTool("ton_wallet_balance", { address: recipient, network: "testnet" }, sandboxSession);
+    assert.strictEqual(JSON.parse(balance.content[0].text).balance, "5");
+
+    const history = await handleTonWalletTool("ton_wallet_transactions", { address: recipient, network: "sandbox" });
+    const [received] = JSON.parse(history.content[0].text).transactions;
+    assert.strictEqual(received.classification.kind, "ton_transfer_in");
+
+    const info = await handleTonContractTool("ton_contract_get_info", { address: wallet.address, network: "sandbox" });
+    assert.strictEqual(JSON.parse(info.content[0].text).state, "active");
+  });
+
+  it("should pay several recipients from one wallet transaction", async () => {
+    const batchSession = { ...sandboxSession, sessionId: "pyramid-sandbox" };
+    const created = await handleTonSandboxTool("ton_sandbox_create_wallet", { amount: "20", sessionId: "pyramid-sandbox" });
+    const wallet = JSON.parse(created.content[0].text);
+    const other = new Address(0, Buffer.alloc(32, 8)).toString();
+    const messages = [
+      { to: recipient, amount: "1", comment: "reward" },
+      { to: other, amount: "2" },
+    ];
+
+    const dry = JSON.parse((await handleTonWalletTool("ton_wallet_send_batch", { messages, dryRun: true }, batchSession)).content[0].text);
+    assert.strictEqual(dry.total, "3");
+    assert.strictEqual(dry.fees.method, "emulation");
+
+    const sent = await handleTonWalletTool("ton_wallet_send_batch", { messages }, batchSession);
+    assert.ok(!sent.isError, sent.content[0].text);
+    const batch = JSON.parse(sent.content[0].text);
+    assert.strictEqual(batch.status, "confirmed");
+    assert.strictEqual(batch.seqno, 0, "One seqno for the whole batch");
+    assert.deepStrictEqual(batch.messages.map((message: { status: string }) => message.status), ["delivered", "delivered"]);
+    const after = JSON.parse((await handleTonWalletTool("ton_wallet_balance", { walletId: wallet.walletId })).content[0].text);
+    assert.strictEqual(after.balance, dry.balanceAfter);
+
+    // v4 wallets carry at most 4 messages
+    const tooMany = await handleTonWalletTool("ton_wallet_send_batch", { messages: Array(5).fill(messages[1]) }, batchSession);
+    assert.ok(tooMany.content[0].text.includes("at most 4"));
+    const invalid = await handleTonWalletTool("ton_wallet_send_batch", { messages: [messages[0], { to: other, amount: "0" }] }, batchSession);
+    assert.ok(invalid.content[0].text.startsWith("Message 2:"));
+  });
+
+  it("should move the sandbox clock forward only", async () => {
+    const before = JSON.parse((await handleTonSandboxTool("ton_sandbox_time", {})).content[0].text);
+    const moved = JSON.parse((await handleTonSandboxTool("ton_sandbox_time", { advance: 3600 })).content[0].text);
+    assert.strictEqual(moved.now, before.now + 3600);
+
+    const back = await handleTonSandboxTool("ton_sandbox_time", { set: before.now });
+    assert.ok(back.isError);
+    assert.ok(back.content[0].text.includes("only move forward"));
+  });
+
+  it("should fund addresses and validate amounts", async () => {
+    const funded = await handleTonSandboxTool("ton_sandbox_fund", { address: recipient, amount: "1.5" });
+    assert.ok(!funded.isError, funded.content[0].text);
+    assert.strictEqual(JSON.parse(funded.content[0].text).funded, "1.5");
+
+    const missing = await handleTonSandboxTool("ton_sandbox_fund", { amount: "1" });
+    assert.ok(missing.isError);
+
+    const invalid = await handleTonSandboxTool("ton_sandbox_fund", { address: recipient, amount: "-1" });
+    assert.ok(invalid.isError);
+    assert.ok(invalid.content[0].text.includes("Invalid amount"));
+  });
+});